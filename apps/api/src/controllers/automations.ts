@@ -0,0 +1,229 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { track } from "../lib/hog";
+import { requirePermission } from "../lib/roles";
+import {
+  AutomationError,
+  AutomationService,
+} from "../lib/services/automation.service";
+import { SchedulerService } from "../lib/services/scheduler.service";
+import { prisma } from "../prisma";
+
+function ruleData(body: any) {
+  const {
+    name,
+    description,
+    active,
+    order,
+    trigger,
+    conditions,
+    matchAll,
+    actions,
+    stopProcessing,
+  } = body;
+
+  return {
+    name,
+    description,
+    active,
+    order,
+    trigger,
+    conditions,
+    matchAll,
+    actions,
+    stopProcessing,
+  };
+}
+
+function invalid(reply: FastifyReply, error: unknown) {
+  if (error instanceof AutomationError) {
+    return reply.status(400).send({
+      message: error.message,
+      success: false,
+    });
+  }
+  throw error;
+}
+
+export function automationRoutes(fastify: FastifyInstance) {
+  // Create an automation rule
+  fastify.post(
+    "/api/v1/automation/create",
+    {
+      preHandler: requirePermission(["automation::create"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const body: any = request.body;
+
+      try {
+        AutomationService.validate({
+          ...body,
+          name: body.name || "",
+          actions: body.actions || [],
+        });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      const rule = await prisma.automationRule.create({
+        data: ruleData(body),
+      });
+
+      const client = track();
+
+      client.capture({
+        event: "automation_created",
+        distinctId: "uuid",
+      });
+
+      client.shutdownAsync();
+
+      reply.status(200).send({ rule, success: true });
+    }
+  );
+
+  // Get all automation rules in run order
+  fastify.get(
+    "/api/v1/automations/all",
+    {
+      preHandler: requirePermission(["automation::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const rules = await prisma.automationRule.findMany({
+        orderBy: [{ trigger: "asc" }, { order: "asc" }, { createdAt: "asc" }],
+      });
+
+      reply.status(200).send({ rules, success: true });
+    }
+  );
+
+  // Update an automation rule
+  fastify.put(
+    "/api/v1/automation/:id/update",
+    {
+      preHandler: requirePermission(["automation::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const body: any = request.body;
+
+      try {
+        AutomationService.validate(body);
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      const rule = await prisma.automationRule.update({
+        where: { id },
+        data: {
+          ...ruleData(body),
+          updatedAt: new Date(),
+        },
+      });
+
+      reply.status(200).send({ rule, success: true });
+    }
+  );
+
+  // Delete an automation rule and its run log
+  fastify.delete(
+    "/api/v1/automation/:id/delete",
+    {
+      preHandler: requirePermission(["automation::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      await prisma.automationRule.delete({
+        where: { id },
+      });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+
+  // Recent runs of a rule, newest first
+  fastify.get(
+    "/api/v1/automation/:id/runs",
+    {
+      preHandler: requirePermission(["automation::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const runs = await prisma.automationRun.findMany({
+        where: { ruleId: id },
+        orderBy: { createdAt: "desc" },
+        take: 50,
+        include: {
+          ticket: { select: { id: true, Number: true, title: true } },
+        },
+      });
+
+      reply.status(200).send({ runs, success: true });
+    }
+  );
+
+  // Registered scheduler jobs and their recent runs, newest first
+  fastify.get(
+    "/api/v1/scheduler/runs",
+    {
+      preHandler: requirePermission(["automation::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const runs = await prisma.schedulerRun.findMany({
+        orderBy: { startedAt: "desc" },
+        take: 50,
+      });
+
+      reply.status(200).send({
+        jobs: SchedulerService.jobs(),
+        runs,
+        success: true,
+      });
+    }
+  );
+
+  // Dry run a saved or unsaved rule against a ticket, by id or number
+  fastify.post(
+    "/api/v1/automation/test",
+    {
+      preHandler: requirePermission(["automation::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { rule, ticket }: any = request.body;
+
+      const target = await prisma.ticket.findFirst({
+        where: /^\d+$/.test(String(ticket))
+          ? { Number: Number(ticket) }
+          : { id: String(ticket) },
+        select: { id: true },
+      });
+
+      if (!target) {
+        return reply.status(404).send({
+          message: "Ticket not found",
+          success: false,
+        });
+      }
+
+      try {
+        AutomationService.validate(rule);
+
+        const result = await AutomationService.test(
+          {
+            id: rule.id,
+            trigger: rule.trigger,
+            conditions: rule.conditions || [],
+            matchAll: rule.matchAll ?? true,
+            actions: rule.actions || [],
+          },
+          target.id
+        );
+
+        reply.status(200).send({ ...result, success: true });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+    }
+  );
+}
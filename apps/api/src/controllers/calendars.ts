@@ -0,0 +1,238 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { requirePermission } from "../lib/roles";
+import {
+  CalendarError,
+  CalendarService,
+} from "../lib/services/calendar.service";
+import { prisma } from "../prisma";
+
+// New calendars connect teams and clients, updates replace the assignments
+function calendarData(body: any, assign: "connect" | "set") {
+  const { name, timezone, schedule, isDefault, teamIds, clientIds } = body;
+
+  return {
+    name,
+    timezone,
+    schedule,
+    isDefault,
+    teams: teamIds
+      ? { [assign]: teamIds.map((id: string) => ({ id })) }
+      : undefined,
+    clients: clientIds
+      ? { [assign]: clientIds.map((id: string) => ({ id })) }
+      : undefined,
+  };
+}
+
+export function calendarRoutes(fastify: FastifyInstance) {
+  // Create a business-hours calendar
+  fastify.post(
+    "/api/v1/calendar/create",
+    {
+      preHandler: requirePermission(["calendar::create"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const body: any = request.body;
+
+      try {
+        CalendarService.validate({
+          ...body,
+          name: body.name || "",
+          timezone: body.timezone || "UTC",
+        });
+      } catch (error) {
+        if (error instanceof CalendarError) {
+          return reply.status(400).send({
+            message: error.message,
+            success: false,
+          });
+        }
+        throw error;
+      }
+
+      const calendar = await prisma.$transaction(async (tx) => {
+        // Only one calendar can be the default
+        if (body.isDefault) {
+          await tx.businessCalendar.updateMany({
+            data: { isDefault: false },
+          });
+        }
+
+        return tx.businessCalendar.create({
+          data: calendarData(body, "connect"),
+        });
+      });
+
+      reply.status(200).send({ calendar, success: true });
+    }
+  );
+
+  // Get all calendars with their holidays and assignments
+  fastify.get(
+    "/api/v1/calendars/all",
+    {
+      preHandler: requirePermission(["calendar::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const calendars = await prisma.businessCalendar.findMany({
+        orderBy: { createdAt: "asc" },
+        include: {
+          holidays: { orderBy: { date: "asc" } },
+          teams: { select: { id: true, name: true } },
+          clients: { select: { id: true, name: true } },
+        },
+      });
+
+      reply.status(200).send({ calendars, success: true });
+    }
+  );
+
+  // Update a calendar. Due dates already set on tickets are not recomputed.
+  fastify.put(
+    "/api/v1/calendar/:id/update",
+    {
+      preHandler: requirePermission(["calendar::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const body: any = request.body;
+
+      const existing = await prisma.businessCalendar.findUnique({
+        where: { id },
+        include: { holidays: true },
+      });
+
+      if (!existing) {
+        return reply.status(404).send({
+          message: "Calendar not found",
+          success: false,
+        });
+      }
+
+      try {
+        CalendarService.validate(body, existing);
+      } catch (error) {
+        if (error instanceof CalendarError) {
+          return reply.status(400).send({
+            message: error.message,
+            success: false,
+          });
+        }
+        throw error;
+      }
+
+      const calendar = await prisma.$transaction(async (tx) => {
+        if (body.isDefault) {
+          await tx.businessCalendar.updateMany({
+            where: { id: { not: id } },
+            data: { isDefault: false },
+          });
+        }
+
+        return tx.businessCalendar.update({
+          where: { id },
+          data: {
+            ...calendarData(body, "set"),
+            updatedAt: new Date(),
+          },
+        });
+      });
+
+      reply.status(200).send({ calendar, success: true });
+    }
+  );
+
+  // Delete a calendar, teams and clients using it fall back to the default
+  fastify.delete(
+    "/api/v1/calendar/:id/delete",
+    {
+      preHandler: requirePermission(["calendar::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      await prisma.businessCalendar.delete({
+        where: { id },
+      });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+
+  // Add a holiday to a calendar
+  fastify.post(
+    "/api/v1/calendar/:id/holiday",
+    {
+      preHandler: requirePermission(["calendar::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { name, date, recurring }: any = request.body;
+
+      if (!name || !/^\d{4}-\d{2}-\d{2}$/.test(date || "")) {
+        return reply.status(400).send({
+          message: "A holiday needs a name and a YYYY-MM-DD date",
+          success: false,
+        });
+      }
+
+      const calendar = await prisma.businessCalendar.findUnique({
+        where: { id },
+        include: { holidays: true },
+      });
+
+      if (!calendar) {
+        return reply.status(404).send({
+          message: "Calendar not found",
+          success: false,
+        });
+      }
+
+      const day = { date: `${date}T00:00:00Z`, recurring: Boolean(recurring) };
+
+      // A holiday must not take away the last working time of the calendar
+      try {
+        CalendarService.validate(
+          {},
+          { ...calendar, holidays: [...calendar.holidays, day] }
+        );
+      } catch (error) {
+        if (error instanceof CalendarError) {
+          return reply.status(400).send({
+            message: error.message,
+            success: false,
+          });
+        }
+        throw error;
+      }
+
+      const holiday = await prisma.holiday.create({
+        data: {
+          name,
+          date: new Date(day.date),
+          recurring: day.recurring,
+          calendarId: id,
+        },
+      });
+
+      reply.status(200).send({ holiday, success: true });
+    }
+  );
+
+  // Remove a holiday from a calendar
+  fastify.delete(
+    "/api/v1/calendar/:id/holiday/:holidayId",
+    {
+      preHandler: requirePermission(["calendar::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id, holidayId }: any = request.params;
+
+      await prisma.holiday.deleteMany({
+        where: { id: holidayId, calendarId: id },
+      });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+}
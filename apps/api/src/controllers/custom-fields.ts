@@ -0,0 +1,159 @@
+import { TicketType } from "@prisma/client";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { requirePermission } from "../lib/roles";
+import {
+  CustomFieldError,
+  CustomFieldService,
+  fieldKey,
+} from "../lib/services/custom-field.service";
+import { prisma } from "../prisma";
+
+function invalid(reply: FastifyReply, error: unknown) {
+  if (error instanceof CustomFieldError) {
+    return reply.status(400).send({
+      message: error.message,
+      success: false,
+    });
+  }
+
+  throw error;
+}
+
+export function customFieldRoutes(fastify: FastifyInstance) {
+  // Create a custom field
+  fastify.post(
+    "/api/v1/custom-field/create",
+    {
+      preHandler: requirePermission(["custom_field::create"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const body: any = request.body;
+      const key = body.key || fieldKey(body.name || "");
+
+      try {
+        CustomFieldService.validate({ ...body, name: body.name || "", key });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      const existing = await prisma.customField.findUnique({ where: { key } });
+
+      if (existing) {
+        return reply.status(400).send({
+          message: `A field with the key ${key} already exists`,
+          success: false,
+        });
+      }
+
+      const field = await prisma.customField.create({
+        data: {
+          name: body.name,
+          key,
+          description: body.description || null,
+          type: body.type || "text",
+          options: body.options || [],
+          required: !!body.required,
+          ticketTypes: body.ticketTypes || [],
+          portal: !!body.portal,
+          order: Number(body.order) || 0,
+        },
+      });
+
+      reply.status(200).send({ field, success: true });
+    }
+  );
+
+  // Get custom fields. Agents and the portal use `type` to get the fields
+  // of a ticket type, `all` includes inactive fields for the admin page.
+  fastify.get(
+    "/api/v1/custom-fields/all",
+    {
+      preHandler: requirePermission(
+        ["issue::create", "issue::read", "custom_field::read"],
+        false
+      ),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { type, portal, all }: any = request.query;
+
+      const fields =
+        all === "true"
+          ? await prisma.customField.findMany({
+              orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+            })
+          : await CustomFieldService.forType(
+              type ? (String(type).toLowerCase() as TicketType) : undefined,
+              portal === "true"
+            );
+
+      reply.status(200).send({ fields, success: true });
+    }
+  );
+
+  // Update a custom field. The key is fixed once created, as stored values
+  // are keyed by it.
+  fastify.put(
+    "/api/v1/custom-field/:id/update",
+    {
+      preHandler: requirePermission(["custom_field::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const body: any = request.body;
+
+      const current = await prisma.customField.findUnique({ where: { id } });
+
+      if (!current) {
+        return reply.status(404).send({
+          message: "Custom field not found",
+          success: false,
+        });
+      }
+
+      try {
+        CustomFieldService.validate({
+          ...body,
+          key: undefined,
+          type: body.type ?? current.type,
+          options: body.options ?? current.options,
+        });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      const field = await prisma.customField.update({
+        where: { id },
+        data: {
+          name: body.name,
+          description: body.description,
+          type: body.type,
+          options: body.options,
+          required: body.required,
+          ticketTypes: body.ticketTypes,
+          portal: body.portal,
+          active: body.active,
+          order: body.order !== undefined ? Number(body.order) : undefined,
+          updatedAt: new Date(),
+        },
+      });
+
+      reply.status(200).send({ field, success: true });
+    }
+  );
+
+  // Delete a custom field. Values stored on tickets are left in place but
+  // no longer shown.
+  fastify.delete(
+    "/api/v1/custom-field/:id/delete",
+    {
+      preHandler: requirePermission(["custom_field::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      await prisma.customField.delete({ where: { id } });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+}
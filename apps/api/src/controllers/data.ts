@@ -11,7 +11,7 @@ export function dataRoutes(fastify: FastifyInstance) {
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const result = await prisma.ticket.count({
-        where: { hidden: false },
+        where: { hidden: false, deletedAt: null },
       });
 
       reply.send({ count: result });
@@ -26,7 +26,7 @@ export function dataRoutes(fastify: FastifyInstance) {
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const result = await prisma.ticket.count({
-        where: { isComplete: true, hidden: false },
+        where: { isComplete: true, hidden: false, deletedAt: null },
       });
 
       reply.send({ count: result });
@@ -41,7 +41,7 @@ export function dataRoutes(fastify: FastifyInstance) {
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const result = await prisma.ticket.count({
-        where: { isComplete: false, hidden: false },
+        where: { isComplete: false, hidden: false, deletedAt: null },
       });
 
       reply.send({ count: result });
@@ -56,13 +56,56 @@ export function dataRoutes(fastify: FastifyInstance) {
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const result = await prisma.ticket.count({
-        where: { userId: null, hidden: false, isComplete: false },
+        where: {
+          userId: null,
+          hidden: false,
+          deletedAt: null,
+          isComplete: false,
+        },
       });
 
       reply.send({ count: result });
     }
   );
 
+  // Get open and total ticket counts per tag
+  fastify.get(
+    "/api/v1/data/tickets/tags",
+    {
+      preHandler: requirePermission(["issue::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const [tags, total, open] = await Promise.all([
+        prisma.tag.findMany({ orderBy: { name: "asc" } }),
+        prisma.ticketTag.groupBy({
+          by: ["tagId"],
+          where: { ticket: { hidden: false, deletedAt: null } },
+          _count: { _all: true },
+        }),
+        prisma.ticketTag.groupBy({
+          by: ["tagId"],
+          where: {
+            ticket: { hidden: false, deletedAt: null, isComplete: false },
+          },
+          _count: { _all: true },
+        }),
+      ]);
+
+      const count = (rows: typeof total, tagId: string) =>
+        rows.find((row) => row.tagId === tagId)?._count._all ?? 0;
+
+      reply.send({
+        tags: tags.map((tag) => ({
+          id: tag.id,
+          name: tag.name,
+          color: tag.color,
+          open: count(open, tag.id),
+          total: count(total, tag.id),
+        })),
+      });
+    }
+  );
+
   // Get all logs
   fastify.get(
     "/api/v1/data/logs",
@@ -0,0 +1,273 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { can, requirePermission } from "../lib/roles";
+import { MacroError, MacroService } from "../lib/services/macro.service";
+import {
+  PriorityError,
+  PriorityService,
+} from "../lib/services/priority.service";
+import { StatusError } from "../lib/services/status.service";
+import { checkSession } from "../lib/session";
+import { prisma } from "../prisma";
+
+function invalid(reply: FastifyReply, error: unknown) {
+  if (
+    error instanceof MacroError ||
+    error instanceof StatusError ||
+    error instanceof PriorityError
+  ) {
+    return reply.status(400).send({
+      message: error.message,
+      success: false,
+    });
+  }
+
+  throw error;
+}
+
+async function fields(body: any) {
+  return {
+    name: String(body.name).trim(),
+    body: body.body ?? "",
+    public: Boolean(body.public),
+    shared: Boolean(body.shared),
+    status: body.status || null,
+    // Stored as a key, the form may send a priority's name
+    priority: body.priority
+      ? await PriorityService.resolve(body.priority)
+      : null,
+    assignee: body.assignee || null,
+  };
+}
+
+// Personal macros belong to their agent, shared ones to whoever holds the
+// macro permissions
+async function canManage(
+  request: FastifyRequest,
+  macro: { shared: boolean; userId: string | null },
+  userId: string,
+  permission: "macro::update" | "macro::delete"
+) {
+  if (!macro.shared) return macro.userId === userId;
+
+  return can(request, [permission]);
+}
+
+export function macroRoutes(fastify: FastifyInstance) {
+  // Get the shared macros and the agent's own ones
+  fastify.get(
+    "/api/v1/macros/all",
+    {
+      preHandler: requirePermission(["issue::comment"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const user = await checkSession(request);
+
+      const macros = await MacroService.visible(user!.id);
+
+      reply.status(200).send({ macros, success: true });
+    }
+  );
+
+  // Create a macro
+  fastify.post(
+    "/api/v1/macro/create",
+    {
+      preHandler: requirePermission(["issue::comment"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const body: any = request.body;
+      const user = await checkSession(request);
+
+      if (body.shared && !(await can(request, ["macro::create"]))) {
+        return reply.status(401).send({
+          message: "You do not have permission to create shared macros",
+          success: false,
+        });
+      }
+
+      try {
+        await MacroService.validate(body);
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      const macro = await prisma.macro.create({
+        data: { ...(await fields(body)), userId: user!.id },
+      });
+
+      reply.status(200).send({ macro, success: true });
+    }
+  );
+
+  // Update a macro
+  fastify.put(
+    "/api/v1/macro/:id/update",
+    {
+      preHandler: requirePermission(["issue::comment"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const body: any = request.body;
+      const user = await checkSession(request);
+
+      const macro = await prisma.macro.findUnique({ where: { id } });
+
+      if (!macro) {
+        return reply.status(404).send({
+          message: "Macro not found",
+          success: false,
+        });
+      }
+
+      // Sharing a personal macro needs the same permission as creating one
+      const allowed =
+        (await canManage(request, macro, user!.id, "macro::update")) &&
+        (!body.shared ||
+          macro.shared ||
+          (await can(request, ["macro::create"])));
+
+      if (!allowed) {
+        return reply.status(401).send({
+          message: "You do not have permission to change this macro",
+          success: false,
+        });
+      }
+
+      try {
+        await MacroService.validate(body);
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      const updated = await prisma.macro.update({
+        where: { id },
+        data: await fields(body),
+      });
+
+      reply.status(200).send({ macro: updated, success: true });
+    }
+  );
+
+  // Delete a macro, the history of its runs stays on the tickets
+  fastify.delete(
+    "/api/v1/macro/:id/delete",
+    {
+      preHandler: requirePermission(["issue::comment"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const user = await checkSession(request);
+
+      const macro = await prisma.macro.findUnique({ where: { id } });
+
+      if (!macro) {
+        return reply.status(404).send({
+          message: "Macro not found",
+          success: false,
+        });
+      }
+
+      if (!(await canManage(request, macro, user!.id, "macro::delete"))) {
+        return reply.status(401).send({
+          message: "You do not have permission to delete this macro",
+          success: false,
+        });
+      }
+
+      await prisma.macro.delete({ where: { id } });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+
+  // Render the reply of a macro for a ticket, so the agent can review it
+  fastify.post(
+    "/api/v1/macro/:id/render",
+    {
+      preHandler: requirePermission(["issue::comment"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { ticketId }: any = request.body;
+      const user = await checkSession(request);
+
+      const [macro, ticket] = await Promise.all([
+        prisma.macro.findUnique({ where: { id } }),
+        prisma.ticket.findUnique({ where: { id: ticketId } }),
+      ]);
+
+      if (!macro || !ticket || (!macro.shared && macro.userId !== user!.id)) {
+        return reply.status(404).send({
+          message: "Macro or ticket not found",
+          success: false,
+        });
+      }
+
+      try {
+        const text = await MacroService.render(macro, ticket, user!);
+
+        reply.status(200).send({ text, success: true });
+      } catch (error: any) {
+        return invalid(reply, new MacroError(error.message));
+      }
+    }
+  );
+
+  // Apply a macro to a ticket: its field changes and reply in one go
+  fastify.post(
+    "/api/v1/macro/:id/apply",
+    {
+      preHandler: requirePermission(["issue::comment", "issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { ticketId, text }: any = request.body;
+      const user = await checkSession(request);
+
+      const [macro, ticket] = await Promise.all([
+        prisma.macro.findUnique({ where: { id } }),
+        prisma.ticket.findUnique({ where: { id: ticketId } }),
+      ]);
+
+      if (!macro || !ticket || (!macro.shared && macro.userId !== user!.id)) {
+        return reply.status(404).send({
+          message: "Macro or ticket not found",
+          success: false,
+        });
+      }
+
+      try {
+        const { run, emailed } = await MacroService.apply(
+          macro,
+          ticket,
+          user!,
+          typeof text === "string" ? text : undefined
+        );
+
+        reply.status(200).send({ run, emailed, success: true });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+    }
+  );
+
+  // Undo a macro applied in the last few minutes
+  fastify.post(
+    "/api/v1/macro/run/:id/undo",
+    {
+      preHandler: requirePermission(["issue::comment", "issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const user = await checkSession(request);
+
+      try {
+        const { emailed } = await MacroService.undo(id, user!);
+
+        reply.status(200).send({ emailed, success: true });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+    }
+  );
+}
@@ -0,0 +1,177 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { requirePermission } from "../lib/roles";
+import {
+  PriorityError,
+  PriorityService,
+} from "../lib/services/priority.service";
+import { prisma } from "../prisma";
+
+function invalid(reply: FastifyReply, error: unknown) {
+  if (error instanceof PriorityError) {
+    return reply.status(400).send({
+      message: error.message,
+      success: false,
+    });
+  }
+
+  throw error;
+}
+
+export function priorityRoutes(fastify: FastifyInstance) {
+  // Create a priority
+  fastify.post(
+    "/api/v1/priority/create",
+    {
+      preHandler: requirePermission(["priority::create"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const body: any = request.body;
+      const key =
+        body.key ||
+        String(body.name || "")
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "_")
+          .replace(/^[^a-z]+|_+$/g, "");
+
+      try {
+        PriorityService.validate({ ...body, name: body.name || "", key });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      const existing = await prisma.priority.findUnique({ where: { key } });
+
+      if (existing) {
+        return reply.status(400).send({
+          message: `A priority with the key ${key} already exists`,
+          success: false,
+        });
+      }
+
+      const priority = await prisma.$transaction(async (tx) => {
+        if (body.isDefault) {
+          await tx.priority.updateMany({ data: { isDefault: false } });
+        }
+
+        return tx.priority.create({
+          data: {
+            key,
+            name: body.name,
+            rank: Number(body.rank) || 0,
+            color: body.color,
+            isDefault: !!body.isDefault,
+          },
+        });
+      });
+
+      reply.status(200).send({ priority, success: true });
+    }
+  );
+
+  // Get all priorities, most urgent first
+  fastify.get(
+    "/api/v1/priorities/all",
+    {
+      preHandler: requirePermission(["issue::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const priorities = await PriorityService.all();
+
+      reply.status(200).send({ priorities, success: true });
+    }
+  );
+
+  // Update a priority. The key is fixed, tickets refer to it.
+  fastify.put(
+    "/api/v1/priority/:id/update",
+    {
+      preHandler: requirePermission(["priority::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const body: any = request.body;
+
+      const current = await prisma.priority.findUnique({ where: { id } });
+
+      if (!current) {
+        return reply.status(404).send({
+          message: "Priority not found",
+          success: false,
+        });
+      }
+
+      const isDefault = body.isDefault ?? current.isDefault;
+
+      try {
+        PriorityService.validate({ ...body, key: undefined });
+
+        if (current.isDefault && !isDefault) {
+          throw new PriorityError(
+            "Make another priority the default instead of unsetting it"
+          );
+        }
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      const priority = await prisma.$transaction(async (tx) => {
+        if (isDefault && !current.isDefault) {
+          await tx.priority.updateMany({ data: { isDefault: false } });
+        }
+
+        return tx.priority.update({
+          where: { id },
+          data: {
+            name: body.name,
+            rank: body.rank !== undefined ? Number(body.rank) : undefined,
+            color: body.color,
+            isDefault,
+            updatedAt: new Date(),
+          },
+        });
+      });
+
+      reply.status(200).send({ priority, success: true });
+    }
+  );
+
+  // Delete a priority no ticket has
+  fastify.delete(
+    "/api/v1/priority/:id/delete",
+    {
+      preHandler: requirePermission(["priority::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const priority = await prisma.priority.findUnique({ where: { id } });
+
+      if (!priority) {
+        return reply.status(404).send({
+          message: "Priority not found",
+          success: false,
+        });
+      }
+
+      const tickets = await prisma.ticket.count({
+        where: { priority: priority.key },
+      });
+
+      let message: string | null = null;
+
+      if (priority.isDefault) {
+        message = "The default priority can not be deleted";
+      } else if (tickets > 0) {
+        message = `Move the ${tickets} tickets with ${priority.name} priority to another priority first`;
+      }
+
+      if (message) {
+        return reply.status(400).send({ message, success: false });
+      }
+
+      await prisma.priority.delete({ where: { id } });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+}
@@ -32,11 +32,13 @@ export function emailQueueRoutes(fastify: FastifyInstance) {
         clientId,
         clientSecret,
         redirectUri,
+        teamId,
       }: any = request.body;
 
       const mailbox = await prisma.emailQueue.create({
         data: {
           name: name,
+          teamId: teamId || null,
           username,
           password,
           hostname,
@@ -141,7 +143,7 @@ export function emailQueueRoutes(fastify: FastifyInstance) {
           name: true,
           serviceType: true,
           active: true,
-          teams: true,
+          team: { select: { id: true, name: true } },
           username: true,
           hostname: true,
           tls: true,
@@ -157,6 +159,24 @@ export function emailQueueRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Route new tickets from an email queue to a team
+  fastify.put(
+    "/api/v1/email-queue/team",
+
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id, teamId }: any = request.body;
+
+      await prisma.emailQueue.update({
+        where: { id },
+        data: { teamId: teamId || null },
+      });
+
+      reply.send({
+        success: true,
+      });
+    }
+  );
+
   // Delete an email queue
   fastify.delete(
     "/api/v1/email-queue/delete",
@@ -0,0 +1,264 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { requirePermission } from "../lib/roles";
+import { PriorityError } from "../lib/services/priority.service";
+import {
+  RecurringError,
+  RecurringService,
+} from "../lib/services/recurring.service";
+import { prisma } from "../prisma";
+
+function invalid(reply: FastifyReply, error: unknown) {
+  if (error instanceof RecurringError || error instanceof PriorityError) {
+    return reply.status(400).send({
+      message: error.message,
+      success: false,
+    });
+  }
+
+  throw error;
+}
+
+function notFound(reply: FastifyReply) {
+  return reply.status(404).send({
+    message: "Recurring ticket not found",
+    success: false,
+  });
+}
+
+// Runs listed with each schedule, the full history has its own route
+const RECENT_RUNS = 5;
+
+const runInclude = {
+  ticket: {
+    select: { id: true, Number: true, title: true, isComplete: true },
+  },
+};
+
+export function recurringRoutes(fastify: FastifyInstance) {
+  // Get every recurring ticket with its latest runs
+  fastify.get(
+    "/api/v1/recurring/all",
+    {
+      preHandler: requirePermission(["recurring::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const recurring = await prisma.recurringTicket.findMany({
+        include: {
+          assignee: { select: { id: true, name: true } },
+          team: { select: { id: true, name: true } },
+          runs: {
+            include: runInclude,
+            orderBy: { occurrence: "desc" },
+            take: RECENT_RUNS,
+          },
+        },
+        orderBy: { name: "asc" },
+      });
+
+      reply.status(200).send({ recurring, success: true });
+    }
+  );
+
+  // Preview the dates of a rule before saving it
+  fastify.post(
+    "/api/v1/recurring/preview",
+    {
+      preHandler: requirePermission(["recurring::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { rrule, timezone, startsAt, count }: any = request.body;
+
+      try {
+        const { rrule: rule, ...fields } = await RecurringService.validate({
+          name: "Preview",
+          title: "Preview",
+          rrule,
+          timezone,
+          startsAt,
+        });
+
+        const occurrences = RecurringService.upcoming(
+          { ...fields, rrule: rule, paused: false, skips: [] },
+          count
+        );
+
+        reply.status(200).send({ occurrences, success: true });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+    }
+  );
+
+  // Create a recurring ticket
+  fastify.post(
+    "/api/v1/recurring/create",
+    {
+      preHandler: requirePermission(["recurring::create"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const data = await RecurringService.validate(request.body);
+
+        const recurring = await prisma.recurringTicket.create({
+          data: {
+            ...data,
+            nextRunAt: RecurringService.next({
+              ...data,
+              paused: false,
+              skips: [],
+            }),
+          },
+        });
+
+        reply.status(200).send({ recurring, success: true });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+    }
+  );
+
+  // Update the template or rule of a recurring ticket. Skipped dates are
+  // kept, those no longer in the rule are simply never reached.
+  fastify.put(
+    "/api/v1/recurring/:id/update",
+    {
+      preHandler: requirePermission(["recurring::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const existing = await prisma.recurringTicket.findUnique({
+        where: { id },
+      });
+
+      if (!existing) return notFound(reply);
+
+      try {
+        const data = await RecurringService.validate(request.body);
+
+        const recurring = await prisma.recurringTicket.update({
+          where: { id },
+          data: {
+            ...data,
+            nextRunAt: RecurringService.next({ ...existing, ...data }),
+            updatedAt: new Date(),
+          },
+        });
+
+        reply.status(200).send({ recurring, success: true });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+    }
+  );
+
+  // Delete a recurring ticket, the tickets it raised stay
+  fastify.delete(
+    "/api/v1/recurring/:id/delete",
+    {
+      preHandler: requirePermission(["recurring::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const existing = await prisma.recurringTicket.findUnique({
+        where: { id },
+      });
+
+      if (!existing) return notFound(reply);
+
+      await prisma.recurringTicket.delete({ where: { id } });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+
+  // Upcoming dates of a recurring ticket
+  fastify.get(
+    "/api/v1/recurring/:id/upcoming",
+    {
+      preHandler: requirePermission(["recurring::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { count }: any = request.query;
+
+      const recurring = await prisma.recurringTicket.findUnique({
+        where: { id },
+      });
+
+      if (!recurring) return notFound(reply);
+
+      const occurrences = RecurringService.upcoming(recurring, count);
+
+      reply.status(200).send({ occurrences, success: true });
+    }
+  );
+
+  // Skip an upcoming date, or take the skip back
+  fastify.post(
+    "/api/v1/recurring/:id/skip",
+    {
+      preHandler: requirePermission(["recurring::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { occurrence }: any = request.body;
+
+      const existing = await prisma.recurringTicket.findUnique({
+        where: { id },
+      });
+
+      if (!existing) return notFound(reply);
+
+      try {
+        const recurring = await RecurringService.skip(existing, occurrence);
+
+        reply.status(200).send({ recurring, success: true });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+    }
+  );
+
+  // Pause or resume a recurring ticket
+  fastify.post(
+    "/api/v1/recurring/:id/pause",
+    {
+      preHandler: requirePermission(["recurring::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { paused }: any = request.body;
+
+      const existing = await prisma.recurringTicket.findUnique({
+        where: { id },
+      });
+
+      if (!existing) return notFound(reply);
+
+      const recurring = await RecurringService.pause(existing, !!paused);
+
+      reply.status(200).send({ recurring, success: true });
+    }
+  );
+
+  // Every date a recurring ticket reached, with the ticket it raised
+  fastify.get(
+    "/api/v1/recurring/:id/history",
+    {
+      preHandler: requirePermission(["recurring::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const runs = await prisma.recurringTicketRun.findMany({
+        where: { recurringId: id },
+        include: runInclude,
+        orderBy: { occurrence: "desc" },
+      });
+
+      reply.status(200).send({ runs, success: true });
+    }
+  );
+}
@@ -0,0 +1,206 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { requirePermission } from "../lib/roles";
+import { prisma } from "../prisma";
+
+const TICKET_TYPES = [
+  "bug",
+  "feature",
+  "support",
+  "incident",
+  "service",
+  "maintenance",
+  "access",
+  "feedback",
+];
+
+function validLevel(level: any) {
+  return Number.isInteger(level) && level >= 1 && level <= 5;
+}
+
+export function skillRoutes(fastify: FastifyInstance) {
+  // Create a skill
+  fastify.post(
+    "/api/v1/skill/create",
+    {
+      preHandler: requirePermission(["skill::create"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { name }: any = request.body;
+
+      if (!name) {
+        return reply.status(400).send({
+          message: "Skill name is required",
+          success: false,
+        });
+      }
+
+      const existing = await prisma.skill.findUnique({ where: { name } });
+
+      if (existing) {
+        return reply.status(400).send({
+          message: `A skill called ${name} already exists`,
+          success: false,
+        });
+      }
+
+      const skill = await prisma.skill.create({ data: { name } });
+
+      reply.status(200).send({ skill, success: true });
+    }
+  );
+
+  // Get all skills with their agents and routing rules
+  fastify.get(
+    "/api/v1/skills/all",
+    {
+      preHandler: requirePermission(["skill::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const skills = await prisma.skill.findMany({
+        orderBy: { name: "asc" },
+        include: {
+          agents: {
+            include: { user: { select: { id: true, name: true } } },
+            orderBy: { level: "desc" },
+          },
+          rules: {
+            include: {
+              client: { select: { id: true, name: true } },
+              emailQueue: { select: { id: true, name: true } },
+              tag: { select: { id: true, name: true, color: true } },
+            },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      });
+
+      reply.status(200).send({ skills, success: true });
+    }
+  );
+
+  // Rename a skill
+  fastify.put(
+    "/api/v1/skill/:id/update",
+    {
+      preHandler: requirePermission(["skill::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { name }: any = request.body;
+
+      const skill = await prisma.skill.update({
+        where: { id },
+        data: { name, updatedAt: new Date() },
+      });
+
+      reply.status(200).send({ skill, success: true });
+    }
+  );
+
+  // Delete a skill with its agent levels and rules
+  fastify.delete(
+    "/api/v1/skill/:id/delete",
+    {
+      preHandler: requirePermission(["skill::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      await prisma.skill.delete({ where: { id } });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+
+  // Replace the agents holding a skill, levels run from 1 to 5
+  fastify.put(
+    "/api/v1/skill/:id/agents",
+    {
+      preHandler: requirePermission(["skill::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { agents }: any = request.body;
+
+      if (
+        !Array.isArray(agents) ||
+        agents.some((agent: any) => !agent.userId || !validLevel(agent.level))
+      ) {
+        return reply.status(400).send({
+          message: "Each agent needs a user and a level from 1 to 5",
+          success: false,
+        });
+      }
+
+      await prisma.$transaction([
+        prisma.userSkill.deleteMany({ where: { skillId: id } }),
+        prisma.userSkill.createMany({
+          data: agents.map((agent: any) => ({
+            skillId: id,
+            userId: agent.userId,
+            level: agent.level,
+          })),
+        }),
+      ]);
+
+      reply.status(200).send({ success: true });
+    }
+  );
+
+  // Add a rule that makes matching tickets require the skill
+  fastify.post(
+    "/api/v1/skill/:id/rule",
+    {
+      preHandler: requirePermission(["skill::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { level, type, clientId, emailQueueId, tagId }: any =
+        request.body;
+
+      let message: string | null = null;
+
+      if (!validLevel(level)) {
+        message = "Level must be from 1 to 5";
+      } else if (type && !TICKET_TYPES.includes(type)) {
+        message = `Unknown ticket type ${type}`;
+      } else if (!type && !clientId && !emailQueueId && !tagId) {
+        message = "A rule needs a ticket type, client, mailbox or tag";
+      }
+
+      if (message) {
+        return reply.status(400).send({ message, success: false });
+      }
+
+      const rule = await prisma.skillRule.create({
+        data: {
+          skillId: id,
+          level,
+          type: type || null,
+          clientId: clientId || null,
+          emailQueueId: emailQueueId || null,
+          tagId: tagId || null,
+        },
+      });
+
+      reply.status(200).send({ rule, success: true });
+    }
+  );
+
+  // Remove a skill rule
+  fastify.delete(
+    "/api/v1/skill/:id/rule/:ruleId",
+    {
+      preHandler: requirePermission(["skill::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id, ruleId }: any = request.params;
+
+      await prisma.skillRule.deleteMany({
+        where: { id: ruleId, skillId: id },
+      });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+}
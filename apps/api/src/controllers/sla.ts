@@ -0,0 +1,144 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { track } from "../lib/hog";
+import { requirePermission } from "../lib/roles";
+import { SlaError, SlaService } from "../lib/services/sla.service";
+import { prisma } from "../prisma";
+
+function policyData(body: any) {
+  const {
+    name,
+    description,
+    active,
+    order,
+    priorities,
+    types,
+    clientIds,
+    teamIds,
+    firstResponseMinutes,
+    resolutionMinutes,
+    atRiskPercent,
+  } = body;
+
+  return {
+    name,
+    description,
+    active,
+    order,
+    priorities: priorities?.map((p: string) => p.toLowerCase()),
+    types,
+    clientIds,
+    teamIds,
+    firstResponseMinutes,
+    resolutionMinutes,
+    atRiskPercent,
+  };
+}
+
+export function slaRoutes(fastify: FastifyInstance) {
+  // Create a new SLA policy
+  fastify.post(
+    "/api/v1/sla/create",
+    {
+      preHandler: requirePermission(["sla::create"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const body: any = request.body;
+
+      try {
+        SlaService.validate({ ...body, name: body.name || "" });
+      } catch (error) {
+        if (error instanceof SlaError) {
+          return reply.status(400).send({
+            message: error.message,
+            success: false,
+          });
+        }
+        throw error;
+      }
+
+      const policy = await prisma.slaPolicy.create({
+        data: policyData(body),
+      });
+
+      const client = track();
+
+      client.capture({
+        event: "sla_policy_created",
+        distinctId: "uuid",
+      });
+
+      client.shutdownAsync();
+
+      reply.status(200).send({ policy, success: true });
+    }
+  );
+
+  // Get all SLA policies
+  fastify.get(
+    "/api/v1/slas/all",
+    {
+      preHandler: requirePermission(["sla::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const policies = await prisma.slaPolicy.findMany({
+        orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+        include: {
+          _count: { select: { tickets: true } },
+        },
+      });
+
+      reply.status(200).send({ policies, success: true });
+    }
+  );
+
+  // Update an SLA policy. Due dates of existing tickets are not recomputed.
+  fastify.put(
+    "/api/v1/sla/:id/update",
+    {
+      preHandler: requirePermission(["sla::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const body: any = request.body;
+
+      try {
+        SlaService.validate(body);
+      } catch (error) {
+        if (error instanceof SlaError) {
+          return reply.status(400).send({
+            message: error.message,
+            success: false,
+          });
+        }
+        throw error;
+      }
+
+      const policy = await prisma.slaPolicy.update({
+        where: { id },
+        data: {
+          ...policyData(body),
+          updatedAt: new Date(),
+        },
+      });
+
+      reply.status(200).send({ policy, success: true });
+    }
+  );
+
+  // Delete an SLA policy
+  fastify.delete(
+    "/api/v1/sla/:id/delete",
+    {
+      preHandler: requirePermission(["sla::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      await prisma.slaPolicy.delete({
+        where: { id },
+      });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+}
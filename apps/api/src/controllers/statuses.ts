@@ -0,0 +1,321 @@
+import { TicketType } from "@prisma/client";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { requirePermission } from "../lib/roles";
+import {
+  isCompleteCategory,
+  StatusError,
+  StatusService,
+} from "../lib/services/status.service";
+import { SubtaskService } from "../lib/services/subtask.service";
+import { prisma } from "../prisma";
+
+function invalid(reply: FastifyReply, error: unknown) {
+  if (error instanceof StatusError) {
+    return reply.status(400).send({
+      message: error.message,
+      success: false,
+    });
+  }
+
+  throw error;
+}
+
+export function statusRoutes(fastify: FastifyInstance) {
+  // Create a status
+  fastify.post(
+    "/api/v1/status/create",
+    {
+      preHandler: requirePermission(["status::create"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const body: any = request.body;
+      const key =
+        body.key ||
+        String(body.name || "")
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "_")
+          .replace(/^[^a-z]+|_+$/g, "");
+
+      try {
+        StatusService.validate({
+          ...body,
+          name: body.name || "",
+          key,
+          category: body.category || "open",
+        });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      const existing = await prisma.status.findUnique({ where: { key } });
+
+      if (existing) {
+        return reply.status(400).send({
+          message: `A status with the key ${key} already exists`,
+          success: false,
+        });
+      }
+
+      const status = await prisma.$transaction(async (tx) => {
+        if (body.isDefault) {
+          await tx.status.updateMany({ data: { isDefault: false } });
+        }
+
+        return tx.status.create({
+          data: {
+            key,
+            name: body.name,
+            category: body.category || "open",
+            color: body.color,
+            order: Number(body.order) || 0,
+            isDefault: !!body.isDefault,
+          },
+        });
+      });
+
+      reply.status(200).send({ status, success: true });
+    }
+  );
+
+  // Get all statuses in order, with the transitions of every ticket type
+  // and whether open subtasks block closing
+  fastify.get(
+    "/api/v1/statuses/all",
+    {
+      preHandler: requirePermission(["issue::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const [statuses, transitions, subtasksBlockClose] = await Promise.all([
+        StatusService.all(),
+        prisma.statusTransition.findMany({
+          orderBy: { createdAt: "asc" },
+        }),
+        SubtaskService.blocksClose(),
+      ]);
+
+      reply.status(200).send({
+        statuses,
+        transitions,
+        subtasksBlockClose,
+        success: true,
+      });
+    }
+  );
+
+  // Statuses a ticket of a type can move to from its current status
+  fastify.get(
+    "/api/v1/statuses/next",
+    {
+      preHandler: requirePermission(["issue::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { type, from }: any = request.query;
+
+      if (!Object.values(TicketType).includes(type)) {
+        return reply.status(400).send({
+          message: `Unknown ticket type ${type}`,
+          success: false,
+        });
+      }
+
+      const [statuses, allowed] = await Promise.all([
+        StatusService.all(),
+        StatusService.transitions(type, from),
+      ]);
+
+      reply.status(200).send({
+        statuses: statuses.filter(
+          (s) => !allowed || s.key === from || allowed.includes(s.key)
+        ),
+        success: true,
+      });
+    }
+  );
+
+  // Update a status. The key is fixed, tickets refer to it. Changing the
+  // category moves the tickets in the status along with it.
+  fastify.put(
+    "/api/v1/status/:id/update",
+    {
+      preHandler: requirePermission(["status::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const body: any = request.body;
+
+      const current = await prisma.status.findUnique({ where: { id } });
+
+      if (!current) {
+        return reply.status(404).send({
+          message: "Status not found",
+          success: false,
+        });
+      }
+
+      const category = body.category ?? current.category;
+      const isDefault = body.isDefault ?? current.isDefault;
+
+      try {
+        StatusService.validate({
+          ...body,
+          key: undefined,
+          category,
+          isDefault,
+        });
+
+        if (current.isDefault && !isDefault) {
+          throw new StatusError(
+            "Make another status the default instead of unsetting it"
+          );
+        }
+
+        if (
+          isCompleteCategory(current.category) &&
+          !isCompleteCategory(category) &&
+          (await StatusService.keys(["solved", "closed"])).length === 1
+        ) {
+          throw new StatusError(
+            "At least one solved or closed status is needed"
+          );
+        }
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      const status = await prisma.$transaction(async (tx) => {
+        if (isDefault && !current.isDefault) {
+          await tx.status.updateMany({ data: { isDefault: false } });
+        }
+
+        if (category !== current.category) {
+          await tx.ticket.updateMany({
+            where: { status: current.key },
+            data: { isComplete: isCompleteCategory(category) },
+          });
+        }
+
+        return tx.status.update({
+          where: { id },
+          data: {
+            name: body.name,
+            category,
+            color: body.color,
+            order: body.order !== undefined ? Number(body.order) : undefined,
+            isDefault,
+            updatedAt: new Date(),
+          },
+        });
+      });
+
+      reply.status(200).send({ status, success: true });
+    }
+  );
+
+  // Delete a status no ticket is in
+  fastify.delete(
+    "/api/v1/status/:id/delete",
+    {
+      preHandler: requirePermission(["status::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const status = await prisma.status.findUnique({ where: { id } });
+
+      if (!status) {
+        return reply.status(404).send({
+          message: "Status not found",
+          success: false,
+        });
+      }
+
+      const [tickets, statuses] = await Promise.all([
+        prisma.ticket.count({ where: { status: status.key } }),
+        StatusService.all(),
+      ]);
+
+      const complete = statuses.filter((s) => isCompleteCategory(s.category));
+
+      let message: string | null = null;
+
+      if (status.isDefault) {
+        message = "The default status can not be deleted";
+      } else if (tickets > 0) {
+        message = `Move the ${tickets} tickets in ${status.name} to another status first`;
+      } else if (complete.length === 1 && complete[0].id === status.id) {
+        message = "At least one solved or closed status is needed";
+      }
+
+      if (message) {
+        return reply.status(400).send({ message, success: false });
+      }
+
+      await prisma.status.delete({ where: { id } });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+
+  // Replace the workflow of a ticket type, or the default workflow when no
+  // type is given. An empty list removes it.
+  fastify.put(
+    "/api/v1/statuses/transitions",
+    {
+      preHandler: requirePermission(["status::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { type, transitions }: any = request.body;
+
+      if (type && !Object.values(TicketType).includes(type)) {
+        return reply.status(400).send({
+          message: `Unknown ticket type ${type}`,
+          success: false,
+        });
+      }
+
+      if (
+        !Array.isArray(transitions) ||
+        transitions.some(
+          (t: any) => !t.fromId || !t.toId || t.fromId === t.toId
+        )
+      ) {
+        return reply.status(400).send({
+          message: "Each transition needs two different statuses",
+          success: false,
+        });
+      }
+
+      await prisma.$transaction([
+        prisma.statusTransition.deleteMany({ where: { type: type || null } }),
+        prisma.statusTransition.createMany({
+          data: transitions.map((t: any) => ({
+            type: type || null,
+            fromId: t.fromId,
+            toId: t.toId,
+          })),
+        }),
+      ]);
+
+      reply.status(200).send({ success: true });
+    }
+  );
+  // Choose whether parents can close while their subtasks are open
+  fastify.put(
+    "/api/v1/statuses/subtasks",
+    {
+      preHandler: requirePermission(["status::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { blockClose }: any = request.body;
+
+      const config = await prisma.config.findFirst();
+
+      await prisma.config.update({
+        where: { id: config!.id },
+        data: { subtasks_block_close: !!blockClose },
+      });
+
+      reply.status(200).send({ success: true });
+    }
+  );
+}
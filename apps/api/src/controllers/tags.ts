@@ -0,0 +1,161 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { requirePermission } from "../lib/roles";
+import { TagError, TagService } from "../lib/services/tag.service";
+import { prisma } from "../prisma";
+
+function invalid(reply: FastifyReply, error: unknown) {
+  if (error instanceof TagError) {
+    return reply.status(400).send({
+      message: error.message,
+      success: false,
+    });
+  }
+
+  throw error;
+}
+
+export function tagRoutes(fastify: FastifyInstance) {
+  // Create a tag
+  fastify.post(
+    "/api/v1/tag/create",
+    {
+      preHandler: requirePermission(["tag::create"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { name, color, description }: any = request.body;
+
+      try {
+        TagService.validate({ name: name ?? "", color });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      if (await TagService.findByName(name)) {
+        return reply.status(400).send({
+          message: `A tag named ${name.trim()} already exists`,
+          success: false,
+        });
+      }
+
+      const tag = await prisma.tag.create({
+        data: {
+          name: name.trim(),
+          color,
+          description: description || null,
+        },
+      });
+
+      reply.status(200).send({ tag, success: true });
+    }
+  );
+
+  // Get all tags with their ticket counts, `q` narrows them down by name
+  // for autocomplete
+  fastify.get(
+    "/api/v1/tags/all",
+    {
+      preHandler: requirePermission(["issue::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { q }: any = request.query;
+
+      const tags = await TagService.all(q ? String(q).trim() : undefined);
+
+      reply.status(200).send({ tags, success: true });
+    }
+  );
+
+  // Update a tag. A new name is carried over to knowledge base articles
+  // using the old one.
+  fastify.put(
+    "/api/v1/tag/:id/update",
+    {
+      preHandler: requirePermission(["tag::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { name, color, description }: any = request.body;
+
+      const current = await prisma.tag.findUnique({ where: { id } });
+
+      if (!current) {
+        return reply.status(404).send({
+          message: "Tag not found",
+          success: false,
+        });
+      }
+
+      try {
+        TagService.validate({ name, color });
+      } catch (error) {
+        return invalid(reply, error);
+      }
+
+      const renamed = name !== undefined && name.trim() !== current.name;
+
+      if (renamed) {
+        const existing = await TagService.findByName(name);
+
+        if (existing && existing.id !== id) {
+          return reply.status(400).send({
+            message: `A tag named ${name.trim()} already exists`,
+            success: false,
+          });
+        }
+      }
+
+      const tag = await prisma.$transaction(async (tx) => {
+        if (renamed) {
+          await tx.$executeRaw`
+            UPDATE "knowledgeBase"
+            SET "tags" = array_replace("tags", ${current.name}, ${name.trim()})
+            WHERE ${current.name} = ANY("tags")`;
+        }
+
+        return tx.tag.update({
+          where: { id },
+          data: {
+            name: renamed ? name.trim() : undefined,
+            color,
+            description:
+              description !== undefined ? description || null : undefined,
+            updatedAt: new Date(),
+          },
+        });
+      });
+
+      reply.status(200).send({ tag, success: true });
+    }
+  );
+
+  // Delete a tag, removing it from tickets, skill rules and knowledge base
+  // articles
+  fastify.delete(
+    "/api/v1/tag/:id/delete",
+    {
+      preHandler: requirePermission(["tag::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const tag = await prisma.tag.findUnique({ where: { id } });
+
+      if (!tag) {
+        return reply.status(404).send({
+          message: "Tag not found",
+          success: false,
+        });
+      }
+
+      await prisma.$transaction([
+        prisma.$executeRaw`
+          UPDATE "knowledgeBase"
+          SET "tags" = array_remove("tags", ${tag.name})
+          WHERE ${tag.name} = ANY("tags")`,
+        prisma.tag.delete({ where: { id } }),
+      ]);
+
+      reply.status(200).send({ success: true });
+    }
+  );
+}
@@ -0,0 +1,255 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { track } from "../lib/hog";
+import { requirePermission } from "../lib/roles";
+import { checkSession } from "../lib/session";
+import { prisma } from "../prisma";
+
+const members = {
+  select: { id: true, name: true, email: true },
+};
+
+const STRATEGIES = ["manual", "round_robin", "least_open"];
+
+// Returns an error message for invalid auto-assignment settings
+function invalidAssignment(body: any) {
+  const { assignmentStrategy, maxOpenTickets } = body;
+
+  if (
+    assignmentStrategy !== undefined &&
+    !STRATEGIES.includes(assignmentStrategy)
+  ) {
+    return `Unknown assignment strategy ${assignmentStrategy}`;
+  }
+
+  if (
+    maxOpenTickets !== undefined &&
+    maxOpenTickets !== null &&
+    (!Number.isInteger(maxOpenTickets) || maxOpenTickets < 1)
+  ) {
+    return "Capacity must be a whole number of at least 1";
+  }
+
+  return null;
+}
+
+export function teamRoutes(fastify: FastifyInstance) {
+  // Create a team, optionally with its first members
+  fastify.post(
+    "/api/v1/team/create",
+    {
+      preHandler: requirePermission(["team::create"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const body: any = request.body;
+      const { name, userIds, calendarId, assignmentStrategy, maxOpenTickets } =
+        body;
+
+      const message = name ? invalidAssignment(body) : "Team name is required";
+
+      if (message) {
+        return reply.status(400).send({ message, success: false });
+      }
+
+      const team = await prisma.team.create({
+        data: {
+          name,
+          calendarId: calendarId || null,
+          assignmentStrategy,
+          maxOpenTickets,
+          members: userIds
+            ? { connect: userIds.map((id: string) => ({ id })) }
+            : undefined,
+        },
+      });
+
+      const client = track();
+
+      client.capture({
+        event: "team_created",
+        distinctId: "uuid",
+      });
+
+      client.shutdownAsync();
+
+      reply.status(200).send({ team, success: true });
+    }
+  );
+
+  // Get all teams with their members and open ticket counts
+  fastify.get(
+    "/api/v1/teams/all",
+    {
+      preHandler: requirePermission(["team::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const teams = await prisma.team.findMany({
+        orderBy: { name: "asc" },
+        include: {
+          members,
+          calendar: { select: { id: true, name: true } },
+          emailQueues: { select: { id: true, name: true } },
+          _count: {
+            select: { Ticket: { where: { isComplete: false } } },
+          },
+        },
+      });
+
+      reply.status(200).send({ teams, success: true });
+    }
+  );
+
+  // Teams the logged in user belongs to, used for the sidebar queues
+  fastify.get(
+    "/api/v1/teams/mine",
+    {
+      preHandler: requirePermission(["issue::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const user = await checkSession(request);
+
+      const teams = await prisma.team.findMany({
+        where: { members: { some: { id: user!.id } } },
+        orderBy: { name: "asc" },
+        select: {
+          id: true,
+          name: true,
+          _count: {
+            select: { Ticket: { where: { isComplete: false } } },
+          },
+        },
+      });
+
+      reply.status(200).send({ teams, success: true });
+    }
+  );
+
+  // Get a single team
+  fastify.get(
+    "/api/v1/team/:id",
+    {
+      preHandler: requirePermission(["team::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const team = await prisma.team.findUnique({
+        where: { id },
+        include: {
+          members,
+          calendar: { select: { id: true, name: true } },
+          emailQueues: { select: { id: true, name: true } },
+        },
+      });
+
+      if (!team) {
+        return reply.status(404).send({
+          message: "Team not found",
+          success: false,
+        });
+      }
+
+      reply.status(200).send({ team, success: true });
+    }
+  );
+
+  // Rename a team or change its calendar and auto-assignment settings
+  fastify.put(
+    "/api/v1/team/:id/update",
+    {
+      preHandler: requirePermission(["team::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const body: any = request.body;
+      const { name, calendarId, assignmentStrategy, maxOpenTickets } = body;
+
+      const message = invalidAssignment(body);
+
+      if (message) {
+        return reply.status(400).send({ message, success: false });
+      }
+
+      const team = await prisma.team.update({
+        where: { id },
+        data: {
+          name,
+          calendarId: calendarId === undefined ? undefined : calendarId || null,
+          assignmentStrategy,
+          maxOpenTickets,
+          updatedAt: new Date(),
+        },
+      });
+
+      reply.status(200).send({ team, success: true });
+    }
+  );
+
+  // Delete a team, its tickets go back to the unassigned queue
+  fastify.delete(
+    "/api/v1/team/:id/delete",
+    {
+      preHandler: requirePermission(["team::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      await prisma.$transaction([
+        prisma.ticket.updateMany({
+          where: { teamId: id },
+          data: { teamId: null },
+        }),
+        prisma.team.delete({ where: { id } }),
+      ]);
+
+      reply.status(200).send({ success: true });
+    }
+  );
+
+  // Add users to a team
+  fastify.post(
+    "/api/v1/team/:id/members/add",
+    {
+      preHandler: requirePermission(["team::manage"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { userIds }: any = request.body;
+
+      const team = await prisma.team.update({
+        where: { id },
+        data: {
+          members: {
+            connect: (userIds || []).map((userId: string) => ({
+              id: userId,
+            })),
+          },
+        },
+        include: { members },
+      });
+
+      reply.status(200).send({ team, success: true });
+    }
+  );
+
+  // Remove a user from a team
+  fastify.post(
+    "/api/v1/team/:id/members/remove",
+    {
+      preHandler: requirePermission(["team::manage"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { userId }: any = request.body;
+
+      const team = await prisma.team.update({
+        where: { id },
+        data: {
+          members: { disconnect: { id: userId } },
+        },
+        include: { members },
+      });
+
+      reply.status(200).send({ team, success: true });
+    }
+  );
+}
@@ -6,18 +6,52 @@ import { checkToken } from "../lib/jwt";
 //@ts-ignore
 import { track } from "../lib/hog";
 import { sendAssignedEmail } from "../lib/nodemailer/ticket/assigned";
-import { sendComment } from "../lib/nodemailer/ticket/comment";
 import { sendTicketCreate } from "../lib/nodemailer/ticket/create";
 import { sendTicketStatus } from "../lib/nodemailer/ticket/status";
 import { assignedNotification } from "../lib/notifications/issue/assigned";
-import { commentNotification } from "../lib/notifications/issue/comment";
 import { priorityNotification } from "../lib/notifications/issue/priority";
 import {
   activeStatusNotification,
   statusUpdateNotification,
 } from "../lib/notifications/issue/status";
 import { sendWebhookNotification } from "../lib/notifications/webhook";
-import { requirePermission } from "../lib/roles";
+import { can, requirePermission } from "../lib/roles";
+import { ActivityService } from "../lib/services/activity.service";
+import { AssignmentService } from "../lib/services/assignment.service";
+import { AutomationService } from "../lib/services/automation.service";
+import { BulkError, BulkService } from "../lib/services/bulk.service";
+import { CcError, CcService } from "../lib/services/cc.service";
+import {
+  CommentError,
+  CommentService,
+} from "../lib/services/comment.service";
+import {
+  CustomFieldError,
+  CustomFieldService,
+} from "../lib/services/custom-field.service";
+import { MergeError, MergeService } from "../lib/services/merge.service";
+import {
+  PriorityError,
+  PriorityService,
+} from "../lib/services/priority.service";
+import {
+  RelationError,
+  RelationService,
+} from "../lib/services/relation.service";
+import { SearchService } from "../lib/services/search.service";
+import { SlaService } from "../lib/services/sla.service";
+import { SnoozeError, SnoozeService } from "../lib/services/snooze.service";
+import { StatusError, StatusService } from "../lib/services/status.service";
+import {
+  SubtaskError,
+  SubtaskService,
+} from "../lib/services/subtask.service";
+import { TagError, TagService } from "../lib/services/tag.service";
+import { TrashError, TrashService } from "../lib/services/trash.service";
+import {
+  TicketQueryError,
+  TicketQueryService,
+} from "../lib/services/ticket-query.service";
 import { checkSession } from "../lib/session";
 import { prisma } from "../prisma";
 
@@ -29,6 +63,27 @@ const validateEmail = (email: string) => {
     );
 };
 
+function invalidInput(reply: FastifyReply, error: unknown) {
+  if (
+    error instanceof CustomFieldError ||
+    error instanceof CommentError ||
+    error instanceof SnoozeError ||
+    error instanceof StatusError ||
+    error instanceof PriorityError ||
+    error instanceof TagError ||
+    error instanceof BulkError ||
+    error instanceof CcError ||
+    error instanceof SubtaskError ||
+    error instanceof TrashError
+  ) {
+    return reply.status(400).send({
+      message: error.message,
+      success: false,
+    });
+  }
+  throw error;
+}
+
 export function ticketRoutes(fastify: FastifyInstance) {
   fastify.post(
     "/api/v1/ticket/create",
@@ -46,16 +101,44 @@ export function ticketRoutes(fastify: FastifyInstance) {
         engineer,
         type,
         createdBy,
+        team,
+        customFields,
+        tags,
+        parent: parentId,
       }: any = request.body;
 
       const user = await checkSession(request);
 
+      let values;
+      let initial;
+      let priorityKey;
+      let tagIds: string[] = [];
+      let parent;
+
+      try {
+        // Subtasks belong to the client and team of their parent unless
+        // given their own
+        parent = parentId ? await SubtaskService.parent(parentId) : null;
+        initial = await StatusService.initial();
+        priorityKey = await PriorityService.resolve(priority);
+        tagIds = await TagService.ids(tags);
+        // Customers creating tickets from the portal only fill portal fields
+        values = await CustomFieldService.values(
+          customFields,
+          type ? type.toLowerCase() : "support",
+          undefined,
+          !!user?.external_user
+        );
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+
       const ticket: any = await prisma.ticket.create({
         data: {
           name,
           title,
           detail: JSON.stringify(detail),
-          priority: priority ? priority : "low",
+          priority: priorityKey,
           email,
           type: type ? type.toLowerCase() : "support",
           createdBy: createdBy
@@ -71,18 +154,45 @@ export function ticketRoutes(fastify: FastifyInstance) {
               ? {
                 connect: { id: company.id || company },
               }
+              : parent?.clientId
+              ? { connect: { id: parent.clientId } }
               : undefined,
           fromImap: false,
+          customFields: values,
+          tags: {
+            create: tagIds.map((tagId) => ({ tagId })),
+          },
           assignedTo:
             engineer && engineer.name !== "Unassigned"
               ? {
                 connect: { id: engineer.id },
               }
               : undefined,
+          team: team
+            ? {
+              connect: { id: team.id || team },
+            }
+            : parent?.teamId
+            ? { connect: { id: parent.teamId } }
+            : undefined,
+          parent: parent ? { connect: { id: parent.id } } : undefined,
+          status: initial.key,
           isComplete: Boolean(false),
         },
       });
 
+      if (parent) {
+        await ActivityService.record(parent.id, user, [
+          { field: "subtask", from: null, to: `#${ticket.Number}` },
+        ]);
+      }
+
+      await SlaService.apply(ticket.id);
+
+      await AutomationService.run("ticket_created", ticket.id);
+
+      await AssignmentService.assign(ticket.id);
+
       if (!email && !validateEmail(email)) {
         await sendTicketCreate(ticket);
       }
@@ -152,14 +262,33 @@ export function ticketRoutes(fastify: FastifyInstance) {
         engineer,
         type,
         createdBy,
+        team,
+        customFields,
       }: any = request.body;
 
+      let values;
+      let initial;
+      let priorityKey;
+
+      try {
+        initial = await StatusService.initial();
+        priorityKey = await PriorityService.resolve(priority);
+        values = await CustomFieldService.values(
+          customFields,
+          type ? type.toLowerCase() : "support",
+          undefined,
+          true
+        );
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+
       const ticket: any = await prisma.ticket.create({
         data: {
           name,
           title,
           detail: JSON.stringify(detail),
-          priority: priority ? priority : "low",
+          priority: priorityKey,
           email,
           type: type ? type.toLowerCase() : "support",
           createdBy: createdBy
@@ -177,16 +306,29 @@ export function ticketRoutes(fastify: FastifyInstance) {
               }
               : undefined,
           fromImap: false,
+          customFields: values,
           assignedTo:
             engineer && engineer.name !== "Unassigned"
               ? {
                 connect: { id: engineer.id },
               }
               : undefined,
+          team: team
+            ? {
+              connect: { id: team.id || team },
+            }
+            : undefined,
+          status: initial.key,
           isComplete: Boolean(false),
         },
       });
 
+      await SlaService.apply(ticket.id);
+
+      await AutomationService.run("ticket_created", ticket.id);
+
+      await AssignmentService.assign(ticket.id);
+
       if (!email && !validateEmail(email)) {
         await sendTicketCreate(ticket);
       }
@@ -265,6 +407,22 @@ export function ticketRoutes(fastify: FastifyInstance) {
           assignedTo: {
             select: { id: true, name: true },
           },
+          team: {
+            select: { id: true, name: true },
+          },
+          slaPolicy: {
+            select: { id: true, name: true, atRiskPercent: true },
+          },
+          requiredSkills: {
+            include: { skill: { select: { id: true, name: true } } },
+          },
+          tags: {
+            include: { tag: true },
+            orderBy: { createdAt: "asc" },
+          },
+          parent: {
+            select: { id: true, Number: true, title: true, isComplete: true },
+          },
         },
       });
 
@@ -300,11 +458,33 @@ export function ticketRoutes(fastify: FastifyInstance) {
         },
       });
 
+      const mergedInto = ticket?.mergedIntoId
+        ? await prisma.ticket.findUnique({
+            where: { id: ticket.mergedIntoId },
+            select: { id: true, Number: true, title: true },
+          })
+        : null;
+
+      const merged = await prisma.ticket.findMany({
+        where: {
+          mergedIntoId: id,
+        },
+        select: { id: true, Number: true, title: true },
+      });
+
+      const relations = await RelationService.list(id);
+
+      const subtasks = await SubtaskService.children(id);
+
       var t = {
         ...ticket,
         comments: [...comments],
         TimeTracking: [...timeTracking],
         files: [...files],
+        mergedInto,
+        merged: [...merged],
+        relations: [...relations],
+        subtasks: [...subtasks],
       };
 
       reply.send({
@@ -314,6 +494,40 @@ export function ticketRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Query tickets with filters, sorting and cursor pagination - requires auth
+  fastify.get(
+    "/api/v1/tickets",
+    {
+      preHandler: requirePermission(["issue::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const user = await checkSession(request);
+
+      try {
+        const query = await TicketQueryService.parse(request.query, user?.id);
+
+        const { tickets, nextCursor, total, truncated } =
+          await TicketQueryService.find(query);
+
+        reply.send({
+          tickets,
+          nextCursor,
+          total,
+          truncated,
+          success: true,
+        });
+      } catch (error) {
+        if (error instanceof TicketQueryError) {
+          return reply.status(400).send({
+            success: false,
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+    }
+  );
+
   // Get all tickets - requires auth
   fastify.get(
     "/api/v1/tickets/open",
@@ -322,7 +536,12 @@ export function ticketRoutes(fastify: FastifyInstance) {
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const tickets = await prisma.ticket.findMany({
-        where: { isComplete: false, hidden: false },
+        where: {
+          isComplete: false,
+          hidden: false,
+          deletedAt: null,
+          snoozedUntil: null,
+        },
         orderBy: [
           {
             createdAt: "desc",
@@ -348,22 +567,23 @@ export function ticketRoutes(fastify: FastifyInstance) {
     }
   );
 
-  // Basic Search - requires auth
+  // Ranked full-text search - requires auth
   fastify.post(
     "/api/v1/tickets/search",
     {
       preHandler: requirePermission(["issue::read"]),
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const { query }: any = request.body;
+      const { query, limit }: any = request.body;
 
-      const tickets = await prisma.ticket.findMany({
-        where: {
-          title: {
-            contains: query,
-          },
-        },
-      });
+      if (!query || !String(query).trim()) {
+        return reply.send({
+          tickets: [],
+          success: true,
+        });
+      }
+
+      const tickets = await SearchService.search(String(query), limit);
 
       reply.send({
         tickets: tickets,
@@ -380,7 +600,7 @@ export function ticketRoutes(fastify: FastifyInstance) {
       const token = checkToken(bearer);
 
       const tickets = await prisma.ticket.findMany({
-        where: { hidden: false },
+        where: { hidden: false, deletedAt: null },
         orderBy: [
           {
             createdAt: "desc",
@@ -414,7 +634,13 @@ export function ticketRoutes(fastify: FastifyInstance) {
       const user = await checkSession(request);
 
       const tickets = await prisma.ticket.findMany({
-        where: { isComplete: false, userId: user!.id, hidden: false },
+        where: {
+          isComplete: false,
+          userId: user!.id,
+          hidden: false,
+          deletedAt: null,
+          snoozedUntil: null,
+        },
         include: {
           client: {
             select: { id: true, name: true, number: true },
@@ -441,7 +667,7 @@ export function ticketRoutes(fastify: FastifyInstance) {
 
     async (request: FastifyRequest, reply: FastifyReply) => {
       const tickets = await prisma.ticket.findMany({
-        where: { isComplete: true, hidden: false },
+        where: { isComplete: true, hidden: false, deletedAt: null },
         include: {
           client: {
             select: { id: true, name: true, number: true },
@@ -472,6 +698,8 @@ export function ticketRoutes(fastify: FastifyInstance) {
           isComplete: false,
           assignedTo: null,
           hidden: false,
+          deletedAt: null,
+          snoozedUntil: null,
         },
       });
 
@@ -489,8 +717,16 @@ export function ticketRoutes(fastify: FastifyInstance) {
       preHandler: requirePermission(["issue::update"]),
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const { id, note, detail, title, priority, status, client }: any =
-        request.body;
+      const {
+        id,
+        note,
+        detail,
+        title,
+        priority,
+        status,
+        client,
+        customFields,
+      }: any = request.body;
 
       const user = await checkSession(request);
 
@@ -498,25 +734,65 @@ export function ticketRoutes(fastify: FastifyInstance) {
         where: { id: id },
       });
 
+      let values;
+      let priorityKey;
+
+      try {
+        priorityKey = priority
+          ? await PriorityService.resolve(priority)
+          : undefined;
+
+        values =
+          customFields === undefined
+            ? undefined
+            : await CustomFieldService.values(
+                customFields,
+                issue!.type,
+                issue!.customFields
+              );
+
+        // Status changes go through the workflow of the ticket's type
+        if (status && status !== issue!.status) {
+          await StatusService.change(issue!, status, user);
+        }
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+
       await prisma.ticket.update({
         where: { id: id },
         data: {
           detail,
           note,
           title,
-          priority,
-          status,
+          priority: priorityKey,
+          customFields: values,
         },
       });
 
-      if (priority && issue!.priority !== priority) {
-        await priorityNotification(issue, user, issue!.priority, priority);
+      await ActivityService.record(id, user, [
+        ...ActivityService.diff(issue!, {
+          title,
+          detail,
+          note,
+          priority: priorityKey,
+        }),
+        ...(values
+          ? ActivityService.diffCustomFields(issue!.customFields, values)
+          : []),
+      ]);
+
+      if (priorityKey && issue!.priority !== priorityKey) {
+        await priorityNotification(issue, user, issue!.priority, priorityKey);
+        await SlaService.apply(id);
       }
 
       if (status && issue!.status !== status) {
         await statusUpdateNotification(issue, user, status);
       }
 
+      await AutomationService.run("ticket_updated", id, { previous: issue });
+
       reply.send({
         success: true,
       });
@@ -534,6 +810,11 @@ export function ticketRoutes(fastify: FastifyInstance) {
 
       const assigner = await checkSession(request);
 
+      const previous = await prisma.ticket.findUnique({
+        where: { id: id },
+        include: { assignedTo: { select: { name: true } } },
+      });
+
       if (user) {
         const assigned = await prisma.user.update({
           where: { id: user },
@@ -554,6 +835,14 @@ export function ticketRoutes(fastify: FastifyInstance) {
 
         await sendAssignedEmail(email);
         await assignedNotification(assigned, ticket, assigner);
+
+        await ActivityService.record(id, assigner, [
+          {
+            field: "assignee",
+            from: previous?.assignedTo?.name,
+            to: assigned.name,
+          },
+        ]);
       } else {
         await prisma.ticket.update({
           where: { id: id },
@@ -561,8 +850,14 @@ export function ticketRoutes(fastify: FastifyInstance) {
             userId: null,
           },
         });
+
+        await ActivityService.record(id, assigner, [
+          { field: "assignee", from: previous?.assignedTo?.name, to: null },
+        ]);
       }
 
+      await AutomationService.run("ticket_updated", id, { previous });
+
       reply.send({
         success: true,
       });
@@ -578,6 +873,13 @@ export function ticketRoutes(fastify: FastifyInstance) {
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { client, id }: any = request.body;
 
+      const user = await checkSession(request);
+
+      const previous = await prisma.ticket.findUnique({
+        where: { id: id },
+        include: { client: { select: { name: true } } },
+      });
+
       if (client) {
         await prisma.ticket.update({
           where: { id: id },
@@ -594,130 +896,66 @@ export function ticketRoutes(fastify: FastifyInstance) {
         });
       }
 
+      const updated = client
+        ? await prisma.client.findUnique({ where: { id: client } })
+        : null;
+
+      await SlaService.apply(id);
+
+      await ActivityService.record(id, user, [
+        {
+          field: "client",
+          from: previous?.client?.name,
+          to: updated ? updated.name : null,
+        },
+      ]);
+
+      await AutomationService.run("ticket_updated", id, { previous });
+
       reply.send({
         success: true,
       });
     }
   );
 
-  // Link a ticket to another ticket
-
-  // fastify.post(
-  //   "/api/v1/ticket/link",
-
-  //   async (request: FastifyRequest, reply: FastifyReply) => {
-  //     const { ticket, id }: any = request.body;
-
-  //     const prev: any = await prisma.ticket.findUnique({
-  //       where: {
-  //         id: id,
-  //       },
-  //     });
-
-  //     const ids = [];
-
-  //     if (prev.length !== undefined && prev.linked.length > 0) {
-  //       ids.push(...prev.linked);
-  //     }
-
-  //     ids.push({
-  //       id: ticket.id,
-  //       title: ticket.title,
-  //     });
-
-  //     const data = await prisma.ticket.update({
-  //       where: {
-  //         id: id,
-  //       },
-  //       data: {
-  //         linked: {
-  //           ...ids,
-  //         },
-  //       },
-  //     });
-  //   }
-  // );
-
-  // Unlink a ticket from another ticket
-  // fastify.post(
-  //   "/api/v1/ticket/unlink",
-
-  //   async (request: FastifyRequest, reply: FastifyReply) => {}
-  // );
-
-  // Comment on a ticket
+  // Transfer a ticket to another team's queue
   fastify.post(
-    "/api/v1/ticket/comment",
+    "/api/v1/ticket/transfer/team",
     {
-      preHandler: requirePermission(["issue::comment"]),
+      preHandler: requirePermission(["issue::transfer"]),
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const { text, id, public: public_comment }: any = request.body;
+      const { team, id }: any = request.body;
 
       const user = await checkSession(request);
 
-      await prisma.comment.create({
-        data: {
-          text: text,
-          public: public_comment,
-          ticketId: id,
-          userId: user!.id,
-        },
+      const previous = await prisma.ticket.findUnique({
+        where: { id: id },
+        include: { team: { select: { name: true } } },
       });
 
-      // Fetch ticket with threading fields
-      const ticket = await prisma.ticket.findUnique({
-        where: {
-          id: id,
-        },
-        select: {
-          id: true,
-          email: true,
-          title: true,
-          externalIds: true,
+      await prisma.ticket.update({
+        where: { id: id },
+        data: {
+          teamId: team || null,
         },
       });
 
-      const { email, title, externalIds } = ticket || {};
-
-      if (ticket && public_comment && email) {
-        // Get the last Message-ID for In-Reply-To header
-        const lastMessageId = externalIds && externalIds.length > 0
-          ? externalIds[externalIds.length - 1]
-          : undefined;
-
-        // Send comment email with threading headers
-        const sentMessageId = await sendComment({
-          comment: text,
-          title: title || '',
-          ticketId: ticket.id,
-          email: email,
-          originalSubject: title,
-          inReplyTo: lastMessageId,
-          references: externalIds || [],
-        });
-
-        // Store the outbound message ID for future thread matching
-        if (sentMessageId) {
-          await prisma.ticket.update({
-            where: { id: ticket.id },
-            data: {
-              externalIds: {
-                push: sentMessageId,
-              },
-            },
-          });
-        }
-      }
+      const updated = team
+        ? await prisma.team.findUnique({ where: { id: team } })
+        : null;
 
-      await commentNotification(ticket, user);
+      await SlaService.apply(id);
 
-      const hog = track();
+      await ActivityService.record(id, user, [
+        {
+          field: "team",
+          from: previous?.team?.name,
+          to: updated ? updated.name : null,
+        },
+      ]);
 
-      hog.capture({
-        event: "ticket_comment",
-        distinctId: ticket?.id || id,
-      });
+      await AutomationService.run("ticket_updated", id, { previous });
 
       reply.send({
         success: true,
@@ -725,125 +963,735 @@ export function ticketRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Merge one or more tickets into another ticket
   fastify.post(
-    "/api/v1/ticket/comment/delete",
+    "/api/v1/ticket/merge",
     {
-      preHandler: requirePermission(["issue::comment"]),
+      preHandler: requirePermission(["issue::update"]),
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const { id }: any = request.body;
+      const { id, tickets }: any = request.body;
 
-      await prisma.comment.delete({
-        where: {
-          id: id,
-        },
-      });
+      const user = await checkSession(request);
 
-      reply.send({
-        success: true,
-      });
+      if (!id || !Array.isArray(tickets) || tickets.length === 0) {
+        return reply.status(400).send({
+          success: false,
+          message: "A target ticket and at least one ticket to merge are required",
+        });
+      }
+
+      try {
+        const ticket = await MergeService.merge(id, tickets, user!);
+
+        const hog = track();
+
+        hog.capture({
+          event: "ticket_merged",
+          distinctId: ticket.id,
+        });
+
+        reply.send({
+          success: true,
+          id: ticket.id,
+        });
+      } catch (error) {
+        if (error instanceof MergeError) {
+          return reply.status(400).send({
+            success: false,
+            message: error.message,
+          });
+        }
+        throw error;
+      }
     }
   );
 
-  // Update status of a ticket
-  fastify.put(
-    "/api/v1/ticket/status/update",
+  // Apply one operation to many tickets. The permission the operation needs
+  // is checked for each ticket, which succeeds or fails on its own.
+  fastify.post(
+    "/api/v1/tickets/bulk",
     {
-      preHandler: requirePermission(["issue::update"]),
+      preHandler: requirePermission(["issue::read"]),
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const { status, id }: any = request.body;
-
       const user = await checkSession(request);
 
-      const ticket: any = await prisma.ticket.update({
-        where: { id: id },
-        data: {
-          isComplete: status,
-        },
-      });
-
-      await activeStatusNotification(ticket, user, status);
-
-      await sendTicketStatus(ticket);
+      let planned;
 
-      const webhook = await prisma.webhooks.findMany({
-        where: {
-          type: "ticket_status_changed",
-        },
-      });
+      try {
+        planned = await BulkService.plan(request.body);
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
 
-      for (let i = 0; i < webhook.length; i++) {
-        const url = webhook[i].url;
+      const results = await BulkService.apply(
+        planned.ids,
+        planned.plan,
+        user!,
+        (ticket, permission) => can(request, [permission])
+      );
 
-        if (webhook[i].active === true) {
-          const s = status ? "Completed" : "Outstanding";
-          if (url.includes("discord.com")) {
-            const message = {
-              content: `Ticket ${ticket.id} created by ${ticket.email}, has had it's status changed to ${s}`,
-              avatar_url:
-                "https://avatars.githubusercontent.com/u/76014454?s=200&v=4",
-              username: "Peppermint.sh",
-            };
-            axios
-              .post(url, message)
-              .then((response) => {
-                console.log("Message sent successfully!");
-                console.log("Discord API response:", response.data);
-              })
-              .catch((error) => {
-                console.error("Error sending message:", error);
-              });
-          } else {
-            await axios.post(`${webhook[i].url}`, {
-              headers: {
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({
-                data: `Ticket ${ticket.id} created by ${ticket.email}, has had it's status changed to ${s}`,
-              }),
-            });
-          }
-        }
-      }
+      const failed = results.filter((result) => !result.success).length;
 
       reply.send({
-        success: true,
+        success: failed === 0,
+        succeeded: results.length - failed,
+        failed,
+        results,
       });
     }
   );
 
-  // Hide a ticket
-  fastify.put(
-    "/api/v1/ticket/status/hide",
+  // Get the activity timeline of a ticket
+  fastify.get(
+    "/api/v1/ticket/:id/activity",
     {
-      preHandler: requirePermission(["issue::update"]),
+      preHandler: requirePermission(["issue::read"]),
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const { hidden, id }: any = request.body;
+      const { id }: any = request.params;
 
-      await prisma.ticket.update({
-        where: { id: id },
-        data: {
-          hidden: hidden,
-        },
-      });
+      const activity = await ActivityService.timeline(id);
 
       reply.send({
         success: true,
+        activity,
       });
     }
   );
 
-  // Lock a ticket
-  fastify.put(
-    "/api/v1/ticket/status/lock",
+  // Get all relations of a ticket
+  fastify.get(
+    "/api/v1/ticket/:id/relations",
     {
-      preHandler: requirePermission(["issue::update"]),
+      preHandler: requirePermission(["issue::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const relations = await RelationService.list(id);
+
+      reply.send({
+        success: true,
+        relations,
+      });
+    }
+  );
+
+  // Snooze a ticket until `until`, it leaves the open queues and comes back
+  // at that time with the optional `note` for its assignee
+  fastify.post(
+    "/api/v1/ticket/:id/snooze",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { until, note }: any = request.body;
+
+      const user = await checkSession(request);
+
+      const ticket = await prisma.ticket.findUnique({ where: { id } });
+
+      if (!ticket) {
+        return reply.status(404).send({
+          message: "Ticket not found",
+          success: false,
+        });
+      }
+
+      try {
+        const updated = await SnoozeService.snooze(ticket, until, note, user);
+
+        await AutomationService.run("ticket_updated", id, {
+          previous: ticket,
+        });
+
+        reply.send({ ticket: updated, success: true });
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+    }
+  );
+
+  // Wake a snoozed ticket now
+  fastify.delete(
+    "/api/v1/ticket/:id/snooze",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const user = await checkSession(request);
+
+      const ticket = await prisma.ticket.findUnique({ where: { id } });
+
+      if (!ticket) {
+        return reply.status(404).send({
+          message: "Ticket not found",
+          success: false,
+        });
+      }
+
+      try {
+        const updated = await SnoozeService.wake(ticket, user);
+
+        reply.send({ ticket: updated, success: true });
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+    }
+  );
+
+  // Add tags to a ticket
+  fastify.post(
+    "/api/v1/ticket/:id/tags",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { tags }: any = request.body;
+
+      const user = await checkSession(request);
+
+      const ticket = await prisma.ticket.findUnique({ where: { id } });
+
+      if (!ticket) {
+        return reply.status(404).send({
+          message: "Ticket not found",
+          success: false,
+        });
+      }
+
+      let tagIds: string[];
+
+      try {
+        tagIds = await TagService.ids(tags);
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+
+      if (await TagService.add(id, tagIds, user)) {
+        // Tags can make skill rules match
+        await AssignmentService.storeSkills(ticket);
+        await AutomationService.run("ticket_updated", id, {
+          previous: ticket,
+        });
+      }
+
+      reply.send({
+        success: true,
+      });
+    }
+  );
+
+  // Remove a tag from a ticket
+  fastify.delete(
+    "/api/v1/ticket/:id/tags/:tagId",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id, tagId }: any = request.params;
+
+      const user = await checkSession(request);
+
+      const ticket = await prisma.ticket.findUnique({ where: { id } });
+
+      if (!ticket) {
+        return reply.status(404).send({
+          message: "Ticket not found",
+          success: false,
+        });
+      }
+
+      if (await TagService.remove(id, tagId, user)) {
+        await AutomationService.run("ticket_updated", id, {
+          previous: ticket,
+        });
+      }
+
+      reply.send({
+        success: true,
+      });
+    }
+  );
+
+  // Move a ticket under a parent, or back to the top level with null
+  fastify.put(
+    "/api/v1/ticket/:id/parent",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { parent }: any = request.body;
+
+      const user = await checkSession(request);
+
+      const ticket = await prisma.ticket.findUnique({ where: { id } });
+
+      if (!ticket) {
+        return reply.status(404).send({
+          message: "Ticket not found",
+          success: false,
+        });
+      }
+
+      try {
+        const updated = await SubtaskService.setParent(
+          ticket,
+          parent || null,
+          user
+        );
+
+        reply.send({ ticket: updated, success: true });
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+    }
+  );
+
+  // Copy external addresses on a ticket's public replies
+  fastify.post(
+    "/api/v1/ticket/:id/cc",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+      const { emails }: any = request.body;
+
+      const user = await checkSession(request);
+
+      const ticket = await prisma.ticket.findUnique({ where: { id } });
+
+      if (!ticket) {
+        return reply.status(404).send({
+          message: "Ticket not found",
+          success: false,
+        });
+      }
+
+      try {
+        const normalized = CcService.normalize(emails);
+        const excluded = await CcService.excluded();
+
+        const internal = normalized.find((email) => excluded.has(email));
+
+        if (internal) {
+          throw new CcError(
+            `${internal} belongs to this helpdesk and can not be copied`
+          );
+        }
+
+        if (await CcService.add(ticket, normalized, user)) {
+          await AutomationService.run("ticket_updated", id, {
+            previous: ticket,
+          });
+        }
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+
+      reply.send({
+        success: true,
+      });
+    }
+  );
+
+  // Stop copying an address on a ticket
+  fastify.delete(
+    "/api/v1/ticket/:id/cc/:email",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id, email }: any = request.params;
+
+      const user = await checkSession(request);
+
+      const ticket = await prisma.ticket.findUnique({ where: { id } });
+
+      if (!ticket) {
+        return reply.status(404).send({
+          message: "Ticket not found",
+          success: false,
+        });
+      }
+
+      if (await CcService.remove(ticket, email, user)) {
+        await AutomationService.run("ticket_updated", id, {
+          previous: ticket,
+        });
+      }
+
+      reply.send({
+        success: true,
+      });
+    }
+  );
+
+  // Link a ticket to another ticket
+  fastify.post(
+    "/api/v1/ticket/link",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id, ticket, type }: any = request.body;
+
+      const user = await checkSession(request);
+
+      try {
+        const relation = await RelationService.link(
+          id,
+          ticket,
+          type || "relates_to",
+          user?.id
+        );
+
+        reply.send({
+          success: true,
+          id: relation.id,
+        });
+      } catch (error) {
+        if (error instanceof RelationError) {
+          return reply.status(400).send({
+            success: false,
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Change the type of a ticket relation
+  fastify.put(
+    "/api/v1/ticket/link",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id, relation, type }: any = request.body;
+
+      try {
+        await RelationService.update(relation, id, type);
+
+        reply.send({
+          success: true,
+        });
+      } catch (error) {
+        if (error instanceof RelationError) {
+          return reply.status(400).send({
+            success: false,
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+    }
+  );
+
+  // Unlink a ticket from another ticket
+  fastify.post(
+    "/api/v1/ticket/unlink",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { relation }: any = request.body;
+
+      try {
+        await RelationService.unlink(relation);
+      } catch (error) {
+        if (error instanceof RelationError) {
+          return reply.status(404).send({
+            success: false,
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+
+      reply.send({
+        success: true,
+      });
+    }
+  );
+
+  // Comment on a ticket
+  fastify.post(
+    "/api/v1/ticket/comment",
+    {
+      preHandler: requirePermission(["issue::comment"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { text, id, public: public_comment }: any = request.body;
+
+      const user = await checkSession(request);
+
+      await CommentService.post(id, user!, text, Boolean(public_comment));
+
+      const hog = track();
+
+      hog.capture({
+        event: "ticket_comment",
+        distinctId: id,
+      });
+
+      reply.send({
+        success: true,
+      });
+    }
+  );
+
+  // Edit a comment, only its author or those who can update tickets may.
+  // A public comment that was already emailed needs `confirm`, since the
+  // requester keeps the original.
+  fastify.put(
+    "/api/v1/ticket/comment/update",
+    {
+      preHandler: requirePermission(["issue::comment"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id, text, confirm }: any = request.body;
+
+      const user = await checkSession(request);
+
+      const comment = await prisma.comment.findUnique({ where: { id } });
+
+      if (!comment) {
+        return reply.status(404).send({
+          message: "Comment not found",
+          success: false,
+        });
+      }
+
+      if (
+        comment.userId !== user!.id &&
+        !(await can(request, ["issue::update"]))
+      ) {
+        return reply.status(401).send({
+          message: "You can only edit your own comments",
+          success: false,
+        });
+      }
+
+      if (comment.public && comment.emailed && !confirm) {
+        return reply.status(409).send({
+          message:
+            "This comment was already emailed to the requester, they will keep the original",
+          confirm: true,
+          success: false,
+        });
+      }
+
+      try {
+        const updated = await CommentService.edit(id, text, user!);
+
+        reply.send({ comment: updated, success: true });
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+    }
+  );
+
+  // Every version of a comment, oldest first
+  fastify.get(
+    "/api/v1/ticket/comment/:id/revisions",
+    {
+      preHandler: requirePermission(["issue::read"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      try {
+        const revisions = await CommentService.history(id);
+
+        reply.send({ revisions, success: true });
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+    }
+  );
+
+  fastify.post(
+    "/api/v1/ticket/comment/delete",
+    {
+      preHandler: requirePermission(["issue::comment"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.body;
+
+      const user = await checkSession(request);
+
+      const comment = await prisma.comment.findUnique({ where: { id } });
+
+      if (!comment) {
+        return reply.status(404).send({
+          message: "Comment not found",
+          success: false,
+        });
+      }
+
+      if (
+        comment.userId !== user!.id &&
+        !(await can(request, ["issue::update"]))
+      ) {
+        return reply.status(401).send({
+          message: "You can only delete your own comments",
+          success: false,
+        });
+      }
+
+      await prisma.comment.delete({
+        where: {
+          id: id,
+        },
+      });
+
+      reply.send({
+        success: true,
+      });
+    }
+  );
+
+  // Update status of a ticket
+  fastify.put(
+    "/api/v1/ticket/status/update",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { status, id }: any = request.body;
+
+      const user = await checkSession(request);
+
+      const previous = await prisma.ticket.findUnique({
+        where: { id: id },
+      });
+
+      let ticket: any;
+
+      // Closing moves the ticket to the first solved status and re-opening
+      // to the default status, unless it is already where it should be
+      try {
+        ticket =
+          previous!.isComplete === Boolean(status)
+            ? previous
+            : await StatusService.change(
+                previous!,
+                (await StatusService.target(Boolean(status))).key,
+                user
+              );
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+
+      await AutomationService.run("ticket_updated", id, { previous });
+
+      await activeStatusNotification(ticket, user, status);
+
+      await sendTicketStatus(ticket);
+
+      const webhook = await prisma.webhooks.findMany({
+        where: {
+          type: "ticket_status_changed",
+        },
+      });
+
+      for (let i = 0; i < webhook.length; i++) {
+        const url = webhook[i].url;
+
+        if (webhook[i].active === true) {
+          const s = status ? "Completed" : "Outstanding";
+          if (url.includes("discord.com")) {
+            const message = {
+              content: `Ticket ${ticket.id} created by ${ticket.email}, has had it's status changed to ${s}`,
+              avatar_url:
+                "https://avatars.githubusercontent.com/u/76014454?s=200&v=4",
+              username: "Peppermint.sh",
+            };
+            axios
+              .post(url, message)
+              .then((response) => {
+                console.log("Message sent successfully!");
+                console.log("Discord API response:", response.data);
+              })
+              .catch((error) => {
+                console.error("Error sending message:", error);
+              });
+          } else {
+            await axios.post(`${webhook[i].url}`, {
+              headers: {
+                "Content-Type": "application/json",
+              },
+              body: JSON.stringify({
+                data: `Ticket ${ticket.id} created by ${ticket.email}, has had it's status changed to ${s}`,
+              }),
+            });
+          }
+        }
+      }
+
+      reply.send({
+        success: true,
+      });
+    }
+  );
+
+  // Hide a ticket
+  fastify.put(
+    "/api/v1/ticket/status/hide",
+    {
+      preHandler: requirePermission(["issue::update"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { hidden, id }: any = request.body;
+
+      const user = await checkSession(request);
+
+      const previous = await prisma.ticket.findUnique({
+        where: { id: id },
+      });
+
+      await prisma.ticket.update({
+        where: { id: id },
+        data: {
+          hidden: hidden,
+        },
+      });
+
+      await ActivityService.record(id, user, [
+        { field: "hidden", from: previous?.hidden, to: hidden },
+      ]);
+
+      reply.send({
+        success: true,
+      });
+    }
+  );
+
+  // Lock a ticket
+  fastify.put(
+    "/api/v1/ticket/status/lock",
+    {
+      preHandler: requirePermission(["issue::update"]),
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { locked, id }: any = request.body;
 
+      const user = await checkSession(request);
+
+      const previous = await prisma.ticket.findUnique({
+        where: { id: id },
+      });
+
       await prisma.ticket.update({
         where: { id: id },
         data: {
@@ -851,13 +1699,17 @@ export function ticketRoutes(fastify: FastifyInstance) {
         },
       });
 
+      await ActivityService.record(id, user, [
+        { field: "locked", from: previous?.locked, to: locked },
+      ]);
+
       reply.send({
         success: true,
       });
     }
   );
 
-  // Delete a ticket
+  // Move a ticket to the trash, it can be restored until it is purged
   fastify.post(
     "/api/v1/ticket/delete",
     {
@@ -866,9 +1718,121 @@ export function ticketRoutes(fastify: FastifyInstance) {
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id }: any = request.body;
 
-      await prisma.ticket.delete({
-        where: { id: id },
+      const user = await checkSession(request);
+
+      const ticket = await prisma.ticket.findUnique({ where: { id } });
+
+      if (!ticket) {
+        return reply.status(404).send({
+          message: "Ticket not found",
+          success: false,
+        });
+      }
+
+      try {
+        await TrashService.trash(ticket, user);
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+
+      reply.send({
+        success: true,
+      });
+    }
+  );
+
+  // Get the tickets in the trash and how long they are kept
+  fastify.get(
+    "/api/v1/tickets/trash",
+    {
+      preHandler: requirePermission(["issue::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const [tickets, retentionDays] = await Promise.all([
+        TrashService.list(),
+        TrashService.retention(),
+      ]);
+
+      reply.send({
+        tickets,
+        retentionDays,
+        success: true,
       });
+    }
+  );
+
+  // Set how many days deleted tickets are kept before they are purged
+  fastify.put(
+    "/api/v1/tickets/trash/retention",
+    {
+      preHandler: requirePermission(["settings::manage"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { days }: any = request.body;
+
+      try {
+        const retentionDays = await TrashService.setRetention(days);
+
+        reply.send({ retentionDays, success: true });
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+    }
+  );
+
+  // Take a ticket out of the trash
+  fastify.post(
+    "/api/v1/ticket/:id/restore",
+    {
+      preHandler: requirePermission(["issue::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const user = await checkSession(request);
+
+      const ticket = await prisma.ticket.findUnique({ where: { id } });
+
+      if (!ticket) {
+        return reply.status(404).send({
+          message: "Ticket not found",
+          success: false,
+        });
+      }
+
+      try {
+        const restored = await TrashService.restore(ticket, user);
+
+        reply.send({ ticket: restored, success: true });
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
+    }
+  );
+
+  // Delete a ticket in the trash for good
+  fastify.delete(
+    "/api/v1/ticket/:id/purge",
+    {
+      preHandler: requirePermission(["issue::delete"]),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id }: any = request.params;
+
+      const ticket = await prisma.ticket.findUnique({ where: { id } });
+
+      if (!ticket) {
+        return reply.status(404).send({
+          message: "Ticket not found",
+          success: false,
+        });
+      }
+
+      try {
+        await TrashService.purge(ticket);
+      } catch (error) {
+        return invalidInput(reply, error);
+      }
 
       reply.send({
         success: true,
@@ -962,7 +1926,12 @@ export function ticketRoutes(fastify: FastifyInstance) {
       const user = await checkSession(request);
 
       const tickets = await prisma.ticket.findMany({
-        where: { isComplete: false, email: user!.email, hidden: false },
+        where: {
+          isComplete: false,
+          email: user!.email,
+          hidden: false,
+          deletedAt: null,
+        },
         include: {
           client: {
             select: { id: true, name: true, number: true },
@@ -991,7 +1960,12 @@ export function ticketRoutes(fastify: FastifyInstance) {
       const user = await checkSession(request);
 
       const tickets = await prisma.ticket.findMany({
-        where: { isComplete: true, email: user!.email, hidden: false },
+        where: {
+          isComplete: true,
+          email: user!.email,
+          hidden: false,
+          deletedAt: null,
+        },
         include: {
           client: {
             select: { id: true, name: true, number: true },
@@ -1022,7 +1996,7 @@ export function ticketRoutes(fastify: FastifyInstance) {
       const user = await checkSession(request);
 
       const tickets = await prisma.ticket.findMany({
-        where: { email: user!.email, hidden: false },
+        where: { email: user!.email, hidden: false, deletedAt: null },
         include: {
           client: {
             select: { id: true, name: true, number: true },
@@ -0,0 +1,272 @@
+// Business-hours arithmetic shared by SLA, automation and reporting code.
+// A null calendar means the clock runs around the clock.
+
+export type BusinessHours = {
+  day: number; // 0 is Sunday
+  start: string; // "HH:MM" local time
+  end: string; // "HH:MM" local time, "24:00" for midnight
+};
+
+export type Calendar = {
+  timezone: string;
+  schedule: BusinessHours[];
+  holidays: { date: Date | string; recurring?: boolean }[];
+};
+
+const MINUTE = 60 * 1000;
+
+export class NoWorkingTimeError extends Error {
+  constructor() {
+    super("Calendar has no working time in the next five years");
+    this.name = "NoWorkingTimeError";
+  }
+}
+
+// Stop looking for working time after this many days, a calendar whose
+// schedule is empty or fully covered by holidays would otherwise never end
+const MAX_DAYS = 5 * 366;
+
+export type LocalDate = { year: number; month: number; day: number };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timezone: string) {
+  let format = formatters.get(timezone);
+
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, format);
+  }
+
+  return format;
+}
+
+function localParts(date: Date, timezone: string) {
+  const parts: Record<string, number> = {};
+
+  for (const part of formatter(timezone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+
+  return parts;
+}
+
+/**
+ * Milliseconds the timezone is ahead of UTC at the given instant.
+ */
+function offset(date: Date, timezone: string) {
+  const p = localParts(date, timezone);
+  const local = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+
+  return local - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant of a local wall-clock time. Times skipped by a DST change resolve
+ * to the instant after the gap.
+ */
+export function toInstant(
+  date: LocalDate,
+  minutes: number,
+  timezone: string
+) {
+  const wall = Date.UTC(date.year, date.month - 1, date.day) + minutes * MINUTE;
+  const guess = wall - offset(new Date(wall), timezone);
+
+  return new Date(wall - offset(new Date(guess), timezone));
+}
+
+export function toLocalDate(date: Date, timezone: string): LocalDate {
+  const p = localParts(date, timezone);
+
+  return { year: p.year, month: p.month, day: p.day };
+}
+
+export function nextDay(date: LocalDate): LocalDate {
+  const next = new Date(Date.UTC(date.year, date.month - 1, date.day + 1));
+
+  return {
+    year: next.getUTCFullYear(),
+    month: next.getUTCMonth() + 1,
+    day: next.getUTCDate(),
+  };
+}
+
+function parseTime(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+
+  return hours * 60 + minutes;
+}
+
+function isHoliday(date: LocalDate, calendar: Calendar) {
+  return calendar.holidays.some((holiday) => {
+    const d = new Date(holiday.date);
+
+    return (
+      (holiday.recurring || d.getUTCFullYear() === date.year) &&
+      d.getUTCMonth() + 1 === date.month &&
+      d.getUTCDate() === date.day
+    );
+  });
+}
+
+/**
+ * Working intervals of one local day as instants, earliest first.
+ */
+function workingIntervals(date: LocalDate, calendar: Calendar) {
+  if (isHoliday(date, calendar)) return [];
+
+  const weekday = new Date(
+    Date.UTC(date.year, date.month - 1, date.day)
+  ).getUTCDay();
+
+  return calendar.schedule
+    .filter((hours) => hours.day === weekday)
+    .map((hours) => ({
+      start: toInstant(date, parseTime(hours.start), calendar.timezone),
+      end: toInstant(date, parseTime(hours.end), calendar.timezone),
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Whether a calendar has any working time in the five years from `from`.
+ */
+export function hasWorkingTime(calendar: Calendar, from = new Date()) {
+  let date = toLocalDate(from, calendar.timezone);
+
+  for (let i = 0; i < MAX_DAYS; i++) {
+    if (workingIntervals(date, calendar).some((interval) => interval.end > from)) {
+      return true;
+    }
+
+    date = nextDay(date);
+  }
+
+  return false;
+}
+
+/**
+ * Check a weekly schedule and timezone, returns an error message or null.
+ * Holidays are taken into account so a calendar they cover completely is
+ * refused too.
+ */
+export function validateCalendar(
+  timezone: unknown,
+  schedule: unknown,
+  holidays: Calendar["holidays"] = []
+) {
+  try {
+    formatter(String(timezone));
+  } catch {
+    return `Unknown timezone ${timezone}`;
+  }
+
+  if (!Array.isArray(schedule) || schedule.length === 0) {
+    return "Schedule needs at least one working period";
+  }
+
+  for (const hours of schedule) {
+    if (
+      !hours ||
+      !Number.isInteger(hours.day) ||
+      hours.day < 0 ||
+      hours.day > 6 ||
+      !/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/.test(hours.start ?? "") ||
+      !/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/.test(hours.end ?? "")
+    ) {
+      return "Working periods need a day from 0 to 6 and HH:MM start and end times";
+    }
+
+    if (parseTime(hours.start) >= parseTime(hours.end)) {
+      return "Working periods must end after they start";
+    }
+  }
+
+  if (
+    !hasWorkingTime({
+      timezone: String(timezone),
+      schedule: schedule as BusinessHours[],
+      holidays,
+    })
+  ) {
+    return "The calendar has no working time left";
+  }
+
+  return null;
+}
+
+/**
+ * Working minutes between two instants, zero when end is before start.
+ */
+export function businessMinutesBetween(
+  start: Date,
+  end: Date,
+  calendar: Calendar | null
+) {
+  if (end <= start) return 0;
+
+  if (!calendar) return (end.getTime() - start.getTime()) / MINUTE;
+
+  let total = 0;
+  let date = toLocalDate(start, calendar.timezone);
+
+  for (let i = 0; i < MAX_DAYS; i++) {
+    if (toInstant(date, 0, calendar.timezone) >= end) break;
+
+    for (const interval of workingIntervals(date, calendar)) {
+      const from = Math.max(interval.start.getTime(), start.getTime());
+      const to = Math.min(interval.end.getTime(), end.getTime());
+
+      if (to > from) total += (to - from) / MINUTE;
+    }
+
+    date = nextDay(date);
+  }
+
+  return total;
+}
+
+/**
+ * Instant after the given number of working minutes have elapsed from start.
+ */
+export function addBusinessMinutes(
+  start: Date,
+  minutes: number,
+  calendar: Calendar | null
+) {
+  if (!calendar || minutes <= 0) {
+    return new Date(start.getTime() + Math.max(minutes, 0) * MINUTE);
+  }
+
+  let remaining = minutes;
+  let date = toLocalDate(start, calendar.timezone);
+
+  for (let i = 0; i < MAX_DAYS; i++) {
+    for (const interval of workingIntervals(date, calendar)) {
+      const from = Math.max(interval.start.getTime(), start.getTime());
+      const available = (interval.end.getTime() - from) / MINUTE;
+
+      if (available <= 0) continue;
+
+      if (remaining <= available) {
+        return new Date(from + remaining * MINUTE);
+      }
+
+      remaining -= available;
+    }
+
+    date = nextDay(date);
+  }
+
+  throw new NoWorkingTimeError();
+}
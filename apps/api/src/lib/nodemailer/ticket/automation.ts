@@ -0,0 +1,34 @@
+import handlebars from "handlebars";
+import { prisma } from "../../../prisma";
+import { createTransportProvider } from "../transport";
+
+/**
+ * Send an email written in an automation rule. Subject and body are
+ * handlebars templates rendered with the ticket.
+ */
+export async function sendAutomationEmail(
+  email: string,
+  subject: string,
+  body: string,
+  replacements: Record<string, any>
+) {
+  const provider = await prisma.email.findFirst();
+
+  if (!provider) {
+    throw new Error("No email provider is configured");
+  }
+
+  const transport = await createTransportProvider();
+
+  const html = handlebars.compile(body)(replacements);
+
+  const info = await transport.sendMail({
+    from: provider.reply,
+    to: email,
+    subject: handlebars.compile(subject)(replacements),
+    text: html.replace(/<[^>]*>/g, ""),
+    html,
+  });
+
+  console.log("Message sent: %s", info.messageId);
+}
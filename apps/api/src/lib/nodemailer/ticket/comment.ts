@@ -7,13 +7,15 @@ export interface CommentEmailOptions {
   title: string;
   ticketId: string;
   email: string;
+  // External addresses copied on the ticket
+  cc?: string[];
   originalSubject?: string;
   inReplyTo?: string;
   references?: string[];
 }
 
 export async function sendComment(options: CommentEmailOptions): Promise<string | null> {
-  const { comment, title, ticketId, email, originalSubject, inReplyTo, references } = options;
+  const { comment, title, ticketId, email, cc, originalSubject, inReplyTo, references } = options;
 
   try {
     const provider = await prisma.email.findFirst();
@@ -55,12 +57,13 @@ export async function sendComment(options: CommentEmailOptions): Promise<string
         .join(' ');
     }
 
-    console.log("Sending email to:", email, "Subject:", subject);
+    console.log("Sending email to:", email, "Cc:", cc, "Subject:", subject);
     console.log("Threading headers:", headers);
 
     const info = await transport.sendMail({
       from: provider?.reply,
       to: email,
+      cc: cc && cc.length > 0 ? cc : undefined,
       subject: subject,
       text: `Hello there, Issue #${title}, has had an update with a comment of ${comment}`,
       html: htmlToSend,
@@ -1,5 +1,6 @@
 import handlebars from "handlebars";
 import { prisma } from "../../../prisma";
+import { PriorityService } from "../../services/priority.service";
 import { createTransportProvider } from "../transport";
 
 export async function sendTicketCreate(ticket: any) {
@@ -15,9 +16,14 @@ export async function sendTicketCreate(ticket: any) {
         },
       });
 
+      const priority = await PriorityService.get(ticket.priority);
+
       var template = handlebars.compile(testhtml?.html);
       var replacements = {
         id: ticket.id,
+        title: ticket.title,
+        priority: priority?.name || ticket.priority,
+        priorityColor: priority?.color,
       };
       var htmlToSend = template(replacements);
 
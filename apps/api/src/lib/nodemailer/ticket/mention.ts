@@ -0,0 +1,35 @@
+import { prisma } from "../../../prisma";
+import { createTransportProvider } from "../transport";
+
+/**
+ * Let an agent know they were mentioned in a comment, with the comment
+ * itself so they can tell whether it needs them.
+ */
+export async function sendMentionEmail(
+  email: string,
+  ticket: { Number: number; title: string },
+  commenter: { name: string },
+  comment: string
+) {
+  try {
+    const provider = await prisma.email.findFirst();
+
+    if (provider) {
+      const mail = await createTransportProvider();
+
+      await mail
+        .sendMail({
+          from: provider.reply,
+          to: email,
+          subject: `${commenter.name} mentioned you on #${ticket.Number}: ${ticket.title}`,
+          text: `${commenter.name} mentioned you on #${ticket.Number}:\n\n${comment}`,
+        })
+        .then((info: any) => {
+          console.log("Message sent: %s", info.messageId);
+        })
+        .catch((err: any) => console.log(err));
+    }
+  } catch (error) {
+    console.log(error);
+  }
+}
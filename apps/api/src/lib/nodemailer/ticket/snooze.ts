@@ -0,0 +1,36 @@
+import { prisma } from "../../../prisma";
+import { createTransportProvider } from "../transport";
+
+/**
+ * Remind the assignee of a ticket that its snooze ended, with the note
+ * they left for themselves.
+ */
+export async function sendSnoozeWakeEmail(
+  email: string,
+  ticket: { Number: number; title: string },
+  note?: string | null
+) {
+  try {
+    const provider = await prisma.email.findFirst();
+
+    if (provider) {
+      const mail = await createTransportProvider();
+
+      await mail
+        .sendMail({
+          from: provider.reply,
+          to: email,
+          subject: `#${ticket.Number} is back from snooze: ${ticket.title}`,
+          text: note
+            ? `#${ticket.Number} ${ticket.title} is back in the queue.\n\nNote: ${note}`
+            : `#${ticket.Number} ${ticket.title} is back in the queue.`,
+        })
+        .then((info: any) => {
+          console.log("Message sent: %s", info.messageId);
+        })
+        .catch((err: any) => console.log(err));
+    }
+  } catch (error) {
+    console.log(error);
+  }
+}
@@ -1,5 +1,6 @@
 import handlebars from "handlebars";
 import { prisma } from "../../../prisma";
+import { PriorityService } from "../../services/priority.service";
 import { createTransportProvider } from "../transport";
 
 export async function sendTicketStatus(ticket: any) {
@@ -14,10 +15,14 @@ export async function sendTicketStatus(ticket: any) {
       },
     });
 
+    const priority = await PriorityService.get(ticket.priority);
+
     var template = handlebars.compile(testhtml?.html);
     var replacements = {
       title: ticket.title,
       status: ticket.isComplete ? "COMPLETED" : "OUTSTANDING",
+      priority: priority?.name || ticket.priority,
+      priorityColor: priority?.color,
     };
     var htmlToSend = template(replacements);
 
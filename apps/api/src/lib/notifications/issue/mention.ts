@@ -0,0 +1,32 @@
+import { prisma } from "../../../prisma";
+
+/**
+ * Creates notifications for users mentioned in a comment, whether or not
+ * they follow the ticket.
+ *
+ * @param {object} ticket - The ticket object related to the comment.
+ * @param {object} commenter - The user object who commented.
+ * @param {string[]} userIds - The ids of the mentioned users.
+ * @returns {Promise<void>}
+ */
+export async function mentionNotification(
+  issue: any,
+  commenter: any,
+  userIds: string[]
+) {
+  try {
+    const text = `${commenter.name} mentioned you on #${issue.Number}`;
+
+    await prisma.notifications.createMany({
+      data: userIds
+        .filter((userId: string) => userId !== commenter.id)
+        .map((userId: string) => ({
+          text,
+          userId,
+          ticketId: issue.id,
+        })),
+    });
+  } catch (error) {
+    console.error("Error creating mention notifications:", error);
+  }
+}
@@ -0,0 +1,31 @@
+import { prisma } from "../../../prisma";
+
+/**
+ * Creates a notification for the assignee of a ticket whose snooze ended.
+ *
+ * @param {object} ticket - The ticket that woke up.
+ * @param {object} assignee - The user object the ticket is assigned to.
+ * @param {string} note - The note left when snoozing, if any.
+ * @returns {Promise<void>}
+ */
+export async function snoozeWakeNotification(
+  ticket: any,
+  assignee: any,
+  note?: string | null
+) {
+  try {
+    const text = note
+      ? `#${ticket.Number} is back from snooze: ${note}`
+      : `#${ticket.Number} is back from snooze`;
+
+    await prisma.notifications.create({
+      data: {
+        text,
+        userId: assignee.id,
+        ticketId: ticket.id,
+      },
+    });
+  } catch (error) {
+    console.error("Error creating snooze notification:", error);
+  }
+}
@@ -1,15 +1,25 @@
 import axios from "axios";
+import { PriorityService } from "../services/priority.service";
 
-function getPriorityColor(priority: string): number {
-  switch (priority.toLowerCase()) {
-    case "high":
-      return 16711680; // Red
-    case "medium":
-      return 16753920; // Orange
-    case "low":
-      return 65280; // Green
+// Discord embeds take colors as integers
+function embedColor(hex?: string): number {
+  return hex ? parseInt(hex.slice(1), 16) : 8421504; // Grey
+}
+
+function getEmbedText(message: any) {
+  switch (message.event) {
+    case "sla_status_changed":
+      return {
+        title: "SLA Status Changed",
+        description: `Issue #${message.number} is ${
+          message.status === "breached" ? "in breach of" : "at risk of breaching"
+        } its SLA`,
+      };
     default:
-      return 8421504; // Grey
+      return {
+        title: "Issue Created",
+        description: "A new issue has been created",
+      };
   }
 }
 
@@ -19,12 +29,15 @@ export async function sendWebhookNotification(webhook: any, message: any) {
   const url = webhook.url;
 
   if (url.includes("discord.com")) {
+    const priority = message.priority
+      ? await PriorityService.get(message.priority)
+      : null;
+
     const discordMessage = {
       embeds: [
         {
-          title: "Issue Created",
-          description: "A new issue has been created",
-          color: getPriorityColor(message.priority), // Use the priority color function
+          ...getEmbedText(message),
+          color: embedColor(priority?.color),
           footer: {
             text: "Issue ID: " + message.id,
           },
@@ -42,7 +55,7 @@ export async function sendWebhookNotification(webhook: any, message: any) {
             },
             {
               name: "Priority Level",
-              value: message.priority,
+              value: priority?.name || message.priority || "None",
               inline: false,
             },
             {
@@ -52,7 +65,7 @@ export async function sendWebhookNotification(webhook: any, message: any) {
             },
             {
               name: "Created By",
-              value: message.createdBy.name,
+              value: message.createdBy ? message.createdBy.name : "Unknown",
               inline: false,
             },
             {
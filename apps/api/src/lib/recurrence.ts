@@ -0,0 +1,325 @@
+// Recurrence rules of recurring tickets, a subset of RFC 5545 RRULE:
+// FREQ (DAILY, WEEKLY, MONTHLY or YEARLY), INTERVAL, BYDAY, BYMONTHDAY,
+// BYMONTH, BYHOUR, BYMINUTE and UNTIL. Monthly and yearly rules take
+// ordinals in BYDAY, "FREQ=MONTHLY;BYDAY=1MO" is the first Monday of every
+// month and "BYDAY=-1FR" the last Friday.
+//
+// Dates are counted in the rule's timezone from its start, which also gives
+// the time of day unless BYHOUR or BYMINUTE are set.
+
+import { LocalDate, nextDay, toInstant, toLocalDate } from "./business-hours";
+
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+type Rule = {
+  freq: Frequency;
+  interval: number;
+  // nth is 0 for every such weekday, negative counts from the end
+  byDay: { weekday: number; nth: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+  byHour: number[];
+  byMinute: number[];
+  until?: Date;
+};
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Stop looking for dates after this many days, a rule such as the 31st of
+// February would otherwise never end
+const MAX_DAYS = 10 * 366;
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+function numbers(value: string, name: string, min: number, max: number) {
+  return value.split(",").map((part) => {
+    const n = Number(part);
+
+    if (!Number.isInteger(n) || n < min || n > max || (min < 0 && n === 0)) {
+      throw new Error(`${name} must list numbers from ${min} to ${max}`);
+    }
+
+    return n;
+  });
+}
+
+function parseUntil(value: string) {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/
+  );
+
+  if (!match) {
+    throw new Error("UNTIL must be a date like 20271231 or 20271231T235959Z");
+  }
+
+  const [, year, month, day, hour = "23", minute = "59", second = "59"] =
+    match;
+
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+function parse(rrule: string): Rule {
+  const rule: Rule = {
+    freq: "DAILY",
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    byHour: [],
+    byMinute: [],
+  };
+
+  const parts = rrule
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .filter(Boolean);
+
+  let freq: string | undefined;
+
+  for (const part of parts) {
+    const [name, value] = part.split("=").map((s) => s.trim().toUpperCase());
+
+    if (!value) throw new Error(`${name} needs a value`);
+
+    switch (name) {
+      case "FREQ":
+        freq = value;
+        break;
+      case "INTERVAL":
+        rule.interval = numbers(value, "INTERVAL", 1, 1000)[0];
+        break;
+      case "BYDAY":
+        rule.byDay = value.split(",").map((day) => {
+          const match = day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+
+          if (!match) throw new Error(`Unknown day ${day} in BYDAY`);
+
+          const nth = match[1] ? Number(match[1]) : 0;
+
+          if (Math.abs(nth) > 53 || (match[1] && nth === 0)) {
+            throw new Error(`Unknown day ${day} in BYDAY`);
+          }
+
+          return { weekday: WEEKDAYS.indexOf(match[2]), nth };
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = numbers(value, "BYMONTHDAY", -31, 31);
+        break;
+      case "BYMONTH":
+        rule.byMonth = numbers(value, "BYMONTH", 1, 12);
+        break;
+      case "BYHOUR":
+        rule.byHour = numbers(value, "BYHOUR", 0, 23);
+        break;
+      case "BYMINUTE":
+        rule.byMinute = numbers(value, "BYMINUTE", 0, 59);
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        break;
+      default:
+        throw new Error(`${name} is not supported`);
+    }
+  }
+
+  if (!freq || !FREQUENCIES.includes(freq as Frequency)) {
+    throw new Error("FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY");
+  }
+
+  rule.freq = freq as Frequency;
+
+  if (
+    (rule.freq === "DAILY" || rule.freq === "WEEKLY") &&
+    rule.byDay.some((day) => day.nth !== 0)
+  ) {
+    throw new Error("Only monthly and yearly rules can number their days");
+  }
+
+  return rule;
+}
+
+/**
+ * Check a rule and timezone, returns an error message or null.
+ */
+export function validateRule(rrule: unknown, timezone: unknown) {
+  try {
+    toLocalDate(new Date(), String(timezone));
+  } catch {
+    return `Unknown timezone ${timezone}`;
+  }
+
+  try {
+    parse(String(rrule ?? ""));
+  } catch (error: any) {
+    return error.message as string;
+  }
+
+  return null;
+}
+
+function dayNumber(date: LocalDate) {
+  return Date.UTC(date.year, date.month - 1, date.day) / DAY;
+}
+
+function daysInMonth(date: LocalDate) {
+  return new Date(Date.UTC(date.year, date.month, 0)).getUTCDate();
+}
+
+/**
+ * Whether a day is in a period the rule's interval selects, counted from
+ * the period of the start. Weeks start on Monday.
+ */
+function inInterval(rule: Rule, date: LocalDate, start: LocalDate) {
+  let periods: number;
+
+  switch (rule.freq) {
+    case "DAILY":
+      periods = dayNumber(date) - dayNumber(start);
+      break;
+    case "WEEKLY": {
+      // Day 0 was a Thursday, shift so weeks begin on Monday
+      const monday = (d: LocalDate) =>
+        dayNumber(d) - ((dayNumber(d) + 3) % 7);
+      periods = (monday(date) - monday(start)) / 7;
+      break;
+    }
+    case "MONTHLY":
+      periods =
+        date.year * 12 + date.month - (start.year * 12 + start.month);
+      break;
+    case "YEARLY":
+      periods = date.year - start.year;
+      break;
+  }
+
+  return periods % rule.interval === 0;
+}
+
+function matchesDay(rule: Rule, date: LocalDate, start: LocalDate) {
+  const weekday = (dayNumber(date) + 4) % 7;
+
+  let byDay = rule.byDay;
+  let byMonthDay = rule.byMonthDay;
+  let byMonth = rule.byMonth;
+
+  // Without explicit parts a rule repeats on the start's weekday, day of
+  // the month or date
+  if (rule.freq === "WEEKLY" && byDay.length === 0) {
+    byDay = [{ weekday: (dayNumber(start) + 4) % 7, nth: 0 }];
+  }
+
+  if (
+    (rule.freq === "MONTHLY" || rule.freq === "YEARLY") &&
+    byDay.length === 0 &&
+    byMonthDay.length === 0
+  ) {
+    byMonthDay = [start.day];
+  }
+
+  if (
+    rule.freq === "YEARLY" &&
+    byMonth.length === 0 &&
+    byDay.length === 0 &&
+    rule.byMonthDay.length === 0
+  ) {
+    byMonth = [start.month];
+  }
+
+  if (byMonth.length > 0 && !byMonth.includes(date.month)) return false;
+
+  if (byMonthDay.length > 0) {
+    const last = daysInMonth(date);
+    const matches = byMonthDay.some((day) =>
+      day > 0 ? day === date.day : last + day + 1 === date.day
+    );
+
+    if (!matches) return false;
+  }
+
+  if (byDay.length > 0) {
+    // Ordinals count within the month, or the year for yearly rules
+    // without BYMONTH
+    const inYear = rule.freq === "YEARLY" && byMonth.length === 0;
+    const position = inYear
+      ? dayNumber(date) - dayNumber({ ...date, month: 1, day: 1 }) + 1
+      : date.day;
+    const length = inYear
+      ? dayNumber({ year: date.year + 1, month: 1, day: 1 }) -
+        dayNumber({ year: date.year, month: 1, day: 1 })
+      : daysInMonth(date);
+
+    const matches = byDay.some(
+      (day) =>
+        day.weekday === weekday &&
+        (day.nth === 0 ||
+          (day.nth > 0
+            ? Math.ceil(position / 7) === day.nth
+            : Math.ceil((length - position + 1) / 7) === -day.nth))
+    );
+
+    if (!matches) return false;
+  }
+
+  return true;
+}
+
+/**
+ * The next `limit` dates of a rule strictly after `after`, earliest first.
+ * The rule must be valid.
+ */
+export function occurrences(
+  rrule: string,
+  timezone: string,
+  startsAt: Date,
+  after: Date,
+  limit: number
+) {
+  const rule = parse(rrule);
+  const start = toLocalDate(startsAt, timezone);
+
+  // Time of day of the start, in minutes after local midnight
+  const startMinutes = Math.round(
+    (startsAt.getTime() - toInstant(start, 0, timezone).getTime()) / MINUTE
+  );
+
+  const hours =
+    rule.byHour.length > 0 ? rule.byHour : [Math.floor(startMinutes / 60)];
+  const minutes =
+    rule.byMinute.length > 0 ? rule.byMinute : [startMinutes % 60];
+  const times = hours
+    .flatMap((hour) => minutes.map((minute) => hour * 60 + minute))
+    .sort((a, b) => a - b);
+
+  // No need to walk the days before `after`, the interval is counted from
+  // the start either way
+  let date =
+    after.getTime() > startsAt.getTime()
+      ? toLocalDate(new Date(after.getTime() - DAY), timezone)
+      : start;
+
+  const dates: Date[] = [];
+
+  for (let i = 0; i < MAX_DAYS && dates.length < limit; i++) {
+    if (inInterval(rule, date, start) && matchesDay(rule, date, start)) {
+      for (const time of times) {
+        const instant = toInstant(date, time, timezone);
+
+        if (rule.until && instant > rule.until) return dates;
+
+        if (instant >= startsAt && instant > after) {
+          dates.push(instant);
+          if (dates.length === limit) break;
+        }
+      }
+    }
+
+    date = nextDay(date);
+  }
+
+  return dates;
+}
@@ -110,6 +110,36 @@ export function requirePermission(
   };
 }
 
+/**
+ * Check permissions inside a handler, for routes where what is needed
+ * depends on the request. Follows the same rules as requirePermission.
+ */
+export async function can(
+  request: any,
+  requiredPermissions: Permission | Permission[],
+  requireAll: boolean = true
+) {
+  const config = await prisma.config.findFirst();
+
+  if (!config?.roles_active) return true;
+
+  const user = await checkSession(request);
+
+  const userWithRoles = user
+    ? await prisma.user.findUnique({
+        where: { id: user.id },
+        include: {
+          roles: true,
+        },
+      })
+    : null;
+
+  return (
+    !!userWithRoles &&
+    hasPermission(userWithRoles, requiredPermissions, requireAll)
+  );
+}
+
 // Usage examples:
 /*
 // Check single permission
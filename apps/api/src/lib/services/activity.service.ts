@@ -0,0 +1,129 @@
+import { prisma } from "../../prisma";
+
+export type Actor = { id: string } | null | undefined;
+
+export type FieldChange = {
+  field: string;
+  from: unknown;
+  to: unknown;
+};
+
+function toText(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+export class ActivityService {
+  /**
+   * Store one TicketEvent per changed field. Fields whose value did not
+   * change, or that were not part of the update, are skipped.
+   */
+  static async record(ticketId: string, actor: Actor, changes: FieldChange[]) {
+    const data = changes
+      .filter((change) => change.to !== undefined)
+      .map((change) => ({
+        field: change.field,
+        oldValue: toText(change.from),
+        newValue: toText(change.to),
+      }))
+      .filter((change) => change.oldValue !== change.newValue)
+      .map((change) => ({
+        ...change,
+        ticketId,
+        actorId: actor?.id || null,
+      }));
+
+    if (data.length === 0) return;
+
+    await prisma.ticketEvent.createMany({ data });
+  }
+
+  /**
+   * Compare the fields of a ticket before an update with the values sent.
+   */
+  static diff(before: Record<string, any>, after: Record<string, any>) {
+    return Object.keys(after).map((field) => ({
+      field,
+      from: before[field],
+      to: after[field],
+    }));
+  }
+
+  /**
+   * Changes between two sets of custom field values, recorded as
+   * `cf.<key>`. Cleared fields are recorded with a null value.
+   */
+  static diffCustomFields(before: unknown, after: Record<string, unknown>) {
+    const previous = (before || {}) as Record<string, unknown>;
+    const keys = new Set([...Object.keys(previous), ...Object.keys(after)]);
+
+    return Array.from(keys).map((key) => ({
+      field: `cf.${key}`,
+      from: previous[key],
+      to: after[key] ?? null,
+    }));
+  }
+
+  /**
+   * Field changes, comments, time entries and file uploads of a ticket as
+   * one list, oldest first.
+   */
+  static async timeline(ticketId: string) {
+    const [events, comments, time, files] = await Promise.all([
+      prisma.ticketEvent.findMany({
+        where: { ticketId },
+        include: { actor: { select: { id: true, name: true } } },
+      }),
+      prisma.comment.findMany({
+        where: { ticketId },
+        include: {
+          user: { select: { id: true, name: true, email: true, image: true } },
+        },
+      }),
+      prisma.timeTracking.findMany({
+        where: { ticketId },
+        include: { user: { select: { id: true, name: true } } },
+      }),
+      prisma.ticketFile.findMany({
+        where: { ticketId },
+        include: { user: { select: { id: true, name: true } } },
+      }),
+    ]);
+
+    return [
+      ...events.map((event) => ({
+        type: "event" as const,
+        id: event.id,
+        createdAt: event.createdAt,
+        actor: event.actor,
+        field: event.field,
+        oldValue: event.oldValue,
+        newValue: event.newValue,
+      })),
+      ...comments.map((comment) => ({
+        type: "comment" as const,
+        id: comment.id,
+        createdAt: comment.createdAt,
+        actor: comment.user,
+        comment,
+      })),
+      ...time.map((entry) => ({
+        type: "time" as const,
+        id: entry.id,
+        createdAt: entry.createdAt,
+        actor: entry.user,
+        title: entry.title,
+        time: entry.time,
+      })),
+      ...files.map((file) => ({
+        type: "file" as const,
+        id: file.id,
+        createdAt: file.createdAt,
+        actor: file.user,
+        filename: file.filename,
+        size: file.size,
+      })),
+    ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+}
@@ -0,0 +1,310 @@
+import { Team, Ticket, User } from "@prisma/client";
+import { prisma } from "../../prisma";
+import { sendAssignedEmail } from "../nodemailer/ticket/assigned";
+import { assignedNotification } from "../notifications/issue/assigned";
+import { ActivityService } from "./activity.service";
+import { AutomationService } from "./automation.service";
+
+const ASSIGNMENT_ACTOR = { id: null, name: "Auto-assignment" };
+
+const STRATEGY_LABELS: Record<string, string> = {
+  round_robin: "round robin",
+  least_open: "least open tickets",
+};
+
+export type RequiredSkill = {
+  skillId: string;
+  name: string;
+  level: number;
+};
+
+/**
+ * Out of office applies while the flag is set and now falls inside the
+ * window. A missing start or end leaves that side of the window open.
+ */
+export function isOutOfOffice(user: User, now = new Date()) {
+  if (!user.out_of_office) return false;
+  if (user.out_of_office_start && user.out_of_office_start > now) return false;
+  if (user.out_of_office_end && user.out_of_office_end < now) return false;
+  return true;
+}
+
+function describeSkills(skills: RequiredSkill[]) {
+  return skills.map((skill) => `${skill.name} (${skill.level})`).join(", ");
+}
+
+export class AssignmentService {
+  /**
+   * Skills a ticket needs, from every skill rule whose conditions all
+   * match. When several rules ask for the same skill the highest level
+   * wins.
+   */
+  static async requiredSkills(ticket: Ticket) {
+    const tags = await prisma.ticketTag.findMany({
+      where: { ticketId: ticket.id },
+      select: { tagId: true },
+    });
+
+    const rules = await prisma.skillRule.findMany({
+      where: {
+        AND: [
+          { OR: [{ type: null }, { type: ticket.type }] },
+          { OR: [{ clientId: null }, { clientId: ticket.clientId }] },
+          {
+            OR: [{ emailQueueId: null }, { emailQueueId: ticket.emailQueueId }],
+          },
+          {
+            OR: [
+              { tagId: null },
+              { tagId: { in: tags.map((tag) => tag.tagId) } },
+            ],
+          },
+        ],
+      },
+      include: { skill: true },
+    });
+
+    const skills = new Map<string, RequiredSkill>();
+
+    for (const rule of rules) {
+      const current = skills.get(rule.skillId);
+
+      if (!current || current.level < rule.level) {
+        skills.set(rule.skillId, {
+          skillId: rule.skillId,
+          name: rule.skill.name,
+          level: rule.level,
+        });
+      }
+    }
+
+    return Array.from(skills.values());
+  }
+
+  /**
+   * Store the skills a ticket requires on it. Skills stored earlier are
+   * kept, so a ticket only gains requirements as it changes.
+   */
+  static async storeSkills(ticket: Ticket) {
+    const skills = await this.requiredSkills(ticket);
+
+    if (skills.length > 0) {
+      await prisma.ticketSkill.createMany({
+        data: skills.map((skill) => ({
+          ticketId: ticket.id,
+          skillId: skill.skillId,
+          level: skill.level,
+        })),
+        skipDuplicates: true,
+      });
+    }
+
+    return skills;
+  }
+
+  /**
+   * Route a new ticket. Its required skills are stored on the ticket, then
+   * an agent with all of them is picked from the ticket's team, or from
+   * every agent when it has none. Without a skilled agent the ticket falls
+   * back to the team's assignment strategy, or stays in the team queue.
+   * The decision is recorded on the ticket as its routing reason.
+   */
+  static async assign(ticketId: string) {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      include: { team: true },
+    });
+
+    if (!ticket) return null;
+
+    const skills = await this.storeSkills(ticket);
+
+    // Tickets assigned by hand or by an automation keep their assignee
+    if (ticket.userId || ticket.isComplete) return null;
+
+    const team = ticket.team;
+    let user: User | null = null;
+    let reason: string | null = null;
+
+    if (skills.length > 0) {
+      user = await this.bestAgent(skills, team);
+
+      reason = user
+        ? `Needs ${describeSkills(skills)}, ${user.name} was the best available agent`
+        : `Needs ${describeSkills(skills)} but no agent with these skills was available`;
+    }
+
+    // Fall back to the team queue
+    if (!user && team && team.assignmentStrategy !== "manual") {
+      user = await this.pick(team.id);
+
+      const fallback = user
+        ? `assigned to ${user.name} by the ${team.name} team's ${
+            STRATEGY_LABELS[team.assignmentStrategy]
+          }`
+        : `no ${team.name} team member was available, left in the team queue`;
+
+      reason = reason
+        ? `${reason}, ${fallback}`
+        : fallback.charAt(0).toUpperCase() + fallback.slice(1);
+    } else if (!user && team && reason) {
+      reason = `${reason}, left in the ${team.name} queue`;
+    }
+
+    if (reason) {
+      await prisma.ticket.update({
+        where: { id: ticket.id },
+        data: { routingReason: reason },
+      });
+    }
+
+    if (!user) return null;
+
+    await this.assignTo(ticket, user);
+
+    return user;
+  }
+
+  /**
+   * Pick a team member for a ticket. Members are taken in a fixed rotation
+   * starting after the last assignee, so round robin and ties under least
+   * open both spread work evenly. Members who are out of office or at the
+   * team's capacity are skipped. Returns null when nobody is available.
+   */
+  static async pick(teamId: string, now = new Date()) {
+    const team = await prisma.team.findUnique({
+      where: { id: teamId },
+      include: { members: { orderBy: { id: "asc" } } },
+    });
+
+    if (!team || team.assignmentStrategy === "manual") return null;
+
+    const members = team.members.filter(
+      (member) => !member.external_user && !isOutOfOffice(member, now)
+    );
+
+    if (members.length === 0) return null;
+
+    const counts = await this.openCounts(members.map((member) => member.id));
+
+    const next = members.findIndex(
+      (member) => member.id > (team.lastAssignedId || "")
+    );
+    const start = next === -1 ? 0 : next;
+    const rotation = [...members.slice(start), ...members.slice(0, start)];
+
+    const available = rotation.filter(
+      (member) =>
+        team.maxOpenTickets === null ||
+        (counts.get(member.id) || 0) < team.maxOpenTickets
+    );
+
+    if (available.length === 0) return null;
+
+    if (team.assignmentStrategy === "least_open") {
+      // Array sort is stable, so equal counts keep their rotation order
+      available.sort(
+        (a, b) => (counts.get(a.id) || 0) - (counts.get(b.id) || 0)
+      );
+    }
+
+    return available[0];
+  }
+
+  /**
+   * The agent holding every required skill at or above its level with the
+   * highest total proficiency, fewest open tickets breaking ties. Only
+   * team members are considered for team tickets, and the team's capacity
+   * still applies.
+   */
+  static async bestAgent(
+    skills: RequiredSkill[],
+    team: Team | null,
+    now = new Date()
+  ) {
+    const agents = await prisma.user.findMany({
+      where: {
+        external_user: false,
+        teamId: team ? team.id : undefined,
+        AND: skills.map((skill) => ({
+          skills: {
+            some: { skillId: skill.skillId, level: { gte: skill.level } },
+          },
+        })),
+      },
+      include: { skills: true },
+    });
+
+    const available = agents.filter((agent) => !isOutOfOffice(agent, now));
+
+    if (available.length === 0) return null;
+
+    const counts = await this.openCounts(available.map((agent) => agent.id));
+
+    const ranked = available
+      .filter(
+        (agent) =>
+          !team?.maxOpenTickets ||
+          (counts.get(agent.id) || 0) < team.maxOpenTickets
+      )
+      .map((agent) => ({
+        agent,
+        score: skills.reduce(
+          (total, skill) =>
+            total +
+            (agent.skills.find((s) => s.skillId === skill.skillId)?.level ||
+              0),
+          0
+        ),
+        open: counts.get(agent.id) || 0,
+      }))
+      .sort((a, b) => b.score - a.score || a.open - b.open);
+
+    if (ranked.length === 0) return null;
+
+    const { skills: _, ...agent } = ranked[0].agent;
+
+    return agent as User;
+  }
+
+  /**
+   * Assign a ticket and notify the assignee through the usual assignment
+   * email and notifications.
+   */
+  private static async assignTo(ticket: Ticket, user: User) {
+    const updated = await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: { userId: user.id },
+    });
+
+    if (ticket.teamId) {
+      await prisma.team.update({
+        where: { id: ticket.teamId },
+        data: { lastAssignedId: user.id },
+      });
+    }
+
+    await ActivityService.record(ticket.id, null, [
+      { field: "assignee", from: null, to: user.name },
+    ]);
+
+    await sendAssignedEmail(user.email);
+    await assignedNotification(user, updated, ASSIGNMENT_ACTOR);
+
+    await AutomationService.run("ticket_updated", ticket.id, {
+      previous: ticket,
+    });
+  }
+
+  private static async openCounts(userIds: string[]) {
+    const groups = await prisma.ticket.groupBy({
+      by: ["userId"],
+      where: { userId: { in: userIds }, isComplete: false, deletedAt: null },
+      _count: { _all: true },
+    });
+
+    return new Map(
+      groups.map((group) => [group.userId as string, group._count._all])
+    );
+  }
+}
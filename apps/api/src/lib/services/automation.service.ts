@@ -0,0 +1,1000 @@
+import {
+  AutomationRule,
+  AutomationTrigger,
+  Prisma,
+  Ticket,
+} from "@prisma/client";
+import axios from "axios";
+import { prisma } from "../../prisma";
+import { sendAssignedEmail } from "../nodemailer/ticket/assigned";
+import { sendAutomationEmail } from "../nodemailer/ticket/automation";
+import { assignedNotification } from "../notifications/issue/assigned";
+import { businessMinutesBetween } from "../business-hours";
+import { ActivityService } from "./activity.service";
+import { CalendarCache, CalendarService } from "./calendar.service";
+import { PriorityService } from "./priority.service";
+import { SlaService } from "./sla.service";
+import { StatusService } from "./status.service";
+import { TagService } from "./tag.service";
+
+export class AutomationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AutomationError";
+  }
+}
+
+export type Condition = {
+  field: string;
+  operator: string;
+  value?: any;
+};
+
+export type Action =
+  | { type: "set_field"; field: string; value: any }
+  | { type: "assign"; userId: string | null }
+  | { type: "send_email"; to: string; subject: string; body: string }
+  | { type: "call_webhook"; url: string }
+  | { type: "add_tag"; tag: string }
+  | { type: "remove_tag"; tag: string };
+
+export type ActionResult = {
+  type: string;
+  status: "ok" | "failed" | "planned";
+  detail?: string;
+};
+
+export type AutomationContext = {
+  previous?: Ticket | null;
+  comment?: { text: string; public: boolean } | null;
+  // Time facts of scheduled runs, see timeFacts()
+  facts?: Record<string, any>;
+  // Names of the ticket's tags, kept current as rules add and remove them
+  tags?: string[];
+};
+
+type RuleLike = Pick<
+  AutomationRule,
+  "conditions" | "matchAll" | "actions" | "trigger"
+>;
+
+// Changes made by rules raise ticket_updated again, this caps how deep that
+// chain can go. Each rule also fires at most once per chain.
+const MAX_DEPTH = 3;
+
+export const SETTABLE_FIELDS = ["priority", "status", "type", "isComplete"];
+
+const OPERATORS = [
+  "equals",
+  "not_equals",
+  "contains",
+  "not_contains",
+  "in",
+  "not_in",
+  "is_empty",
+  "is_not_empty",
+  "changed",
+  "greater_than",
+  "less_than",
+];
+
+export const TIME_FIELDS = [
+  "hours_since_created",
+  "hours_since_activity",
+  "hours_in_status",
+  "hours_since_customer_reply",
+  "hours_since_agent_reply",
+  "awaiting",
+];
+
+const AUTOMATION_ACTOR = { id: null, name: "Automation" };
+
+function fieldValue(field: string, ticket: Ticket, context: AutomationContext) {
+  if (TIME_FIELDS.includes(field)) return context.facts?.[field];
+
+  switch (field) {
+    case "comment.text":
+      return context.comment?.text;
+    case "comment.public":
+      return context.comment?.public;
+    case "assignee":
+      return ticket.userId;
+    case "client":
+      return ticket.clientId;
+    case "team":
+      return ticket.teamId;
+    case "tags":
+      return context.tags || [];
+    default:
+      return (ticket as any)[field];
+  }
+}
+
+function text(value: any) {
+  return value === null || value === undefined
+    ? ""
+    : String(value).toLowerCase();
+}
+
+function list(value: any): string[] {
+  return (Array.isArray(value) ? value : String(value).split(",")).map(
+    (item: any) => text(item).trim()
+  );
+}
+
+/**
+ * List fields such as tags contain a value when one of their items equals
+ * it, and are in a list when any of their items is.
+ */
+function matchesList(condition: Condition, items: string[]) {
+  const values = items.map(text);
+
+  switch (condition.operator) {
+    case "equals":
+      return values.length === 1 && values[0] === text(condition.value);
+    case "not_equals":
+      return !(values.length === 1 && values[0] === text(condition.value));
+    case "contains":
+      return values.includes(text(condition.value));
+    case "not_contains":
+      return !values.includes(text(condition.value));
+    case "in":
+      return list(condition.value).some((v) => values.includes(v));
+    case "not_in":
+      return !list(condition.value).some((v) => values.includes(v));
+    case "is_empty":
+      return values.length === 0;
+    case "is_not_empty":
+      return values.length > 0;
+    default:
+      return false;
+  }
+}
+
+function matches(
+  condition: Condition,
+  ticket: Ticket,
+  context: AutomationContext
+) {
+  const value = fieldValue(condition.field, ticket, context);
+
+  if (Array.isArray(value)) return matchesList(condition, value);
+
+  switch (condition.operator) {
+    case "equals":
+      return text(value) === text(condition.value);
+    case "not_equals":
+      return text(value) !== text(condition.value);
+    case "contains":
+      return text(value).includes(text(condition.value));
+    case "not_contains":
+      return !text(value).includes(text(condition.value));
+    case "in":
+      return list(condition.value).includes(text(value));
+    case "not_in":
+      return !list(condition.value).includes(text(value));
+    case "is_empty":
+      return text(value) === "";
+    case "is_not_empty":
+      return text(value) !== "";
+    case "greater_than":
+      return (
+        value !== null &&
+        value !== undefined &&
+        Number(value) > Number(condition.value)
+      );
+    case "less_than":
+      return (
+        value !== null &&
+        value !== undefined &&
+        Number(value) < Number(condition.value)
+      );
+    case "changed":
+      return (
+        !!context.previous &&
+        text(fieldValue(condition.field, context.previous, context)) !==
+          text(value)
+      );
+    default:
+      return false;
+  }
+}
+
+function describe(action: Action) {
+  switch (action.type) {
+    case "set_field":
+      return `Set ${action.field} to ${action.value}`;
+    case "assign":
+      return action.userId ? `Assign to ${action.userId}` : "Unassign";
+    case "send_email":
+      return `Email ${action.to}: ${action.subject}`;
+    case "call_webhook":
+      return `POST ${action.url}`;
+    case "add_tag":
+      return `Add tag ${action.tag}`;
+    case "remove_tag":
+      return `Remove tag ${action.tag}`;
+  }
+}
+
+async function templateData(ticket: Ticket) {
+  const priority = await PriorityService.get(ticket.priority);
+
+  return {
+    id: ticket.id,
+    number: ticket.Number,
+    title: ticket.title,
+    name: ticket.name,
+    email: ticket.email,
+    priority: ticket.priority,
+    priorityName: priority?.name || ticket.priority,
+    priorityColor: priority?.color,
+    status: ticket.status,
+    type: ticket.type,
+  };
+}
+
+function latest(...dates: (Date | null | undefined)[]) {
+  return dates.reduce<Date | null>(
+    (max, date) => (date && (!max || date > max) ? date : max),
+    null
+  );
+}
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Time fields the conditions of the rules refer to.
+ */
+function referencedFacts(rules: RuleLike[]) {
+  return new Set(
+    rules.flatMap((rule) =>
+      (rule.conditions as Condition[])
+        .map((condition) => condition.field)
+        .filter((field) => TIME_FIELDS.includes(field))
+    )
+  );
+}
+
+/**
+ * A filter every ticket a time condition can match passes, or null when the
+ * condition can not be narrowed down in SQL. Business hours never run
+ * faster than the clock, so "more than N hours" needs at least N hours of
+ * wall-clock time too.
+ */
+function conditionWhere(
+  condition: Condition,
+  now: Date
+): Prisma.TicketWhereInput | null {
+  const hours = Number(condition.value);
+
+  if (
+    condition.operator !== "greater_than" ||
+    !Number.isFinite(hours) ||
+    hours < 0
+  ) {
+    return null;
+  }
+
+  const cutoff = new Date(now.getTime() - hours * HOUR);
+  const since = { gte: cutoff };
+
+  switch (condition.field) {
+    case "hours_since_created":
+      return { createdAt: { lt: cutoff } };
+    case "hours_since_activity":
+      return {
+        createdAt: { lt: cutoff },
+        Comment: { none: { createdAt: since } },
+        events: { none: { createdAt: since } },
+      };
+    case "hours_in_status":
+      return {
+        createdAt: { lt: cutoff },
+        events: { none: { field: "status", createdAt: since } },
+      };
+    case "hours_since_customer_reply":
+      return {
+        createdAt: { lt: cutoff },
+        Comment: { none: { public: true, reply: true, createdAt: since } },
+      };
+    case "hours_since_agent_reply":
+      return {
+        AND: [
+          { Comment: { some: { public: true, reply: false } } },
+          {
+            Comment: {
+              none: { public: true, reply: false, createdAt: since },
+            },
+          },
+        ],
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * A filter for the tickets a scheduled rule can match, null when it can
+ * match any open ticket.
+ */
+function ruleWhere(rule: RuleLike, now: Date): Prisma.TicketWhereInput | null {
+  const conditions = rule.conditions as Condition[];
+  const filters = conditions.map((condition) => conditionWhere(condition, now));
+
+  if (rule.matchAll) {
+    const narrowed = filters.filter(
+      (filter): filter is Prisma.TicketWhereInput => !!filter
+    );
+
+    return narrowed.length > 0 ? { AND: narrowed } : null;
+  }
+
+  // Any condition may match, each of them has to narrow the tickets down
+  if (filters.length === 0 || filters.some((filter) => !filter)) return null;
+
+  return { OR: filters as Prisma.TicketWhereInput[] };
+}
+
+/**
+ * Hours since the last activity, status change and replies of each ticket,
+ * in business hours of the ticket's calendar. Ticket creation counts as the
+ * first customer message. Only the facts in `fields` are worked out, the
+ * business-hours arithmetic is the expensive part of a sweep.
+ *
+ * The key identifies the last activity of people on the ticket. Changes
+ * made by the system, such as a rule's own tags and fields, leave it as it
+ * is so they do not let the rule fire again.
+ */
+async function timeFacts(
+  tickets: Ticket[],
+  now: Date,
+  cache: CalendarCache,
+  fields = new Set(TIME_FIELDS)
+) {
+  const ids = tickets.map((ticket) => ticket.id);
+
+  const needs = (...names: string[]) => names.some((n) => fields.has(n));
+  const none = Promise.resolve([] as any[]);
+
+  const [comments, replies, events, statusEvents, actorEvents] =
+    await Promise.all([
+      prisma.comment.groupBy({
+        by: ["ticketId"],
+        where: { ticketId: { in: ids } },
+        _max: { createdAt: true },
+      }),
+      needs(
+        "hours_since_customer_reply",
+        "hours_since_agent_reply",
+        "awaiting"
+      )
+        ? prisma.comment.groupBy({
+            by: ["ticketId", "reply"],
+            where: { ticketId: { in: ids }, public: true },
+            _max: { createdAt: true },
+          })
+        : none,
+      needs("hours_since_activity")
+        ? prisma.ticketEvent.groupBy({
+            by: ["ticketId"],
+            where: { ticketId: { in: ids } },
+            _max: { createdAt: true },
+          })
+        : none,
+      needs("hours_in_status")
+        ? prisma.ticketEvent.groupBy({
+            by: ["ticketId"],
+            where: { ticketId: { in: ids }, field: "status" },
+            _max: { createdAt: true },
+          })
+        : none,
+      prisma.ticketEvent.groupBy({
+        by: ["ticketId"],
+        where: { ticketId: { in: ids }, actorId: { not: null } },
+        _max: { createdAt: true },
+      }),
+    ]);
+
+  const lastComment = new Map(
+    comments.map((c) => [c.ticketId, c._max.createdAt])
+  );
+  const lastEvent = new Map<string, Date | null>(
+    events.map((e) => [e.ticketId, e._max.createdAt])
+  );
+  const lastStatus = new Map<string, Date | null>(
+    statusEvents.map((e) => [e.ticketId, e._max.createdAt])
+  );
+  const lastActor = new Map(
+    actorEvents.map((e) => [e.ticketId, e._max.createdAt])
+  );
+  const lastCustomer = new Map<string, Date | null>(
+    replies.filter((r) => r.reply).map((r) => [r.ticketId, r._max.createdAt])
+  );
+  const lastAgent = new Map<string, Date | null>(
+    replies.filter((r) => !r.reply).map((r) => [r.ticketId, r._max.createdAt])
+  );
+
+  const facts = new Map<string, { key: string; facts: Record<string, any> }>();
+
+  for (const ticket of tickets) {
+    const calendar = await CalendarService.forTicket(ticket, cache);
+    const hours = (field: string, since: () => Date | null) => {
+      if (!fields.has(field)) return undefined;
+
+      const from = since();
+
+      return from ? businessMinutesBetween(from, now, calendar) / 60 : null;
+    };
+
+    const activity = latest(
+      ticket.createdAt,
+      lastComment.get(ticket.id),
+      lastActor.get(ticket.id)
+    )!;
+    const customer = latest(ticket.createdAt, lastCustomer.get(ticket.id))!;
+    const agent = lastAgent.get(ticket.id) || null;
+
+    facts.set(ticket.id, {
+      key: `${ticket.id}:${activity.toISOString()}`,
+      facts: {
+        hours_since_created: hours(
+          "hours_since_created",
+          () => ticket.createdAt
+        ),
+        hours_since_activity: hours("hours_since_activity", () =>
+          latest(
+            ticket.createdAt,
+            lastComment.get(ticket.id),
+            lastEvent.get(ticket.id)
+          )
+        ),
+        hours_in_status: hours("hours_in_status", () =>
+          latest(ticket.createdAt, lastStatus.get(ticket.id))
+        ),
+        hours_since_customer_reply: hours(
+          "hours_since_customer_reply",
+          () => customer
+        ),
+        hours_since_agent_reply: hours("hours_since_agent_reply", () => agent),
+        awaiting: fields.has("awaiting")
+          ? agent && agent > customer
+            ? "customer"
+            : "agent"
+          : undefined,
+      },
+    });
+  }
+
+  return facts;
+}
+
+export class AutomationService {
+  /**
+   * Validate the body of a create or update request.
+   */
+  static validate(body: any) {
+    const { name, trigger, conditions, actions } = body;
+
+    if (name !== undefined && !String(name).trim()) {
+      throw new AutomationError("Name is required");
+    }
+
+    if (
+      trigger !== undefined &&
+      !Object.values(AutomationTrigger).includes(trigger)
+    ) {
+      throw new AutomationError(`Unknown trigger ${trigger}`);
+    }
+
+    if (conditions !== undefined) {
+      if (!Array.isArray(conditions)) {
+        throw new AutomationError("Conditions must be a list");
+      }
+
+      for (const condition of conditions) {
+        if (!condition?.field || !OPERATORS.includes(condition.operator)) {
+          throw new AutomationError(
+            "Each condition needs a field and a known operator"
+          );
+        }
+      }
+    }
+
+    if (actions !== undefined) {
+      if (!Array.isArray(actions) || actions.length === 0) {
+        throw new AutomationError("A rule needs at least one action");
+      }
+
+      for (const action of actions) {
+        switch (action?.type) {
+          case "set_field":
+            if (!SETTABLE_FIELDS.includes(action.field)) {
+              throw new AutomationError(`${action.field} can not be set`);
+            }
+            break;
+          case "assign":
+            break;
+          case "send_email":
+            if (!action.to || !action.subject || !action.body) {
+              throw new AutomationError(
+                "Email actions need a recipient, subject and body"
+              );
+            }
+            break;
+          case "call_webhook":
+            if (!/^https?:\/\//.test(action.url || "")) {
+              throw new AutomationError("Webhook actions need an http(s) url");
+            }
+            break;
+          case "add_tag":
+          case "remove_tag":
+            if (!String(action.tag || "").trim()) {
+              throw new AutomationError("Tag actions need a tag");
+            }
+            break;
+          default:
+            throw new AutomationError(`Unknown action ${action?.type}`);
+        }
+      }
+    }
+  }
+
+  static evaluate(rule: RuleLike, ticket: Ticket, context: AutomationContext) {
+    const conditions = rule.conditions as Condition[];
+
+    if (conditions.length === 0) return true;
+
+    return rule.matchAll
+      ? conditions.every((c) => matches(c, ticket, context))
+      : conditions.some((c) => matches(c, ticket, context));
+  }
+
+  /**
+   * Run the active rules for a trigger against a ticket, in order. Errors
+   * are logged on the run and never reach the caller.
+   */
+  static async run(
+    trigger: AutomationTrigger,
+    ticketId: string,
+    context: AutomationContext = {},
+    depth = 0,
+    fired = new Set<string>()
+  ) {
+    try {
+      const rules = await prisma.automationRule.findMany({
+        where: { trigger, active: true },
+        orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+      });
+
+      if (rules.length === 0) return;
+
+      const before = await prisma.ticket.findUnique({
+        where: { id: ticketId },
+      });
+
+      if (!before) return;
+
+      context = {
+        ...context,
+        tags: context.tags ?? (await TagService.names(ticketId)),
+      };
+
+      let ticket = before;
+      let changed = false;
+
+      for (const rule of rules) {
+        if (fired.has(rule.id)) continue;
+
+        const matched = this.evaluate(rule, ticket, context);
+        let results: ActionResult[] = [];
+        let error: string | null = null;
+
+        if (matched) {
+          fired.add(rule.id);
+
+          const outcome = await this.fire(rule, ticket, context);
+
+          ({ results, error } = outcome);
+          if (outcome.changed) {
+            ticket = outcome.ticket;
+            changed = true;
+          }
+        }
+
+        await prisma.automationRun.create({
+          data: {
+            ruleId: rule.id,
+            ticketId,
+            trigger,
+            matched,
+            depth,
+            results,
+            error,
+          },
+        });
+
+        if (matched && rule.stopProcessing) break;
+      }
+
+      if (changed && depth < MAX_DEPTH) {
+        await this.run(
+          "ticket_updated",
+          ticketId,
+          { previous: before },
+          depth + 1,
+          fired
+        );
+      }
+    } catch (error) {
+      console.error("Error running automations for ticket", ticketId, error);
+    }
+  }
+
+  /**
+   * Evaluate scheduled rules against open tickets, called from the
+   * scheduler. Only tickets old enough for the time conditions of some rule
+   * are loaded. A rule acts on a ticket once until people are active on the
+   * ticket again, so a reminder is not sent again on every sweep and two
+   * instances never both act. Returns how many times rules fired.
+   */
+  static async runScheduled() {
+    const rules = await prisma.automationRule.findMany({
+      where: { trigger: "scheduled", active: true },
+      orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+    });
+
+    if (rules.length === 0) return 0;
+
+    const now = new Date();
+    const filters = rules.map((rule) => ruleWhere(rule, now));
+
+    const tickets = await prisma.ticket.findMany({
+      where: {
+        isComplete: false,
+        hidden: false,
+        deletedAt: null,
+        ...(filters.every((filter) => !!filter) && {
+          OR: filters as Prisma.TicketWhereInput[],
+        }),
+      },
+    });
+
+    if (tickets.length === 0) return 0;
+
+    const facts = await timeFacts(
+      tickets,
+      now,
+      new Map(),
+      referencedFacts(rules)
+    );
+
+    const tags = new Map<string, string[]>();
+
+    for (const ticketTag of await prisma.ticketTag.findMany({
+      where: { ticketId: { in: tickets.map((ticket) => ticket.id) } },
+      include: { tag: { select: { name: true } } },
+      orderBy: { createdAt: "asc" },
+    })) {
+      tags.set(ticketTag.ticketId, [
+        ...(tags.get(ticketTag.ticketId) || []),
+        ticketTag.tag.name,
+      ]);
+    }
+
+    let fired = 0;
+
+    for (const before of tickets) {
+      const { key, facts: ticketFacts } = facts.get(before.id)!;
+      const context: AutomationContext = {
+        facts: ticketFacts,
+        tags: tags.get(before.id) || [],
+      };
+      const chain = new Set<string>();
+
+      let ticket = before;
+      let changed = false;
+
+      try {
+        for (const rule of rules) {
+          if (!this.evaluate(rule, ticket, context)) continue;
+
+          // Claim the rule for this ticket and activity, the unique key
+          // makes a second claim fail
+          const run = await prisma.automationRun
+            .create({
+              data: {
+                ruleId: rule.id,
+                ticketId: ticket.id,
+                trigger: "scheduled",
+                matched: true,
+                key,
+              },
+            })
+            .catch((error) => {
+              if (
+                error instanceof Prisma.PrismaClientKnownRequestError &&
+                error.code === "P2002"
+              ) {
+                return null;
+              }
+              throw error;
+            });
+
+          if (!run) continue;
+
+          chain.add(rule.id);
+          fired++;
+
+          const outcome = await this.fire(rule, ticket, context);
+
+          await prisma.automationRun.update({
+            where: { id: run.id },
+            data: { results: outcome.results, error: outcome.error },
+          });
+
+          if (outcome.changed) {
+            ticket = outcome.ticket;
+            changed = true;
+          }
+
+          if (rule.stopProcessing) break;
+        }
+
+        if (changed) {
+          await this.run(
+            "ticket_updated",
+            ticket.id,
+            { previous: before },
+            1,
+            chain
+          );
+        }
+      } catch (error) {
+        console.error(
+          "Error running scheduled rules for ticket",
+          ticket.id,
+          error
+        );
+      }
+    }
+
+    return fired;
+  }
+
+  /**
+   * Run the actions of a matched rule in order. A failed action is recorded
+   * and does not stop the ones after it.
+   */
+  private static async fire(
+    rule: AutomationRule,
+    ticket: Ticket,
+    context: AutomationContext
+  ) {
+    const results: ActionResult[] = [];
+    let error: string | null = null;
+    let changed = false;
+
+    for (const action of rule.actions as Action[]) {
+      try {
+        const updated = await this.execute(action, ticket, context);
+        if (updated) {
+          ticket = updated;
+          changed = true;
+        }
+        results.push({
+          type: action.type,
+          status: "ok",
+          detail: describe(action),
+        });
+      } catch (e: any) {
+        error = e.message;
+        results.push({
+          type: action.type,
+          status: "failed",
+          detail: e.message,
+        });
+      }
+    }
+
+    return { ticket, changed, results, error };
+  }
+
+  /**
+   * Evaluate a rule against a ticket without running its actions. Saved
+   * rules get a dry-run entry in their run log.
+   */
+  static async test(rule: RuleLike & { id?: string }, ticketId: string) {
+    const ticket = await prisma.ticket.findUnique({ where: { id: ticketId } });
+
+    if (!ticket) {
+      throw new AutomationError("Ticket not found");
+    }
+
+    const context: AutomationContext = {
+      tags: await TagService.names(ticket.id),
+    };
+
+    if (rule.trigger === "scheduled") {
+      context.facts = (await timeFacts([ticket], new Date(), new Map())).get(
+        ticket.id
+      )!.facts;
+    }
+
+    const conditions = (rule.conditions as Condition[]).map((condition) => ({
+      ...condition,
+      actual: fieldValue(condition.field, ticket, context),
+      matched: matches(condition, ticket, context),
+    }));
+
+    const matched = this.evaluate(rule, ticket, context);
+
+    const results: ActionResult[] = matched
+      ? (rule.actions as Action[]).map((action) => ({
+          type: action.type,
+          status: "planned",
+          detail: describe(action),
+        }))
+      : [];
+
+    if (rule.id) {
+      await prisma.automationRun.create({
+        data: {
+          ruleId: rule.id,
+          ticketId,
+          trigger: rule.trigger,
+          matched,
+          dryRun: true,
+          results,
+        },
+      });
+    }
+
+    return { matched, conditions, results };
+  }
+
+  /**
+   * Run one action, returns the updated ticket when it changed a field.
+   */
+  private static async execute(
+    action: Action,
+    ticket: Ticket,
+    context: AutomationContext
+  ): Promise<Ticket | null> {
+    switch (action.type) {
+      case "set_field": {
+        if (!SETTABLE_FIELDS.includes(action.field)) {
+          throw new AutomationError(`${action.field} can not be set`);
+        }
+
+        const value =
+          action.field === "isComplete"
+            ? action.value === true || action.value === "true"
+            : action.field === "priority"
+            ? await PriorityService.resolve(action.value)
+            : action.value;
+
+        if ((ticket as any)[action.field] === value) return null;
+
+        // Automations may skip the workflow, but isComplete still follows
+        // the status category
+        if (action.field === "status") {
+          return StatusService.change(ticket, value, null, true);
+        }
+
+        if (action.field === "isComplete") {
+          const target = await StatusService.target(value);
+          return StatusService.change(ticket, target.key, null, true);
+        }
+
+        const updated = await prisma.ticket.update({
+          where: { id: ticket.id },
+          data: { [action.field]: value } as Prisma.TicketUpdateInput,
+        });
+
+        await ActivityService.record(ticket.id, null, [
+          {
+            field: action.field,
+            from: (ticket as any)[action.field],
+            to: value,
+          },
+        ]);
+
+        if (action.field === "priority") await SlaService.apply(ticket.id);
+
+        return updated;
+      }
+
+      case "assign": {
+        if (ticket.userId === action.userId) return null;
+
+        const [previous, user] = await Promise.all([
+          ticket.userId
+            ? prisma.user.findUnique({ where: { id: ticket.userId } })
+            : null,
+          action.userId
+            ? prisma.user.findUnique({ where: { id: action.userId } })
+            : null,
+        ]);
+
+        if (action.userId && !user) {
+          throw new AutomationError("Assignee not found");
+        }
+
+        const updated = await prisma.ticket.update({
+          where: { id: ticket.id },
+          data: { userId: user ? user.id : null },
+        });
+
+        await ActivityService.record(ticket.id, null, [
+          { field: "assignee", from: previous?.name, to: user?.name ?? null },
+        ]);
+
+        if (user) {
+          await sendAssignedEmail(user.email);
+          await assignedNotification(user, updated, AUTOMATION_ACTOR);
+        }
+
+        return updated;
+      }
+
+      case "send_email": {
+        let to = action.to;
+
+        if (to === "requester") {
+          to = ticket.email || "";
+        } else if (to === "assignee") {
+          const user = ticket.userId
+            ? await prisma.user.findUnique({ where: { id: ticket.userId } })
+            : null;
+          to = user?.email || "";
+        }
+
+        if (!to) {
+          throw new AutomationError(`Ticket has no ${action.to} email`);
+        }
+
+        await sendAutomationEmail(
+          to,
+          action.subject,
+          action.body,
+          await templateData(ticket)
+        );
+
+        return null;
+      }
+
+      case "call_webhook": {
+        await axios.post(action.url, {
+          event: "automation",
+          ticket: await templateData(ticket),
+        });
+
+        return null;
+      }
+
+      case "add_tag":
+      case "remove_tag": {
+        const tag = await TagService.findByName(action.tag);
+
+        if (!tag) {
+          throw new AutomationError(`Unknown tag ${action.tag}`);
+        }
+
+        const changed =
+          action.type === "add_tag"
+            ? await TagService.add(ticket.id, [tag.id], null)
+            : await TagService.remove(ticket.id, tag.id, null);
+
+        if (!changed) return null;
+
+        context.tags = await TagService.names(ticket.id);
+
+        return prisma.ticket.findUniqueOrThrow({ where: { id: ticket.id } });
+      }
+
+      default:
+        throw new AutomationError(`Unknown action ${(action as any).type}`);
+    }
+  }
+}
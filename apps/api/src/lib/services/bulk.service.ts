@@ -0,0 +1,319 @@
+import { Ticket, User } from "@prisma/client";
+import { prisma } from "../../prisma";
+import { sendAssignedEmail } from "../nodemailer/ticket/assigned";
+import { assignedNotification } from "../notifications/issue/assigned";
+import { priorityNotification } from "../notifications/issue/priority";
+import { statusUpdateNotification } from "../notifications/issue/status";
+import { Permission } from "../types/permissions";
+import { ActivityService } from "./activity.service";
+import { AssignmentService } from "./assignment.service";
+import { AutomationService } from "./automation.service";
+import { MergeError, MergeService } from "./merge.service";
+import { PriorityError, PriorityService } from "./priority.service";
+import { SlaService } from "./sla.service";
+import { StatusError, StatusService } from "./status.service";
+import { TagError, TagService } from "./tag.service";
+import { TrashError, TrashService } from "./trash.service";
+
+export class BulkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BulkError";
+  }
+}
+
+export type BulkOperation =
+  | "assign"
+  | "status"
+  | "priority"
+  | "tag"
+  | "hide"
+  | "lock"
+  | "delete"
+  | "merge";
+
+// The permission each operation needs on every ticket, the same as its
+// single ticket route
+const BULK_PERMISSIONS: Record<BulkOperation, Permission> = {
+  assign: "issue::transfer",
+  status: "issue::update",
+  priority: "issue::update",
+  tag: "issue::update",
+  hide: "issue::update",
+  lock: "issue::update",
+  delete: "issue::delete",
+  merge: "issue::update",
+};
+
+export type BulkResult = {
+  id: string;
+  success: boolean;
+  message?: string;
+};
+
+const MAX_TICKETS = 200;
+
+type Plan = {
+  operation: BulkOperation;
+  // The validated value of the operation, e.g. a priority key or tag ids
+  value: any;
+};
+
+export class BulkService {
+  /**
+   * The permission an operation needs on each ticket.
+   */
+  static permission(operation: BulkOperation): Permission {
+    return BULK_PERMISSIONS[operation];
+  }
+
+  /**
+   * Check the ids and the operation value once, before any ticket is
+   * touched.
+   */
+  static async plan(body: any): Promise<{ ids: string[]; plan: Plan }> {
+    const { ids, operation, value } = body || {};
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      throw new BulkError("Select at least one ticket");
+    }
+
+    if (ids.length > MAX_TICKETS) {
+      throw new BulkError(
+        `At most ${MAX_TICKETS} tickets can be changed at once`
+      );
+    }
+
+    if (!(operation in BULK_PERMISSIONS)) {
+      throw new BulkError(`Unknown operation ${operation}`);
+    }
+
+    const unique = Array.from(new Set(ids.map(String)));
+
+    switch (operation as BulkOperation) {
+      case "assign": {
+        if (value) {
+          const user = await prisma.user.findUnique({ where: { id: value } });
+          if (!user) throw new BulkError("Assignee not found");
+          return { ids: unique, plan: { operation, value: user } };
+        }
+        return { ids: unique, plan: { operation, value: null } };
+      }
+      case "status":
+        await StatusService.get(String(value || ""));
+        return { ids: unique, plan: { operation, value } };
+      case "priority":
+        if (!value) throw new BulkError("Choose a priority");
+        return {
+          ids: unique,
+          plan: { operation, value: await PriorityService.resolve(value) },
+        };
+      case "tag": {
+        const tagIds = await TagService.ids(
+          Array.isArray(value) ? value : [value]
+        );
+        if (tagIds.length === 0) throw new BulkError("Choose a tag");
+        return { ids: unique, plan: { operation, value: tagIds } };
+      }
+      case "hide":
+      case "lock":
+        return { ids: unique, plan: { operation, value: value !== false } };
+      case "merge": {
+        const target = value
+          ? await prisma.ticket.findUnique({ where: { id: value } })
+          : null;
+        if (!target) throw new BulkError("Choose a ticket to merge into");
+        return {
+          ids: unique.filter((id) => id !== target.id),
+          plan: { operation, value: target },
+        };
+      }
+      default:
+        return { ids: unique, plan: { operation, value } };
+    }
+  }
+
+  /**
+   * Apply a planned operation to each ticket on its own. A ticket that is
+   * missing, locked, not allowed for the agent or refused by its workflow
+   * fails without stopping the others.
+   */
+  static async apply(
+    ids: string[],
+    plan: Plan,
+    actor: User,
+    authorize: (ticket: Ticket, permission: Permission) => Promise<boolean>
+  ) {
+    const tickets = await prisma.ticket.findMany({
+      where: { id: { in: ids } },
+    });
+
+    const results: BulkResult[] = [];
+    const mergeable: string[] = [];
+
+    for (const id of ids) {
+      const ticket = tickets.find((t) => t.id === id);
+
+      try {
+        this.check(ticket, plan);
+
+        if (!(await authorize(ticket!, this.permission(plan.operation)))) {
+          throw new BulkError("You do not have permission for this ticket");
+        }
+
+        if (plan.operation === "merge") {
+          mergeable.push(id);
+          continue;
+        }
+
+        await this.execute(ticket!, plan, actor);
+        results.push({ id, success: true });
+      } catch (error) {
+        results.push({
+          id,
+          success: false,
+          message: this.message(error, [id]),
+        });
+      }
+    }
+
+    // Merging folds all tickets into the target at once
+    if (mergeable.length > 0) {
+      try {
+        await MergeService.merge(plan.value.id, mergeable, actor);
+        mergeable.forEach((id) => results.push({ id, success: true }));
+      } catch (error) {
+        const message = this.message(error, mergeable);
+        mergeable.forEach((id) =>
+          results.push({ id, success: false, message })
+        );
+      }
+    }
+
+    return results;
+  }
+
+  private static check(ticket: Ticket | undefined, plan: Plan) {
+    // Tickets in the trash count as missing, deleting them again fails in
+    // the trash itself
+    if (!ticket || (ticket.deletedAt && plan.operation !== "delete")) {
+      throw new BulkError("Ticket not found");
+    }
+
+    if (ticket.mergedIntoId) {
+      throw new BulkError("Ticket has been merged");
+    }
+
+    // Locked tickets can only be unlocked or removed
+    if (
+      ticket.locked &&
+      plan.operation !== "lock" &&
+      plan.operation !== "delete"
+    ) {
+      throw new BulkError("Ticket is locked");
+    }
+  }
+
+  private static message(error: unknown, ids: string[]) {
+    if (
+      error instanceof BulkError ||
+      error instanceof StatusError ||
+      error instanceof PriorityError ||
+      error instanceof TagError ||
+      error instanceof MergeError ||
+      error instanceof TrashError
+    ) {
+      return error.message;
+    }
+
+    console.error(`Bulk operation failed for ${ids.join(", ")}`, error);
+    return "Something went wrong";
+  }
+
+  private static async execute(ticket: Ticket, plan: Plan, actor: User) {
+    const { operation, value } = plan;
+
+    switch (operation) {
+      case "assign": {
+        if (ticket.userId === (value?.id ?? null)) return;
+
+        const previous = ticket.userId
+          ? await prisma.user.findUnique({ where: { id: ticket.userId } })
+          : null;
+
+        const updated = await prisma.ticket.update({
+          where: { id: ticket.id },
+          data: { userId: value?.id ?? null },
+        });
+
+        await ActivityService.record(ticket.id, actor, [
+          { field: "assignee", from: previous?.name, to: value?.name ?? null },
+        ]);
+
+        if (value) {
+          await sendAssignedEmail(value.email);
+          await assignedNotification(value, updated, actor);
+        }
+        break;
+      }
+
+      case "status": {
+        if (ticket.status === value) return;
+
+        await StatusService.change(ticket, value, actor);
+        await statusUpdateNotification(ticket, actor, value);
+        break;
+      }
+
+      case "priority": {
+        if (ticket.priority === value) return;
+
+        await prisma.ticket.update({
+          where: { id: ticket.id },
+          data: { priority: value },
+        });
+
+        await ActivityService.record(ticket.id, actor, [
+          { field: "priority", from: ticket.priority, to: value },
+        ]);
+
+        await priorityNotification(ticket, actor, ticket.priority, value);
+        await SlaService.apply(ticket.id);
+        break;
+      }
+
+      case "tag": {
+        if (!(await TagService.add(ticket.id, value, actor))) return;
+
+        // Tags can make skill rules match
+        await AssignmentService.storeSkills(ticket);
+        break;
+      }
+
+      case "hide":
+      case "lock": {
+        const field = operation === "hide" ? "hidden" : "locked";
+
+        if (ticket[field] === value) return;
+
+        await prisma.ticket.update({
+          where: { id: ticket.id },
+          data: { [field]: value },
+        });
+
+        await ActivityService.record(ticket.id, actor, [
+          { field, from: ticket[field], to: value },
+        ]);
+        break;
+      }
+
+      case "delete":
+        await TrashService.trash(ticket, actor);
+        return;
+    }
+
+    await AutomationService.run("ticket_updated", ticket.id, {
+      previous: ticket,
+    });
+  }
+}
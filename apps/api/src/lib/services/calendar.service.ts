@@ -0,0 +1,110 @@
+import { BusinessCalendar, Holiday } from "@prisma/client";
+import { BusinessHours, Calendar, validateCalendar } from "../business-hours";
+import { prisma } from "../../prisma";
+
+export class CalendarError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalendarError";
+  }
+}
+
+// Calendars loaded during one sweep, keyed by id. The default calendar is
+// stored under "default".
+export type CalendarCache = Map<string, Calendar | null>;
+
+function toCalendar(
+  calendar: (BusinessCalendar & { holidays: Holiday[] }) | null
+): Calendar | null {
+  if (!calendar) return null;
+
+  return {
+    timezone: calendar.timezone,
+    schedule: calendar.schedule as BusinessHours[],
+    holidays: calendar.holidays,
+  };
+}
+
+export class CalendarService {
+  /**
+   * Validate the body of a create or update request. On update the fields
+   * the body leaves out are taken from the stored calendar.
+   */
+  static validate(
+    body: any,
+    calendar?: BusinessCalendar & { holidays: Calendar["holidays"] }
+  ) {
+    const { name, timezone, schedule } = body;
+
+    if (name !== undefined && !String(name).trim()) {
+      throw new CalendarError("Name is required");
+    }
+
+    if (calendar || timezone !== undefined || schedule !== undefined) {
+      const error = validateCalendar(
+        timezone ?? calendar?.timezone ?? "UTC",
+        schedule ?? calendar?.schedule,
+        calendar?.holidays
+      );
+      if (error) throw new CalendarError(error);
+    }
+  }
+
+  static async load(id: string, cache?: CalendarCache) {
+    if (cache?.has(id)) return cache.get(id)!;
+
+    const calendar = toCalendar(
+      await prisma.businessCalendar.findUnique({
+        where: { id },
+        include: { holidays: true },
+      })
+    );
+
+    cache?.set(id, calendar);
+
+    return calendar;
+  }
+
+  static async default(cache?: CalendarCache) {
+    if (cache?.has("default")) return cache.get("default")!;
+
+    const calendar = toCalendar(
+      await prisma.businessCalendar.findFirst({
+        where: { isDefault: true },
+        include: { holidays: true },
+      })
+    );
+
+    cache?.set("default", calendar);
+
+    return calendar;
+  }
+
+  /**
+   * Calendar that times a ticket: its team's, else its client's, else the
+   * default calendar. Null when none applies and the clock runs 24/7.
+   */
+  static async forTicket(
+    ticket: { teamId: string | null; clientId: string | null },
+    cache?: CalendarCache
+  ) {
+    const [team, client] = await Promise.all([
+      ticket.teamId
+        ? prisma.team.findUnique({
+            where: { id: ticket.teamId },
+            select: { calendarId: true },
+          })
+        : null,
+      ticket.clientId
+        ? prisma.client.findUnique({
+            where: { id: ticket.clientId },
+            select: { calendarId: true },
+          })
+        : null,
+    ]);
+
+    const id = team?.calendarId || client?.calendarId;
+
+    return id ? this.load(id, cache) : this.default(cache);
+  }
+}
@@ -0,0 +1,134 @@
+import { Ticket } from "@prisma/client";
+import { prisma } from "../../prisma";
+import { ActivityService, Actor } from "./activity.service";
+
+export class CcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CcError";
+  }
+}
+
+const EMAIL = /^[^\s@<>,;]+@[^\s@<>,;]+\.[^\s@<>,;]+$/;
+
+// Tickets can copy at most this many addresses, mail servers refuse long
+// recipient lists
+const MAX_CC = 50;
+
+export class CcService {
+  /**
+   * Check and lowercase addresses, dropping duplicates.
+   */
+  static normalize(emails: unknown) {
+    const list = Array.isArray(emails) ? emails : [emails];
+
+    const normalized = list.map((email) => String(email ?? "").trim());
+    const invalid = normalized.find((email) => !EMAIL.test(email));
+
+    if (invalid !== undefined) {
+      throw new CcError(
+        invalid ? `${invalid} is not an email address` : "Enter an email address"
+      );
+    }
+
+    return Array.from(new Set(normalized.map((e) => e.toLowerCase())));
+  }
+
+  /**
+   * Addresses that must never be copied on a ticket: our own mailboxes and
+   * the agents, who get notifications instead.
+   */
+  static async excluded() {
+    const [queues, providers, users] = await Promise.all([
+      prisma.emailQueue.findMany({ select: { username: true } }),
+      prisma.email.findMany({ select: { user: true, reply: true } }),
+      prisma.user.findMany({
+        where: { external_user: false },
+        select: { email: true },
+      }),
+    ]);
+
+    return new Set(
+      [
+        ...queues.map((q) => q.username),
+        ...providers.flatMap((p) => [p.user, p.reply]),
+        ...users.map((u) => u.email),
+      ]
+        .filter(Boolean)
+        .map((email) => email.toLowerCase())
+    );
+  }
+
+  /**
+   * Copy addresses on a ticket and record the change. The requester is
+   * already the recipient and is skipped. Returns whether any address was
+   * new on the ticket.
+   */
+  static async add(ticket: Ticket, emails: string[], actor: Actor) {
+    const requester = ticket.email?.toLowerCase();
+    const added = emails.filter(
+      (email) => email !== requester && !ticket.cc.includes(email)
+    );
+
+    if (added.length === 0) return false;
+
+    const cc = [...ticket.cc, ...added];
+
+    if (cc.length > MAX_CC) {
+      throw new CcError(`A ticket can copy at most ${MAX_CC} addresses`);
+    }
+
+    await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: { cc, updatedAt: new Date() },
+    });
+
+    await ActivityService.record(ticket.id, actor, [
+      { field: "cc", from: ticket.cc, to: cc },
+    ]);
+
+    return true;
+  }
+
+  /**
+   * Copy the other recipients of an incoming email on its ticket. Unlike
+   * agents' input, mail is not refused: invalid addresses are dropped and
+   * the list stops at the limit.
+   */
+  static async addFromMail(ticket: Ticket, addresses: string[]) {
+    const requester = ticket.email?.toLowerCase();
+    const emails = Array.from(
+      new Set(
+        addresses
+          .map((address) => address.trim().toLowerCase())
+          .filter((address) => EMAIL.test(address))
+      )
+    ).filter((email) => email !== requester && !ticket.cc.includes(email));
+
+    return this.add(
+      ticket,
+      emails.slice(0, Math.max(MAX_CC - ticket.cc.length, 0)),
+      null
+    );
+  }
+
+  /**
+   * Stop copying an address on a ticket. Returns whether it was copied.
+   */
+  static async remove(ticket: Ticket, email: string, actor: Actor) {
+    const cc = ticket.cc.filter((e) => e !== email.toLowerCase());
+
+    if (cc.length === ticket.cc.length) return false;
+
+    await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: { cc, updatedAt: new Date() },
+    });
+
+    await ActivityService.record(ticket.id, actor, [
+      { field: "cc", from: ticket.cc, to: cc },
+    ]);
+
+    return true;
+  }
+}
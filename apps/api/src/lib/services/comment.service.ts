@@ -0,0 +1,255 @@
+import { User } from "@prisma/client";
+import { prisma } from "../../prisma";
+import { sendComment } from "../nodemailer/ticket/comment";
+import { sendMentionEmail } from "../nodemailer/ticket/mention";
+import { commentNotification } from "../notifications/issue/comment";
+import { mentionNotification } from "../notifications/issue/mention";
+import { AutomationService } from "./automation.service";
+import { SlaService } from "./sla.service";
+
+export class CommentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommentError";
+  }
+}
+
+export class CommentService {
+  /**
+   * Add an agent's comment to a ticket. A public comment stops the first
+   * response clock and is emailed to the requester, copying the ticket's CC
+   * list, in the ticket's thread.
+   * Returns the comment and whether it was emailed.
+   */
+  static async post(
+    ticketId: string,
+    user: User,
+    text: string,
+    isPublic: boolean
+  ) {
+    const comment = await prisma.comment.create({
+      data: {
+        text: text,
+        public: isPublic,
+        ticketId: ticketId,
+        userId: user.id,
+      },
+    });
+
+    // A public reply from an agent stops the first response clock
+    if (isPublic) {
+      await SlaService.respond(ticketId);
+    }
+
+    // Fetch ticket with threading fields
+    const ticket = await prisma.ticket.findUnique({
+      where: {
+        id: ticketId,
+      },
+      select: {
+        id: true,
+        Number: true,
+        email: true,
+        title: true,
+        externalIds: true,
+        cc: true,
+        following: true,
+        createdBy: true,
+      },
+    });
+
+    const { email, title, externalIds, cc } = ticket || {};
+
+    let emailed = false;
+
+    if (ticket && isPublic && email) {
+      // Get the last Message-ID for In-Reply-To header
+      const lastMessageId =
+        externalIds && externalIds.length > 0
+          ? externalIds[externalIds.length - 1]
+          : undefined;
+
+      // Send comment email with threading headers
+      const sentMessageId = await sendComment({
+        comment: text,
+        title: title || "",
+        ticketId: ticket.id,
+        email: email,
+        cc: cc,
+        originalSubject: title,
+        inReplyTo: lastMessageId,
+        references: externalIds || [],
+      });
+
+      // Store the outbound message ID for future thread matching
+      if (sentMessageId) {
+        emailed = true;
+
+        await prisma.comment.update({
+          where: { id: comment.id },
+          data: { emailed: true },
+        });
+
+        await prisma.ticket.update({
+          where: { id: ticket.id },
+          data: {
+            externalIds: {
+              push: sentMessageId,
+            },
+          },
+        });
+      }
+    }
+
+    await commentNotification(ticket, user);
+
+    // Mentions belong to internal notes, a public reply is not a way to
+    // page a colleague
+    if (ticket && !isPublic) {
+      await this.notifyMentions(ticket, user, text);
+    }
+
+    await AutomationService.run("ticket_commented", ticketId, {
+      comment: { text, public: isPublic },
+    });
+
+    return { comment, emailed };
+  }
+
+  /**
+   * Replace the text of an agent's comment, keeping the old text as a
+   * revision. Editing does not send the comment again, so a public
+   * comment that was emailed keeps its original wording in the
+   * requester's inbox.
+   */
+  static async edit(id: string, text: string, user: User) {
+    const comment = await prisma.comment.findUnique({
+      where: { id },
+      include: { ticket: { select: { locked: true } } },
+    });
+
+    if (!comment) {
+      throw new CommentError("Comment not found");
+    }
+
+    if (!comment.userId) {
+      throw new CommentError("Replies from the requester can not be edited");
+    }
+
+    if (comment.ticket.locked) {
+      throw new CommentError("This ticket is locked");
+    }
+
+    if (!text?.trim()) {
+      throw new CommentError("A comment can not be empty");
+    }
+
+    if (text === comment.text) {
+      return comment;
+    }
+
+    const [, updated] = await prisma.$transaction([
+      prisma.commentRevision.create({
+        data: { commentId: id, text: comment.text, userId: user.id },
+      }),
+      prisma.comment.update({
+        where: { id },
+        data: {
+          text,
+          previous: comment.text,
+          edited: true,
+          editedAt: new Date(),
+        },
+      }),
+    ]);
+
+    return updated;
+  }
+
+  /**
+   * Every version of a comment, oldest first and ending with the current
+   * text. Each version after the first names who edited it in and when.
+   */
+  static async history(id: string) {
+    const comment = await prisma.comment.findUnique({
+      where: { id },
+      include: {
+        user: { select: { id: true, name: true } },
+        revisions: {
+          orderBy: { createdAt: "asc" },
+          include: { user: { select: { id: true, name: true } } },
+        },
+      },
+    });
+
+    if (!comment) {
+      throw new CommentError("Comment not found");
+    }
+
+    // A revision holds the text an edit replaced, so the author of each
+    // version is the one who made the edit before it
+    const texts = [...comment.revisions.map((r) => r.text), comment.text];
+
+    return texts.map((text, index) => {
+      const edit = index > 0 ? comment.revisions[index - 1] : null;
+
+      return {
+        text,
+        createdAt: edit ? edit.createdAt : comment.createdAt,
+        user: edit ? edit.user : comment.user,
+      };
+    });
+  }
+
+  /**
+   * The agents mentioned as `@Name` in a comment. Names may contain spaces,
+   * so the longest names are matched first and "@Sam Lee" does not also
+   * mention Sam.
+   */
+  static async mentions(text: string) {
+    if (!text.includes("@")) return [];
+
+    const users = await prisma.user.findMany({
+      where: { external_user: false },
+    });
+
+    const mentioned: typeof users = [];
+    let rest = text;
+
+    for (const user of users.sort((a, b) => b.name.length - a.name.length)) {
+      const name = user.name.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      const pattern = new RegExp(`(^|[^\\w@])@${name}(?![\\w])`, "gi");
+
+      if (name && pattern.test(rest)) {
+        mentioned.push(user);
+        rest = rest.replace(pattern, "$1");
+      }
+    }
+
+    return mentioned;
+  }
+
+  // Mentioned agents hear about the comment even when they don't follow
+  // the ticket
+  private static async notifyMentions(
+    ticket: { id: string; Number: number; title: string },
+    user: User,
+    text: string
+  ) {
+    const mentioned = (await this.mentions(text)).filter(
+      (u) => u.id !== user.id
+    );
+
+    if (mentioned.length === 0) return;
+
+    await mentionNotification(
+      ticket,
+      user,
+      mentioned.map((u) => u.id)
+    );
+
+    for (const u of mentioned) {
+      await sendMentionEmail(u.email, ticket, user, text);
+    }
+  }
+}
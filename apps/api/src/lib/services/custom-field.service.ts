@@ -0,0 +1,207 @@
+import {
+  CustomField,
+  CustomFieldType,
+  Prisma,
+  TicketType,
+} from "@prisma/client";
+import { prisma } from "../../prisma";
+
+export class CustomFieldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CustomFieldError";
+  }
+}
+
+export type CustomFieldValues = Record<string, Prisma.JsonValue>;
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isEmpty(value: unknown) {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Field keys are derived from the name when not given, "Asset tag" becomes
+ * "asset_tag".
+ */
+export function fieldKey(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "");
+}
+
+export class CustomFieldService {
+  /**
+   * Validate the body of a create or update request.
+   */
+  static validate(body: any) {
+    const { name, key, type, options, ticketTypes } = body;
+
+    if (name !== undefined && !String(name).trim()) {
+      throw new CustomFieldError("Name is required");
+    }
+
+    if (key !== undefined && !KEY_PATTERN.test(key)) {
+      throw new CustomFieldError(
+        "Key must start with a letter and contain only lowercase letters, numbers and underscores"
+      );
+    }
+
+    if (type !== undefined && !Object.values(CustomFieldType).includes(type)) {
+      throw new CustomFieldError(`Unknown field type ${type}`);
+    }
+
+    if (type === "select" || type === "multi_select") {
+      if (!Array.isArray(options) || options.length === 0) {
+        throw new CustomFieldError("Select fields need at least one option");
+      }
+
+      if (new Set(options).size !== options.length) {
+        throw new CustomFieldError("Options must be unique");
+      }
+    }
+
+    const invalidType = (ticketTypes || []).find(
+      (t: string) => !Object.values(TicketType).includes(t as TicketType)
+    );
+
+    if (invalidType) {
+      throw new CustomFieldError(`Unknown ticket type ${invalidType}`);
+    }
+  }
+
+  /**
+   * Active fields that apply to a ticket type, in display order.
+   */
+  static async forType(type?: TicketType, portal?: boolean) {
+    return prisma.customField.findMany({
+      where: {
+        active: true,
+        portal: portal ? true : undefined,
+        ...(type && {
+          OR: [
+            { ticketTypes: { isEmpty: true } },
+            { ticketTypes: { has: type } },
+          ],
+        }),
+      },
+      orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+    });
+  }
+
+  /**
+   * Validate submitted values against the fields of the ticket's type and
+   * merge them over the existing values. Empty values clear a field.
+   * Required fields must be filled on create, and cannot be cleared on
+   * update. Customers on the portal only see, and need to fill, portal
+   * fields.
+   */
+  static async values(
+    input: unknown,
+    type: TicketType,
+    existing?: Prisma.JsonValue | null,
+    portal = false
+  ): Promise<CustomFieldValues> {
+    if (input !== undefined && input !== null && typeof input !== "object") {
+      throw new CustomFieldError("Custom fields must be an object");
+    }
+
+    const submitted = (input || {}) as Record<string, unknown>;
+    const fields = await this.forType(type);
+    const values: CustomFieldValues = {
+      ...((existing as CustomFieldValues) || {}),
+    };
+
+    for (const [key, value] of Object.entries(submitted)) {
+      const field = fields.find((f) => f.key === key);
+
+      if (!field) {
+        throw new CustomFieldError(`Unknown custom field ${key} for ${type}`);
+      }
+
+      if (isEmpty(value)) {
+        delete values[key];
+      } else {
+        values[key] = await this.value(field, value);
+      }
+    }
+
+    for (const field of fields) {
+      if (portal && !field.portal) continue;
+
+      // On update only fields that were submitted are checked
+      const checked = existing === undefined || field.key in submitted;
+
+      if (field.required && checked && isEmpty(values[field.key])) {
+        throw new CustomFieldError(`${field.name} is required`);
+      }
+    }
+
+    return values;
+  }
+
+  private static async value(field: CustomField, value: unknown) {
+    const invalid = () =>
+      new CustomFieldError(`Invalid value for ${field.name}`);
+
+    switch (field.type) {
+      case "text":
+        if (typeof value !== "string") throw invalid();
+        return value.trim();
+
+      case "number": {
+        const number = typeof value === "string" ? Number(value) : value;
+        if (typeof number !== "number" || !Number.isFinite(number)) {
+          throw invalid();
+        }
+        return number;
+      }
+
+      case "select":
+        if (!field.options.includes(value as string)) throw invalid();
+        return value as string;
+
+      case "multi_select":
+        if (
+          !Array.isArray(value) ||
+          value.some((option) => !field.options.includes(option))
+        ) {
+          throw invalid();
+        }
+        return Array.from(new Set(value as string[]));
+
+      case "date":
+        if (
+          typeof value !== "string" ||
+          !DATE_PATTERN.test(value) ||
+          isNaN(new Date(value).getTime())
+        ) {
+          throw invalid();
+        }
+        return value;
+
+      case "checkbox":
+        if (typeof value !== "boolean") throw invalid();
+        return value;
+
+      case "user": {
+        const user =
+          typeof value === "string"
+            ? await prisma.user.findFirst({
+                where: { id: value, external_user: false },
+              })
+            : null;
+        if (!user) throw invalid();
+        return user.id;
+      }
+    }
+  }
+}
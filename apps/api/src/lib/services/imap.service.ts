@@ -1,13 +1,20 @@
 import EmailReplyParser from "email-reply-parser";
 import Imap from "imap";
-import { simpleParser, ParsedMail, Headers } from "mailparser";
+import { simpleParser, AddressObject, ParsedMail, Headers } from "mailparser";
 import { prisma } from "../../prisma";
 import { EmailConfig, EmailQueue } from "../types/email";
 import { AuthService } from "./auth.service";
+import { AssignmentService } from "./assignment.service";
+import { AutomationService } from "./automation.service";
+import { CcService } from "./cc.service";
+import { MergeService } from "./merge.service";
+import { PriorityService } from "./priority.service";
+import { RelationService } from "./relation.service";
+import { SlaService } from "./sla.service";
+import { StatusService } from "./status.service";
 import { sendWebhookNotification } from "../notifications/webhook";
-import { TicketPriority } from "../types/ticket";
 import pino from "pino";
-import { Ticket, TicketStatus, Webhooks } from "@prisma/client";
+import { Ticket, Webhooks } from "@prisma/client";
 
 // Custom serializer to handle BigInt values in pino
 const logger = pino({
@@ -44,6 +51,20 @@ function normalizeMessageId(messageId: string | undefined | null): string | null
   return messageId.trim().replace(/^<|>$/g, "");
 }
 
+/**
+ * Lowercased addresses of a To or Cc header
+ */
+function headerAddresses(
+  value: AddressObject | AddressObject[] | undefined
+): string[] {
+  if (!value) return [];
+
+  return (Array.isArray(value) ? value : [value])
+    .flatMap((object) => object.value)
+    .map((address) => address.address?.trim().toLowerCase())
+    .filter((address): address is string => !!address);
+}
+
 /**
  * Extract the reply text from an email, stripping quoted content
  */
@@ -222,7 +243,7 @@ export class ImapService {
     );
 
     // Only match against OPEN tickets (not closed/done)
-    const openStatuses: TicketStatus[] = ["needs_support", "in_progress", "hold", "in_review"];
+    const openStatuses = await StatusService.keys(["open", "pending"]);
 
     // Use full-text search for better performance on large tables
     // Prisma fullTextSearch is enabled in schema.prisma previewFeatures
@@ -234,6 +255,7 @@ export class ImapService {
           status: { in: openStatuses },
           isComplete: false,
           locked: false,
+          deletedAt: null,
         },
         orderBy: { createdAt: "desc" },
       });
@@ -258,6 +280,7 @@ export class ImapService {
         status: { in: openStatuses },
         isComplete: false,
         locked: false,
+        deletedAt: null,
       },
       orderBy: { createdAt: "desc" },
     });
@@ -282,22 +305,40 @@ export class ImapService {
   ): Promise<Ticket | null> {
     // Layer 1: Gmail Thread ID (100% accurate for Gmail)
     let ticket = await this.matchByGmailThreadId(headers);
-    if (ticket) return ticket;
 
     // Layer 2: RFC 5322 References/In-Reply-To (High accuracy)
-    ticket = await this.matchByMessageIdChain(headers);
-    if (ticket) return ticket;
+    if (!ticket) {
+      ticket = await this.matchByMessageIdChain(headers);
+    }
 
     // Layer 3: Heuristics - Subject + Sender (Medium accuracy, fallback only)
-    ticket = await this.matchByHeuristics(from, subject);
+    if (!ticket) {
+      ticket = await this.matchByHeuristics(from, subject);
+    }
+
+    // Replies to a merged ticket belong to the ticket it was merged into
+    if (ticket?.mergedIntoId) {
+      const survivor = await MergeService.resolveSurvivor(ticket);
+      logger.info(
+        { mergedTicketId: ticket.id, ticketId: survivor.id },
+        "Matched ticket was merged - using surviving ticket"
+      );
+      return survivor;
+    }
+
     return ticket;
   }
 
   /**
    * Process an incoming email - either append to existing ticket or create new
+   * in the team the receiving queue routes to
    */
-  private static async processEmail(parsed: ParsedMail): Promise<void> {
-    const { from, subject, text, html, textAsHtml, headers, messageId } = parsed;
+  private static async processEmail(
+    parsed: ParsedMail,
+    queue: EmailQueue
+  ): Promise<void> {
+    const { from, to, cc, subject, text, html, textAsHtml, headers, messageId } =
+      parsed;
 
     // Validate sender address
     if (!from?.value?.[0]?.address) {
@@ -316,6 +357,13 @@ export class ImapService {
       return;
     }
 
+    // Everyone else on To/Cc is copied on the ticket, except our own
+    // mailboxes and agents
+    const excluded = await CcService.excluded();
+    const recipients = [...headerAddresses(to), ...headerAddresses(cc)].filter(
+      (address) => !excluded.has(address)
+    );
+
     // Get Gmail Thread ID if available (convert to string to handle BigInt)
     const gmailThreadId = safeHeaderValue(headers.get("x-gm-thrid"));
     const threadId = gmailThreadId || normalizedMessageId;
@@ -333,9 +381,8 @@ export class ImapService {
 
     if (matchedTicket) {
       // Status-aware routing
-      const closedStatuses: TicketStatus[] = ["done"];
-      const shouldCreateNew =
-        closedStatuses.includes(matchedTicket.status) || matchedTicket.locked;
+      // isComplete follows the status category, solved or closed
+      const shouldCreateNew = matchedTicket.isComplete || matchedTicket.locked;
 
       if (shouldCreateNew) {
         logger.info(
@@ -352,7 +399,9 @@ export class ImapService {
           html || textAsHtml || "",
           threadId,
           normalizedMessageId,
-          { previous: matchedTicket.id } // Link to previous ticket
+          matchedTicket.id, // Follow-up of the previous ticket
+          queue,
+          recipients
         );
       } else {
         // Append as comment to existing ticket
@@ -370,6 +419,23 @@ export class ImapService {
           normalizedInReplyTo
         );
 
+        // A colleague of the requester replying joins the CC list too
+        const copied = [
+          ...recipients,
+          ...(excluded.has(senderEmail.toLowerCase())
+            ? []
+            : [senderEmail.toLowerCase()]),
+        ];
+
+        try {
+          await CcService.addFromMail(matchedTicket, copied);
+        } catch (error) {
+          logger.warn(
+            { ticketId: matchedTicket.id, err: error },
+            "Could not update CC recipients"
+          );
+        }
+
         // Update ticket's externalIds to include this message
         if (normalizedMessageId) {
           const updatedExternalIds = [
@@ -393,7 +459,9 @@ export class ImapService {
         html || textAsHtml || "",
         threadId,
         normalizedMessageId,
-        null
+        null,
+        queue,
+        recipients
       );
     }
   }
@@ -409,7 +477,9 @@ export class ImapService {
     htmlContent: string,
     threadId: string | null,
     messageId: string | null,
-    linked: { previous: string } | null
+    previousTicketId: string | null,
+    queue: EmailQueue,
+    recipients: string[]
   ): Promise<void> {
     // Store raw email
     const imapEmail = await prisma.imap_Email.create({
@@ -428,16 +498,35 @@ export class ImapService {
         email: senderEmail,
         name: senderName,
         title: subject,
+        status: (await StatusService.initial()).key,
         isComplete: false,
-        priority: TicketPriority.LOW,
+        priority: (await PriorityService.initial()).key,
         fromImap: true,
         detail: htmlContent || textContent,
         threadId: threadId,
         externalIds: messageId ? [messageId] : [],
-        ...(linked && { linked }),
+        teamId: queue.teamId || null,
+        emailQueueId: queue.id,
       },
     });
 
+    try {
+      await CcService.addFromMail(ticket, recipients);
+    } catch (error) {
+      logger.warn(
+        { ticketId: ticket.id, err: error },
+        "Could not copy CC recipients"
+      );
+    }
+
+    if (previousTicketId) {
+      await RelationService.link(ticket.id, previousTicketId, "follow_up_of");
+    }
+
+    await SlaService.apply(ticket.id);
+    await AutomationService.run("ticket_created", ticket.id);
+    await AssignmentService.assign(ticket.id);
+
     logger.info(
       { ticketId: ticket.id, threadId },
       "Created new ticket from email"
@@ -458,7 +547,7 @@ export class ImapService {
           htmlContent: htmlContent,
           email: senderEmail,
           name: senderName,
-          priority: TicketPriority.LOW,
+          priority: ticket.priority,
           fromImap: true,
           isCustomer: true,
           threadId: threadId,
@@ -503,6 +592,10 @@ export class ImapService {
       "Added comment to ticket"
     );
 
+    await AutomationService.run("ticket_commented", ticket.id, {
+      comment: { text: comment.text, public: true },
+    });
+
     // Trigger customer_reply_received webhook
     const replyWebhooks = await prisma.webhooks.findMany({
       where: { type: "customer_reply_received", active: true },
@@ -572,7 +665,7 @@ export class ImapService {
                   msg.on("body", (stream) => {
                     simpleParser(stream, async (err, parsed) => {
                       if (err) throw err;
-                      await this.processEmail(parsed);
+                      await this.processEmail(parsed, queue);
                     });
                   });
 
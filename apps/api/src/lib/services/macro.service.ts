@@ -0,0 +1,305 @@
+import { Macro, Ticket, User } from "@prisma/client";
+import handlebars from "handlebars";
+import { prisma } from "../../prisma";
+import { sendAssignedEmail } from "../nodemailer/ticket/assigned";
+import { assignedNotification } from "../notifications/issue/assigned";
+import { statusUpdateNotification } from "../notifications/issue/status";
+import { ActivityService } from "./activity.service";
+import { AutomationService } from "./automation.service";
+import { CommentService } from "./comment.service";
+import { PriorityService } from "./priority.service";
+import { SlaService } from "./sla.service";
+import { StatusError, StatusService } from "./status.service";
+
+export class MacroError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MacroError";
+  }
+}
+
+// How long after applying a macro it can still be undone
+const UNDO_MINUTES = 10;
+
+type Previous = {
+  status: string;
+  priority: string;
+  userId: string | null;
+};
+
+export class MacroService {
+  /**
+   * Validate the body of a create or update request.
+   */
+  static async validate(body: any) {
+    const { name, body: template, status, priority, assignee } = body || {};
+
+    if (!name || !String(name).trim()) {
+      throw new MacroError("Name is required");
+    }
+
+    if (!template?.trim() && !status && !priority && !assignee) {
+      throw new MacroError("A macro needs a reply or something to change");
+    }
+
+    if (template) {
+      try {
+        handlebars.precompile(String(template));
+      } catch (error: any) {
+        throw new MacroError(`The reply template is invalid: ${error.message}`);
+      }
+    }
+
+    if (status) await StatusService.get(status);
+    if (priority) await PriorityService.resolve(priority);
+
+    if (assignee && assignee !== "me" && assignee !== "unassigned") {
+      const user = await prisma.user.findUnique({ where: { id: assignee } });
+
+      if (!user) {
+        throw new MacroError("Assignee not found");
+      }
+    }
+  }
+
+  /**
+   * Shared macros and the agent's own ones.
+   */
+  static visible(userId: string) {
+    return prisma.macro.findMany({
+      where: { OR: [{ shared: true }, { userId }] },
+      orderBy: { name: "asc" },
+    });
+  }
+
+  /**
+   * The reply of a macro for a ticket. The template sees the same names as
+   * automation emails, plus the agent applying it.
+   */
+  static async render(macro: Macro, ticket: Ticket, agent: User) {
+    const [status, priority] = await Promise.all([
+      prisma.status.findUnique({ where: { key: ticket.status } }),
+      PriorityService.get(ticket.priority),
+    ]);
+
+    return handlebars.compile(macro.body, { noEscape: true })({
+      id: ticket.id,
+      number: ticket.Number,
+      title: ticket.title,
+      name: ticket.name,
+      email: ticket.email,
+      status: status?.name || ticket.status,
+      priority: priority?.name || ticket.priority,
+      type: ticket.type,
+      agentName: agent.name,
+      agentEmail: agent.email,
+    });
+  }
+
+  /**
+   * Apply a macro to a ticket as one action: change the fields it sets,
+   * then post the reply. `text` is the reply as the agent edited it, the
+   * rendered template when not given. A refused status change stops the
+   * macro before anything happened, any later failure leaves a run that
+   * undoes what was done so far.
+   */
+  static async apply(
+    macro: Macro,
+    ticket: Ticket,
+    user: User,
+    text?: string
+  ) {
+    if (ticket.locked) {
+      throw new MacroError("This ticket is locked");
+    }
+
+    const previous: Previous = {
+      status: ticket.status,
+      priority: ticket.priority,
+      userId: ticket.userId,
+    };
+
+    // The run is recorded first so whatever the macro manages to change can
+    // be undone, even when a later step fails
+    let run = await prisma.macroRun.create({
+      data: {
+        macroId: macro.id,
+        ticketId: ticket.id,
+        userId: user.id,
+        previous,
+      },
+    });
+
+    let changed = false;
+    let posted: Awaited<ReturnType<typeof CommentService.post>> | null = null;
+
+    try {
+      if (macro.status && macro.status !== ticket.status) {
+        ticket = await StatusService.change(ticket, macro.status, user);
+        await statusUpdateNotification(ticket, user, macro.status);
+        changed = true;
+      }
+
+      if (macro.priority && macro.priority !== ticket.priority) {
+        ticket = await this.setPriority(ticket, macro.priority, user);
+        changed = true;
+      }
+
+      if (macro.assignee) {
+        const userId =
+          macro.assignee === "me"
+            ? user.id
+            : macro.assignee === "unassigned"
+            ? null
+            : macro.assignee;
+
+        if (userId !== ticket.userId) {
+          ticket = await this.assign(ticket, userId, user);
+          changed = true;
+        }
+      }
+
+      const reply = text ?? (await this.render(macro, ticket, user));
+
+      if (reply.trim()) {
+        posted = await CommentService.post(
+          ticket.id,
+          user,
+          reply,
+          macro.public
+        );
+
+        run = await prisma.macroRun.update({
+          where: { id: run.id },
+          data: { commentId: posted.comment.id },
+        });
+      }
+    } catch (error) {
+      // A refused status change stops the macro before any write, there is
+      // nothing to undo
+      if (error instanceof StatusError && !changed) {
+        await prisma.macroRun.delete({ where: { id: run.id } });
+      }
+
+      throw error;
+    }
+
+    if (changed) {
+      await AutomationService.run("ticket_updated", ticket.id, {
+        previous: { ...ticket, ...previous },
+      });
+    }
+
+    return { run, emailed: posted?.emailed ?? false };
+  }
+
+  /**
+   * Undo a macro the agent applied in the last few minutes: remove its
+   * reply and put back the fields it changed. An emailed reply can not be
+   * taken back from the requester's inbox.
+   */
+  static async undo(runId: string, user: User) {
+    const run = await prisma.macroRun.findUnique({ where: { id: runId } });
+
+    if (!run || run.userId !== user.id) {
+      throw new MacroError("Nothing to undo");
+    }
+
+    if (run.undoneAt) {
+      throw new MacroError("This macro has already been undone");
+    }
+
+    if (Date.now() - run.createdAt.getTime() > UNDO_MINUTES * 60 * 1000) {
+      throw new MacroError(
+        `Macros can only be undone within ${UNDO_MINUTES} minutes`
+      );
+    }
+
+    const previous = run.previous as Previous;
+
+    let ticket = await prisma.ticket.findUniqueOrThrow({
+      where: { id: run.ticketId },
+    });
+
+    const before = ticket;
+
+    if (ticket.status !== previous.status) {
+      ticket = await StatusService.change(ticket, previous.status, user, true);
+    }
+
+    if (ticket.priority !== previous.priority) {
+      ticket = await this.setPriority(ticket, previous.priority, user);
+    }
+
+    if (ticket.userId !== previous.userId) {
+      ticket = await this.assign(ticket, previous.userId, user);
+    }
+
+    const comment = run.commentId
+      ? await prisma.comment.findUnique({ where: { id: run.commentId } })
+      : null;
+
+    if (comment) {
+      await prisma.comment.delete({ where: { id: comment.id } });
+    }
+
+    await prisma.macroRun.update({
+      where: { id: run.id },
+      data: { undoneAt: new Date() },
+    });
+
+    await AutomationService.run("ticket_updated", ticket.id, {
+      previous: before,
+    });
+
+    return { emailed: !!comment?.public && !!ticket.email };
+  }
+
+  private static async setPriority(ticket: Ticket, key: string, user: User) {
+    const updated = await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: { priority: key },
+    });
+
+    await ActivityService.record(ticket.id, user, [
+      { field: "priority", from: ticket.priority, to: key },
+    ]);
+
+    await SlaService.apply(ticket.id);
+
+    return updated;
+  }
+
+  private static async assign(
+    ticket: Ticket,
+    userId: string | null,
+    actor: User
+  ) {
+    const [previous, assignee] = await Promise.all([
+      ticket.userId
+        ? prisma.user.findUnique({ where: { id: ticket.userId } })
+        : null,
+      userId ? prisma.user.findUnique({ where: { id: userId } }) : null,
+    ]);
+
+    if (userId && !assignee) {
+      throw new MacroError("Assignee not found");
+    }
+
+    const updated = await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: { userId },
+    });
+
+    await ActivityService.record(ticket.id, actor, [
+      { field: "assignee", from: previous?.name, to: assignee?.name ?? null },
+    ]);
+
+    if (assignee && assignee.id !== actor.id) {
+      await sendAssignedEmail(assignee.email);
+      await assignedNotification(assignee, updated, actor);
+    }
+
+    return updated;
+  }
+}
@@ -0,0 +1,140 @@
+import { Ticket } from "@prisma/client";
+import { prisma } from "../../prisma";
+import { StatusService } from "./status.service";
+
+export class MergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MergeError";
+  }
+}
+
+export class MergeService {
+  /**
+   * Fold one or more source tickets into a target ticket.
+   *
+   * Comments, files, time entries, followers and email Message-IDs move to the
+   * target so later replies thread to the survivor. The sources are closed,
+   * locked and keep a pointer to the target in `mergedIntoId`.
+   */
+  static async merge(
+    targetId: string,
+    sourceIds: string[],
+    mergedBy: { id: string; name: string }
+  ): Promise<Ticket> {
+    const ids = [...new Set(sourceIds)].filter((id) => id !== targetId);
+
+    if (ids.length === 0) {
+      throw new MergeError("No tickets to merge");
+    }
+
+    const target = await prisma.ticket.findUnique({
+      where: { id: targetId },
+    });
+
+    if (!target || target.deletedAt) {
+      throw new MergeError("Target ticket not found");
+    }
+
+    if (target.mergedIntoId) {
+      throw new MergeError("Target ticket has already been merged");
+    }
+
+    const sources = await prisma.ticket.findMany({
+      where: { id: { in: ids }, deletedAt: null },
+    });
+
+    if (sources.length !== ids.length) {
+      throw new MergeError("One or more tickets could not be found");
+    }
+
+    if (sources.some((ticket) => ticket.mergedIntoId)) {
+      throw new MergeError("One or more tickets have already been merged");
+    }
+
+    const externalIds = [
+      ...new Set([
+        ...target.externalIds,
+        ...sources.flatMap((ticket) => ticket.externalIds),
+      ]),
+    ];
+
+    const following = [
+      ...new Set([
+        ...((target.following as string[]) || []),
+        ...sources.flatMap((ticket) => (ticket.following as string[]) || []),
+      ]),
+    ];
+
+    // Merged tickets go to a closed status, or a solved one without it
+    const closed = await StatusService.first(["closed", "solved"]);
+
+    const [, , , , , survivor] = await prisma.$transaction([
+      prisma.comment.updateMany({
+        where: { ticketId: { in: ids } },
+        data: { ticketId: target.id },
+      }),
+      prisma.ticketFile.updateMany({
+        where: { ticketId: { in: ids } },
+        data: { ticketId: target.id },
+      }),
+      prisma.timeTracking.updateMany({
+        where: { ticketId: { in: ids } },
+        data: { ticketId: target.id },
+      }),
+      prisma.ticket.updateMany({
+        where: { id: { in: ids } },
+        data: {
+          mergedIntoId: target.id,
+          externalIds: [],
+          isComplete: true,
+          status: closed.key,
+          locked: true,
+          // A snooze would otherwise wake and reopen the merged ticket
+          snoozedUntil: null,
+          snoozeNote: null,
+        },
+      }),
+      prisma.comment.create({
+        data: {
+          text: `Merged ${sources
+            .map((ticket) => `#${ticket.Number}`)
+            .join(", ")} into this issue`,
+          public: false,
+          ticketId: target.id,
+          userId: mergedBy.id,
+        },
+      }),
+      prisma.ticket.update({
+        where: { id: target.id },
+        data: {
+          externalIds,
+          following,
+        },
+      }),
+    ]);
+
+    return survivor;
+  }
+
+  /**
+   * Follow the `mergedIntoId` chain until the surviving ticket is reached.
+   */
+  static async resolveSurvivor(ticket: Ticket): Promise<Ticket> {
+    let current = ticket;
+    const seen = new Set<string>([current.id]);
+
+    while (current.mergedIntoId && !seen.has(current.mergedIntoId)) {
+      const next = await prisma.ticket.findUnique({
+        where: { id: current.mergedIntoId },
+      });
+
+      if (!next) break;
+
+      seen.add(next.id);
+      current = next;
+    }
+
+    return current;
+  }
+}
@@ -0,0 +1,85 @@
+import { prisma } from "../../prisma";
+
+export class PriorityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PriorityError";
+  }
+}
+
+export class PriorityService {
+  /**
+   * Validate the body of a create or update request.
+   */
+  static validate(body: any) {
+    const { name, key, rank, color } = body;
+
+    if (name !== undefined && !String(name).trim()) {
+      throw new PriorityError("Name is required");
+    }
+
+    if (key !== undefined && !/^[a-z][a-z0-9_]*$/.test(key)) {
+      throw new PriorityError(
+        "Key must start with a letter and contain only lowercase letters, numbers and underscores"
+      );
+    }
+
+    if (rank !== undefined && !Number.isInteger(Number(rank))) {
+      throw new PriorityError("Rank must be a whole number");
+    }
+
+    if (color !== undefined && !/^#[0-9a-fA-F]{6}$/.test(color)) {
+      throw new PriorityError("Color must be a hex color like #ef4444");
+    }
+  }
+
+  /**
+   * Every priority, most urgent first.
+   */
+  static all() {
+    return prisma.priority.findMany({
+      orderBy: [{ rank: "desc" }, { createdAt: "asc" }],
+    });
+  }
+
+  static get(key: string) {
+    return prisma.priority.findUnique({ where: { key: key.toLowerCase() } });
+  }
+
+  /**
+   * The priority of tickets created without one.
+   */
+  static async initial() {
+    const priorities = await this.all();
+
+    const priority =
+      priorities.find((p) => p.isDefault) || priorities[priorities.length - 1];
+
+    if (!priority) {
+      throw new PriorityError("No priority is configured");
+    }
+
+    return priority;
+  }
+
+  /**
+   * The key of the priority a request asked for, by key or by name in any
+   * case. Nothing given means the default priority.
+   */
+  static async resolve(value?: string | null) {
+    if (value === undefined || value === null || !String(value).trim()) {
+      return (await this.initial()).key;
+    }
+
+    const wanted = String(value).trim().toLowerCase();
+    const priority = (await this.all()).find(
+      (p) => p.key === wanted || p.name.toLowerCase() === wanted
+    );
+
+    if (!priority) {
+      throw new PriorityError(`Unknown priority ${value}`);
+    }
+
+    return priority.key;
+  }
+}
@@ -0,0 +1,340 @@
+import { RecurringTicket, TicketType } from "@prisma/client";
+import handlebars from "handlebars";
+import { prisma } from "../../prisma";
+import { sendAssignedEmail } from "../nodemailer/ticket/assigned";
+import { assignedNotification } from "../notifications/issue/assigned";
+import { occurrences, validateRule } from "../recurrence";
+import { AssignmentService } from "./assignment.service";
+import { AutomationService } from "./automation.service";
+import { PriorityService } from "./priority.service";
+import { SlaService } from "./sla.service";
+import { StatusService } from "./status.service";
+
+export class RecurringError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurringError";
+  }
+}
+
+const RECURRING_ACTOR = { id: null, name: "Recurring tickets" };
+
+// Upcoming dates shown by default and at most
+const PREVIEW_LIMIT = 10;
+const MAX_PREVIEW = 50;
+
+// Passed dates looked at per step when catching up after downtime
+const CATCH_UP_BATCH = 100;
+
+type Schedule = Pick<
+  RecurringTicket,
+  "rrule" | "timezone" | "startsAt" | "paused" | "skips"
+>;
+
+function dateOf(date: Date, timezone: string) {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Plain text of the template as HTML paragraphs, the editor converts HTML
+ * details the way it does for tickets raised from email.
+ */
+function toHtml(text: string) {
+  return text
+    .split(/\n{2,}/)
+    .map(
+      (paragraph) =>
+        `<p>${handlebars
+          .escapeExpression(paragraph)
+          .replace(/\n/g, "<br>")}</p>`
+    )
+    .join("");
+}
+
+export class RecurringService {
+  /**
+   * Validate the body of a create or update request and return the fields
+   * to store.
+   */
+  static async validate(body: any) {
+    const {
+      name,
+      title,
+      detail,
+      type,
+      priority,
+      userId,
+      teamId,
+      rrule,
+      timezone,
+      startsAt,
+    } = body || {};
+
+    if (!name || !String(name).trim()) {
+      throw new RecurringError("Name is required");
+    }
+
+    if (!title || !String(title).trim()) {
+      throw new RecurringError("Title is required");
+    }
+
+    try {
+      handlebars.precompile(String(title));
+    } catch (error: any) {
+      throw new RecurringError(`The title is invalid: ${error.message}`);
+    }
+
+    if (type && !Object.values(TicketType).includes(type)) {
+      throw new RecurringError(`Unknown ticket type ${type}`);
+    }
+
+    const error = validateRule(rrule, timezone || "UTC");
+    if (error) throw new RecurringError(error);
+
+    const start = new Date(startsAt);
+
+    if (!startsAt || isNaN(start.getTime())) {
+      throw new RecurringError("Choose when the schedule starts");
+    }
+
+    if (userId) {
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user) throw new RecurringError("Assignee not found");
+    }
+
+    if (teamId) {
+      const team = await prisma.team.findUnique({ where: { id: teamId } });
+      if (!team) throw new RecurringError("Team not found");
+    }
+
+    return {
+      name: String(name).trim(),
+      title: String(title).trim(),
+      detail: detail ? String(detail) : null,
+      type: (type || "maintenance") as TicketType,
+      priority: await PriorityService.resolve(priority),
+      userId: userId || null,
+      teamId: teamId || null,
+      rrule: String(rrule).trim().replace(/^RRULE:/i, ""),
+      timezone: timezone || "UTC",
+      startsAt: start,
+    };
+  }
+
+  /**
+   * When a schedule raises its next ticket after `after`, null while it is
+   * paused or once its rule ends.
+   */
+  static next(schedule: Schedule, after = new Date()) {
+    if (schedule.paused) return null;
+
+    const [next] = occurrences(
+      schedule.rrule,
+      schedule.timezone,
+      schedule.startsAt,
+      after,
+      1
+    );
+
+    return next ?? null;
+  }
+
+  /**
+   * Upcoming dates of a schedule, skipped ones included and marked.
+   */
+  static upcoming(schedule: Schedule, limit: unknown = PREVIEW_LIMIT) {
+    const count = Math.min(
+      Math.max(Number(limit) || PREVIEW_LIMIT, 1),
+      MAX_PREVIEW
+    );
+
+    return occurrences(
+      schedule.rrule,
+      schedule.timezone,
+      schedule.startsAt,
+      new Date(),
+      count
+    ).map((date) => ({
+      date,
+      skipped: schedule.skips.some((skip) => skip.getTime() === date.getTime()),
+    }));
+  }
+
+  /**
+   * Skip an upcoming date, or raise its ticket after all when it is
+   * already skipped.
+   */
+  static async skip(schedule: RecurringTicket, occurrence: unknown) {
+    const date = new Date(String(occurrence));
+
+    const [match] = isNaN(date.getTime())
+      ? []
+      : occurrences(
+          schedule.rrule,
+          schedule.timezone,
+          schedule.startsAt,
+          new Date(date.getTime() - 1),
+          1
+        );
+
+    if (!match || match.getTime() !== date.getTime()) {
+      throw new RecurringError("This date is not in the schedule");
+    }
+
+    if (date.getTime() <= Date.now()) {
+      throw new RecurringError("Only upcoming dates can be skipped");
+    }
+
+    const skipped = schedule.skips.some((s) => s.getTime() === date.getTime());
+
+    return prisma.recurringTicket.update({
+      where: { id: schedule.id },
+      data: {
+        skips: skipped
+          ? schedule.skips.filter((s) => s.getTime() !== date.getTime())
+          : [...schedule.skips, date],
+      },
+    });
+  }
+
+  /**
+   * Pause or resume a schedule. Dates that pass while paused are not
+   * raised afterwards.
+   */
+  static pause(schedule: RecurringTicket, paused: boolean) {
+    return prisma.recurringTicket.update({
+      where: { id: schedule.id },
+      data: {
+        paused,
+        nextRunAt: this.next({ ...schedule, paused }),
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Raise the ticket of one date of a schedule.
+   */
+  static async raise(schedule: RecurringTicket, occurrence: Date) {
+    const title = handlebars.compile(schedule.title, { noEscape: true })({
+      date: dateOf(occurrence, schedule.timezone),
+      name: schedule.name,
+    });
+
+    const [initial, priority] = await Promise.all([
+      StatusService.initial(),
+      PriorityService.resolve(schedule.priority),
+    ]);
+
+    const ticket = await prisma.ticket.create({
+      data: {
+        title,
+        detail: schedule.detail ? toHtml(schedule.detail) : null,
+        type: schedule.type,
+        priority,
+        status: initial.key,
+        isComplete: false,
+        fromImap: false,
+        userId: schedule.userId,
+        teamId: schedule.teamId,
+      },
+      include: { assignedTo: true },
+    });
+
+    await SlaService.apply(ticket.id);
+
+    await AutomationService.run("ticket_created", ticket.id);
+
+    await AssignmentService.assign(ticket.id);
+
+    if (ticket.assignedTo) {
+      await sendAssignedEmail(ticket.assignedTo.email);
+      await assignedNotification(ticket.assignedTo, ticket, RECURRING_ACTOR);
+    }
+
+    return ticket;
+  }
+
+  /**
+   * The last date of a due schedule that has passed. After downtime the
+   * dates in between are dropped and only this one is raised.
+   */
+  private static latestDue(schedule: RecurringTicket, now: Date) {
+    let latest = schedule.nextRunAt!;
+
+    for (;;) {
+      const passed = occurrences(
+        schedule.rrule,
+        schedule.timezone,
+        schedule.startsAt,
+        latest,
+        CATCH_UP_BATCH
+      ).filter((date) => date <= now);
+
+      if (passed.length > 0) latest = passed[passed.length - 1];
+      if (passed.length < CATCH_UP_BATCH) return latest;
+    }
+  }
+
+  /**
+   * Raise the tickets of every schedule that is due, called on an interval
+   * from main.ts. A schedule only catches up on its latest missed date.
+   */
+  static async check() {
+    const now = new Date();
+
+    const due = await prisma.recurringTicket.findMany({
+      where: { paused: false, nextRunAt: { lte: now } },
+    });
+
+    for (const schedule of due) {
+      const occurrence = this.latestDue(schedule, now);
+
+      // Claim the date first so a slow run is not raised twice
+      const { count } = await prisma.recurringTicket.updateMany({
+        where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+        data: {
+          nextRunAt: this.next(schedule, now),
+          skips: schedule.skips.filter((s) => s.getTime() > now.getTime()),
+        },
+      });
+
+      if (count === 0) continue;
+
+      const skipped = schedule.skips.some(
+        (s) => s.getTime() === occurrence.getTime()
+      );
+
+      try {
+        const ticket = skipped ? null : await this.raise(schedule, occurrence);
+
+        await prisma.recurringTicketRun.create({
+          data: {
+            recurringId: schedule.id,
+            occurrence,
+            skipped,
+            ticketId: ticket?.id,
+          },
+        });
+      } catch (error: any) {
+        console.error(`Failed to raise recurring ticket ${schedule.id}`, error);
+
+        await prisma.recurringTicketRun.create({
+          data: {
+            recurringId: schedule.id,
+            occurrence,
+            error: error?.message || "Unknown error",
+          },
+        });
+      }
+    }
+
+    return due.length;
+  }
+}
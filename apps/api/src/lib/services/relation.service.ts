@@ -0,0 +1,188 @@
+import { TicketRelationType } from "@prisma/client";
+import { prisma } from "../../prisma";
+
+/**
+ * Relation types as seen from either side of a stored relation.
+ * `blocked_by` is not stored, it is the inverse of `blocks`.
+ */
+export type RelationType = TicketRelationType | "blocked_by";
+
+const INVERSE_LABELS: Record<TicketRelationType, string> = {
+  duplicates: "duplicated_by",
+  blocks: "blocked_by",
+  relates_to: "relates_to",
+  caused_by: "causes",
+  follow_up_of: "followed_up_by",
+};
+
+export const RELATION_TYPES: RelationType[] = [
+  "duplicates",
+  "blocks",
+  "blocked_by",
+  "relates_to",
+  "caused_by",
+  "follow_up_of",
+];
+
+export class RelationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RelationError";
+  }
+}
+
+const ticketSelect = {
+  id: true,
+  Number: true,
+  title: true,
+  status: true,
+  isComplete: true,
+};
+
+export class RelationService {
+  /**
+   * Normalise a relation so that only canonical types are stored.
+   * "A blocked_by B" is stored as "B blocks A".
+   */
+  private static normalise(
+    ticketId: string,
+    relatedTicketId: string,
+    type: RelationType
+  ) {
+    if (type === "blocked_by") {
+      return {
+        ticketId: relatedTicketId,
+        relatedTicketId: ticketId,
+        type: "blocks" as TicketRelationType,
+      };
+    }
+
+    return { ticketId, relatedTicketId, type };
+  }
+
+  static async link(
+    ticketId: string,
+    relatedTicketId: string,
+    type: RelationType,
+    createdBy?: string | null
+  ) {
+    if (!RELATION_TYPES.includes(type)) {
+      throw new RelationError(`Unknown relation type: ${type}`);
+    }
+
+    if (ticketId === relatedTicketId) {
+      throw new RelationError("A ticket cannot be related to itself");
+    }
+
+    const count = await prisma.ticket.count({
+      where: { id: { in: [ticketId, relatedTicketId] }, deletedAt: null },
+    });
+
+    if (count !== 2) {
+      throw new RelationError("Ticket not found");
+    }
+
+    const data = this.normalise(ticketId, relatedTicketId, type);
+
+    const existing = await prisma.ticketRelation.findFirst({
+      where: data,
+    });
+
+    if (existing) {
+      throw new RelationError("These tickets are already related");
+    }
+
+    return prisma.ticketRelation.create({
+      data: {
+        ...data,
+        createdBy: createdBy || null,
+      },
+    });
+  }
+
+  static async update(id: string, ticketId: string, type: RelationType) {
+    if (!RELATION_TYPES.includes(type)) {
+      throw new RelationError(`Unknown relation type: ${type}`);
+    }
+
+    const relation = await prisma.ticketRelation.findUnique({
+      where: { id },
+    });
+
+    // The ticket it is edited from must be one of its sides
+    if (
+      !relation ||
+      (relation.ticketId !== ticketId && relation.relatedTicketId !== ticketId)
+    ) {
+      throw new RelationError("Relation not found");
+    }
+
+    // Re-read the relation from the side of the ticket it is edited from
+    const otherId =
+      relation.ticketId === ticketId
+        ? relation.relatedTicketId
+        : relation.ticketId;
+
+    const data = this.normalise(ticketId, otherId, type);
+
+    const existing = await prisma.ticketRelation.findFirst({
+      where: { ...data, id: { not: id } },
+    });
+
+    if (existing) {
+      throw new RelationError("These tickets are already related");
+    }
+
+    return prisma.ticketRelation.update({
+      where: { id },
+      data,
+    });
+  }
+
+  static async unlink(id: string) {
+    const relation = await prisma.ticketRelation.findUnique({
+      where: { id: String(id) },
+    });
+
+    if (!relation) {
+      throw new RelationError("Relation not found");
+    }
+
+    return prisma.ticketRelation.delete({
+      where: { id: relation.id },
+    });
+  }
+
+  /**
+   * All relations of a ticket, labelled from that ticket's point of view.
+   */
+  static async list(ticketId: string) {
+    const [outgoing, incoming] = await Promise.all([
+      prisma.ticketRelation.findMany({
+        where: { ticketId },
+        include: { relatedTicket: { select: ticketSelect } },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.ticketRelation.findMany({
+        where: { relatedTicketId: ticketId },
+        include: { ticket: { select: ticketSelect } },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    return [
+      ...outgoing.map((relation) => ({
+        id: relation.id,
+        type: relation.type as string,
+        createdAt: relation.createdAt,
+        ticket: relation.relatedTicket,
+      })),
+      ...incoming.map((relation) => ({
+        id: relation.id,
+        type: INVERSE_LABELS[relation.type],
+        createdAt: relation.createdAt,
+        ticket: relation.ticket,
+      })),
+    ];
+  }
+}
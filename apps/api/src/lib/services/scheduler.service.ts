@@ -0,0 +1,119 @@
+import { prisma } from "../../prisma";
+
+type Job = {
+  name: string;
+  interval: number;
+  // Returns how many items were processed, stored on the run
+  run: () => Promise<number | void>;
+  // Frequent jobs with nothing to report can skip their history
+  history: boolean;
+};
+
+// Run history is kept for a week
+const HISTORY_DAYS = 7;
+
+const jobs = new Map<string, Job>();
+const running = new Set<string>();
+const timers: NodeJS.Timeout[] = [];
+
+export class SchedulerService {
+  static register(
+    name: string,
+    interval: number,
+    run: Job["run"],
+    history = true
+  ) {
+    jobs.set(name, { name, interval, run, history });
+  }
+
+  static start() {
+    for (const job of jobs.values()) {
+      timers.push(
+        setInterval(
+          () =>
+            this.runJob(job.name).catch((error) =>
+              console.error(`Scheduled job ${job.name} could not run`, error)
+            ),
+          job.interval
+        )
+      );
+    }
+  }
+
+  static stop() {
+    timers.splice(0).forEach((timer) => clearInterval(timer));
+  }
+
+  /**
+   * Run a job unless its previous run is still going, so slow runs never
+   * overlap. Returns false when the run was skipped.
+   */
+  static async runJob(name: string) {
+    const job = jobs.get(name);
+
+    if (!job || running.has(name)) return false;
+
+    running.add(name);
+
+    let record: { id: string } | null = null;
+
+    try {
+      if (job.history) {
+        record = await prisma.schedulerRun.create({ data: { job: name } });
+      }
+
+      const processed = await job.run();
+
+      if (record) {
+        await prisma.schedulerRun.update({
+          where: { id: record.id },
+          data: {
+            status: "succeeded",
+            finishedAt: new Date(),
+            processed: processed || 0,
+          },
+        });
+      }
+    } catch (error: any) {
+      console.error(`Scheduled job ${name} failed`, error);
+
+      if (record) {
+        await prisma.schedulerRun.update({
+          where: { id: record.id },
+          data: {
+            status: "failed",
+            finishedAt: new Date(),
+            error: String(error?.message || error),
+          },
+        });
+      }
+    } finally {
+      running.delete(name);
+    }
+
+    return true;
+  }
+
+  static jobs() {
+    return Array.from(jobs.values()).map((job) => ({
+      name: job.name,
+      interval: job.interval,
+      running: running.has(job.name),
+    }));
+  }
+
+  /**
+   * Drop run history older than a week.
+   */
+  static async prune() {
+    const { count } = await prisma.schedulerRun.deleteMany({
+      where: {
+        startedAt: {
+          lt: new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000),
+        },
+      },
+    });
+
+    return count;
+  }
+}
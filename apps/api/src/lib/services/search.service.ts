@@ -0,0 +1,131 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../prisma";
+
+// Must match the expressions of the GIN indexes in the ticket_search migration
+const TICKET_VECTOR = Prisma.raw(
+  `to_tsvector('english', coalesce(t."title", '') || ' ' || coalesce(t."detail", '') || ' ' || coalesce(t."email", '') || ' ' || coalesce(t."name", ''))`
+);
+const COMMENT_VECTOR = Prisma.raw(`to_tsvector('english', c."text")`);
+const CLIENT_VECTOR = Prisma.raw(`to_tsvector('english', cl."name")`);
+
+// Markers around highlighted terms, the client renders them as <mark>
+export const HIGHLIGHT_START = "«";
+export const HIGHLIGHT_STOP = "»";
+
+// Searches stop at this many hits, best first. Filters and counts of a
+// ticket query only see these, so queries report when the cap was hit.
+export const MAX_RESULTS = 1000;
+
+export type SearchResult = {
+  id: string;
+  Number: number;
+  title: string;
+  status: string;
+  priority: string;
+  isComplete: boolean;
+  createdAt: Date;
+  assignedTo: string | null;
+  rank: number;
+  snippet: string;
+};
+
+/**
+ * Detail is stored as editor JSON or email HTML, strip the markup so the
+ * snippet reads as text.
+ */
+function clean(snippet: string) {
+  return snippet
+    .replace(/<[^>]*>/g, " ")
+    .replace(/"(type|text|content|styles|props|id|children)":/g, " ")
+    .replace(/[{}[\]"\\]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export class SearchService {
+  /**
+   * Ranked full-text search over ticket title, detail, requester email and
+   * name, comment text and client name, plus an exact ticket number match.
+   * Title and body hits outrank comment hits, which outrank client name hits.
+   */
+  static async search(query: string, limit = 20): Promise<SearchResult[]> {
+    const rows = await this.run(query, Math.min(limit, MAX_RESULTS), true);
+
+    return rows.map((row: any) => ({
+      ...row,
+      rank: Number(row.rank),
+      snippet: clean(row.snippet || ""),
+    }));
+  }
+
+  /**
+   * Ids of matching tickets, best match first, at most MAX_RESULTS.
+   */
+  static async rankedIds(query: string): Promise<string[]> {
+    const rows = await this.run(query, MAX_RESULTS, false);
+
+    return rows.map((row: any) => row.id);
+  }
+
+  private static async run(query: string, limit: number, headline: boolean) {
+    const snippet = headline
+      ? Prisma.sql`ts_headline(
+          'english',
+          CASE
+            WHEN ${TICKET_VECTOR} @@ q.query
+              THEN coalesce(t."title", '') || ' ' || coalesce(t."detail", '')
+            ELSE coalesce(ch."text", t."title")
+          END,
+          q.query,
+          ${`StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=25, MinWords=10, MaxFragments=2`}
+        )`
+      : Prisma.sql`NULL`;
+
+    // "#123" or "123" should always find ticket 123
+    const number = query.trim().replace(/^#/, "");
+
+    return prisma.$queryRaw<any[]>`
+      WITH q AS (
+        SELECT websearch_to_tsquery('english', ${query}) AS query
+      ),
+      comment_hits AS (
+        SELECT DISTINCT ON (c."ticketId")
+          c."ticketId",
+          c."text",
+          ts_rank(${COMMENT_VECTOR}, q.query) AS rank
+        FROM "Comment" c, q
+        WHERE ${COMMENT_VECTOR} @@ q.query
+        ORDER BY c."ticketId", rank DESC
+      )
+      SELECT
+        t."id",
+        t."Number",
+        t."title",
+        t."status",
+        t."priority",
+        t."isComplete",
+        t."createdAt",
+        u."name" AS "assignedTo",
+        ts_rank(${TICKET_VECTOR}, q.query)
+          + coalesce(ch.rank, 0) * 0.5
+          + CASE WHEN ${CLIENT_VECTOR} @@ q.query THEN 0.1 ELSE 0 END
+          + CASE WHEN t."Number"::text = ${number} THEN 1 ELSE 0 END AS rank,
+        ${snippet} AS snippet
+      FROM "Ticket" t
+      CROSS JOIN q
+      LEFT JOIN comment_hits ch ON ch."ticketId" = t."id"
+      LEFT JOIN "Client" cl ON cl."id" = t."clientId"
+      LEFT JOIN "User" u ON u."id" = t."userId"
+      WHERE t."hidden" = false
+        AND t."deletedAt" IS NULL
+        AND (
+          ${TICKET_VECTOR} @@ q.query
+          OR ch."ticketId" IS NOT NULL
+          OR ${CLIENT_VECTOR} @@ q.query
+          OR t."Number"::text = ${number}
+        )
+      ORDER BY rank DESC, t."createdAt" DESC
+      LIMIT ${limit}
+    `;
+  }
+}
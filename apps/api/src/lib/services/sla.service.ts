@@ -0,0 +1,325 @@
+import { SlaPolicy, Ticket } from "@prisma/client";
+import { prisma } from "../../prisma";
+import {
+  addBusinessMinutes,
+  businessMinutesBetween,
+  Calendar,
+  NoWorkingTimeError,
+} from "../business-hours";
+import { sendWebhookNotification } from "../notifications/webhook";
+import { CalendarCache, CalendarService } from "./calendar.service";
+
+export type SlaState = "ok" | "at_risk" | "breached";
+
+export class SlaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SlaError";
+  }
+}
+
+/**
+ * Due date of a target, null without one or when the calendar has no
+ * working time to count it in.
+ */
+function dueAt(
+  start: Date,
+  minutes: number | null | undefined,
+  calendar: Calendar | null
+) {
+  if (!minutes) return null;
+
+  try {
+    return addBusinessMinutes(start, minutes, calendar);
+  } catch (error) {
+    if (error instanceof NoWorkingTimeError) return null;
+    throw error;
+  }
+}
+
+/**
+ * State of a single target. A target that was met in time stays ok, one
+ * that is still running is at risk once `atRiskPercent` of its business
+ * time has elapsed.
+ */
+function targetState(
+  start: Date,
+  due: Date | null,
+  metAt: Date | null,
+  atRiskPercent: number,
+  calendar: Calendar | null,
+  now: Date
+): SlaState {
+  if (!due) return "ok";
+
+  const end = metAt || now;
+
+  if (end > due) return "breached";
+  if (metAt) return "ok";
+
+  const window = businessMinutesBetween(start, due, calendar);
+  const elapsed = businessMinutesBetween(start, now, calendar);
+
+  return window > 0 && elapsed >= (window * atRiskPercent) / 100
+    ? "at_risk"
+    : "ok";
+}
+
+export class SlaService {
+  /**
+   * Validate the body of a create or update request.
+   */
+  static validate(body: any) {
+    const { name, firstResponseMinutes, resolutionMinutes, atRiskPercent } =
+      body;
+
+    if (name !== undefined && !String(name).trim()) {
+      throw new SlaError("Name is required");
+    }
+
+    for (const [field, value] of Object.entries({
+      firstResponseMinutes,
+      resolutionMinutes,
+    })) {
+      if (
+        value !== undefined &&
+        value !== null &&
+        (!Number.isInteger(value) || value <= 0)
+      ) {
+        throw new SlaError(`${field} must be a positive number of minutes`);
+      }
+    }
+
+    if (
+      atRiskPercent !== undefined &&
+      (!Number.isInteger(atRiskPercent) ||
+        atRiskPercent < 1 ||
+        atRiskPercent > 100)
+    ) {
+      throw new SlaError("atRiskPercent must be between 1 and 100");
+    }
+  }
+
+  /**
+   * First active policy, by order, whose conditions all match the ticket.
+   */
+  static async match(ticket: Ticket): Promise<SlaPolicy | null> {
+    const policies = await prisma.slaPolicy.findMany({
+      where: { active: true },
+      orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+    });
+
+    return (
+      policies.find(
+        (policy) =>
+          (policy.priorities.length === 0 ||
+            policy.priorities.includes(ticket.priority.toLowerCase())) &&
+          (policy.types.length === 0 || policy.types.includes(ticket.type)) &&
+          (policy.clientIds.length === 0 ||
+            (!!ticket.clientId && policy.clientIds.includes(ticket.clientId))) &&
+          (policy.teamIds.length === 0 ||
+            (!!ticket.teamId && policy.teamIds.includes(ticket.teamId)))
+      ) || null
+    );
+  }
+
+  /**
+   * Attach the matching policy to a ticket and compute its due dates in
+   * business time from the creation time. Called on creation and when a
+   * matched field changes.
+   */
+  static async apply(ticketId: string) {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+    });
+
+    if (!ticket) return null;
+
+    const policy = await this.match(ticket);
+    const calendar = await CalendarService.forTicket(ticket);
+
+    const updated = await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: {
+        slaPolicyId: policy ? policy.id : null,
+        firstResponseDueAt: dueAt(
+          ticket.createdAt,
+          policy?.firstResponseMinutes,
+          calendar
+        ),
+        resolutionDueAt: dueAt(
+          ticket.createdAt,
+          policy?.resolutionMinutes,
+          calendar
+        ),
+      },
+    });
+
+    return this.refresh(updated, policy, calendar);
+  }
+
+  /**
+   * Stop the first response clock, only the first call has an effect.
+   */
+  static async respond(ticketId: string) {
+    const { count } = await prisma.ticket.updateMany({
+      where: { id: ticketId, firstRespondedAt: null },
+      data: { firstRespondedAt: new Date() },
+    });
+
+    if (count === 0) return;
+
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+    });
+
+    if (ticket) await this.refresh(ticket);
+  }
+
+  /**
+   * Stop or restart the resolution clock when a ticket is closed or
+   * re-opened.
+   */
+  static async resolve(ticketId: string, resolved: boolean) {
+    const ticket = await prisma.ticket.update({
+      where: { id: ticketId },
+      data: { resolvedAt: resolved ? new Date() : null },
+    });
+
+    return this.refresh(ticket);
+  }
+
+  static state(
+    ticket: Ticket,
+    policy: Pick<SlaPolicy, "atRiskPercent">,
+    calendar: Calendar | null,
+    now = new Date()
+  ) {
+    const firstResponse = targetState(
+      ticket.createdAt,
+      ticket.firstResponseDueAt,
+      ticket.firstRespondedAt,
+      policy.atRiskPercent,
+      calendar,
+      now
+    );
+    const resolution = targetState(
+      ticket.createdAt,
+      ticket.resolutionDueAt,
+      ticket.resolvedAt,
+      policy.atRiskPercent,
+      calendar,
+      now
+    );
+
+    return {
+      firstResponse,
+      resolution,
+      breached: firstResponse === "breached" || resolution === "breached",
+      atRisk:
+        firstResponse !== "breached" &&
+        resolution !== "breached" &&
+        (firstResponse === "at_risk" || resolution === "at_risk"),
+    };
+  }
+
+  /**
+   * Recompute the breach and at-risk flags of a ticket, store them and fire
+   * the sla_status_changed webhook when they change.
+   */
+  static async refresh(
+    ticket: Ticket,
+    policy?: SlaPolicy | null,
+    calendar?: Calendar | null,
+    cache?: CalendarCache
+  ) {
+    const slaPolicy =
+      policy !== undefined
+        ? policy
+        : ticket.slaPolicyId
+        ? await prisma.slaPolicy.findUnique({
+            where: { id: ticket.slaPolicyId },
+          })
+        : null;
+
+    const state = slaPolicy
+      ? this.state(
+          ticket,
+          slaPolicy,
+          calendar !== undefined
+            ? calendar
+            : await CalendarService.forTicket(ticket, cache)
+        )
+      : {
+          firstResponse: "ok",
+          resolution: "ok",
+          breached: false,
+          atRisk: false,
+        };
+
+    if (
+      state.breached === ticket.slaBreached &&
+      state.atRisk === ticket.slaAtRisk
+    ) {
+      return ticket;
+    }
+
+    const updated = await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: { slaBreached: state.breached, slaAtRisk: state.atRisk },
+    });
+
+    if (state.breached || state.atRisk) {
+      const webhooks = await prisma.webhooks.findMany({
+        where: { type: "sla_status_changed", active: true },
+      });
+
+      for (const webhook of webhooks) {
+        await sendWebhookNotification(webhook, {
+          event: "sla_status_changed",
+          id: ticket.id,
+          number: ticket.Number,
+          title: ticket.title,
+          priority: ticket.priority,
+          email: ticket.email,
+          type: ticket.type,
+          status: state.breached ? "breached" : "at_risk",
+          policy: slaPolicy?.name,
+          firstResponse: state.firstResponse,
+          firstResponseDueAt: ticket.firstResponseDueAt,
+          resolution: state.resolution,
+          resolutionDueAt: ticket.resolutionDueAt,
+        });
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Sweep open tickets with a policy, called on an interval from main.ts.
+   */
+  static async check() {
+    const tickets = await prisma.ticket.findMany({
+      where: {
+        slaPolicyId: { not: null },
+        isComplete: false,
+        slaBreached: false,
+        deletedAt: null,
+      },
+      include: { slaPolicy: true },
+    });
+
+    const cache: CalendarCache = new Map();
+
+    for (const { slaPolicy, ...ticket } of tickets) {
+      try {
+        await this.refresh(ticket, slaPolicy, undefined, cache);
+      } catch (error) {
+        console.error("Error checking SLA for ticket", ticket.id, error);
+      }
+    }
+
+    return tickets.length;
+  }
+}
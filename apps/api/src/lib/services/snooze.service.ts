@@ -0,0 +1,143 @@
+import { Ticket } from "@prisma/client";
+import { prisma } from "../../prisma";
+import { sendSnoozeWakeEmail } from "../nodemailer/ticket/snooze";
+import { snoozeWakeNotification } from "../notifications/issue/snooze";
+import { Actor, ActivityService } from "./activity.service";
+import { AutomationService } from "./automation.service";
+import { StatusService } from "./status.service";
+
+export class SnoozeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnoozeError";
+  }
+}
+
+export class SnoozeService {
+  /**
+   * Snooze a ticket until a date, moving it to a pending status unless it
+   * already is in one. The workflow of the ticket's type is not checked,
+   * snoozing always means waiting.
+   */
+  static async snooze(
+    ticket: Ticket,
+    until: unknown,
+    note: unknown,
+    actor: Actor
+  ) {
+    const date = new Date(String(until || ""));
+
+    if (!until || isNaN(date.getTime())) {
+      throw new SnoozeError("Choose when the ticket should wake up");
+    }
+
+    if (date.getTime() <= Date.now()) {
+      throw new SnoozeError("The wake up time must be in the future");
+    }
+
+    if (ticket.isComplete) {
+      throw new SnoozeError("Closed tickets can not be snoozed");
+    }
+
+    if (ticket.locked) {
+      throw new SnoozeError("This ticket is locked");
+    }
+
+    const current = await prisma.status.findUnique({
+      where: { key: ticket.status },
+    });
+
+    if (current?.category !== "pending") {
+      const pending = await StatusService.first(["pending"]);
+      ticket = await StatusService.change(ticket, pending.key, actor, true);
+    }
+
+    const updated = await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: {
+        snoozedUntil: date,
+        snoozeNote: note ? String(note).trim() || null : null,
+      },
+    });
+
+    await ActivityService.record(ticket.id, actor, [
+      {
+        field: "snoozedUntil",
+        from: ticket.snoozedUntil?.toISOString() ?? null,
+        to: date.toISOString(),
+      },
+    ]);
+
+    return updated;
+  }
+
+  /**
+   * End a snooze now, by hand or when it is due, and move the ticket back
+   * to the status new tickets start in.
+   */
+  static async wake(ticket: Ticket, actor: Actor) {
+    if (!ticket.snoozedUntil) {
+      throw new SnoozeError("This ticket is not snoozed");
+    }
+
+    const initial = await StatusService.initial();
+
+    // Moving to an open status clears the snooze itself
+    let updated =
+      initial.key !== ticket.status
+        ? await StatusService.change(ticket, initial.key, actor, true)
+        : ticket;
+
+    if (updated.snoozedUntil) {
+      updated = await prisma.ticket.update({
+        where: { id: ticket.id },
+        data: { snoozedUntil: null, snoozeNote: null },
+      });
+
+      await ActivityService.record(ticket.id, actor, [
+        {
+          field: "snoozedUntil",
+          from: ticket.snoozedUntil.toISOString(),
+          to: null,
+        },
+      ]);
+    }
+
+    await AutomationService.run("ticket_updated", ticket.id, {
+      previous: ticket,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Wake every ticket whose snooze is due and let its assignee know.
+   */
+  static async check() {
+    const due = await prisma.ticket.findMany({
+      where: {
+        snoozedUntil: { lte: new Date() },
+        deletedAt: null,
+        // Closed and merged tickets stay as they are
+        isComplete: false,
+        mergedIntoId: null,
+      },
+      include: { assignedTo: true },
+    });
+
+    for (const { assignedTo, ...ticket } of due) {
+      try {
+        const woken = await this.wake(ticket, null);
+
+        if (assignedTo) {
+          await snoozeWakeNotification(woken, assignedTo, ticket.snoozeNote);
+          await sendSnoozeWakeEmail(assignedTo.email, woken, ticket.snoozeNote);
+        }
+      } catch (error) {
+        console.error(`Failed to wake ticket ${ticket.id}`, error);
+      }
+    }
+
+    return due.length;
+  }
+}
@@ -0,0 +1,204 @@
+import { StatusCategory, Ticket, TicketType } from "@prisma/client";
+import { prisma } from "../../prisma";
+import { ActivityService, Actor } from "./activity.service";
+import { SlaService } from "./sla.service";
+import { SubtaskService } from "./subtask.service";
+
+export class StatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatusError";
+  }
+}
+
+const COMPLETE_CATEGORIES: StatusCategory[] = ["solved", "closed"];
+
+export function isCompleteCategory(category: StatusCategory) {
+  return COMPLETE_CATEGORIES.includes(category);
+}
+
+export class StatusService {
+  /**
+   * Validate the body of a create or update request.
+   */
+  static validate(body: any) {
+    const { name, key, category, color, isDefault } = body;
+
+    if (name !== undefined && !String(name).trim()) {
+      throw new StatusError("Name is required");
+    }
+
+    if (key !== undefined && !/^[a-z][a-z0-9_]*$/.test(key)) {
+      throw new StatusError(
+        "Key must start with a letter and contain only lowercase letters, numbers and underscores"
+      );
+    }
+
+    if (
+      category !== undefined &&
+      !Object.values(StatusCategory).includes(category)
+    ) {
+      throw new StatusError(`Unknown category ${category}`);
+    }
+
+    if (color !== undefined && !/^#[0-9a-fA-F]{6}$/.test(color)) {
+      throw new StatusError("Color must be a hex color like #22c55e");
+    }
+
+    if (isDefault && category !== "open") {
+      throw new StatusError("The default status must be an open status");
+    }
+  }
+
+  static all() {
+    return prisma.status.findMany({
+      orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+    });
+  }
+
+  static async get(key: string) {
+    const status = await prisma.status.findUnique({ where: { key } });
+
+    if (!status) {
+      throw new StatusError(`Unknown status ${key}`);
+    }
+
+    return status;
+  }
+
+  /**
+   * Keys of the statuses in any of the categories.
+   */
+  static async keys(categories: StatusCategory[]) {
+    const statuses = await prisma.status.findMany({
+      where: { category: { in: categories } },
+      select: { key: true },
+    });
+
+    return statuses.map((status) => status.key);
+  }
+
+  /**
+   * The status new and re-opened tickets start in.
+   */
+  static async initial() {
+    const statuses = await this.all();
+
+    const status =
+      statuses.find((s) => s.isDefault) ||
+      statuses.find((s) => s.category === "open");
+
+    if (!status) {
+      throw new StatusError("No open status is configured");
+    }
+
+    return status;
+  }
+
+  /**
+   * The first status of the first category that has one, in order.
+   */
+  static async first(categories: StatusCategory[]) {
+    const statuses = await this.all();
+
+    for (const category of categories) {
+      const status = statuses.find((s) => s.category === category);
+      if (status) return status;
+    }
+
+    throw new StatusError(`No ${categories.join(" or ")} status is configured`);
+  }
+
+  /**
+   * Where closing or re-opening a ticket moves it to.
+   */
+  static target(complete: boolean) {
+    return complete ? this.first(["solved", "closed"]) : this.initial();
+  }
+
+  /**
+   * Keys a ticket of a type may move to from a status, or null when every
+   * move is allowed.
+   */
+  static async transitions(type: TicketType, from: string) {
+    const transitions = await prisma.statusTransition.findMany({
+      where: { OR: [{ type }, { type: null }] },
+      include: { from: true, to: true },
+    });
+
+    const own = transitions.filter((t) => t.type === type);
+    const workflow =
+      own.length > 0 ? own : transitions.filter((t) => t.type === null);
+
+    if (workflow.length === 0) return null;
+
+    return workflow.filter((t) => t.from.key === from).map((t) => t.to.key);
+  }
+
+  /**
+   * Move a ticket to a status. isComplete follows the category of the new
+   * status, and the SLA resolution with it. The workflow of the ticket's
+   * type, and open subtasks when they block closing, are checked unless
+   * forced, which automations and merges do.
+   */
+  static async change(
+    ticket: Ticket,
+    key: string,
+    actor: Actor,
+    force = false
+  ) {
+    const status = await this.get(key);
+
+    if (!force && key !== ticket.status) {
+      const allowed = await this.transitions(ticket.type, ticket.status);
+
+      if (allowed && !allowed.includes(key)) {
+        throw new StatusError(
+          `${ticket.type} tickets can not move from ${ticket.status} to ${key}`
+        );
+      }
+    }
+
+    const complete = isCompleteCategory(status.category);
+
+    if (!force && complete && !ticket.isComplete) {
+      const open = (await SubtaskService.blocksClose())
+        ? await SubtaskService.open(ticket.id)
+        : 0;
+
+      if (open > 0) {
+        throw new StatusError(
+          `Close the ${open} open subtask${open === 1 ? "" : "s"} first`
+        );
+      }
+    }
+
+    // Leaving the pending statuses ends a snooze early
+    const wakes = !!ticket.snoozedUntil && status.category !== "pending";
+
+    const updated = await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: {
+        status: key,
+        isComplete: complete,
+        ...(wakes && { snoozedUntil: null, snoozeNote: null }),
+      },
+    });
+
+    await ActivityService.record(ticket.id, actor, [
+      { field: "status", from: ticket.status, to: key },
+      { field: "isComplete", from: ticket.isComplete, to: complete },
+      {
+        field: "snoozedUntil",
+        from: ticket.snoozedUntil?.toISOString(),
+        to: wakes ? null : undefined,
+      },
+    ]);
+
+    if (complete !== ticket.isComplete) {
+      await SlaService.resolve(ticket.id, complete);
+    }
+
+    return updated;
+  }
+}
@@ -0,0 +1,154 @@
+import { Ticket } from "@prisma/client";
+import { prisma } from "../../prisma";
+import { ActivityService, Actor } from "./activity.service";
+
+export class SubtaskError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SubtaskError";
+  }
+}
+
+const ticketSelect = {
+  id: true,
+  Number: true,
+  title: true,
+  status: true,
+  priority: true,
+  isComplete: true,
+  assignedTo: {
+    select: { id: true, name: true },
+  },
+};
+
+export type Rollup = { total: number; done: number };
+
+export class SubtaskService {
+  /**
+   * Find the ticket that is to become a parent. A ticket can not be its own
+   * parent, directly or through its subtasks.
+   */
+  static async parent(parentId: string, ticketId?: string) {
+    const parent = await prisma.ticket.findUnique({
+      where: { id: parentId },
+    });
+
+    if (!parent) {
+      throw new SubtaskError("Parent ticket not found");
+    }
+
+    // Walk up from the new parent, the ticket must not be above it
+    let ancestor: string | null = parent.id;
+
+    while (ancestor) {
+      if (ancestor === ticketId) {
+        throw new SubtaskError("A ticket can not be a subtask of itself");
+      }
+
+      const next: { parentId: string | null } | null =
+        await prisma.ticket.findUnique({
+          where: { id: ancestor },
+          select: { parentId: true },
+        });
+
+      ancestor = next?.parentId ?? null;
+    }
+
+    return parent;
+  }
+
+  /**
+   * Move a ticket under another one, or to the top level with null, and
+   * record the change on the ticket.
+   */
+  static async setParent(
+    ticket: Ticket,
+    parentId: string | null,
+    actor: Actor
+  ) {
+    if ((ticket.parentId ?? null) === parentId) return ticket;
+
+    const [previous, parent] = await Promise.all([
+      ticket.parentId
+        ? prisma.ticket.findUnique({
+            where: { id: ticket.parentId },
+            select: { Number: true },
+          })
+        : null,
+      parentId ? this.parent(parentId, ticket.id) : null,
+    ]);
+
+    const updated = await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: { parentId, updatedAt: new Date() },
+    });
+
+    await ActivityService.record(ticket.id, actor, [
+      {
+        field: "parent",
+        from: previous ? `#${previous.Number}` : null,
+        to: parent ? `#${parent.Number}` : null,
+      },
+    ]);
+
+    return updated;
+  }
+
+  /**
+   * The subtasks of a ticket, oldest first.
+   */
+  static children(parentId: string) {
+    return prisma.ticket.findMany({
+      where: { parentId, hidden: false, deletedAt: null },
+      select: ticketSelect,
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  /**
+   * How many subtasks each of the tickets has and how many of them are
+   * complete. Tickets without subtasks are left out.
+   */
+  static async rollup(ids: string[]) {
+    const rollup = new Map<string, Rollup>();
+
+    if (ids.length === 0) return rollup;
+
+    const groups = await prisma.ticket.groupBy({
+      by: ["parentId", "isComplete"],
+      where: { parentId: { in: ids }, hidden: false, deletedAt: null },
+      _count: { _all: true },
+    });
+
+    for (const group of groups) {
+      const entry = rollup.get(group.parentId!) || { total: 0, done: 0 };
+
+      entry.total += group._count._all;
+      if (group.isComplete) entry.done += group._count._all;
+
+      rollup.set(group.parentId!, entry);
+    }
+
+    return rollup;
+  }
+
+  /**
+   * Whether parents must wait for their subtasks before they can close.
+   */
+  static async blocksClose() {
+    const config = await prisma.config.findFirst({
+      select: { subtasks_block_close: true },
+    });
+
+    return !!config?.subtasks_block_close;
+  }
+
+  /**
+   * Number of subtasks of a ticket that are still open.
+   */
+  static open(parentId: string) {
+    return prisma.ticket.count({
+      where: { parentId, isComplete: false, hidden: false, deletedAt: null },
+    });
+  }
+}
@@ -0,0 +1,136 @@
+import { prisma } from "../../prisma";
+import { ActivityService, Actor } from "./activity.service";
+
+export class TagError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TagError";
+  }
+}
+
+export class TagService {
+  /**
+   * Validate the body of a create or update request.
+   */
+  static validate(body: any) {
+    const { name, color } = body;
+
+    if (name !== undefined) {
+      const trimmed = String(name).trim();
+
+      if (!trimmed) {
+        throw new TagError("Name is required");
+      }
+
+      if (trimmed.length > 50) {
+        throw new TagError("Names can be at most 50 characters");
+      }
+    }
+
+    if (color !== undefined && !/^#[0-9a-fA-F]{6}$/.test(color)) {
+      throw new TagError("Color must be a hex color like #3b82f6");
+    }
+  }
+
+  /**
+   * Tags by name, optionally only those whose name contains `q`.
+   */
+  static all(q?: string) {
+    return prisma.tag.findMany({
+      where: q ? { name: { contains: q, mode: "insensitive" } } : undefined,
+      orderBy: { name: "asc" },
+      include: { _count: { select: { tickets: true } } },
+    });
+  }
+
+  /**
+   * Tag names are unique regardless of case.
+   */
+  static findByName(name: string) {
+    return prisma.tag.findFirst({
+      where: { name: { equals: name.trim(), mode: "insensitive" } },
+    });
+  }
+
+  /**
+   * Check that every id is a tag, returns the ids without duplicates.
+   */
+  static async ids(tagIds: unknown) {
+    if (tagIds === undefined || tagIds === null) return [];
+
+    if (!Array.isArray(tagIds)) {
+      throw new TagError("Tags must be a list of tag ids");
+    }
+
+    const ids = Array.from(new Set(tagIds.map(String)));
+    const found = await prisma.tag.count({ where: { id: { in: ids } } });
+
+    if (found !== ids.length) {
+      throw new TagError("Unknown tag");
+    }
+
+    return ids;
+  }
+
+  /**
+   * Names of the tags on a ticket.
+   */
+  static async names(ticketId: string) {
+    const tags = await prisma.ticketTag.findMany({
+      where: { ticketId },
+      include: { tag: { select: { name: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return tags.map((t) => t.tag.name);
+  }
+
+  /**
+   * Add tags to a ticket and record the change. Returns whether any tag
+   * was new on the ticket.
+   */
+  static async add(ticketId: string, tagIds: string[], actor: Actor) {
+    const before = await this.names(ticketId);
+
+    const { count } = await prisma.ticketTag.createMany({
+      data: tagIds.map((tagId) => ({ ticketId, tagId })),
+      skipDuplicates: true,
+    });
+
+    if (count > 0) {
+      await prisma.ticket.update({
+        where: { id: ticketId },
+        data: { updatedAt: new Date() },
+      });
+      await ActivityService.record(ticketId, actor, [
+        { field: "tags", from: before, to: await this.names(ticketId) },
+      ]);
+    }
+
+    return count > 0;
+  }
+
+  /**
+   * Remove a tag from a ticket and record the change. Returns whether the
+   * ticket had the tag.
+   */
+  static async remove(ticketId: string, tagId: string, actor: Actor) {
+    const before = await this.names(ticketId);
+
+    const { count } = await prisma.ticketTag.deleteMany({
+      where: { ticketId, tagId },
+    });
+
+    if (count > 0) {
+      await prisma.ticket.update({
+        where: { id: ticketId },
+        data: { updatedAt: new Date() },
+      });
+      await ActivityService.record(ticketId, actor, [
+        { field: "tags", from: before, to: await this.names(ticketId) },
+      ]);
+    }
+
+    return count > 0;
+  }
+}
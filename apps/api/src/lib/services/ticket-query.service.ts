@@ -0,0 +1,518 @@
+import { Prisma, StatusCategory, TicketType } from "@prisma/client";
+import { prisma } from "../../prisma";
+import { PriorityService } from "./priority.service";
+import { MAX_RESULTS, SearchService } from "./search.service";
+import { StatusService } from "./status.service";
+import { SubtaskService } from "./subtask.service";
+
+export type TicketSort =
+  | "newest"
+  | "oldest"
+  | "updated"
+  | "priority"
+  | "title"
+  | "relevance";
+
+export interface TicketQuery {
+  state?: "open" | "closed";
+  status: string[];
+  // Keys of the statuses in the requested `category` list
+  categoryStatus?: string[];
+  priority: string[];
+  type: TicketType[];
+  assignee: string[];
+  team: string[];
+  client: string[];
+  // Tag ids, any listed tag matches
+  tag: string[];
+  // Parent ticket ids, "none" matches top level tickets
+  parent: string[];
+  // Snoozed tickets are left out unless asked for or a status is picked,
+  // "only" lists just them and "all" mixes them in
+  snoozed?: "only" | "all";
+  // Custom field filters from `cf.<key>=value`, any listed value matches
+  custom: Record<string, string[]>;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  q?: string;
+  sort: TicketSort;
+  cursor?: string;
+  limit: number;
+}
+
+export class TicketQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TicketQueryError";
+  }
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const SORTS: Record<
+  Exclude<TicketSort, "priority" | "relevance">,
+  Prisma.TicketOrderByWithRelationAndSearchRelevanceInput[]
+> = {
+  newest: [{ createdAt: "desc" }, { id: "desc" }],
+  oldest: [{ createdAt: "asc" }, { id: "asc" }],
+  updated: [{ updatedAt: "desc" }, { id: "desc" }],
+  title: [{ title: "asc" }, { id: "asc" }],
+};
+
+const include = {
+  client: {
+    select: { id: true, name: true, number: true },
+  },
+  assignedTo: {
+    select: { id: true, name: true },
+  },
+  team: {
+    select: { id: true, name: true },
+  },
+  parent: {
+    select: { id: true, Number: true, title: true },
+  },
+};
+
+/**
+ * Accept both `?a=x&a=y` and `?a=x,y`.
+ */
+function list(value: unknown): string[] {
+  if (value === undefined || value === null || value === "") return [];
+
+  const values = Array.isArray(value) ? value : [value];
+
+  return values
+    .flatMap((v) => String(v).split(","))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function date(value: unknown, name: string): Date | undefined {
+  if (!value) return undefined;
+
+  const parsed = new Date(String(value));
+
+  if (isNaN(parsed.getTime())) {
+    throw new TicketQueryError(`Invalid date for ${name}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * A filter value matches text, select and date fields as is, multi-select
+ * fields containing it, and numbers and checkboxes by their parsed value.
+ */
+function customFieldFilters(
+  key: string,
+  value: string
+): Prisma.TicketWhereInput[] {
+  const filters: Prisma.TicketWhereInput[] = [
+    { customFields: { path: [key], equals: value } },
+    { customFields: { path: [key], array_contains: [value] } },
+  ];
+
+  if (value !== "" && !isNaN(Number(value))) {
+    filters.push({ customFields: { path: [key], equals: Number(value) } });
+  }
+
+  if (value === "true" || value === "false") {
+    filters.push({ customFields: { path: [key], equals: value === "true" } });
+  }
+
+  return filters;
+}
+
+type Cursor = { id: string; bucket?: number; offset?: number };
+
+function encodeCursor(cursor: Cursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): Cursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+
+    if (typeof decoded.id !== "string") throw new Error();
+
+    return decoded;
+  } catch (error) {
+    throw new TicketQueryError("Invalid cursor");
+  }
+}
+
+export class TicketQueryService {
+  /**
+   * Validate the raw querystring of `GET /api/v1/tickets`.
+   */
+  static async parse(raw: any, userId?: string): Promise<TicketQuery> {
+    const state = raw.state;
+
+    if (state && state !== "open" && state !== "closed") {
+      throw new TicketQueryError("state must be open or closed");
+    }
+
+    const statuses = await StatusService.all();
+    const status = list(raw.status);
+    const invalidStatus = status.find(
+      (s) => !statuses.some((known) => known.key === s)
+    );
+
+    if (invalidStatus) {
+      throw new TicketQueryError(`Unknown status: ${invalidStatus}`);
+    }
+
+    const category = list(raw.category);
+    const invalidCategory = category.find(
+      (c) => !Object.values(StatusCategory).includes(c as StatusCategory)
+    );
+
+    if (invalidCategory) {
+      throw new TicketQueryError(`Unknown status category: ${invalidCategory}`);
+    }
+
+    const type = list(raw.type).map((t) => t.toLowerCase());
+    const invalidType = type.find(
+      (t) => !Object.values(TicketType).includes(t as TicketType)
+    );
+
+    if (invalidType) {
+      throw new TicketQueryError(`Unknown type: ${invalidType}`);
+    }
+
+    const snoozed = raw.snoozed || undefined;
+
+    if (snoozed && snoozed !== "only" && snoozed !== "all") {
+      throw new TicketQueryError("snoozed must be only or all");
+    }
+
+    const sort = raw.sort || "newest";
+
+    if (sort !== "priority" && sort !== "relevance" && !(sort in SORTS)) {
+      throw new TicketQueryError(`Unknown sort: ${sort}`);
+    }
+
+    const limit = raw.limit ? Number(raw.limit) : DEFAULT_LIMIT;
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new TicketQueryError("limit must be a positive integer");
+    }
+
+    const custom: Record<string, string[]> = {};
+
+    for (const [param, value] of Object.entries(raw)) {
+      if (!param.startsWith("cf.")) continue;
+
+      const key = param.slice(3);
+
+      if (!/^[a-z][a-z0-9_]*$/.test(key)) {
+        throw new TicketQueryError(`Invalid custom field: ${key}`);
+      }
+
+      custom[key] = list(value);
+    }
+
+    return {
+      state,
+      status,
+      categoryStatus:
+        category.length > 0
+          ? statuses
+              .filter((s) => category.includes(s.category))
+              .map((s) => s.key)
+          : undefined,
+      priority: list(raw.priority).map((p) => p.toLowerCase()),
+      type: type as TicketType[],
+      // "me" is a shortcut for the signed in user
+      assignee: list(raw.assignee).map((a) =>
+        a === "me" && userId ? userId : a
+      ),
+      team: list(raw.team),
+      client: list(raw.client),
+      tag: list(raw.tag),
+      parent: list(raw.parent),
+      snoozed,
+      custom,
+      createdFrom: date(raw.createdFrom, "createdFrom"),
+      createdTo: date(raw.createdTo, "createdTo"),
+      updatedFrom: date(raw.updatedFrom, "updatedFrom"),
+      updatedTo: date(raw.updatedTo, "updatedTo"),
+      q: raw.q ? String(raw.q).trim() || undefined : undefined,
+      sort,
+      cursor: raw.cursor || undefined,
+      limit: Math.min(limit, MAX_LIMIT),
+    };
+  }
+
+  /**
+   * Build the where clause for a query. "unassigned", "none" are accepted
+   * in the assignee, team, client, parent and tag lists to match tickets
+   * without one.
+   * `matches` are the full-text search hits for `q`, if any.
+   */
+  static where(
+    query: TicketQuery,
+    matches?: string[]
+  ): Prisma.TicketWhereInput {
+    const and: Prisma.TicketWhereInput[] = [
+      { hidden: false, deletedAt: null },
+    ];
+
+    if (query.state) {
+      and.push({ isComplete: query.state === "closed" });
+    }
+
+    if (query.status.length > 0) {
+      and.push({ status: { in: query.status } });
+    }
+
+    if (query.categoryStatus) {
+      and.push({ status: { in: query.categoryStatus } });
+    }
+
+    if (query.snoozed === "only") {
+      and.push({ snoozedUntil: { not: null } });
+    } else if (!query.snoozed && query.status.length === 0) {
+      and.push({ snoozedUntil: null });
+    }
+
+    if (query.priority.length > 0) {
+      and.push({ priority: { in: query.priority } });
+    }
+
+    if (query.type.length > 0) {
+      and.push({ type: { in: query.type } });
+    }
+
+    const relationFilter = (
+      values: string[],
+      field: "userId" | "teamId" | "clientId" | "parentId"
+    ) => {
+      if (values.length === 0) return;
+
+      const ids = values.filter((v) => v !== "unassigned" && v !== "none");
+      const or: Prisma.TicketWhereInput[] = [];
+
+      if (ids.length > 0) or.push({ [field]: { in: ids } });
+      if (ids.length !== values.length) or.push({ [field]: null });
+
+      and.push({ OR: or });
+    };
+
+    relationFilter(query.assignee, "userId");
+    relationFilter(query.team, "teamId");
+    relationFilter(query.client, "clientId");
+    relationFilter(query.parent, "parentId");
+
+    if (query.tag.length > 0) {
+      const ids = query.tag.filter((t) => t !== "none");
+      const or: Prisma.TicketWhereInput[] = [];
+
+      if (ids.length > 0) or.push({ tags: { some: { tagId: { in: ids } } } });
+      if (ids.length !== query.tag.length) or.push({ tags: { none: {} } });
+
+      and.push({ OR: or });
+    }
+
+    for (const [key, values] of Object.entries(query.custom)) {
+      if (values.length === 0) continue;
+
+      and.push({
+        OR: values.flatMap((value) => customFieldFilters(key, value)),
+      });
+    }
+
+    if (query.createdFrom || query.createdTo) {
+      and.push({
+        createdAt: { gte: query.createdFrom, lte: query.createdTo },
+      });
+    }
+
+    if (query.updatedFrom || query.updatedTo) {
+      and.push({
+        updatedAt: { gte: query.updatedFrom, lte: query.updatedTo },
+      });
+    }
+
+    if (matches) {
+      and.push({ id: { in: matches } });
+    }
+
+    return { AND: and };
+  }
+
+  /**
+   * Run a query and return one page of tickets plus the cursor of the next
+   * page, or null once the last page has been reached. Tickets with
+   * subtasks carry how many of them are done. With a search, the filters
+   * and the total only cover the best MAX_RESULTS hits, `truncated` tells
+   * when there were more.
+   */
+  static async find(query: TicketQuery) {
+    const matches = query.q
+      ? await SearchService.rankedIds(query.q)
+      : undefined;
+    const where = this.where(query, matches);
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+
+    const page =
+      query.sort === "relevance"
+        ? this.findByRelevance(where, matches || [], query.limit, cursor)
+        : query.sort === "priority"
+        ? this.findByPriority(where, query.limit, cursor)
+        : this.findSorted(where, query.sort, query.limit, cursor);
+
+    const [result, total] = await Promise.all([
+      page,
+      prisma.ticket.count({ where }),
+    ]);
+
+    const rollup = await SubtaskService.rollup(
+      result.tickets.map((ticket) => ticket.id)
+    );
+
+    return {
+      ...result,
+      tickets: result.tickets.map((ticket) => ({
+        ...ticket,
+        subtaskRollup: rollup.get(ticket.id) || null,
+      })),
+      total,
+      truncated: !!matches && matches.length >= MAX_RESULTS,
+    };
+  }
+
+  private static async findSorted(
+    where: Prisma.TicketWhereInput,
+    sort: Exclude<TicketSort, "priority" | "relevance">,
+    limit: number,
+    cursor?: Cursor
+  ) {
+    const rows = await prisma.ticket.findMany({
+      where,
+      orderBy: SORTS[sort],
+      include,
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor.id }, skip: 1 }),
+    });
+
+    const tickets = rows.slice(0, limit);
+
+    return {
+      tickets,
+      nextCursor:
+        rows.length > limit
+          ? encodeCursor({ id: tickets[tickets.length - 1].id })
+          : null,
+    };
+  }
+
+  /**
+   * Search hits are ranked in SQL, so page through the ranked ids by offset
+   * instead of by row cursor. Without a search every ticket ranks the same
+   * and this falls back to newest first.
+   */
+  private static async findByRelevance(
+    where: Prisma.TicketWhereInput,
+    ranked: string[],
+    limit: number,
+    cursor?: Cursor
+  ) {
+    if (ranked.length === 0) {
+      return this.findSorted(where, "newest", limit, cursor);
+    }
+
+    const rank = new Map(ranked.map((id, index) => [id, index]));
+
+    const ids = (
+      await prisma.ticket.findMany({
+        where,
+        select: { id: true },
+      })
+    )
+      .map((ticket) => ticket.id)
+      .sort((a, b) => rank.get(a)! - rank.get(b)!);
+
+    const offset = cursor?.offset ?? 0;
+    const pageIds = ids.slice(offset, offset + limit);
+
+    const rows = await prisma.ticket.findMany({
+      where: { id: { in: pageIds } },
+      include,
+    });
+
+    const tickets = rows.sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+
+    return {
+      tickets,
+      nextCursor:
+        offset + limit < ids.length
+          ? encodeCursor({
+              id: pageIds[pageIds.length - 1],
+              offset: offset + limit,
+            })
+          : null,
+    };
+  }
+
+  /**
+   * Priorities are ranked in their own table, so tickets cannot be ordered
+   * by rank in SQL directly. Walk the priorities from highest rank to
+   * lowest, newest first inside each, and remember which bucket the cursor
+   * points into. Tickets with a priority that no longer exists come last.
+   */
+  private static async findByPriority(
+    where: Prisma.TicketWhereInput,
+    limit: number,
+    cursor?: Cursor
+  ) {
+    const keys = (await PriorityService.all()).map((p) => p.key);
+
+    const buckets: Prisma.TicketWhereInput[] = [
+      ...keys.map((priority) => ({ priority })),
+      { priority: { notIn: keys } },
+    ];
+
+    const tickets: any[] = [];
+    let bucket = cursor?.bucket ?? 0;
+    let lastBucket = bucket;
+    let after = cursor?.id;
+
+    while (bucket < buckets.length) {
+      const rows = await prisma.ticket.findMany({
+        where: { AND: [where, buckets[bucket]] },
+        orderBy: SORTS.newest,
+        include,
+        take: limit + 1 - tickets.length,
+        ...(after && { cursor: { id: after }, skip: 1 }),
+      });
+
+      for (const row of rows) {
+        if (tickets.length === limit) {
+          return {
+            tickets,
+            nextCursor: encodeCursor({
+              id: tickets[tickets.length - 1].id,
+              bucket: lastBucket,
+            }),
+          };
+        }
+
+        tickets.push(row);
+        lastBucket = bucket;
+      }
+
+      bucket++;
+      after = undefined;
+    }
+
+    return {
+      tickets,
+      nextCursor: null,
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import { Prisma, Ticket, User } from "@prisma/client";
+import fs from "fs";
+import { prisma } from "../../prisma";
+import { ActivityService } from "./activity.service";
+
+export class TrashError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrashError";
+  }
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Retention can be set up to ten years
+const MAX_RETENTION_DAYS = 3650;
+
+export class TrashService {
+  /**
+   * Move a ticket to the trash. It leaves every list and count but keeps
+   * its comments and history until restored or purged.
+   */
+  static async trash(
+    ticket: Ticket,
+    user: Pick<User, "id" | "name" | "email"> | null
+  ) {
+    if (ticket.deletedAt) {
+      throw new TrashError("This ticket is already in the trash");
+    }
+
+    const deletedAt = new Date();
+
+    const updated = await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: {
+        deletedAt,
+        deletedBy: user
+          ? { id: user.id, name: user.name, email: user.email }
+          : undefined,
+      },
+    });
+
+    await ActivityService.record(ticket.id, user, [
+      { field: "deletedAt", from: null, to: deletedAt.toISOString() },
+    ]);
+
+    return updated;
+  }
+
+  /**
+   * Take a ticket out of the trash, as it was when it was deleted.
+   */
+  static async restore(ticket: Ticket, user: Pick<User, "id"> | null) {
+    if (!ticket.deletedAt) {
+      throw new TrashError("This ticket is not in the trash");
+    }
+
+    const updated = await prisma.ticket.update({
+      where: { id: ticket.id },
+      data: { deletedAt: null, deletedBy: Prisma.DbNull },
+    });
+
+    await ActivityService.record(ticket.id, user, [
+      { field: "deletedAt", from: ticket.deletedAt.toISOString(), to: null },
+    ]);
+
+    return updated;
+  }
+
+  /**
+   * Delete a ticket in the trash for good, with its comments and files.
+   */
+  static async purge(ticket: Pick<Ticket, "id" | "deletedAt">) {
+    if (!ticket.deletedAt) {
+      throw new TrashError("Move the ticket to the trash before purging it");
+    }
+
+    const files = await prisma.ticketFile.findMany({
+      where: { ticketId: ticket.id },
+      select: { path: true },
+    });
+
+    // Attachments do not cascade with their ticket
+    await prisma.$transaction([
+      prisma.ticketFile.deleteMany({ where: { ticketId: ticket.id } }),
+      prisma.ticket.delete({ where: { id: ticket.id } }),
+    ]);
+
+    for (const file of files) {
+      await fs.promises.unlink(file.path).catch((error) => {
+        if (error.code !== "ENOENT") {
+          console.error(`Failed to remove attachment ${file.path}`, error);
+        }
+      });
+    }
+  }
+
+  /**
+   * Tickets in the trash, most recently deleted first.
+   */
+  static list() {
+    return prisma.ticket.findMany({
+      where: { deletedAt: { not: null } },
+      select: {
+        id: true,
+        Number: true,
+        title: true,
+        status: true,
+        email: true,
+        createdAt: true,
+        deletedAt: true,
+        deletedBy: true,
+      },
+      orderBy: { deletedAt: "desc" },
+    });
+  }
+
+  /**
+   * Days deleted tickets are kept, 0 keeps them until purged by hand.
+   */
+  static async retention() {
+    const config = await prisma.config.findFirst({
+      select: { trash_retention_days: true },
+    });
+
+    return config?.trash_retention_days ?? 30;
+  }
+
+  static async setRetention(days: unknown) {
+    const value = Number(days);
+
+    if (!Number.isInteger(value) || value < 0 || value > MAX_RETENTION_DAYS) {
+      throw new TrashError(
+        `Retention must be a whole number of days between 0 and ${MAX_RETENTION_DAYS}`
+      );
+    }
+
+    const config = await prisma.config.findFirst();
+
+    await prisma.config.update({
+      where: { id: config!.id },
+      data: { trash_retention_days: value },
+    });
+
+    return value;
+  }
+
+  /**
+   * Purge every ticket that has been in the trash longer than the
+   * retention period.
+   */
+  static async purgeExpired() {
+    const days = await this.retention();
+
+    if (days === 0) return 0;
+
+    const expired = await prisma.ticket.findMany({
+      where: { deletedAt: { lt: new Date(Date.now() - days * DAY) } },
+      select: { id: true, deletedAt: true },
+    });
+
+    let count = 0;
+
+    // One at a time, so a ticket that fails does not hold up the others
+    for (const ticket of expired) {
+      try {
+        await this.purge(ticket);
+        count++;
+      } catch (error) {
+        console.error(`Failed to purge ticket ${ticket.id}`, error);
+      }
+    }
+
+    return count;
+  }
+}
@@ -23,4 +23,5 @@ export type EmailQueue = {
   accessToken?: string;
   expiresIn?: bigint | number;
   tls?: boolean;
+  teamId?: string | null;
 };
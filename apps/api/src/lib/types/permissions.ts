@@ -66,6 +66,66 @@ export type WebhookPermission =
   | 'webhook::update'
   | 'webhook::delete';
 
+export type SlaPermission =
+  | 'sla::create'
+  | 'sla::read'
+  | 'sla::update'
+  | 'sla::delete';
+
+export type CalendarPermission =
+  | 'calendar::create'
+  | 'calendar::read'
+  | 'calendar::update'
+  | 'calendar::delete';
+
+export type AutomationPermission =
+  | 'automation::create'
+  | 'automation::read'
+  | 'automation::update'
+  | 'automation::delete';
+
+export type SkillPermission =
+  | 'skill::create'
+  | 'skill::read'
+  | 'skill::update'
+  | 'skill::delete';
+
+export type CustomFieldPermission =
+  | 'custom_field::create'
+  | 'custom_field::read'
+  | 'custom_field::update'
+  | 'custom_field::delete';
+
+export type StatusPermission =
+  | 'status::create'
+  | 'status::read'
+  | 'status::update'
+  | 'status::delete';
+
+export type PriorityPermission =
+  | 'priority::create'
+  | 'priority::read'
+  | 'priority::update'
+  | 'priority::delete';
+
+export type TagPermission =
+  | 'tag::create'
+  | 'tag::read'
+  | 'tag::update'
+  | 'tag::delete';
+
+export type MacroPermission =
+  | 'macro::create'
+  | 'macro::read'
+  | 'macro::update'
+  | 'macro::delete';
+
+export type RecurringPermission =
+  | 'recurring::create'
+  | 'recurring::read'
+  | 'recurring::update'
+  | 'recurring::delete';
+
 export type DocumentPermission =
   | 'document::create'
   | 'document::read'
@@ -84,6 +144,16 @@ export type Permission =
   | TimeTrackingPermission
   | ViewPermission
   | WebhookPermission
+  | SlaPermission
+  | CalendarPermission
+  | AutomationPermission
+  | SkillPermission
+  | CustomFieldPermission
+  | StatusPermission
+  | PriorityPermission
+  | TagPermission
+  | MacroPermission
+  | RecurringPermission
   | DocumentPermission;
 
 // Useful type for grouping permissions by category
@@ -98,6 +168,16 @@ export const PermissionCategories = {
   TIME_TRACKING: 'Time Tracking',
   VIEW: 'Views',
   WEBHOOK: 'Webhook Management',
+  SLA: 'SLA Management',
+  CALENDAR: 'Business Hours',
+  AUTOMATION: 'Automation',
+  SKILL: 'Skills Routing',
+  CUSTOM_FIELD: 'Custom Fields',
+  STATUS: 'Workflow',
+  PRIORITY: 'Priorities',
+  TAG: 'Tags',
+  MACRO: 'Macros',
+  RECURRING: 'Recurring Tickets',
   DOCUMENT: 'Document Management',
 } as const;
 
@@ -1,6 +0,0 @@
-export enum TicketPriority {
-    LOW = "low",
-    MEDIUM = "medium",
-    HIGH = "high",
-    URGENT = "urgent",
-}
@@ -8,6 +8,12 @@ import { exec } from "child_process";
 import { track } from "./lib/hog";
 import { getEmails } from "./lib/imap";
 import { checkToken } from "./lib/jwt";
+import { AutomationService } from "./lib/services/automation.service";
+import { RecurringService } from "./lib/services/recurring.service";
+import { SchedulerService } from "./lib/services/scheduler.service";
+import { SlaService } from "./lib/services/sla.service";
+import { SnoozeService } from "./lib/services/snooze.service";
+import { TrashService } from "./lib/services/trash.service";
 import { prisma } from "./prisma";
 import { registerRoutes } from "./routes";
 
@@ -138,7 +144,22 @@ const start = async () => {
       }
     );
 
-    setInterval(() => getEmails(), 10000); // Call getEmails every minute
+    SchedulerService.register("imap", 10000, getEmails, false); // Fetch emails every 10 seconds
+    SchedulerService.register("sla", 60000, () => SlaService.check()); // Refresh SLA flags every minute
+    SchedulerService.register("automations", 60000, () =>
+      AutomationService.runScheduled()
+    ); // Evaluate time-based rules every minute
+    SchedulerService.register("snooze", 60000, () => SnoozeService.check()); // Wake snoozed tickets every minute
+    SchedulerService.register("recurring", 60000, () =>
+      RecurringService.check()
+    ); // Raise due recurring tickets every minute
+    SchedulerService.register("trash_purge", 3600000, () =>
+      TrashService.purgeExpired()
+    ); // Purge tickets past the trash retention every hour
+    SchedulerService.register("scheduler_cleanup", 3600000, () =>
+      SchedulerService.prune()
+    );
+    SchedulerService.start();
   } catch (err) {
     server.log.error(err);
     await prisma.$disconnect();
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "TicketRelationType" AS ENUM ('duplicates', 'blocks', 'relates_to', 'caused_by', 'follow_up_of');
+
+-- CreateTable
+CREATE TABLE "TicketRelation" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "type" "TicketRelationType" NOT NULL,
+    "createdBy" TEXT,
+    "ticketId" TEXT NOT NULL,
+    "relatedTicketId" TEXT NOT NULL,
+
+    CONSTRAINT "TicketRelation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketRelation_ticketId_relatedTicketId_type_key" ON "TicketRelation"("ticketId", "relatedTicketId", "type");
+
+-- AddForeignKey
+ALTER TABLE "TicketRelation" ADD CONSTRAINT "TicketRelation_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketRelation" ADD CONSTRAINT "TicketRelation_relatedTicketId_fkey" FOREIGN KEY ("relatedTicketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate tickets reopened by email ({ "previous": "<id>" }) into follow-up relations
+INSERT INTO "TicketRelation" ("id", "type", "ticketId", "relatedTicketId")
+SELECT gen_random_uuid()::text, 'follow_up_of', t."id", p."id"
+FROM "Ticket" t
+JOIN "Ticket" p ON p."id" = t."linked"->>'previous'
+WHERE jsonb_typeof(t."linked") = 'object';
+
+-- AlterTable
+ALTER TABLE "Ticket" DROP COLUMN "linked";
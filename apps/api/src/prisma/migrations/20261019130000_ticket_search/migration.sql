@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "Ticket_search_idx" ON "Ticket" USING GIN (to_tsvector('english', coalesce("title", '') || ' ' || coalesce("detail", '') || ' ' || coalesce("email", '') || ' ' || coalesce("name", '')));
+
+-- CreateIndex
+CREATE INDEX "Comment_search_idx" ON "Comment" USING GIN (to_tsvector('english', "text"));
+
+-- CreateIndex
+CREATE INDEX "Client_search_idx" ON "Client" USING GIN (to_tsvector('english', "name"));
@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "Hook" ADD VALUE 'sla_status_changed';
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN     "firstRespondedAt" TIMESTAMP(3),
+ADD COLUMN     "firstResponseDueAt" TIMESTAMP(3),
+ADD COLUMN     "resolutionDueAt" TIMESTAMP(3),
+ADD COLUMN     "resolvedAt" TIMESTAMP(3),
+ADD COLUMN     "slaAtRisk" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "slaBreached" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "slaPolicyId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SlaPolicy" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "priorities" TEXT[],
+    "types" "TicketType"[],
+    "clientIds" TEXT[],
+    "teamIds" TEXT[],
+    "firstResponseMinutes" INTEGER,
+    "resolutionMinutes" INTEGER,
+    "atRiskPercent" INTEGER NOT NULL DEFAULT 75,
+
+    CONSTRAINT "SlaPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Ticket_slaPolicyId_isComplete_idx" ON "Ticket"("slaPolicyId", "isComplete");
+
+-- AddForeignKey
+ALTER TABLE "Ticket" ADD CONSTRAINT "Ticket_slaPolicyId_fkey" FOREIGN KEY ("slaPolicyId") REFERENCES "SlaPolicy"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "AutomationTrigger" AS ENUM ('ticket_created', 'ticket_updated', 'ticket_commented');
+
+-- CreateTable
+CREATE TABLE "AutomationRule" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "trigger" "AutomationTrigger" NOT NULL,
+    "conditions" JSONB NOT NULL DEFAULT '[]',
+    "matchAll" BOOLEAN NOT NULL DEFAULT true,
+    "actions" JSONB NOT NULL DEFAULT '[]',
+    "stopProcessing" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "AutomationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AutomationRun" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "trigger" TEXT NOT NULL,
+    "matched" BOOLEAN NOT NULL,
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "depth" INTEGER NOT NULL DEFAULT 0,
+    "results" JSONB NOT NULL DEFAULT '[]',
+    "error" TEXT,
+    "ruleId" TEXT NOT NULL,
+    "ticketId" TEXT,
+
+    CONSTRAINT "AutomationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AutomationRun_ruleId_createdAt_idx" ON "AutomationRun"("ruleId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AutomationRun" ADD CONSTRAINT "AutomationRun_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "AutomationRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AutomationRun" ADD CONSTRAINT "AutomationRun_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "AutomationTrigger" ADD VALUE 'scheduled';
+
+-- AlterTable
+ALTER TABLE "AutomationRun" ADD COLUMN     "key" TEXT;
+
+-- CreateTable
+CREATE TABLE "SchedulerRun" (
+    "id" TEXT NOT NULL,
+    "job" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+
+    CONSTRAINT "SchedulerRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AutomationRun_ruleId_key_key" ON "AutomationRun"("ruleId", "key");
+
+-- CreateIndex
+CREATE INDEX "SchedulerRun_job_startedAt_idx" ON "SchedulerRun"("job", "startedAt");
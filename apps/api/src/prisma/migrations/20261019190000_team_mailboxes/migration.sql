@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "EmailQueue" DROP COLUMN "teams",
+ADD COLUMN     "teamId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "EmailQueue" ADD CONSTRAINT "EmailQueue_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;
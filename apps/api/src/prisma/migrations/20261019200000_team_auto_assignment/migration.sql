@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "AssignmentStrategy" AS ENUM ('manual', 'round_robin', 'least_open');
+
+-- AlterTable
+ALTER TABLE "Team" ADD COLUMN     "assignmentStrategy" "AssignmentStrategy" NOT NULL DEFAULT 'manual',
+ADD COLUMN     "lastAssignedId" TEXT,
+ADD COLUMN     "maxOpenTickets" INTEGER;
@@ -0,0 +1,71 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN     "emailQueueId" TEXT,
+ADD COLUMN     "routingReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "Skill" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" TEXT NOT NULL,
+
+    CONSTRAINT "Skill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UserSkill" (
+    "level" INTEGER NOT NULL DEFAULT 1,
+    "userId" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+
+    CONSTRAINT "UserSkill_pkey" PRIMARY KEY ("userId","skillId")
+);
+
+-- CreateTable
+CREATE TABLE "SkillRule" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "level" INTEGER NOT NULL DEFAULT 1,
+    "type" "TicketType",
+    "skillId" TEXT NOT NULL,
+    "clientId" TEXT,
+    "emailQueueId" TEXT,
+
+    CONSTRAINT "SkillRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TicketSkill" (
+    "level" INTEGER NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+
+    CONSTRAINT "TicketSkill_pkey" PRIMARY KEY ("ticketId","skillId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Skill_name_key" ON "Skill"("name");
+
+-- AddForeignKey
+ALTER TABLE "Ticket" ADD CONSTRAINT "Ticket_emailQueueId_fkey" FOREIGN KEY ("emailQueueId") REFERENCES "EmailQueue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserSkill" ADD CONSTRAINT "UserSkill_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserSkill" ADD CONSTRAINT "UserSkill_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SkillRule" ADD CONSTRAINT "SkillRule_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SkillRule" ADD CONSTRAINT "SkillRule_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SkillRule" ADD CONSTRAINT "SkillRule_emailQueueId_fkey" FOREIGN KEY ("emailQueueId") REFERENCES "EmailQueue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketSkill" ADD CONSTRAINT "TicketSkill_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketSkill" ADD CONSTRAINT "TicketSkill_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "CustomFieldType" AS ENUM ('text', 'number', 'select', 'multi_select', 'date', 'checkbox', 'user');
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN     "customFields" JSONB;
+
+-- CreateTable
+CREATE TABLE "CustomField" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "CustomFieldType" NOT NULL,
+    "options" TEXT[],
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "ticketTypes" "TicketType"[],
+    "portal" BOOLEAN NOT NULL DEFAULT false,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "order" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "CustomField_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomField_key_key" ON "CustomField"("key");
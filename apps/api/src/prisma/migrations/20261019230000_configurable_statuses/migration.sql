@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "StatusCategory" AS ENUM ('open', 'pending', 'solved', 'closed');
+
+-- CreateTable
+CREATE TABLE "Status" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" "StatusCategory" NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#6b7280',
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "Status_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StatusTransition" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "type" "TicketType",
+    "fromId" TEXT NOT NULL,
+    "toId" TEXT NOT NULL,
+
+    CONSTRAINT "StatusTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Status_key_key" ON "Status"("key");
+
+-- AddForeignKey
+ALTER TABLE "StatusTransition" ADD CONSTRAINT "StatusTransition_fromId_fkey" FOREIGN KEY ("fromId") REFERENCES "Status"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StatusTransition" ADD CONSTRAINT "StatusTransition_toId_fkey" FOREIGN KEY ("toId") REFERENCES "Status"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the statuses of the old enum, plus a closed status for merged tickets
+INSERT INTO "Status" ("id", "key", "name", "category", "color", "order", "isDefault") VALUES
+    (gen_random_uuid()::text, 'needs_support', 'Needs Support', 'open', '#eab308', 0, true),
+    (gen_random_uuid()::text, 'in_progress', 'In Progress', 'open', '#3b82f6', 1, false),
+    (gen_random_uuid()::text, 'in_review', 'In Review', 'open', '#a855f7', 2, false),
+    (gen_random_uuid()::text, 'hold', 'On Hold', 'pending', '#f97316', 3, false),
+    (gen_random_uuid()::text, 'done', 'Done', 'solved', '#22c55e', 4, false),
+    (gen_random_uuid()::text, 'closed', 'Closed', 'closed', '#6b7280', 5, false);
+
+-- AlterTable
+ALTER TABLE "Ticket" ALTER COLUMN "status" DROP DEFAULT,
+ALTER COLUMN "status" TYPE TEXT USING "status"::text,
+ALTER COLUMN "status" SET DEFAULT 'needs_support';
+
+-- isComplete was toggled separately from the status, so the two can
+-- disagree. isComplete is what lists and counts used, keep it and move
+-- the status to match.
+UPDATE "Ticket" SET "status" = 'done' WHERE "isComplete" = true AND "status" <> 'done';
+UPDATE "Ticket" SET "status" = 'needs_support' WHERE "isComplete" = false AND "status" = 'done';
+
+-- DropEnum
+DROP TYPE "TicketStatus";
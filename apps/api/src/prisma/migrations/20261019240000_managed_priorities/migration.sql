@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "Priority" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL DEFAULT 0,
+    "color" TEXT NOT NULL DEFAULT '#6b7280',
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "Priority_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Priority_key_key" ON "Priority"("key");
+
+-- Seed the priorities the API and clients used, low stays the default
+INSERT INTO "Priority" ("id", "key", "name", "rank", "color", "isDefault") VALUES
+    (gen_random_uuid()::text, 'low', 'Low', 1, '#22c55e', true),
+    (gen_random_uuid()::text, 'medium', 'Medium', 2, '#eab308', false),
+    (gen_random_uuid()::text, 'high', 'High', 3, '#f97316', false),
+    (gen_random_uuid()::text, 'urgent', 'Urgent', 4, '#ef4444', false);
+
+-- Priorities were free text in any case ("Low" from the portal, "normal"
+-- from the kanban). Store keys, with normal being the old name of medium.
+UPDATE "Ticket" SET "priority" = lower(trim("priority"));
+UPDATE "Ticket" SET "priority" = 'medium' WHERE "priority" = 'normal';
+UPDATE "Ticket" SET "priority" = 'low' WHERE "priority" = '';
+
+UPDATE "SlaPolicy" SET "priorities" = array_replace("priorities", 'normal', 'medium');
+
+-- Keep any other value as a priority of its own below the seeded ones, so
+-- no ticket loses its priority. Admins can rename or rank them afterwards.
+INSERT INTO "Priority" ("id", "key", "name", "rank")
+SELECT gen_random_uuid()::text, p."priority", initcap(p."priority"), 0
+FROM (SELECT DISTINCT "priority" FROM "Ticket") p
+WHERE p."priority" NOT IN (SELECT "key" FROM "Priority");
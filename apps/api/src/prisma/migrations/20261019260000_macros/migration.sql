@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "Macro" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "public" BOOLEAN NOT NULL DEFAULT false,
+    "shared" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT,
+    "priority" TEXT,
+    "assignee" TEXT,
+    "userId" TEXT,
+
+    CONSTRAINT "Macro_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MacroRun" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "undoneAt" TIMESTAMP(3),
+    "previous" JSONB NOT NULL,
+    "commentId" TEXT,
+    "macroId" TEXT,
+    "ticketId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "MacroRun_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Macro" ADD CONSTRAINT "Macro_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MacroRun" ADD CONSTRAINT "MacroRun_macroId_fkey" FOREIGN KEY ("macroId") REFERENCES "Macro"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MacroRun" ADD CONSTRAINT "MacroRun_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MacroRun" ADD CONSTRAINT "MacroRun_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
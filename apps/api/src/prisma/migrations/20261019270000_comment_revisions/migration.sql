@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN "emailed" BOOLEAN NOT NULL DEFAULT false;
+
+-- Public agent comments on tickets with a requester email were sent out
+UPDATE "Comment" c SET "emailed" = true
+FROM "Ticket" t
+WHERE c."ticketId" = t."id"
+  AND c."public" = true
+  AND c."userId" IS NOT NULL
+  AND t."email" IS NOT NULL;
+
+-- CreateTable
+CREATE TABLE "CommentRevision" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "text" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "CommentRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CommentRevision_commentId_idx" ON "CommentRevision"("commentId");
+
+-- AddForeignKey
+ALTER TABLE "CommentRevision" ADD CONSTRAINT "CommentRevision_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentRevision" ADD CONSTRAINT "CommentRevision_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Keep the single previous text of edited comments as their first revision
+INSERT INTO "CommentRevision" ("id", "createdAt", "text", "commentId", "userId")
+SELECT gen_random_uuid()::text, COALESCE("editedAt", "createdAt"), "previous", "id", "userId"
+FROM "Comment"
+WHERE "previous" IS NOT NULL;
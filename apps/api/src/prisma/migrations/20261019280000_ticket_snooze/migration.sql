@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "snoozedUntil" TIMESTAMP(3),
+ADD COLUMN "snoozeNote" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Ticket_snoozedUntil_idx" ON "Ticket"("snoozedUntil");
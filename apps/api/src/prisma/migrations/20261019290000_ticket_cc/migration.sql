@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "cc" TEXT[] DEFAULT ARRAY[]::TEXT[];
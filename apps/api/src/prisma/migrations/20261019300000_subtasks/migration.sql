@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "parentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Config" ADD COLUMN "subtasks_block_close" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Ticket_parentId_idx" ON "Ticket"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "Ticket" ADD CONSTRAINT "Ticket_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Ticket"("id") ON DELETE SET NULL ON UPDATE CASCADE;
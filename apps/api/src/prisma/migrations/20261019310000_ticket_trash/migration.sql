@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedBy" JSONB;
+
+-- AlterTable
+ALTER TABLE "Config" ADD COLUMN "trash_retention_days" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateIndex
+CREATE INDEX "Ticket_deletedAt_idx" ON "Ticket"("deletedAt");
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "RecurringTicket" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "detail" TEXT,
+    "type" "TicketType" NOT NULL DEFAULT 'maintenance',
+    "priority" TEXT NOT NULL,
+    "userId" TEXT,
+    "teamId" TEXT,
+    "rrule" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "paused" BOOLEAN NOT NULL DEFAULT false,
+    "skips" TIMESTAMP(3)[],
+    "nextRunAt" TIMESTAMP(3),
+
+    CONSTRAINT "RecurringTicket_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecurringTicketRun" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "occurrence" TIMESTAMP(3) NOT NULL,
+    "skipped" BOOLEAN NOT NULL DEFAULT false,
+    "error" TEXT,
+    "recurringId" TEXT NOT NULL,
+    "ticketId" TEXT,
+
+    CONSTRAINT "RecurringTicketRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringTicket_paused_nextRunAt_idx" ON "RecurringTicket"("paused", "nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "RecurringTicket" ADD CONSTRAINT "RecurringTicket_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTicket" ADD CONSTRAINT "RecurringTicket_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTicketRun" ADD CONSTRAINT "RecurringTicketRun_recurringId_fkey" FOREIGN KEY ("recurringId") REFERENCES "RecurringTicket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTicketRun" ADD CONSTRAINT "RecurringTicketRun_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE SET NULL ON UPDATE CASCADE;
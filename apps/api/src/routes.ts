@@ -1,12 +1,23 @@
 import { FastifyInstance } from "fastify";
 import { authRoutes } from "./controllers/auth";
+import { automationRoutes } from "./controllers/automations";
+import { calendarRoutes } from "./controllers/calendars";
 import { clientRoutes } from "./controllers/clients";
 import { configRoutes } from "./controllers/config";
+import { customFieldRoutes } from "./controllers/custom-fields";
 import { dataRoutes } from "./controllers/data";
+import { macroRoutes } from "./controllers/macros";
 import { notebookRoutes } from "./controllers/notebook";
+import { priorityRoutes } from "./controllers/priorities";
 import { emailQueueRoutes } from "./controllers/queue";
+import { recurringRoutes } from "./controllers/recurring";
 import { roleRoutes } from "./controllers/roles";
+import { skillRoutes } from "./controllers/skills";
+import { slaRoutes } from "./controllers/sla";
+import { statusRoutes } from "./controllers/statuses";
 import { objectStoreRoutes } from "./controllers/storage";
+import { tagRoutes } from "./controllers/tags";
+import { teamRoutes } from "./controllers/teams";
 import { ticketRoutes } from "./controllers/ticket";
 import { timeTrackingRoutes } from "./controllers/time";
 import { userRoutes } from "./controllers/users";
@@ -25,4 +36,15 @@ export function registerRoutes(fastify: FastifyInstance) {
   timeTrackingRoutes(fastify);
   objectStoreRoutes(fastify);
   roleRoutes(fastify);
+  slaRoutes(fastify);
+  calendarRoutes(fastify);
+  automationRoutes(fastify);
+  teamRoutes(fastify);
+  skillRoutes(fastify);
+  customFieldRoutes(fastify);
+  statusRoutes(fastify);
+  priorityRoutes(fastify);
+  tagRoutes(fastify);
+  macroRoutes(fastify);
+  recurringRoutes(fastify);
 }
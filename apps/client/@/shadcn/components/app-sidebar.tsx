@@ -16,6 +16,7 @@ import {
   SidebarRail,
   useSidebar,
 } from "@/shadcn/ui/sidebar";
+import { getCookie } from "cookies-next";
 import useTranslation from "next-translate/useTranslation";
 import { useRouter } from "next/router";
 import { useEffect, useState } from "react";
@@ -30,6 +31,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const locale = user ? user.language : "en";
 
   const [keypressdown, setKeyPressDown] = useState(false);
+  const [teams, setTeams] = useState<any[]>([]);
 
   const { t, lang } = useTranslation("peppermint");
   const sidebar = useSidebar();
@@ -94,6 +96,15 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
             url: "/issues/closed",
             initial: "f",
           },
+          {
+            title: "Snoozed",
+            url: "/issues?snoozed=only",
+          },
+          // One queue per team the user belongs to
+          ...teams.map((team) => ({
+            title: team.name,
+            url: `/issues?team=${team.id}`,
+          })),
         ],
       },
       {
@@ -152,6 +163,16 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
     }
   }
 
+  useEffect(() => {
+    fetch(`/api/v1/teams/mine`, {
+      headers: {
+        Authorization: `Bearer ${getCookie("session")}`,
+      },
+    })
+      .then((res) => res.json())
+      .then((res) => setTeams(res.teams || []));
+  }, []);
+
   useEffect(() => {
     // attach the event listener
     document.addEventListener("keydown", handleKeyPress);
@@ -31,9 +31,12 @@ import {
 import { getCookie } from "cookies-next";
 import { useEffect, useMemo, useState } from "react";
 import { useQuery } from "react-query";
+import { useDebounce } from "use-debounce";
 import { useUser } from "../../../store/session";
+import { usePriorities } from "../hooks/usePriorities";
 import { useTicketActions } from "../hooks/useTicketActions";
 import { Ticket } from "../types/tickets";
+import SearchSnippet from "./tickets/SearchSnippet";
 
 export function CommandMenu() {
   const [open, setOpen] = useState(false);
@@ -54,19 +57,45 @@ export function CommandMenu() {
     };
   }, [router]);
 
-  const { data: ticketsData, refetch } = useQuery(
-    "tickets",
+  const [debouncedSearch] = useDebounce(search, 250);
+
+  const { data: searchResults } = useQuery(
+    ["ticketSearch", debouncedSearch],
     async () => {
-      const response = await fetch("/api/v1/tickets/all", {
+      const response = await fetch("/api/v1/tickets/search", {
+        method: "POST",
         headers: {
+          "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
+        body: JSON.stringify({ query: debouncedSearch }),
       });
       const data = await response.json();
       return data.tickets;
     },
     {
-      enabled: open, // Only fetch when command menu is open
+      enabled: open && debouncedSearch.trim().length > 0,
+      keepPreviousData: true,
+    }
+  );
+
+  const currentTicketId = router.pathname.includes("/issue/")
+    ? (router.query.id as string)
+    : undefined;
+
+  const { data: currentTicket, refetch } = useQuery(
+    ["commandMenuTicket", currentTicketId],
+    async () => {
+      const response = await fetch(`/api/v1/ticket/${currentTicketId}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+      return data.ticket;
+    },
+    {
+      enabled: open && Boolean(currentTicketId),
     }
   );
 
@@ -92,6 +121,7 @@ export function CommandMenu() {
     updateTicketPriority,
     deleteTicket,
   } = useTicketActions(token, refetch);
+  const { priorities: configuredPriorities } = usePriorities();
 
   useEffect(() => {
     const down = (e: KeyboardEvent) => {
@@ -104,34 +134,27 @@ export function CommandMenu() {
     return () => document.removeEventListener("keydown", down);
   }, []);
 
-  const priorities = [
-    { label: "High", value: "high", icon: SignalHigh },
-    { label: "Medium", value: "medium", icon: SignalMedium },
-    { label: "Low", value: "low", icon: SignalLow },
-  ];
-
-  // Filter and group tickets
-  const filteredAndGroupedTickets = useMemo(() => {
-    if (!ticketsData) return null;
+  // Priorities come most urgent first, the signal follows their rank
+  const priorities = configuredPriorities.map((priority, index) => ({
+    label: priority.name,
+    value: priority.key,
+    icon:
+      index === 0
+        ? SignalHigh
+        : index === configuredPriorities.length - 1
+        ? SignalLow
+        : SignalMedium,
+  }));
 
-    const filtered = ticketsData.filter((ticket) => {
-      const searchLower = search.toLowerCase();
-      return (
-        ticket.title.toLowerCase().includes(searchLower) ||
-        ticket.id.toString().includes(searchLower) ||
-        (ticket.detail || "").toLowerCase().includes(searchLower) ||
-        (ticket.assignedTo?.name || "").toLowerCase().includes(searchLower)
-      );
-    });
+  // Results arrive ranked, grouping keeps that order
+  const groupedTickets = useMemo(() => {
+    if (!searchResults || search.trim().length === 0) return null;
 
-    // Group by status
-    const groups = {
-      open: filtered.filter(t => !t.isComplete),
-      closed: filtered.filter(t => t.isComplete),
+    return {
+      open: searchResults.filter((t) => !t.isComplete),
+      closed: searchResults.filter((t) => t.isComplete),
     };
-
-    return groups;
-  }, [ticketsData, search]);
+  }, [searchResults, search]);
 
   const getStatusIcon = (ticket: Ticket) => {
     if (ticket.isComplete) return CheckCircle2;
@@ -175,7 +198,7 @@ export function CommandMenu() {
       </Button>
       <CommandDialog open={open} onOpenChange={setOpen}>
         <CommandInput 
-          placeholder="Search tickets by title, ID, description, or assignee..." 
+          placeholder="Search tickets by title, number, description, comments, requester or client..." 
           value={search}
           onValueChange={setSearch}
         />
@@ -211,20 +234,24 @@ export function CommandMenu() {
           <CommandSeparator />
 
           {/* Enhanced Ticket Search */}
-          {filteredAndGroupedTickets && (
+          {groupedTickets && (
             <>
               {/* Open Tickets */}
-              {filteredAndGroupedTickets.open.length > 0 && (
+              {groupedTickets.open.length > 0 && (
                 <CommandGroup heading="Open Tickets">
-                  {filteredAndGroupedTickets.open.map((ticket) => (
+                  {groupedTickets.open.map((ticket) => (
                     <CommandItem
                       key={ticket.id}
+                      // Already matched by the API, keep cmdk from hiding it
+                      value={`ticket-${ticket.id}`}
+                      keywords={[search]}
                       onSelect={() => router.push(`/issue/${ticket.id}`)}
                       className="flex flex-col py-2 px-2 text-sm justify-start items-start hover:cursor-pointer"
                     >
                       <span>{ticket.title}</span>
+                      {ticket.snippet && <SearchSnippet snippet={ticket.snippet} />}
                       <span className="text-xs text-muted-foreground">
-                        #{ticket.id} • {ticket.assignedTo?.name || "Unassigned"} • {moment(ticket.createdAt).fromNow()}
+                        #{ticket.Number} • {ticket.assignedTo || "Unassigned"} • {moment(ticket.createdAt).fromNow()}
                       </span>
                     </CommandItem>
                   ))}
@@ -232,17 +259,21 @@ export function CommandMenu() {
               )}
 
               {/* Closed Tickets */}
-              {filteredAndGroupedTickets.closed.length > 0 && (
+              {groupedTickets.closed.length > 0 && (
                 <CommandGroup heading="Closed Tickets">
-                  {filteredAndGroupedTickets.closed.map((ticket) => (
+                  {groupedTickets.closed.map((ticket) => (
                     <CommandItem
                       key={ticket.id}
+                      // Already matched by the API, keep cmdk from hiding it
+                      value={`ticket-${ticket.id}`}
+                      keywords={[search]}
                       onSelect={() => router.push(`/issue/${ticket.id}`)}
                       className="flex flex-col py-2 px-2 text-sm justify-start items-start hover:cursor-pointer"
                     >
                       <span>{ticket.title}</span>
+                      {ticket.snippet && <SearchSnippet snippet={ticket.snippet} />}
                       <span className="text-xs text-muted-foreground">
-                        #{ticket.id} • {ticket.assignedTo?.name || "Unassigned"} • {moment(ticket.createdAt).fromNow()}
+                        #{ticket.Number} • {ticket.assignedTo || "Unassigned"} • {moment(ticket.createdAt).fromNow()}
                       </span>
                     </CommandItem>
                   ))}
@@ -254,20 +285,13 @@ export function CommandMenu() {
           <CommandSeparator />
 
           {/* Quick Actions for Current Ticket */}
-          {router.pathname.includes("/issue/") &&
-            router.query.id &&
-            ticketsData && (
+          {currentTicketId && currentTicket && (
               <CommandGroup heading="Ticket Actions">
                 {/* Status Toggle */}
                 <CommandItem
                   onSelect={() => {
-                    const ticket = ticketsData.find(
-                      (t: Ticket) => t.id === router.query.id
-                    );
-                    if (ticket) {
-                      updateTicketStatus(ticket);
-                      setOpen(false);
-                    }
+                    updateTicketStatus(currentTicket);
+                    setOpen(false);
                   }}
                 >
                   <Clock className="mr-2 h-4 w-4" />
@@ -279,13 +303,8 @@ export function CommandMenu() {
                   <CommandItem
                     key={priority.value}
                     onSelect={() => {
-                      const ticket = ticketsData.find(
-                        (t: Ticket) => t.id === router.query.id
-                      );
-                      if (ticket) {
-                        updateTicketPriority(ticket, priority.value);
-                        setOpen(false);
-                      }
+                      updateTicketPriority(currentTicket, priority.value);
+                      setOpen(false);
                     }}
                   >
                     <priority.icon className="mr-2 h-4 w-4" />
@@ -80,7 +80,7 @@ export function NavMain({
               </SidebarMenuButton>
               <SidebarMenuSub>
                 {item.items?.map((subItem) => (
-                  <SidebarMenuSubItem key={subItem.title}>
+                  <SidebarMenuSubItem key={subItem.url}>
                     <SidebarMenuSubButton
                       onClick={() => router.push(subItem.url)}
                       className="cursor-pointer flex flex-row items-center justify-between w-full px-0 pl-2.5 text-xs"
@@ -0,0 +1,205 @@
+import { usePriorities } from "@/shadcn/hooks/usePriorities";
+import { useStatuses } from "@/shadcn/hooks/useStatuses";
+import { useTags } from "@/shadcn/hooks/useTags";
+import { Button } from "@/shadcn/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/shadcn/ui/dropdown-menu";
+import { X } from "lucide-react";
+import { useState } from "react";
+import { Ticket } from "../../types/tickets";
+
+interface BulkActionBarProps {
+  // The selected tickets, in list order
+  tickets: Ticket[];
+  // How many tickets are loaded in the list
+  loaded: number;
+  users: any[];
+  allowDelete?: boolean;
+  onAction: (operation: string, value?: any) => Promise<void>;
+  onSelectAll: () => void;
+  onClear: () => void;
+}
+
+export default function BulkActionBar({
+  tickets,
+  loaded,
+  users,
+  allowDelete,
+  onAction,
+  onSelectAll,
+  onClear,
+}: BulkActionBarProps) {
+  const [working, setWorking] = useState(false);
+
+  const { statuses } = useStatuses();
+  const { priorities } = usePriorities();
+  const { tags } = useTags();
+
+  async function run(operation: string, value?: any) {
+    setWorking(true);
+    try {
+      await onAction(operation, value);
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  function remove() {
+    if (
+      !confirm(
+        `Delete ${tickets.length} issues? They are moved to the trash and can be restored from there.`
+      )
+    ) {
+      return;
+    }
+
+    run("delete");
+  }
+
+  return (
+    <div className="flex flex-row items-center gap-2 py-1.5 px-6 border-b-[1px] bg-muted">
+      <span className="text-xs font-semibold">{tickets.length} selected</span>
+      {tickets.length < loaded && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={onSelectAll}
+        >
+          Select all {loaded}
+        </Button>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            disabled={working}
+          >
+            {working ? "Updating..." : "Actions"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-48">
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Set status</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {statuses.map((status) => (
+                <DropdownMenuItem
+                  key={status.key}
+                  onClick={() => run("status", status.key)}
+                >
+                  {status.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Set priority</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {priorities.map((priority) => (
+                <DropdownMenuItem
+                  key={priority.key}
+                  onClick={() => run("priority", priority.key)}
+                >
+                  {priority.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Assign to</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+              <DropdownMenuItem onClick={() => run("assign", null)}>
+                Unassigned
+              </DropdownMenuItem>
+              {users.map((user) => (
+                <DropdownMenuItem
+                  key={user.id}
+                  onClick={() => run("assign", user.id)}
+                >
+                  {user.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          {tags.length > 0 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Add tag</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                {tags.map((tag) => (
+                  <DropdownMenuItem
+                    key={tag.id}
+                    onClick={() => run("tag", [tag.id])}
+                  >
+                    <span
+                      className="mr-2 h-2 w-2 rounded-full"
+                      style={{ backgroundColor: tag.color }}
+                    />
+                    {tag.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+          {tickets.length > 1 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Merge into</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                {tickets.map((ticket) => (
+                  <DropdownMenuItem
+                    key={ticket.id}
+                    onClick={() => run("merge", ticket.id)}
+                  >
+                    <span className="text-muted-foreground mr-2">
+                      #{ticket.Number}
+                    </span>
+                    <span className="truncate max-w-[200px]">
+                      {ticket.title}
+                    </span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => run("hide", true)}>
+            Hide
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => run("lock", true)}>
+            Lock
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => run("lock", false)}>
+            Unlock
+          </DropdownMenuItem>
+          {allowDelete && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="text-red-600" onClick={remove}>
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 ml-auto"
+        onClick={onClear}
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { usePriorities } from "@/shadcn/hooks/usePriorities";
+import { cn } from "@/shadcn/lib/utils";
+
+interface PriorityBadgeProps {
+  priority: string;
+  className?: string;
+}
+
+// Tinted with the admin-defined color of the priority, grey if it is gone
+export default function PriorityBadge({
+  priority,
+  className,
+}: PriorityBadgeProps) {
+  const { priority: find } = usePriorities();
+  const match = find(priority);
+  const color = match?.color || "#6b7280";
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center rounded-md px-2 py-1 text-xs font-medium",
+        className
+      )}
+      style={{ backgroundColor: `${color}1a`, color }}
+    >
+      {match?.name || priority}
+    </span>
+  );
+}
@@ -0,0 +1,22 @@
+interface SearchSnippetProps {
+  snippet: string;
+}
+
+// The search API wraps matched terms in « and »
+export default function SearchSnippet({ snippet }: SearchSnippetProps) {
+  const parts = snippet.split(/(«[^»]*»)/g).filter(Boolean);
+
+  return (
+    <span className="text-xs text-muted-foreground line-clamp-2">
+      {parts.map((part, index) =>
+        part.startsWith("«") && part.endsWith("»") ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 text-foreground rounded-sm px-0.5">
+            {part.slice(1, -1)}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,117 @@
+import { Button } from '@/shadcn/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shadcn/ui/dialog';
+import { Input } from '@/shadcn/ui/input';
+import { Label } from '@/shadcn/ui/label';
+import moment from 'moment';
+import { useEffect, useState } from 'react';
+import { Ticket } from '../../types/tickets';
+
+interface SnoozeDialogProps {
+  // The ticket being snoozed, the dialog is open while set
+  ticket: Pick<Ticket, 'Number' | 'title'> | null;
+  onClose: () => void;
+  onSnooze: (until: string, note: string) => Promise<boolean>;
+}
+
+// The format of a datetime-local input
+const INPUT_FORMAT = 'YYYY-MM-DDTHH:mm';
+
+function presets() {
+  const morning = (day: moment.Moment) =>
+    day.hour(9).minute(0).second(0).millisecond(0);
+
+  return [
+    { label: 'In 3 hours', date: moment().add(3, 'hours').startOf('minute') },
+    { label: 'Tomorrow morning', date: morning(moment().add(1, 'day')) },
+    { label: 'Next week', date: morning(moment().add(1, 'week').isoWeekday(1)) },
+  ];
+}
+
+export default function SnoozeDialog({ ticket, onClose, onSnooze }: SnoozeDialogProps) {
+  const [until, setUntil] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (ticket) {
+      setUntil(presets()[1].date.format(INPUT_FORMAT));
+      setNote('');
+    }
+  }, [ticket]);
+
+  const date = moment(until, INPUT_FORMAT);
+  const valid = date.isValid() && date.isAfter(moment());
+
+  async function save() {
+    setSaving(true);
+    try {
+      if (await onSnooze(date.toISOString(), note)) onClose();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={!!ticket} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Snooze #{ticket?.Number}</DialogTitle>
+          <DialogDescription>
+            The issue waits on hold, out of the open queues, and comes back to
+            its assignee at the chosen time.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {presets().map((preset) => (
+              <Button
+                key={preset.label}
+                size="sm"
+                variant={
+                  until === preset.date.format(INPUT_FORMAT) ? 'default' : 'outline'
+                }
+                onClick={() => setUntil(preset.date.format(INPUT_FORMAT))}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="snooze-until">Wake up</Label>
+            <Input
+              id="snooze-until"
+              type="datetime-local"
+              min={moment().format(INPUT_FORMAT)}
+              value={until}
+              onChange={(e) => setUntil(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="snooze-note">Note</Label>
+            <Input
+              id="snooze-note"
+              placeholder="Optional, e.g. waiting for the customer's logs"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button size="sm" disabled={!valid || saving} onClick={save}>
+            Snooze
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,43 +1,61 @@
 import { cn } from "@/shadcn/lib/utils";
 import { Button } from "@/shadcn/ui/button";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/shadcn/ui/command";
+import { Input } from "@/shadcn/ui/input";
 import { Popover, PopoverContent, PopoverTrigger } from "@/shadcn/ui/popover";
 import { CheckIcon, Filter } from "lucide-react";
 import { useState } from "react";
+import { usePriorities } from "@/shadcn/hooks/usePriorities";
+import { useTags } from "@/shadcn/hooks/useTags";
 import FilterBadge from "./FilterBadge";
 
 interface TicketFiltersProps {
   selectedPriorities: string[];
   selectedStatuses: string[];
   selectedAssignees: string[];
+  selectedTags: string[];
   users: any[];
   onPriorityToggle: (priority: string) => void;
   onStatusToggle: (status: string) => void;
   onAssigneeToggle: (assignee: string) => void;
+  onTagToggle: (tag: string) => void;
   onClearFilters: () => void;
+  search?: string;
+  onSearchChange?: (search: string) => void;
 }
 
-type FilterType = "priority" | "status" | "assignee" | null;
+type FilterType = "priority" | "status" | "assignee" | "tag" | null;
 
 export default function TicketFilters({
   selectedPriorities,
   selectedStatuses,
   selectedAssignees,
+  selectedTags,
   users,
   onPriorityToggle,
   onStatusToggle,
   onAssigneeToggle,
+  onTagToggle,
   onClearFilters,
+  search,
+  onSearchChange,
 }: TicketFiltersProps) {
   const [activeFilter, setActiveFilter] = useState<FilterType>(null);
   const [filterSearch, setFilterSearch] = useState("");
 
-  const priorities = ["low", "normal", "high"];
+  const { priorities: configured, priorityName } = usePriorities();
+  const { tags: configuredTags, tag: findTag } = useTags();
+
+  const priorities = configured.map((p) => p.key);
   const statuses = ["open", "closed"];
   const assignees = ["Unassigned", ...users.map(u => u.name)];
+  const tags = ["none", ...configuredTags.map((t) => t.id)];
+
+  const tagName = (tag: string) =>
+    tag === "none" ? "No tags" : findTag(tag)?.name || tag;
 
   const filteredPriorities = priorities.filter((priority) =>
-    priority.toLowerCase().includes(filterSearch.toLowerCase())
+    priorityName(priority).toLowerCase().includes(filterSearch.toLowerCase())
   );
 
   const filteredStatuses = statuses.filter((status) =>
@@ -48,6 +66,10 @@ export default function TicketFilters({
     assignee.toLowerCase().includes(filterSearch.toLowerCase())
   );
 
+  const filteredTags = tags.filter((tag) =>
+    tagName(tag).toLowerCase().includes(filterSearch.toLowerCase())
+  );
+
   return (
     <div className="flex flex-row items-center gap-2">
       <Popover>
@@ -77,6 +99,9 @@ export default function TicketFilters({
                   <CommandItem onSelect={() => setActiveFilter("assignee")}>
                     Assignee
                   </CommandItem>
+                  <CommandItem onSelect={() => setActiveFilter("tag")}>
+                    Tag
+                  </CommandItem>
                 </CommandGroup>
               </CommandList>
             </Command>
@@ -110,7 +135,7 @@ export default function TicketFilters({
                         >
                           <CheckIcon className={cn("h-4 w-4")} />
                         </div>
-                        <span className="capitalize">{priority}</span>
+                        <span>{priorityName(priority)}</span>
                       </CommandItem>
                     ))}
 
@@ -161,6 +186,36 @@ export default function TicketFilters({
                         {assignee}
                       </CommandItem>
                     ))}
+
+                  {activeFilter === "tag" &&
+                    filteredTags.map((tag) => (
+                      <CommandItem
+                        key={tag}
+                        onSelect={() => {
+                          onTagToggle(tag);
+                          setActiveFilter(null);
+                          setFilterSearch("");
+                        }}
+                      >
+                        <div
+                          className={cn(
+                            "mr-2 flex h-4 w-4 items-center justify-center rounded-sm border border-primary",
+                            selectedTags.includes(tag)
+                              ? "bg-primary text-primary-foreground"
+                              : "opacity-50 [&_svg]:invisible"
+                          )}
+                        >
+                          <CheckIcon className={cn("h-4 w-4")} />
+                        </div>
+                        {tag !== "none" && (
+                          <span
+                            className="mr-2 h-2 w-2 rounded-full"
+                            style={{ backgroundColor: findTag(tag)?.color }}
+                          />
+                        )}
+                        {tagName(tag)}
+                      </CommandItem>
+                    ))}
                 </CommandGroup>
               </CommandList>
             </Command>
@@ -168,11 +223,20 @@ export default function TicketFilters({
         </PopoverContent>
       </Popover>
 
+      {onSearchChange && (
+        <Input
+          value={search}
+          onChange={(e) => onSearchChange(e.target.value)}
+          placeholder="Search issues..."
+          className="h-6 w-48 text-xs"
+        />
+      )}
+
       <div className="flex flex-wrap gap-2">
         {selectedPriorities.map((priority) => (
           <FilterBadge
             key={`priority-${priority}`}
-            text={`Priority: ${priority}`}
+            text={`Priority: ${priorityName(priority)}`}
             onRemove={() => onPriorityToggle(priority)}
           />
         ))}
@@ -193,9 +257,18 @@ export default function TicketFilters({
           />
         ))}
 
+        {selectedTags.map((tag) => (
+          <FilterBadge
+            key={`tag-${tag}`}
+            text={`Tag: ${tagName(tag)}`}
+            onRemove={() => onTagToggle(tag)}
+          />
+        ))}
+
         {(selectedPriorities.length > 0 ||
           selectedStatuses.length > 0 ||
-          selectedAssignees.length > 0) && (
+          selectedAssignees.length > 0 ||
+          selectedTags.length > 0) && (
           <Button
             variant="ghost"
             size="sm"
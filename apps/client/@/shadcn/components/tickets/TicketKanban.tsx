@@ -1,14 +1,23 @@
 import { draggable } from '@atlaskit/pragmatic-drag-and-drop/element/adapter';
+import { Button } from '@/shadcn/ui/button';
+import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from '@/shadcn/ui/context-menu';
 import moment from 'moment';
 import Link from 'next/link';
-import { KanbanColumn, UISettings } from '../../types/tickets';
+import { AlarmClock, CornerDownRight, ListChecks } from 'lucide-react';
+import { KanbanColumn, Ticket, UISettings } from '../../types/tickets';
+import PriorityBadge from './PriorityBadge';
 
 interface TicketKanbanProps {
   columns: KanbanColumn[];
   uiSettings: UISettings;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  onSnooze?: (ticket: Ticket) => void;
+  onWake?: (ticket: Ticket) => void;
 }
 
-export default function TicketKanban({ columns, uiSettings }: TicketKanbanProps) {
+export default function TicketKanban({ columns, uiSettings, hasMore, loadingMore, onLoadMore, onSnooze, onWake }: TicketKanbanProps) {
   return (
     <div className="flex-1 min-w-0 overflow-x-auto [&::-webkit-scrollbar]:hidden [-ms-overflow-style:none] [scrollbar-width:none]">
       <div className="flex gap-4 p-4 min-w-fit max-w-[calc(100vw-2rem)]">
@@ -19,7 +28,10 @@ export default function TicketKanban({ columns, uiSettings }: TicketKanbanProps)
           >
             <div className="p-3 border-b dark:border-gray-700 flex-shrink-0">
               <div className="flex items-center gap-2">
-                <div className={`h-2 w-2 rounded-full ${column.color}`} />
+                <div
+                  className="h-2 w-2 rounded-full"
+                  style={{ backgroundColor: column.color }}
+                />
                 <span className="font-medium text-sm truncate">{column.title}</span>
                 <span className="text-gray-500 text-xs flex-shrink-0">
                   ({column.tickets.length})
@@ -28,8 +40,9 @@ export default function TicketKanban({ columns, uiSettings }: TicketKanbanProps)
             </div>
             <div className="p-2 pb-4 space-y-2 overflow-y-auto flex-grow [&::-webkit-scrollbar]:hidden [-ms-overflow-style:none] [scrollbar-width:none]">
               {column.tickets.map((ticket) => (
+                <ContextMenu key={ticket.id}>
+                <ContextMenuTrigger asChild>
                 <div
-                  key={ticket.id}
                   ref={(element) => {
                     if (!element) return;
                     draggable({
@@ -61,6 +74,18 @@ export default function TicketKanban({ columns, uiSettings }: TicketKanbanProps)
                         </span>
                       )}
                     </div>
+
+                    {ticket.parent && (
+                      <Link
+                        href={`/issue/${ticket.parent.id}`}
+                        className="flex items-center gap-1 text-xs text-gray-500 hover:underline min-w-0"
+                      >
+                        <CornerDownRight className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">
+                          #{ticket.parent.Number} {ticket.parent.title}
+                        </span>
+                      </Link>
+                    )}
                     
                     <div className="flex flex-wrap gap-2 mt-1">
                       {uiSettings.showDates && (
@@ -76,22 +101,62 @@ export default function TicketKanban({ columns, uiSettings }: TicketKanbanProps)
                       )}
                       
                       {uiSettings.showPriority && (
-                        <span className={`inline-flex items-center rounded-md px-2 py-1 text-xs font-medium capitalize flex-shrink-0
-                          ${ticket.priority.toLowerCase() === 'high' ? 'bg-red-100 text-red-800' : 
-                            ticket.priority.toLowerCase() === 'normal' ? 'bg-green-100 text-green-800' : 
-                            'bg-blue-100 text-blue-800'}`}
+                        <PriorityBadge
+                          priority={ticket.priority}
+                          className="flex-shrink-0"
+                        />
+                      )}
+
+                      {ticket.subtaskRollup && (
+                        <span
+                          className="inline-flex items-center gap-1 text-xs text-gray-500 flex-shrink-0"
+                          title="Subtasks done"
+                        >
+                          <ListChecks className="h-3 w-3" />
+                          {ticket.subtaskRollup.done}/{ticket.subtaskRollup.total}
+                        </span>
+                      )}
+
+                      {ticket.snoozedUntil && (
+                        <span
+                          className="inline-flex items-center gap-1 text-xs text-gray-500 flex-shrink-0"
+                          title={ticket.snoozeNote || undefined}
                         >
-                          {ticket.priority}
+                          <AlarmClock className="h-3 w-3" />
+                          {moment(ticket.snoozedUntil).calendar()}
                         </span>
                       )}
                     </div>
                   </div>
                 </div>
+                </ContextMenuTrigger>
+                <ContextMenuContent>
+                  {ticket.snoozedUntil ? (
+                    <ContextMenuItem disabled={!onWake} onClick={() => onWake?.(ticket)}>
+                      Wake up now
+                    </ContextMenuItem>
+                  ) : (
+                    <ContextMenuItem
+                      disabled={!onSnooze || ticket.isComplete}
+                      onClick={() => onSnooze?.(ticket)}
+                    >
+                      Snooze...
+                    </ContextMenuItem>
+                  )}
+                </ContextMenuContent>
+                </ContextMenu>
               ))}
             </div>
           </div>
         ))}
       </div>
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center pb-4">
+          <Button variant="ghost" size="sm" disabled={loadingMore} onClick={onLoadMore}>
+            {loadingMore ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
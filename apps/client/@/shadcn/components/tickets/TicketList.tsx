@@ -1,7 +1,9 @@
+import { Button } from '@/shadcn/ui/button';
 import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuSeparator, ContextMenuTrigger } from '@/shadcn/ui/context-menu';
 import moment from 'moment';
 import Link from 'next/link';
 import { Ticket, UISettings } from '../../types/tickets';
+import PriorityBadge from './PriorityBadge';
 
 interface TicketListProps {
   tickets: Ticket[];
@@ -9,9 +11,17 @@ interface TicketListProps {
   onAssigneeChange: (ticketId: string, userId?: string) => void;
   onPriorityChange: (ticket: Ticket, priority: string) => void;
   onDelete?: (ticketId: string) => void;
+  onSnooze?: (ticket: Ticket) => void;
+  onWake?: (ticket: Ticket) => void;
   users: any[];
   currentUser: any;
   uiSettings: UISettings;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Ticket ids checked for bulk actions
+  selected?: string[];
+  onSelect?: (ticketId: string) => void;
 }
 
 export default function TicketList({
@@ -20,32 +30,66 @@ export default function TicketList({
   onAssigneeChange,
   onPriorityChange,
   onDelete,
+  onSnooze,
+  onWake,
   users,
   currentUser,
-  uiSettings
+  uiSettings,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  selected,
+  onSelect
 }: TicketListProps) {
-  const high = "bg-red-100 text-red-800";
-  const low = "bg-blue-100 text-blue-800";
-  const normal = "bg-green-100 text-green-800";
-
   return (
     <div className="flex-1 overflow-y-auto">
       {tickets.map((ticket) => {
-        let p = ticket.priority;
-        let badge = p === "Low" ? low : p === "Normal" ? normal : high;
-
         return (
           <ContextMenu key={ticket.id}>
             <ContextMenuTrigger>
               <Link href={`/issue/${ticket.id}`}>
                 <div className="flex flex-row w-full bg-white dark:bg-[#0A090C] dark:hover:bg-green-600 border-b-[1px] p-1.5 justify-between px-6 hover:bg-gray-100">
                   <div className="flex flex-row items-center space-x-4">
+                    {onSelect && (
+                      <input
+                        type="checkbox"
+                        className="h-3.5 w-3.5"
+                        checked={selected?.includes(ticket.id) ?? false}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={() => onSelect(ticket.id)}
+                      />
+                    )}
                     {uiSettings.showTicketNumbers && (
                       <span className="text-xs font-semibold">#{ticket.Number}</span>
                     )}
                     <span className="text-xs font-semibold">{ticket.title}</span>
+                    {ticket.parent && (
+                      <span className="text-xs text-muted-foreground" title={ticket.parent.title}>
+                        Subtask of #{ticket.parent.Number}
+                      </span>
+                    )}
                   </div>
                   <div className="flex flex-row space-x-3 items-center">
+                    {ticket.subtaskRollup && (
+                      <span className="text-xs text-muted-foreground">
+                        {ticket.subtaskRollup.done}/{ticket.subtaskRollup.total} subtasks
+                      </span>
+                    )}
+                    {ticket.snoozedUntil && (
+                      <span className="text-xs text-muted-foreground" title={ticket.snoozeNote || undefined}>
+                        Snoozed until {moment(ticket.snoozedUntil).calendar()}
+                      </span>
+                    )}
+                    {!ticket.isComplete && ticket.slaBreached && (
+                      <span className="inline-flex items-center rounded-md px-2 py-1 text-xs font-medium ring-1 ring-inset ring-red-600/20 bg-red-50 text-red-700">
+                        SLA breached
+                      </span>
+                    )}
+                    {!ticket.isComplete && !ticket.slaBreached && ticket.slaAtRisk && (
+                      <span className="inline-flex items-center rounded-md px-2 py-1 text-xs font-medium ring-1 ring-inset ring-yellow-600/20 bg-yellow-50 text-yellow-800">
+                        SLA at risk
+                      </span>
+                    )}
                     {uiSettings.showDates && (
                       <span className="text-xs">
                         {moment(ticket.createdAt).format("DD/MM/yyyy")}
@@ -57,9 +101,7 @@ export default function TicketList({
                       </span>
                     )}
                     {uiSettings.showPriority && (
-                      <span className={`inline-flex items-center rounded-md px-2 py-1 capitalize justify-center w-20 text-xs font-medium ring-1 ring-inset ring-gray-500/10 ${badge}`}>
-                        {ticket.priority}
-                      </span>
+                      <PriorityBadge priority={ticket.priority} className="justify-center w-20" />
                     )}
                     {uiSettings.showAvatars && ticket.assignedTo && (
                       <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-gray-500">
@@ -76,11 +118,30 @@ export default function TicketList({
               <ContextMenuItem onClick={() => onStatusChange(ticket)}>
                 {ticket.isComplete ? "Re-open Issue" : "Close Issue"}
               </ContextMenuItem>
+              {ticket.snoozedUntil ? (
+                <ContextMenuItem disabled={!onWake} onClick={() => onWake?.(ticket)}>
+                  Wake up now
+                </ContextMenuItem>
+              ) : (
+                <ContextMenuItem
+                  disabled={!onSnooze || ticket.isComplete}
+                  onClick={() => onSnooze?.(ticket)}
+                >
+                  Snooze...
+                </ContextMenuItem>
+              )}
               <ContextMenuSeparator />
             </ContextMenuContent>
           </ContextMenu>
         );
       })}
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center py-3">
+          <Button variant="ghost" size="sm" disabled={loadingMore} onClick={onLoadMore}>
+            {loadingMore ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { Macro } from '@/shadcn/types/tickets';
+import { getCookie } from 'cookies-next';
+import { useQuery } from 'react-query';
+
+async function fetchMacros(): Promise<{ macros: Macro[] }> {
+  const res = await fetch(`/api/v1/macros/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie('session')}`,
+    },
+  });
+  return res.json();
+}
+
+// The shared macros and the agent's own ones, sorted by name
+export function useMacros() {
+  const { data, refetch } = useQuery('macros', fetchMacros, {
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    macros: data?.macros || [],
+    refetch,
+  };
+}
@@ -0,0 +1,31 @@
+import { TicketPriority } from '@/shadcn/types/tickets';
+import { getCookie } from 'cookies-next';
+import { useQuery } from 'react-query';
+
+async function fetchPriorities(): Promise<{ priorities: TicketPriority[] }> {
+  const res = await fetch(`/api/v1/priorities/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie('session')}`,
+    },
+  });
+  return res.json();
+}
+
+// Priorities are admin-defined and come most urgent first, look up their
+// names and colors by key
+export function usePriorities() {
+  const { data } = useQuery('priorities', fetchPriorities, {
+    staleTime: 60 * 1000,
+  });
+
+  const priorities = data?.priorities || [];
+
+  const priority = (key?: string) =>
+    key ? priorities.find((p) => p.key === key.toLowerCase()) : undefined;
+
+  return {
+    priorities,
+    priority,
+    priorityName: (key: string) => priority(key)?.name || key,
+  };
+}
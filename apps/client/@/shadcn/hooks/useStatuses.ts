@@ -0,0 +1,27 @@
+import { TicketStatus } from '@/shadcn/types/tickets';
+import { getCookie } from 'cookies-next';
+import { useQuery } from 'react-query';
+
+async function fetchStatuses(): Promise<{ statuses: TicketStatus[] }> {
+  const res = await fetch(`/api/v1/statuses/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie('session')}`,
+    },
+  });
+  return res.json();
+}
+
+// Statuses are admin-defined, look up their names and colors by key
+export function useStatuses() {
+  const { data } = useQuery('statuses', fetchStatuses, {
+    staleTime: 60 * 1000,
+  });
+
+  const statuses = data?.statuses || [];
+
+  return {
+    statuses,
+    statusName: (key: string) =>
+      statuses.find((s) => s.key === key)?.name || key.replace(/_/g, ' '),
+  };
+}
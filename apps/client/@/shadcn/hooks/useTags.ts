@@ -0,0 +1,30 @@
+import { Tag } from '@/shadcn/types/tickets';
+import { getCookie } from 'cookies-next';
+import { useQuery } from 'react-query';
+
+async function fetchTags(): Promise<{ tags: Tag[] }> {
+  const res = await fetch(`/api/v1/tags/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie('session')}`,
+    },
+  });
+  return res.json();
+}
+
+// Tags are shared by tickets, rules and knowledge base articles, look them
+// up by id or name
+export function useTags() {
+  const { data, refetch } = useQuery('tags', fetchTags, {
+    staleTime: 60 * 1000,
+  });
+
+  const tags = data?.tags || [];
+
+  return {
+    tags,
+    refetch,
+    tag: (id: string) => tags.find((t) => t.id === id),
+    tagByName: (name: string) =>
+      tags.find((t) => t.name.toLowerCase() === name.toLowerCase()),
+  };
+}
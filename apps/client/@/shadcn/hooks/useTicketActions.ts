@@ -1,4 +1,5 @@
 import { Ticket } from '@/shadcn/types/tickets';
+import moment from 'moment';
 import { toast } from "../hooks/use-toast";
 
 export function useTicketActions(token: string, refetch: () => void) {
@@ -115,7 +116,7 @@ export function useTicketActions(token: string, refetch: () => void) {
 
       toast({
         title: "Ticket deleted",
-        description: "The ticket has been deleted successfully",
+        description: "The ticket has been moved to the trash",
         duration: 3000,
       });
       refetch();
@@ -129,10 +130,103 @@ export function useTicketActions(token: string, refetch: () => void) {
     }
   };
 
+  // Snooze a ticket until a date, or wake it now without `until`
+  const snoozeTicket = async (
+    ticketId: string,
+    until?: string,
+    note?: string
+  ): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/v1/ticket/${ticketId}/snooze`, {
+        method: until ? "POST" : "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: until ? JSON.stringify({ until, note }) : undefined,
+      });
+
+      const res = await response.json();
+
+      if (!res.success) throw new Error(res.message);
+
+      toast({
+        title: until ? "Issue snoozed" : "Issue woken up",
+        description: until
+          ? `It comes back ${moment(until).calendar()}`
+          : "The issue is back in the queue",
+        duration: 3000,
+      });
+      refetch();
+      return true;
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to snooze issue",
+        variant: "destructive",
+        duration: 3000,
+      });
+      return false;
+    }
+  };
+
+  // Apply one operation to many tickets, some may fail while the rest go
+  // through. Returns the ids that failed.
+  const bulkUpdate = async (
+    ids: string[],
+    operation: string,
+    value?: any
+  ): Promise<string[]> => {
+    try {
+      const response = await fetch(`/api/v1/tickets/bulk`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ ids, operation, value }),
+      });
+
+      const res = await response.json();
+
+      if (!res.results) throw new Error(res.message || "Bulk update failed");
+
+      const failed = res.results.filter((result: any) => !result.success);
+
+      if (failed.length === 0) {
+        toast({
+          title: "Issues updated",
+          description: `${res.succeeded} issues updated`,
+          duration: 3000,
+        });
+      } else {
+        toast({
+          title: `${failed.length} of ${res.results.length} issues not updated`,
+          description: failed[0].message,
+          variant: "destructive",
+          duration: 5000,
+        });
+      }
+
+      refetch();
+      return failed.map((result: any) => result.id);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Bulk update failed",
+        variant: "destructive",
+        duration: 3000,
+      });
+      return ids;
+    }
+  };
+
   return {
     updateTicketStatus,
     updateTicketAssignee,
     updateTicketPriority,
-    deleteTicket
+    deleteTicket,
+    snoozeTicket,
+    bulkUpdate
   };
 }
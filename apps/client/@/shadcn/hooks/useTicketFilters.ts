@@ -1,7 +1,8 @@
-import { Ticket } from '@/shadcn/types/tickets';
 import { useEffect, useState } from 'react';
+import { useDebounce } from 'use-debounce';
+import { TicketQueryParams } from './useTicketQuery';
 
-export function useTicketFilters(tickets: Ticket[] = []) {
+export function useTicketFilters(users: any[] = []) {
   const [selectedPriorities, setSelectedPriorities] = useState<string[]>(() => {
     const saved = localStorage.getItem("all_selectedPriorities");
     return saved ? JSON.parse(saved) : [];
@@ -17,11 +18,18 @@ export function useTicketFilters(tickets: Ticket[] = []) {
     return saved ? JSON.parse(saved) : [];
   });
 
+  // Tag ids, "none" for tickets without tags
+  const [selectedTags, setSelectedTags] = useState<string[]>(() => {
+    const saved = localStorage.getItem("all_selectedTags");
+    return saved ? JSON.parse(saved) : [];
+  });
+
   useEffect(() => {
     localStorage.setItem("all_selectedPriorities", JSON.stringify(selectedPriorities));
     localStorage.setItem("all_selectedStatuses", JSON.stringify(selectedStatuses));
     localStorage.setItem("all_selectedAssignees", JSON.stringify(selectedAssignees));
-  }, [selectedPriorities, selectedStatuses, selectedAssignees]);
+    localStorage.setItem("all_selectedTags", JSON.stringify(selectedTags));
+  }, [selectedPriorities, selectedStatuses, selectedAssignees, selectedTags]);
 
   const handlePriorityToggle = (priority: string) => {
     setSelectedPriorities((prev) =>
@@ -47,34 +55,49 @@ export function useTicketFilters(tickets: Ticket[] = []) {
     );
   };
 
+  const handleTagToggle = (tag: string) => {
+    setSelectedTags((prev) =>
+      prev.includes(tag)
+        ? prev.filter((t) => t !== tag)
+        : [...prev, tag]
+    );
+  };
+
   const clearFilters = () => {
     setSelectedPriorities([]);
     setSelectedStatuses([]);
     setSelectedAssignees([]);
+    setSelectedTags([]);
   };
 
-  const filteredTickets = tickets.filter((ticket) => {
-    const priorityMatch =
-      selectedPriorities.length === 0 ||
-      selectedPriorities.includes(ticket.priority);
-    const statusMatch =
-      selectedStatuses.length === 0 ||
-      selectedStatuses.includes(ticket.isComplete ? "closed" : "open");
-    const assigneeMatch =
-      selectedAssignees.length === 0 ||
-      selectedAssignees.includes(ticket.assignedTo?.name || "Unassigned");
+  const [search, setSearch] = useState('');
+  const [debouncedSearch] = useDebounce(search, 300);
 
-    return priorityMatch && statusMatch && assigneeMatch;
-  });
+  // Filters are kept by name in local storage, the API expects ids
+  const params: TicketQueryParams = {
+    state: selectedStatuses.length === 1 ? (selectedStatuses[0] as 'open' | 'closed') : undefined,
+    priority: selectedPriorities,
+    assignee: selectedAssignees
+      .map((name) =>
+        name === 'Unassigned' ? 'unassigned' : users.find((u) => u.name === name)?.id
+      )
+      .filter(Boolean),
+    tag: selectedTags,
+    q: debouncedSearch || undefined,
+  };
 
   return {
     selectedPriorities,
     selectedStatuses,
     selectedAssignees,
+    selectedTags,
     handlePriorityToggle,
     handleStatusToggle,
     handleAssigneeToggle,
+    handleTagToggle,
     clearFilters,
-    filteredTickets
+    search,
+    setSearch,
+    params
   };
 }
@@ -0,0 +1,84 @@
+import { SortOption, Ticket } from '@/shadcn/types/tickets';
+import { useInfiniteQuery } from 'react-query';
+
+export type TicketQueryParams = {
+  state?: 'open' | 'closed';
+  status?: string[];
+  category?: string[];
+  priority?: string[];
+  type?: string[];
+  assignee?: string[];
+  team?: string[];
+  client?: string[];
+  tag?: string[];
+  snoozed?: 'only' | 'all';
+  createdFrom?: string;
+  createdTo?: string;
+  q?: string;
+  sort?: SortOption | 'relevance';
+  limit?: number;
+};
+
+type TicketPage = {
+  tickets: Ticket[];
+  nextCursor: string | null;
+  total: number;
+  // The search hit its cap, the total only counts the best matches
+  truncated?: boolean;
+};
+
+export function buildTicketQuery(params: TicketQueryParams, cursor?: string) {
+  const search = new URLSearchParams();
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+
+    if (Array.isArray(value)) {
+      if (value.length > 0) search.set(key, value.join(','));
+    } else {
+      search.set(key, String(value));
+    }
+  });
+
+  if (cursor) search.set('cursor', cursor);
+
+  return search.toString();
+}
+
+async function fetchTicketPage(
+  token: string,
+  params: TicketQueryParams,
+  cursor?: string
+): Promise<TicketPage> {
+  const res = await fetch(`/api/v1/tickets?${buildTicketQuery(params, cursor)}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+  return res.json();
+}
+
+export function useTicketQuery(key: string, token: string, params: TicketQueryParams) {
+  const query = useInfiniteQuery(
+    [key, params],
+    ({ pageParam }) => fetchTicketPage(token, params, pageParam),
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+      keepPreviousData: true,
+      refetchInterval: 5000,
+    }
+  );
+
+  const pages = query.data?.pages || [];
+
+  return {
+    tickets: pages.flatMap((page) => page.tickets || []),
+    total: pages.length > 0 ? pages[pages.length - 1].total : 0,
+    truncated: pages.length > 0 && !!pages[pages.length - 1].truncated,
+    status: query.status,
+    refetch: query.refetch,
+    fetchNextPage: query.fetchNextPage,
+    hasNextPage: Boolean(query.hasNextPage),
+    isFetchingNextPage: query.isFetchingNextPage,
+  };
+}
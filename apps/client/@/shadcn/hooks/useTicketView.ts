@@ -1,7 +1,7 @@
-import { KanbanGrouping, SortOption, Ticket, UISettings, ViewMode } from '@/shadcn/types/tickets';
+import { KanbanColumn, KanbanGrouping, SortOption, Ticket, TicketPriority, TicketStatus, UISettings, ViewMode } from '@/shadcn/types/tickets';
 import { useEffect, useState } from 'react';
 
-export function useTicketView(tickets: Ticket[] = []) {
+export function useTicketView() {
   const [viewMode, setViewMode] = useState<ViewMode>(() => {
     const saved = localStorage.getItem("preferred_view_mode");
     return (saved as ViewMode) || 'list';
@@ -42,107 +42,6 @@ export function useTicketView(tickets: Ticket[] = []) {
     }));
   };
 
-  const sortedTickets = [...tickets].sort((a, b) => {
-    switch (sortBy) {
-      case 'newest':
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-      case 'oldest':
-        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-      case 'priority':
-        const priorityOrder = { high: 0, normal: 1, low: 2 };
-        return priorityOrder[a.priority.toLowerCase()] - priorityOrder[b.priority.toLowerCase()];
-      case 'title':
-        return a.title.localeCompare(b.title);
-      default:
-        return 0;
-    }
-  });
-
-  const kanbanColumns = (() => {
-    switch (kanbanGrouping) {
-      case 'status':
-        return [
-          {
-            id: 'needs_support',
-            title: 'Needs Support',
-            color: 'bg-yellow-500',
-            tickets: sortedTickets.filter(t => t.status === 'needs_support'),
-          },
-          {
-            id: 'in_progress',
-            title: 'In Progress',
-            color: 'bg-blue-500',
-            tickets: sortedTickets.filter(t => t.status === 'in_progress'),
-          },
-          {
-            id: 'in_review',
-            title: 'In Review',
-            color: 'bg-purple-500',
-            tickets: sortedTickets.filter(t => t.status === 'in_review'),
-          },
-          {
-            id: 'hold',
-            title: 'On Hold',
-            color: 'bg-orange-500',
-            tickets: sortedTickets.filter(t => t.status === 'hold'),
-          },
-          {
-            id: 'done',
-            title: 'Done',
-            color: 'bg-green-500',
-            tickets: sortedTickets.filter(t => t.status === 'done'),
-          },
-        ];
-      case 'priority':
-        return [
-          {
-            id: 'high',
-            title: 'High',
-            color: 'bg-red-500',
-            tickets: sortedTickets.filter(t => t.priority.toLowerCase() === 'high'),
-          },
-          {
-            id: 'normal',
-            title: 'Normal',
-            color: 'bg-green-500',
-            tickets: sortedTickets.filter(t => t.priority.toLowerCase() === 'normal'),
-          },
-          {
-            id: 'low',
-            title: 'Low',
-            color: 'bg-blue-500',
-            tickets: sortedTickets.filter(t => t.priority.toLowerCase() === 'low'),
-          },
-        ];
-      case 'type':
-        return [
-          {
-            id: 'bug',
-            title: 'Bug',
-            color: 'bg-red-500',
-            tickets: sortedTickets.filter(t => t.type === 'bug'),
-          },
-          {
-            id: 'feature',
-            title: 'Feature',
-            color: 'bg-blue-500',
-            tickets: sortedTickets.filter(t => t.type === 'feature'),
-          },
-          // Add other type columns as needed
-        ];
-      case 'assignee':
-        const assignees = Array.from(new Set(sortedTickets.map(t => t.assignedTo?.name || 'Unassigned')));
-        return assignees.map(assignee => ({
-          id: assignee.toLowerCase(),
-          title: assignee,
-          color: 'bg-teal-500',
-          tickets: sortedTickets.filter(t => (t.assignedTo?.name || 'Unassigned') === assignee),
-        }));
-      default:
-        return [];
-    }
-  })();
-
   return {
     viewMode,
     kanbanGrouping,
@@ -150,9 +49,60 @@ export function useTicketView(tickets: Ticket[] = []) {
     setViewMode,
     setKanbanGrouping,
     setSortBy,
-    sortedTickets,
-    kanbanColumns,
     uiSettings,
     handleUISettingChange,
   };
 }
+
+// Tickets arrive already sorted by the API, columns keep that order.
+// Status and priority columns follow the admin-defined statuses and
+// priorities.
+export function getKanbanColumns(
+  tickets: Ticket[],
+  kanbanGrouping: KanbanGrouping,
+  statuses: TicketStatus[] = [],
+  priorities: TicketPriority[] = []
+): KanbanColumn[] {
+  switch (kanbanGrouping) {
+    case 'status':
+      return statuses.map(status => ({
+        id: status.key,
+        title: status.name,
+        color: status.color,
+        tickets: tickets.filter(t => t.status === status.key),
+      }));
+    case 'priority':
+      return priorities.map(priority => ({
+        id: priority.key,
+        title: priority.name,
+        color: priority.color,
+        tickets: tickets.filter(t => t.priority.toLowerCase() === priority.key),
+      }));
+    case 'type':
+      return [
+        {
+          id: 'bug',
+          title: 'Bug',
+          color: '#ef4444',
+          tickets: tickets.filter(t => t.type === 'bug'),
+        },
+        {
+          id: 'feature',
+          title: 'Feature',
+          color: '#3b82f6',
+          tickets: tickets.filter(t => t.type === 'feature'),
+        },
+        // Add other type columns as needed
+      ];
+    case 'assignee':
+      const assignees = Array.from(new Set(tickets.map(t => t.assignedTo?.name || 'Unassigned')));
+      return assignees.map(assignee => ({
+        id: assignee.toLowerCase(),
+        title: assignee,
+        color: '#14b8a6',
+        tickets: tickets.filter(t => (t.assignedTo?.name || 'Unassigned') === assignee),
+      }));
+    default:
+      return [];
+  }
+}
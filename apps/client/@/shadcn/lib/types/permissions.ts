@@ -56,6 +56,66 @@ export type TimeTrackingPermission =
   | "time_entry::update"
   | "time_entry::delete";
 
+export type SlaPermission =
+  | "sla::create"
+  | "sla::read"
+  | "sla::update"
+  | "sla::delete";
+
+export type CalendarPermission =
+  | "calendar::create"
+  | "calendar::read"
+  | "calendar::update"
+  | "calendar::delete";
+
+export type AutomationPermission =
+  | "automation::create"
+  | "automation::read"
+  | "automation::update"
+  | "automation::delete";
+
+export type SkillPermission =
+  | "skill::create"
+  | "skill::read"
+  | "skill::update"
+  | "skill::delete";
+
+export type CustomFieldPermission =
+  | "custom_field::create"
+  | "custom_field::read"
+  | "custom_field::update"
+  | "custom_field::delete";
+
+export type StatusPermission =
+  | "status::create"
+  | "status::read"
+  | "status::update"
+  | "status::delete";
+
+export type PriorityPermission =
+  | "priority::create"
+  | "priority::read"
+  | "priority::update"
+  | "priority::delete";
+
+export type TagPermission =
+  | "tag::create"
+  | "tag::read"
+  | "tag::update"
+  | "tag::delete";
+
+export type MacroPermission =
+  | "macro::create"
+  | "macro::read"
+  | "macro::update"
+  | "macro::delete";
+
+export type RecurringPermission =
+  | "recurring::create"
+  | "recurring::read"
+  | "recurring::update"
+  | "recurring::delete";
+
 export type DocumentPermission =
   | "document::create"
   | "document::read"
@@ -79,6 +139,16 @@ export type Permission =
   | SystemPermission
   | TimeTrackingPermission
   | WebhookPermission
+  | SlaPermission
+  | CalendarPermission
+  | AutomationPermission
+  | SkillPermission
+  | CustomFieldPermission
+  | StatusPermission
+  | PriorityPermission
+  | TagPermission
+  | MacroPermission
+  | RecurringPermission
   | DocumentPermission;
 
 // Useful type for grouping permissions by category
@@ -92,6 +162,16 @@ export const PermissionCategories = {
   SYSTEM: "System Settings",
   TIME_TRACKING: "Time Tracking",
   WEBHOOK: "Webhook Management",
+  SLA: "SLA Management",
+  CALENDAR: "Business Hours",
+  AUTOMATION: "Automation",
+  SKILL: "Skills Routing",
+  CUSTOM_FIELD: "Custom Fields",
+  STATUS: "Workflow",
+  PRIORITY: "Priorities",
+  TAG: "Tags",
+  MACRO: "Macros",
+  RECURRING: "Recurring Tickets",
   DOCUMENTATION: "Documentation",
 } as const;
 
@@ -206,4 +286,84 @@ export const PERMISSIONS_CONFIG = [
       "webhook::delete",
     ],
   },
+  {
+    category: "SLA Management",
+    permissions: ["sla::create", "sla::read", "sla::update", "sla::delete"],
+  },
+  {
+    category: "Business Hours",
+    permissions: [
+      "calendar::create",
+      "calendar::read",
+      "calendar::update",
+      "calendar::delete",
+    ],
+  },
+  {
+    category: "Automation",
+    permissions: [
+      "automation::create",
+      "automation::read",
+      "automation::update",
+      "automation::delete",
+    ],
+  },
+  {
+    category: "Skills Routing",
+    permissions: [
+      "skill::create",
+      "skill::read",
+      "skill::update",
+      "skill::delete",
+    ],
+  },
+  {
+    category: "Custom Fields",
+    permissions: [
+      "custom_field::create",
+      "custom_field::read",
+      "custom_field::update",
+      "custom_field::delete",
+    ],
+  },
+  {
+    category: "Workflow",
+    permissions: [
+      "status::create",
+      "status::read",
+      "status::update",
+      "status::delete",
+    ],
+  },
+  {
+    category: "Priorities",
+    permissions: [
+      "priority::create",
+      "priority::read",
+      "priority::update",
+      "priority::delete",
+    ],
+  },
+  {
+    category: "Tags",
+    permissions: ["tag::create", "tag::read", "tag::update", "tag::delete"],
+  },
+  {
+    category: "Macros",
+    permissions: [
+      "macro::create",
+      "macro::read",
+      "macro::update",
+      "macro::delete",
+    ],
+  },
+  {
+    category: "Recurring Tickets",
+    permissions: [
+      "recurring::create",
+      "recurring::read",
+      "recurring::update",
+      "recurring::delete",
+    ],
+  },
 ] as const;
@@ -12,6 +12,49 @@ export type User = {
   name: string;
 };
 
+export type StatusCategory = 'open' | 'pending' | 'solved' | 'closed';
+
+export type TicketStatus = {
+  id: string;
+  key: string;
+  name: string;
+  category: StatusCategory;
+  color: string;
+  order: number;
+  isDefault: boolean;
+};
+
+export type TicketPriority = {
+  id: string;
+  key: string;
+  name: string;
+  rank: number;
+  color: string;
+  isDefault: boolean;
+};
+
+export type Tag = {
+  id: string;
+  name: string;
+  color: string;
+  description: string | null;
+  _count?: { tickets: number };
+};
+
+export type Macro = {
+  id: string;
+  name: string;
+  // Handlebars template of the reply, may be empty
+  body: string;
+  public: boolean;
+  shared: boolean;
+  status: string | null;
+  priority: string | null;
+  // A user id, "me" or "unassigned"
+  assignee: string | null;
+  userId: string | null;
+};
+
 export type Ticket = {
   id: string;
   Number: number;
@@ -25,6 +68,19 @@ export type Ticket = {
   isComplete: boolean;
   detail?: string;
   note?: string;
+  slaAtRisk?: boolean;
+  slaBreached?: boolean;
+  firstResponseDueAt?: string | null;
+  resolutionDueAt?: string | null;
+  customFields?: Record<string, any> | null;
+  snoozedUntil?: string | null;
+  snoozeNote?: string | null;
+  cc?: string[];
+  deletedAt?: string | null;
+  parentId?: string | null;
+  parent?: Pick<Ticket, 'id' | 'Number' | 'title'> | null;
+  // Done and total subtasks, null for tickets without any
+  subtaskRollup?: { total: number; done: number } | null;
 };
 
 export type KanbanColumn = {
@@ -1,4 +1,4 @@
-import { Coffee, LucideIcon } from "lucide-react";
+import { Coffee, LucideIcon, Users } from "lucide-react";
 import * as React from "react";
 
 import { cn } from "@/shadcn/lib/utils";
@@ -158,7 +158,7 @@ export function IconCombo({
                   </div>
                 )}
                 <span className="mt-[2.5px] capitalize">
-                  {selectedStatus.value}
+                  {selectedStatus.name || selectedStatus.value}
                 </span>
               </div>
             ) : defaultName ? (
@@ -172,7 +172,9 @@ export function IconCombo({
                     </span>
                   </span>
                 </div>
-                <span className="mt-[2.5px] capitalize">{defaultName}</span>
+                <span className="mt-[2.5px] capitalize">
+                  {defaultIcon ? defaultIcon.name : defaultName}
+                </span>
               </div>
             ) : (
               <span>unassigned</span>
@@ -323,3 +325,65 @@ export function ClientCombo({
     </div>
   );
 }
+
+export function TeamCombo({ value, update, defaultName, disabled }) {
+  const [open, setOpen] = React.useState(false);
+
+  return (
+    <div className="flex items-center space-x-4">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-[180px] justify-start border-none"
+            disabled={disabled}
+          >
+            <div className="flex flex-row items-center space-x-2">
+              <div className="flex-shrink-0">
+                <span className="inline-flex h-6 w-6 pl-2.5 items-center justify-center ">
+                  <span className="text-xs font-medium leading-none text-foreground uppercase ">
+                    <Users className="mr-2 h-4 w-4 shrink-0 " />
+                  </span>
+                </span>
+              </div>
+              <span>{defaultName}</span>
+            </div>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0" side="right" align="start">
+          <Command>
+            <CommandInput placeholder="Change team..." />
+            <CommandList>
+              <CommandEmpty>No results found.</CommandEmpty>
+              <CommandGroup>
+                <CommandItem
+                  className=" hover:cursor-pointer"
+                  onSelect={() => {
+                    update(null);
+                    setOpen(false);
+                  }}
+                >
+                  <span>No team</span>
+                </CommandItem>
+                {value.map((val) => (
+                  <CommandItem
+                    className=" hover:cursor-pointer"
+                    key={val.id}
+                    value={val.name}
+                    onSelect={() => {
+                      update(val);
+                      setOpen(false);
+                    }}
+                  >
+                    <span>{val.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
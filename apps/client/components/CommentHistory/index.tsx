@@ -0,0 +1,128 @@
+import { cn } from "@/shadcn/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/shadcn/ui/dialog";
+import { getCookie } from "cookies-next";
+import moment from "moment";
+import { useEffect, useState } from "react";
+
+type Part = { text: string; added?: boolean; removed?: boolean };
+
+// Word level diff of two texts through their longest common subsequence,
+// whitespace is kept as its own token so the result reads like the input
+function diff(before: string, after: string): Part[] {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: Part[] = [];
+  const push = (part: Part) => {
+    const last = parts[parts.length - 1];
+    if (last && last.added === part.added && last.removed === part.removed) {
+      last.text += part.text;
+    } else {
+      parts.push(part);
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push({ text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push({ text: a[i++], removed: true });
+    } else {
+      push({ text: b[j++], added: true });
+    }
+  }
+
+  while (i < a.length) push({ text: a[i++], removed: true });
+  while (j < b.length) push({ text: b[j++], added: true });
+
+  return parts;
+}
+
+export default function CommentHistory({ commentId, open, setOpen }) {
+  const [revisions, setRevisions] = useState<any[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    fetch(`/api/v1/ticket/comment/${commentId}/revisions`, {
+      headers: {
+        Authorization: `Bearer ${getCookie("session")}`,
+      },
+    })
+      .then((res) => res.json())
+      .then((res) => setRevisions(res.revisions || []));
+  }, [open, commentId]);
+
+  // Newest edit first, each compared with the version it replaced
+  const edits = revisions
+    .map((revision, index) => ({
+      ...revision,
+      parts: index > 0 ? diff(revisions[index - 1].text, revision.text) : null,
+    }))
+    .reverse();
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Comment history</DialogTitle>
+          <DialogDescription>
+            Removed text is struck through, added text is highlighted.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto space-y-4">
+          {edits.map((edit, index) => (
+            <div key={index} className="rounded-md border p-3 text-sm">
+              <p className="mb-2 text-xs text-muted-foreground">
+                {edit.parts ? "Edited" : "Written"} by{" "}
+                {edit.user ? edit.user.name : "a removed user"}{" "}
+                {moment(edit.createdAt).format("LLL")}
+              </p>
+              <p className="whitespace-pre-wrap">
+                {edit.parts
+                  ? edit.parts.map((part: Part, i: number) => (
+                      <span
+                        key={i}
+                        className={cn(
+                          part.added &&
+                            "bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200",
+                          part.removed &&
+                            "bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-200"
+                        )}
+                      >
+                        {part.text}
+                      </span>
+                    ))
+                  : edit.text}
+              </p>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
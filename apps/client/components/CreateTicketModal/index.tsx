@@ -10,6 +10,7 @@ import { useUser } from "../../store/session";
 import { toast } from "@/shadcn/hooks/use-toast";
 import { useSidebar } from "@/shadcn/ui/sidebar";
 import dynamic from "next/dynamic";
+import CustomFields from "../CustomFields";
 
 const Editor = dynamic(() => import("../BlockEditor"), { ssr: false });
 
@@ -44,10 +45,13 @@ export default function CreateTicketModal({ keypress, setKeyPressDown }) {
   const [email, setEmail] = useState("");
   const [issue, setIssue] = useState<any>();
   const [title, setTitle] = useState("");
-  const [priority, setPriority] = useState("medium");
   const [options, setOptions] = useState<any>();
   const [users, setUsers] = useState<any>();
+  const [teams, setTeams] = useState<any>();
+  const [team, setTeam] = useState<any>();
   const [selected, setSelected] = useState<any>(type[3]);
+  const [fields, setFields] = useState<any[]>([]);
+  const [customFields, setCustomFields] = useState<Record<string, any>>({});
 
   const fetchClients = async () => {
     await fetch(`/api/v1/clients/all`, {
@@ -87,6 +91,44 @@ export default function CreateTicketModal({ keypress, setKeyPressDown }) {
     }
   }
 
+  async function fetchTeams() {
+    await fetch(`/api/v1/teams/all`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    })
+      .then((res) => res.json())
+      .then((res) => {
+        if (res.teams) {
+          setTeams(res.teams);
+        }
+      });
+  }
+
+  // Fields depend on the ticket type, customers only get portal fields
+  async function fetchFields() {
+    const query = new URLSearchParams({
+      type: selected.name.toLowerCase(),
+      ...(user.external_user && { portal: "true" }),
+    });
+
+    await fetch(`/api/v1/custom-fields/all?${query}`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    })
+      .then((res) => res.json())
+      .then((res) => {
+        if (res.fields) {
+          setFields(res.fields);
+        }
+      });
+  }
+
   async function createTicket() {
     await fetch(`/api/v1/ticket/create`, {
       method: "POST",
@@ -100,9 +142,15 @@ export default function CreateTicketModal({ keypress, setKeyPressDown }) {
         company,
         email,
         detail: issue,
-        priority,
         engineer,
+        team,
         type: selected.name,
+        // Values of fields from a previously selected type are dropped
+        customFields: Object.fromEntries(
+          fields
+            .filter((field) => customFields[field.key] !== undefined)
+            .map((field) => [field.key, customFields[field.key]])
+        ),
         createdBy: {
           id: user.id,
           name: user.name,
@@ -140,10 +188,15 @@ export default function CreateTicketModal({ keypress, setKeyPressDown }) {
   useEffect(() => {
     fetchClients();
     fetchUsers();
+    fetchTeams();
   }, []);
 
   useEffect(() => checkPress(), [keypress]);
 
+  useEffect(() => {
+    fetchFields();
+  }, [selected]);
+
   const [hideKeyboardShortcuts, setHideKeyboardShortcuts] = useState(false);
   const [hideName, setHideName] = useState(false);
   const [hideEmail, setHideEmail] = useState(false);
@@ -504,6 +557,127 @@ export default function CreateTicketModal({ keypress, setKeyPressDown }) {
                           )}
                         </Listbox>
 
+                        <Listbox value={team} onChange={setTeam}>
+                          {({ open }) => (
+                            <>
+                              <div className="relative">
+                                <Listbox.Button className="relative w-full min-w-[172px] cursor-default rounded-md bg-white dark:bg-[#0A090C] dark:text-white py-1 pl-3 pr-10 text-left text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:outline-none focus:ring-2 focus:ring-indigo-600 sm:text-sm sm:leading-6">
+                                  <span className="block truncate">
+                                    {team === undefined
+                                      ? "Select a team"
+                                      : team.name}
+                                  </span>
+                                  <span className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-2">
+                                    <ChevronUpDownIcon
+                                      className="h-5 w-5 text-gray-400"
+                                      aria-hidden="true"
+                                    />
+                                  </span>
+                                </Listbox.Button>
+
+                                <Transition
+                                  show={open}
+                                  as={Fragment}
+                                  leave="transition ease-in duration-100"
+                                  leaveFrom="opacity-100"
+                                  leaveTo="opacity-0"
+                                >
+                                  <Listbox.Options className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white dark:bg-[#0A090C] dark:text-white py-1 text-base shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none sm:text-sm">
+                                    <Listbox.Option
+                                      className={({ active }) =>
+                                        classNames(
+                                          active
+                                            ? "bg-indigo-600 text-white"
+                                            : "text-gray-900 dark:text-white",
+                                          "relative cursor-default select-none py-2 pl-3 pr-9"
+                                        )
+                                      }
+                                      value={undefined}
+                                    >
+                                      {({ selected, active }) => (
+                                        <>
+                                          <span
+                                            className={classNames(
+                                              selected
+                                                ? "font-semibold"
+                                                : "font-normal",
+                                              "block truncate"
+                                            )}
+                                          >
+                                            No team
+                                          </span>
+
+                                          {selected ? (
+                                            <span
+                                              className={classNames(
+                                                active
+                                                  ? "text-white"
+                                                  : "text-indigo-600",
+                                                "absolute inset-y-0 right-0 flex items-center pr-4"
+                                              )}
+                                            >
+                                              <CheckIcon
+                                                className="h-5 w-5"
+                                                aria-hidden="true"
+                                              />
+                                            </span>
+                                          ) : null}
+                                        </>
+                                      )}
+                                    </Listbox.Option>
+                                    {teams !== undefined &&
+                                      teams.map((team: any) => (
+                                        <Listbox.Option
+                                          key={team.id}
+                                          className={({ active }) =>
+                                            classNames(
+                                              active
+                                                ? "bg-indigo-600 text-white"
+                                                : "text-gray-900 dark:text-white",
+                                              "relative cursor-default select-none py-2 pl-3 pr-9"
+                                            )
+                                          }
+                                          value={team}
+                                        >
+                                          {({ selected, active }) => (
+                                            <>
+                                              <span
+                                                className={classNames(
+                                                  selected
+                                                    ? "font-semibold"
+                                                    : "font-normal",
+                                                  "block truncate"
+                                                )}
+                                              >
+                                                {team.name}
+                                              </span>
+
+                                              {selected ? (
+                                                <span
+                                                  className={classNames(
+                                                    active
+                                                      ? "text-white"
+                                                      : "text-indigo-600",
+                                                    "absolute inset-y-0 right-0 flex items-center pr-4"
+                                                  )}
+                                                >
+                                                  <CheckIcon
+                                                    className="h-5 w-5"
+                                                    aria-hidden="true"
+                                                  />
+                                                </span>
+                                              ) : null}
+                                            </>
+                                          )}
+                                        </Listbox.Option>
+                                      ))}
+                                  </Listbox.Options>
+                                </Transition>
+                              </div>
+                            </>
+                          )}
+                        </Listbox>
+
                         <Listbox value={selected} onChange={setSelected}>
                           {({ open }) => (
                             <>
@@ -583,6 +757,14 @@ export default function CreateTicketModal({ keypress, setKeyPressDown }) {
                     )}
                   </div>
 
+                  <CustomFields
+                    fields={fields}
+                    values={customFields}
+                    onChange={setCustomFields}
+                    users={user.external_user ? undefined : users}
+                    className="grid grid-cols-2 gap-3 space-y-0 pb-4"
+                  />
+
                   <div className="border-t border-gray-300 ">
                     <div className="mt-2 float-right">
                       <button
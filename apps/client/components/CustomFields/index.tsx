@@ -0,0 +1,173 @@
+import { cn } from "@/shadcn/lib/utils";
+
+type Props = {
+  fields: any[];
+  values: Record<string, any>;
+  onChange: (values: Record<string, any>) => void;
+  // Agents to pick from in user fields, which are hidden without them
+  users?: any[];
+  disabled?: boolean;
+  className?: string;
+};
+
+const inputClass =
+  "w-full rounded-md border bg-transparent px-2 py-1 text-sm text-foreground disabled:opacity-50";
+
+export default function CustomFields({
+  fields,
+  values,
+  onChange,
+  users,
+  disabled,
+  className,
+}: Props) {
+  function set(key: string, value: any) {
+    onChange({ ...values, [key]: value });
+  }
+
+  const visible = fields.filter((field) => field.type !== "user" || users);
+
+  if (visible.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {visible.map((field) => {
+        const value = values[field.key];
+
+        return (
+          <div key={field.id} className="space-y-1">
+            <label
+              htmlFor={`cf-${field.key}`}
+              className="block text-xs font-medium text-muted-foreground"
+            >
+              {field.name}
+              {field.required && <span className="text-red-500"> *</span>}
+            </label>
+
+            {field.type === "text" && (
+              <input
+                id={`cf-${field.key}`}
+                type="text"
+                value={value ?? ""}
+                disabled={disabled}
+                onChange={(e) => set(field.key, e.target.value)}
+                className={inputClass}
+              />
+            )}
+
+            {field.type === "number" && (
+              <input
+                id={`cf-${field.key}`}
+                type="number"
+                value={value ?? ""}
+                disabled={disabled}
+                onChange={(e) =>
+                  set(
+                    field.key,
+                    e.target.value === "" ? null : Number(e.target.value)
+                  )
+                }
+                className={inputClass}
+              />
+            )}
+
+            {field.type === "date" && (
+              <input
+                id={`cf-${field.key}`}
+                type="date"
+                value={value ?? ""}
+                disabled={disabled}
+                onChange={(e) => set(field.key, e.target.value || null)}
+                className={inputClass}
+              />
+            )}
+
+            {field.type === "checkbox" && (
+              <input
+                id={`cf-${field.key}`}
+                type="checkbox"
+                checked={!!value}
+                disabled={disabled}
+                onChange={(e) => set(field.key, e.target.checked)}
+                className="h-4 w-4 rounded border"
+              />
+            )}
+
+            {field.type === "select" && (
+              <select
+                id={`cf-${field.key}`}
+                value={value ?? ""}
+                disabled={disabled}
+                onChange={(e) => set(field.key, e.target.value || null)}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                {field.options.map((option: string) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {field.type === "multi_select" && (
+              <div className="flex flex-wrap gap-1">
+                {field.options.map((option: string) => {
+                  const selected: string[] = value || [];
+                  const active = selected.includes(option);
+
+                  return (
+                    <button
+                      key={option}
+                      type="button"
+                      disabled={disabled}
+                      onClick={() =>
+                        set(
+                          field.key,
+                          active
+                            ? selected.filter((o) => o !== option)
+                            : [...selected, option]
+                        )
+                      }
+                      className={cn(
+                        "rounded-md border px-2 py-0.5 text-xs",
+                        active
+                          ? "bg-primary text-primary-foreground"
+                          : "text-foreground"
+                      )}
+                    >
+                      {option}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {field.type === "user" && (
+              <select
+                id={`cf-${field.key}`}
+                value={value ?? ""}
+                disabled={disabled}
+                onChange={(e) => set(field.key, e.target.value || null)}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                {users!.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {user.name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {field.description && (
+              <p className="text-xs text-muted-foreground">
+                {field.description}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
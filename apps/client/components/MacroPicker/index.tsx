@@ -0,0 +1,189 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { useMacros } from "@/shadcn/hooks/useMacros";
+import { Macro } from "@/shadcn/types/tickets";
+import { Button } from "@/shadcn/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/shadcn/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/shadcn/ui/popover";
+import { ToastAction } from "@/shadcn/ui/toast";
+import { getCookie } from "cookies-next";
+import { Zap } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+
+// Picks a macro for the comment box, shows its reply for the ticket and
+// applies it with its field changes in one go, with an undo in the toast
+export default function MacroPicker({ ticket, disabled, onApplied }) {
+  const token = getCookie("session");
+
+  const { macros } = useMacros();
+
+  const [open, setOpen] = useState(false);
+  const [macro, setMacro] = useState<Macro | null>(null);
+  const [text, setText] = useState("");
+  const [working, setWorking] = useState(false);
+
+  async function request(url: string, body?: any) {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body || {}),
+    }).then((res) => res.json());
+
+    if (!res.success) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: res.message || "Failed to apply macro",
+      });
+    }
+
+    return res;
+  }
+
+  async function select(m: Macro) {
+    setMacro(m);
+    setText("");
+
+    if (!m.body) return;
+
+    const res = await request(`/api/v1/macro/${m.id}/render`, {
+      ticketId: ticket.id,
+    });
+
+    if (res.success) {
+      setText(res.text);
+    }
+  }
+
+  async function undo(runId: string) {
+    const res = await request(`/api/v1/macro/run/${runId}/undo`);
+
+    if (res.success) {
+      toast({
+        title: "Macro undone",
+        description: res.emailed
+          ? "The reply had already been emailed to the requester"
+          : undefined,
+      });
+      onApplied();
+    }
+  }
+
+  async function apply() {
+    setWorking(true);
+
+    try {
+      const res = await request(`/api/v1/macro/${macro!.id}/apply`, {
+        ticketId: ticket.id,
+        text,
+      });
+
+      if (!res.success) return;
+
+      setOpen(false);
+      setMacro(null);
+      onApplied();
+
+      toast({
+        title: `${macro!.name} applied`,
+        description: res.emailed ? "The reply was emailed" : undefined,
+        action: (
+          <ToastAction altText="Undo" onClick={() => undo(res.run.id)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) setMacro(null);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Zap className="mr-1 h-3.5 w-3.5" />
+          Macros
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-2" align="start">
+        {macro ? (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">{macro.name}</p>
+            {macro.body && (
+              <textarea
+                className="w-full rounded-md border bg-transparent p-2 text-sm"
+                rows={6}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+              />
+            )}
+            <p className="text-xs text-muted-foreground">
+              {macro.body
+                ? macro.public
+                  ? "Public reply, emailed to the requester"
+                  : "Internal note"
+                : "No reply"}
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setMacro(null)}
+              >
+                Back
+              </Button>
+              <Button size="sm" onClick={apply} disabled={working}>
+                {working ? "Applying..." : "Apply"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Command className="border rounded-md">
+            <CommandInput placeholder="Search macros..." />
+            <CommandList>
+              <CommandEmpty>
+                No macros.{" "}
+                <Link href="/settings/macros" className="underline">
+                  Create one
+                </Link>
+              </CommandEmpty>
+              <CommandGroup>
+                {macros.map((m) => (
+                  <CommandItem
+                    key={m.id}
+                    value={m.name}
+                    onSelect={() => select(m)}
+                  >
+                    <span className="truncate">{m.name}</span>
+                    {!m.shared && (
+                      <span className="ml-auto text-xs text-muted-foreground">
+                        Personal
+                      </span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,119 @@
+import { cn } from "@/shadcn/lib/utils";
+import { useRef, useState } from "react";
+
+// The `@query` being typed right before the caret, names may contain a
+// single space so "@Sam L" still narrows down to Sam Lee
+const MENTION = /(^|\s)@([^\s@]*(?: [^\s@]*)?)$/;
+
+const MAX_SUGGESTIONS = 6;
+
+type Mention = { start: number; query: string };
+
+export default function MentionTextarea({
+  value,
+  onChange,
+  users,
+  className,
+  ...props
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  users: { id: string; name: string }[];
+} & Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, "onChange">) {
+  const ref = useRef<HTMLTextAreaElement>(null);
+
+  const [mention, setMention] = useState<Mention | null>(null);
+  const [active, setActive] = useState(0);
+
+  const suggestions = mention
+    ? (users || [])
+        .filter((u) =>
+          u.name.toLowerCase().startsWith(mention.query.toLowerCase())
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  function track(text: string, caret: number) {
+    const match = text.slice(0, caret).match(MENTION);
+
+    if (match) {
+      setMention({
+        start: caret - match[2].length - 1,
+        query: match[2],
+      });
+      setActive(0);
+    } else {
+      setMention(null);
+    }
+  }
+
+  function insert(name: string) {
+    const caret = ref.current?.selectionStart ?? value.length;
+    const before = value.slice(0, mention!.start);
+    const after = value.slice(caret);
+    const mentionText = `@${name} `;
+
+    onChange(before + mentionText + after);
+    setMention(null);
+
+    requestAnimationFrame(() => {
+      const position = before.length + mentionText.length;
+      ref.current?.focus();
+      ref.current?.setSelectionRange(position, position);
+    });
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLTextAreaElement>) {
+    if (suggestions.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive((active + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((active - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      insert(suggestions[active].name);
+    } else if (e.key === "Escape") {
+      setMention(null);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        {...props}
+        ref={ref}
+        value={value}
+        className={className}
+        onChange={(e) => {
+          onChange(e.target.value);
+          track(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={onKeyDown}
+        onBlur={() => setMention(null)}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-56 rounded-md border bg-background py-1 shadow-md">
+          {suggestions.map((user, index) => (
+            <li
+              key={user.id}
+              // Keep the focus in the textarea while picking
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insert(user.name);
+              }}
+              className={cn(
+                "cursor-pointer px-3 py-1.5 text-sm",
+                index === active && "bg-secondary"
+              )}
+            >
+              {user.name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
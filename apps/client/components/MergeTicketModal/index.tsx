@@ -0,0 +1,138 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { cn } from "@/shadcn/lib/utils";
+import { Button } from "@/shadcn/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/shadcn/ui/command";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shadcn/ui/dialog";
+import { getCookie } from "cookies-next";
+import { CheckIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+
+export default function MergeTicketModal({ ticket, open, setOpen, onMerged }) {
+  const token = getCookie("session");
+
+  const [tickets, setTickets] = useState<any[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  async function fetchTickets() {
+    const res = await fetch(`/api/v1/tickets/open`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    }).then((res) => res.json());
+
+    if (res.tickets) {
+      setTickets(res.tickets.filter((t: any) => t.id !== ticket.id));
+    }
+  }
+
+  async function merge() {
+    const res = await fetch(`/api/v1/ticket/merge`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        id: ticket.id,
+        tickets: selected,
+      }),
+    }).then((res) => res.json());
+
+    if (!res.success) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: res.message || "Failed to merge issues",
+      });
+      return;
+    }
+
+    toast({
+      title: "Issues merged",
+      description: `${selected.length} issue(s) merged into #${ticket.Number}`,
+      duration: 3000,
+    });
+
+    setSelected([]);
+    setOpen(false);
+    onMerged();
+  }
+
+  function toggle(id: string) {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((t) => t !== id) : [...prev, id]
+    );
+  }
+
+  useEffect(() => {
+    if (open) {
+      fetchTickets();
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Merge issues into #{ticket.Number}</DialogTitle>
+          <DialogDescription>
+            Comments, files, time entries and email threads are moved to this
+            issue. Merged issues are closed and locked.
+          </DialogDescription>
+        </DialogHeader>
+        <Command className="border rounded-md">
+          <CommandInput placeholder="Search issues..." />
+          <CommandList>
+            <CommandEmpty>No issues found.</CommandEmpty>
+            <CommandGroup>
+              {tickets.map((t) => (
+                <CommandItem
+                  key={t.id}
+                  value={`${t.Number} ${t.title}`}
+                  onSelect={() => toggle(t.id)}
+                >
+                  <div
+                    className={cn(
+                      "mr-2 flex h-4 w-4 items-center justify-center rounded-sm border border-primary",
+                      selected.includes(t.id)
+                        ? "bg-primary text-primary-foreground"
+                        : "opacity-50 [&_svg]:invisible"
+                    )}
+                  >
+                    <CheckIcon className={cn("h-4 w-4")} />
+                  </div>
+                  <span className="text-xs text-muted-foreground mr-2">
+                    #{t.Number}
+                  </span>
+                  <span className="truncate">{t.title}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" disabled={selected.length === 0} onClick={merge}>
+            Merge {selected.length > 0 ? `(${selected.length})` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
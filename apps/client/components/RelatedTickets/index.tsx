@@ -0,0 +1,227 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { Button } from "@/shadcn/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/shadcn/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/shadcn/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shadcn/ui/select";
+import { getCookie } from "cookies-next";
+import { Link2, Plus, X } from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+const relationLabels = {
+  duplicates: "Duplicates",
+  duplicated_by: "Duplicated by",
+  blocks: "Blocks",
+  blocked_by: "Blocked by",
+  relates_to: "Relates to",
+  caused_by: "Caused by",
+  causes: "Causes",
+  follow_up_of: "Follow-up of",
+  followed_up_by: "Followed up by",
+};
+
+// Types a user can pick when creating a relation
+const relationTypes = [
+  "relates_to",
+  "duplicates",
+  "blocks",
+  "blocked_by",
+  "caused_by",
+  "follow_up_of",
+];
+
+export default function RelatedTickets({ ticket, relations, disabled, onChange }) {
+  const token = getCookie("session");
+
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState("relates_to");
+  const [tickets, setTickets] = useState<any[]>([]);
+
+  async function fetchTickets() {
+    const res = await fetch(`/api/v1/tickets/all`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    }).then((res) => res.json());
+
+    if (res.tickets) {
+      setTickets(res.tickets.filter((t: any) => t.id !== ticket.id));
+    }
+  }
+
+  async function link(related: string) {
+    const res = await fetch(`/api/v1/ticket/link`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        id: ticket.id,
+        ticket: related,
+        type,
+      }),
+    }).then((res) => res.json());
+
+    if (!res.success) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: res.message || "Failed to link issue",
+      });
+      return;
+    }
+
+    setOpen(false);
+    onChange();
+  }
+
+  async function unlink(relation: string) {
+    const res = await fetch(`/api/v1/ticket/unlink`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        relation,
+      }),
+    }).then((res) => res.json());
+
+    if (!res.success) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: res.message || "Failed to unlink issue",
+      });
+      return;
+    }
+
+    onChange();
+  }
+
+  useEffect(() => {
+    if (open) {
+      fetchTickets();
+    }
+  }, [open]);
+
+  const grouped = (relations || []).reduce((acc: any, relation: any) => {
+    (acc[relation.type] = acc[relation.type] || []).push(relation);
+    return acc;
+  }, {});
+
+  return (
+    <div className="border-t mt-4 pt-4">
+      <div className="flex flex-row items-center justify-between">
+        <span className="text-sm font-medium text-gray-500 dark:text-white">
+          Related
+        </span>
+        {!disabled && (
+          <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-6 px-2">
+                <Plus className="h-3.5 w-3.5" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-2 space-y-2" align="end">
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {relationTypes.map((value) => (
+                    <SelectItem key={value} value={value} className="text-xs">
+                      {relationLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Command className="border rounded-md">
+                <CommandInput placeholder="Search issues..." />
+                <CommandList>
+                  <CommandEmpty>No issues found.</CommandEmpty>
+                  <CommandGroup>
+                    {tickets.map((t) => (
+                      <CommandItem
+                        key={t.id}
+                        value={`${t.Number} ${t.title}`}
+                        onSelect={() => link(t.id)}
+                      >
+                        <span className="text-xs text-muted-foreground mr-2">
+                          #{t.Number}
+                        </span>
+                        <span className="truncate">{t.title}</span>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+      {Object.keys(grouped).length === 0 ? (
+        <p className="text-xs text-muted-foreground mt-2">No related issues</p>
+      ) : (
+        <div className="mt-2 space-y-3">
+          {Object.keys(grouped).map((group) => (
+            <div key={group}>
+              <span className="text-xs font-medium text-muted-foreground">
+                {relationLabels[group] || group}
+              </span>
+              <ul className="mt-1 space-y-1">
+                {grouped[group].map((relation: any) => (
+                  <li
+                    key={relation.id}
+                    className="group flex flex-row items-center justify-between text-xs"
+                  >
+                    <Link
+                      href={`/issue/${relation.ticket.id}`}
+                      className="flex flex-row items-center gap-1 truncate hover:underline"
+                    >
+                      <Link2 className="h-3 w-3 shrink-0" />
+                      <span className="text-muted-foreground">
+                        #{relation.ticket.Number}
+                      </span>
+                      <span
+                        className={
+                          relation.ticket.isComplete
+                            ? "truncate line-through"
+                            : "truncate"
+                        }
+                      >
+                        {relation.ticket.title}
+                      </span>
+                    </Link>
+                    {!disabled && (
+                      <button
+                        onClick={() => unlink(relation.id)}
+                        className="hidden group-hover:block text-muted-foreground hover:text-foreground"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/shadcn/ui/popover";
+import { getCookie } from "cookies-next";
+import { Plus, X } from "lucide-react";
+import { useState } from "react";
+
+export default function TicketCc({ ticket, disabled, onChange }) {
+  const token = getCookie("session");
+
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState("");
+
+  const current: string[] = ticket.cc || [];
+
+  async function request(url: string, method: string, body?: any) {
+    const res = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    }).then((res) => res.json());
+
+    if (!res.success) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: res.message || "Failed to update CC",
+      });
+    }
+
+    return res;
+  }
+
+  async function add() {
+    // Several addresses can be pasted at once
+    const emails = value
+      .split(/[\s,;]+/)
+      .map((email) => email.trim())
+      .filter(Boolean);
+
+    if (emails.length === 0) return;
+
+    const res = await request(`/api/v1/ticket/${ticket.id}/cc`, "POST", {
+      emails,
+    });
+
+    if (res.success) {
+      setOpen(false);
+      setValue("");
+      onChange();
+    }
+  }
+
+  async function remove(email: string) {
+    const res = await request(
+      `/api/v1/ticket/${ticket.id}/cc/${encodeURIComponent(email)}`,
+      "DELETE"
+    );
+
+    if (res.success) {
+      onChange();
+    }
+  }
+
+  return (
+    <div className="border-t mt-4 pt-4">
+      <div className="flex flex-row items-center justify-between">
+        <span className="text-sm font-medium text-gray-500 dark:text-white">
+          CC
+        </span>
+        {!disabled && (
+          <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-6 px-2">
+                <Plus className="h-3.5 w-3.5" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-2" align="end">
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  add();
+                }}
+              >
+                <Input
+                  autoFocus
+                  placeholder="name@example.com"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className="h-8"
+                />
+                <Button type="submit" size="sm" disabled={!value.trim()}>
+                  Add
+                </Button>
+              </form>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+      {current.length === 0 ? (
+        <p className="text-xs text-muted-foreground mt-2">
+          Only the requester gets replies
+        </p>
+      ) : (
+        <div className="mt-2 flex flex-col gap-1">
+          {current.map((email) => (
+            <span
+              key={email}
+              className="group flex items-center justify-between gap-x-1 text-xs"
+            >
+              <span className="truncate">{email}</span>
+              {!disabled && (
+                <button
+                  onClick={() => remove(email)}
+                  className="hidden group-hover:block hover:opacity-75"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -27,7 +27,10 @@ import Frame from "react-frame-component";
 import { useQuery } from "react-query";
 import { useDebounce } from "use-debounce";
 
+import SnoozeDialog from "@/shadcn/components/tickets/SnoozeDialog";
 import { toast } from "@/shadcn/hooks/use-toast";
+import { usePriorities } from "@/shadcn/hooks/usePriorities";
+import { useTicketActions } from "@/shadcn/hooks/useTicketActions";
 import { hasAccess } from "@/shadcn/lib/hasAccess";
 import { cn } from "@/shadcn/lib/utils";
 import { Avatar, AvatarFallback, AvatarImage } from "@/shadcn/ui/avatar";
@@ -43,17 +46,22 @@ import {
 import { Popover, PopoverContent, PopoverTrigger } from "@/shadcn/ui/popover";
 import { Switch } from "@/shadcn/ui/switch";
 import {
+  AlarmClock,
   CheckIcon,
   CircleCheck,
   CircleDotDashed,
+  Clock,
   Ellipsis,
   Eye,
   EyeOff,
+  History,
   LifeBuoy,
-  Loader,
   LoaderCircle,
   Lock,
+  Merge,
   PanelTopClose,
+  Paperclip,
+  Pencil,
   SignalHigh,
   SignalLow,
   SignalMedium,
@@ -61,36 +69,154 @@ import {
   Unlock,
 } from "lucide-react";
 import { useUser } from "../../store/session";
-import { ClientCombo, IconCombo, UserCombo } from "../Combo";
-
-const ticketStatusMap = [
-  { id: 0, value: "hold", name: "Hold", icon: CircleDotDashed },
-  { id: 1, value: "needs_support", name: "Needs Support", icon: LifeBuoy },
-  { id: 2, value: "in_progress", name: "In Progress", icon: CircleDotDashed },
-  { id: 3, value: "in_review", name: "In Review", icon: Loader },
-  { id: 4, value: "done", name: "Done", icon: CircleCheck },
-];
-
-const priorityOptions = [
-  {
-    id: "1",
-    name: "Low",
-    value: "low",
-    icon: SignalLow,
-  },
-  {
-    id: "2",
-    name: "Medium",
-    value: "medium",
-    icon: SignalMedium,
-  },
-  {
-    id: "1",
-    name: "High",
-    value: "high",
-    icon: SignalHigh,
-  },
-];
+import { ClientCombo, IconCombo, TeamCombo, UserCombo } from "../Combo";
+import CommentHistory from "../CommentHistory";
+import CustomFields from "../CustomFields";
+import MacroPicker from "../MacroPicker";
+import MentionTextarea from "../MentionTextarea";
+import MergeTicketModal from "../MergeTicketModal";
+import RelatedTickets from "../RelatedTickets";
+import TicketCc from "../TicketCc";
+import TicketSubtasks from "../TicketSubtasks";
+import TicketTags from "../TicketTags";
+
+// Statuses are admin-defined, their icon comes from the category
+const categoryIcons = {
+  open: LifeBuoy,
+  pending: CircleDotDashed,
+  solved: CircleCheck,
+  closed: Lock,
+};
+
+// Signal strength follows the rank, priorities come most urgent first
+function priorityIcon(index: number, count: number, color: string) {
+  const Icon =
+    index === 0 ? SignalHigh : index === count - 1 ? SignalLow : SignalMedium;
+
+  return (props) => <Icon {...props} style={{ color }} />;
+}
+
+function slaTarget(due: string | null, metAt: string | null) {
+  if (!due) return null;
+
+  if (metAt) {
+    return moment(metAt).isAfter(due)
+      ? { label: "Missed", className: "text-red-600" }
+      : { label: "Met", className: "text-green-600" };
+  }
+
+  return moment().isAfter(due)
+    ? { label: `Overdue ${moment(due).fromNow()}`, className: "text-red-600" }
+    : { label: `Due ${moment(due).fromNow()}`, className: "text-foreground" };
+}
+
+// Custom field values are stored as text, lists as JSON and users by id
+function fieldValue(field: any, value: string | null, users?: any[]) {
+  if (value === null) return "none";
+  if (field?.type === "multi_select") return JSON.parse(value).join(", ");
+  if (field?.type === "checkbox") return value === "true" ? "yes" : "no";
+  if (field?.type === "user") {
+    return users?.find((u) => u.id === value)?.name || value;
+  }
+  return value;
+}
+
+// Tag events hold the JSON list of tag names before and after the change
+function describeTags(from: string | null, to: string | null) {
+  const before: string[] = from ? JSON.parse(from) : [];
+  const after: string[] = to ? JSON.parse(to) : [];
+
+  const added = after.filter((name) => !before.includes(name));
+  const removed = before.filter((name) => !after.includes(name));
+
+  return [
+    added.length > 0 && `added the tags ${added.join(", ")}`,
+    removed.length > 0 && `removed the tags ${removed.join(", ")}`,
+  ]
+    .filter(Boolean)
+    .join(" and ");
+}
+
+// CC events hold the list of copied addresses before and after the change
+function describeCc(from: string | null, to: string | null) {
+  const before: string[] = from ? JSON.parse(from) : [];
+  const after: string[] = to ? JSON.parse(to) : [];
+
+  const added = after.filter((email) => !before.includes(email));
+  const removed = before.filter((email) => !after.includes(email));
+
+  return [
+    added.length > 0 && `copied ${added.join(", ")}`,
+    removed.length > 0 && `stopped copying ${removed.join(", ")}`,
+  ]
+    .filter(Boolean)
+    .join(" and ");
+}
+
+function describeEvent(event: any, fields?: any[], users?: any[]) {
+  const from = event.oldValue;
+  const to = event.newValue;
+
+  if (event.field.startsWith("cf.")) {
+    const field = fields?.find((f) => f.key === event.field.slice(3));
+    const name = field?.name || event.field.slice(3);
+
+    return to === null
+      ? `cleared ${name}`
+      : `changed ${name} from ${fieldValue(field, from, users)} to ${fieldValue(
+          field,
+          to,
+          users
+        )}`;
+  }
+
+  switch (event.field) {
+    case "title":
+      return `changed the title to "${to}"`;
+    case "detail":
+      return "updated the description";
+    case "note":
+      return "updated the note";
+    case "priority":
+      return `changed priority from ${from || "none"} to ${to}`;
+    case "status":
+      return `changed status from ${(from || "none").replace(/_/g, " ")} to ${(
+        to || "none"
+      ).replace(/_/g, " ")}`;
+    case "isComplete":
+      return to === "true" ? "closed the issue" : "re-opened the issue";
+    case "assignee":
+      return to ? `assigned the issue to ${to}` : "unassigned the issue";
+    case "client":
+      return to ? `moved the issue to ${to}` : "removed the client";
+    case "team":
+      return to
+        ? `moved the issue to the ${to} team`
+        : "removed the issue from its team";
+    case "hidden":
+      return to === "true" ? "hid the issue" : "unhid the issue";
+    case "locked":
+      return to === "true" ? "locked the issue" : "unlocked the issue";
+    case "tags":
+      return describeTags(from, to);
+    case "cc":
+      return describeCc(from, to);
+    case "parent":
+      return to
+        ? `made the issue a subtask of ${to}`
+        : `removed the issue from the subtasks of ${from}`;
+    case "subtask":
+      return `added the subtask ${to}`;
+    case "deletedAt":
+      return to ? "moved the issue to the trash" : "restored the issue";
+    case "snoozedUntil":
+      return to
+        ? `snoozed the issue until ${moment(to).format("LLL")}`
+        : "woke the issue up";
+    default:
+      return `changed ${event.field} from ${from || "none"} to ${to || "none"}`;
+  }
+}
 
 export default function Ticket() {
   const router = useRouter();
@@ -121,6 +247,100 @@ export default function Ticket() {
     refetch();
   }, [router]);
 
+  const fetchActivity = async () => {
+    const res = await fetch(`/api/v1/ticket/${router.query.id}/activity`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+
+    return res.json();
+  };
+
+  const { snoozeTicket } = useTicketActions(token as string, () => refetch());
+
+  const { data: activity, refetch: refetchActivity } = useQuery(
+    ["ticketActivity", router.query.id],
+    fetchActivity,
+    {
+      enabled: false,
+    }
+  );
+
+  // Keep the timeline in step with every reload of the ticket
+  useEffect(() => {
+    if (data) {
+      refetchActivity();
+    }
+  }, [data]);
+
+  const fetchFields = async () => {
+    const res = await fetch(
+      `/api/v1/custom-fields/all?type=${data.ticket.type}`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      }
+    );
+
+    return res.json();
+  };
+
+  const { data: fieldData } = useQuery(
+    ["customFields", data?.ticket?.type],
+    fetchFields,
+    {
+      enabled: !!data?.ticket?.type,
+    }
+  );
+
+  const fetchNextStatuses = async () => {
+    const res = await fetch(
+      `/api/v1/statuses/next?type=${data.ticket.type}&from=${data.ticket.status}`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      }
+    );
+
+    return res.json();
+  };
+
+  // Only the statuses the workflow of the ticket's type allows next
+  const { data: nextStatuses } = useQuery(
+    ["nextStatuses", data?.ticket?.type, data?.ticket?.status],
+    fetchNextStatuses,
+    {
+      enabled: !!data?.ticket,
+    }
+  );
+
+  const ticketStatusMap = (nextStatuses?.statuses || []).map((status) => ({
+    id: status.id,
+    value: status.key,
+    name: status.name,
+    icon: categoryIcons[status.category],
+  }));
+
+  const { priorities } = usePriorities();
+
+  const priorityOptions = priorities.map((p, index) => ({
+    id: p.id,
+    value: p.key,
+    name: p.name,
+    icon: priorityIcon(index, priorities.length, p.color),
+  }));
+
+  const [customFields, setCustomFields] = useState<Record<string, any>>({});
+
+  useEffect(() => {
+    if (data) {
+      setCustomFields(data.ticket.customFields || {});
+    }
+  }, [data]);
+
   const [initialContent, setInitialContent] = useState<
     PartialBlock[] | undefined | "loading"
   >("loading");
@@ -136,6 +356,8 @@ export default function Ticket() {
   const [editTime, setTimeEdit] = useState(false);
   const [assignedEdit, setAssignedEdit] = useState(false);
   const [labelEdit, setLabelEdit] = useState(false);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [snoozeOpen, setSnoozeOpen] = useState(false);
 
   const [users, setUsers] = useState<any>();
   const [clients, setClients] = useState<any>();
@@ -150,9 +372,13 @@ export default function Ticket() {
   const [comment, setComment] = useState<any>();
   const [timeSpent, setTimeSpent] = useState<any>();
   const [publicComment, setPublicComment] = useState<any>(false);
+  const [editing, setEditing] = useState<any>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
   const [timeReason, setTimeReason] = useState("");
   const [file, setFile] = useState<File | null>(null);
   const [assignedClient, setAssignedClient] = useState<any>();
+  const [teams, setTeams] = useState<any>();
+  const [assignedTeam, setAssignedTeam] = useState<any>();
 
   const history = useRouter();
 
@@ -186,6 +412,43 @@ export default function Ticket() {
       return;
     }
     setEdit(false);
+
+    // The next allowed statuses and isComplete follow the new status
+    if (ticketStatus && ticketStatus.value !== data.ticket.status) {
+      refetch();
+    }
+  }
+
+  async function saveCustomFields() {
+    if (data && data.ticket && data.ticket.locked) return;
+
+    // Only send fields of the ticket's type, cleared ones as null
+    const values = Object.fromEntries(
+      (fieldData?.fields || []).map((field) => [
+        field.key,
+        customFields[field.key] ?? null,
+      ])
+    );
+
+    const res = await fetch(`/api/v1/ticket/update`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ id, customFields: values }),
+    }).then((res) => res.json());
+
+    if (!res.success) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: res.message || "Failed to update fields",
+      });
+      return;
+    }
+
+    refetch();
   }
 
   async function updateStatus() {
@@ -264,6 +527,25 @@ export default function Ticket() {
     refetch();
   }
 
+  async function restoreIssue() {
+    const res = await fetch(`/api/v1/ticket/${id}/restore`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    }).then((res) => res.json());
+
+    if (!res.success) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: res.message || "Failed to restore issue",
+      });
+      return;
+    }
+    refetch();
+  }
+
   async function deleteIssue() {
     await fetch(`/api/v1/ticket/delete`, {
       method: "POST",
@@ -281,7 +563,7 @@ export default function Ticket() {
           toast({
             variant: "default",
             title: "Issue Deleted",
-            description: "The issue has been deleted",
+            description: "The issue has been moved to the trash",
           });
           router.push("/issues");
         }
@@ -312,9 +594,45 @@ export default function Ticket() {
       });
       return;
     }
+    setComment("");
     refetch();
   }
 
+  async function editComment(confirmed = false) {
+    const res = await fetch(`/api/v1/ticket/comment/update`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        id: editing.id,
+        text: editing.text,
+        confirm: confirmed,
+      }),
+    }).then((res) => res.json());
+
+    // Emailed public comments stay as they were in the requester's inbox
+    if (res.confirm) {
+      if (confirm(`${res.message}. Edit it anyway?`)) {
+        await editComment(true);
+      }
+      return;
+    }
+
+    if (!res.success) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: res.message || "Failed to edit comment",
+      });
+      return;
+    }
+
+    setEditing(null);
+    refetchActivity();
+  }
+
   async function deleteComment(id: string) {
     await fetch(`/api/v1/ticket/comment/delete`, {
       method: "POST",
@@ -416,6 +734,20 @@ export default function Ticket() {
     }
   }
 
+  async function fetchTeams() {
+    const res = await fetch(`/api/v1/teams/all`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    }).then((res) => res.json());
+
+    if (res.teams) {
+      setTeams(res.teams);
+    }
+  }
+
   async function subscribe() {
     if (data && data.ticket && data.ticket.locked) return;
 
@@ -507,6 +839,34 @@ export default function Ticket() {
     refetch();
   }
 
+  async function transferTeam() {
+    if (data && data.ticket && data.ticket.locked) return;
+    if (assignedTeam === undefined) return;
+
+    const res = await fetch(`/api/v1/ticket/transfer/team`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        team: assignedTeam ? assignedTeam.id : undefined,
+        id,
+      }),
+    }).then((res) => res.json());
+
+    if (!res.success) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: res.message || "Failed to transfer team",
+      });
+      return;
+    }
+
+    refetch();
+  }
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       setFile(e.target.files[0]);
@@ -554,6 +914,7 @@ export default function Ticket() {
   useEffect(() => {
     fetchUsers();
     fetchClients();
+    fetchTeams();
   }, []);
 
   useEffect(() => {
@@ -564,6 +925,10 @@ export default function Ticket() {
     transferClient();
   }, [assignedClient]);
 
+  useEffect(() => {
+    transferTeam();
+  }, [assignedTeam]);
+
   const [debouncedValue] = useDebounce(issue, 500);
   const [debounceTitle] = useDebounce(title, 500);
 
@@ -720,8 +1085,6 @@ export default function Ticket() {
     }
   }
 
-  const priorities = ["low", "medium", "high"];
-
   return (
     <div>
       {status === "loading" && (
@@ -805,6 +1168,53 @@ export default function Ticket() {
                               </span>
                             </div>
                           )}
+                          {data.ticket.deletedAt && (
+                            <div className="flex flex-row items-center space-x-1">
+                              <span className="inline-flex items-center rounded-md bg-red-50 px-2 py-1 text-xs font-medium text-red-700 ring-1 ring-inset ring-red-600/20">
+                                In the trash
+                              </span>
+                              <button
+                                className="text-xs text-muted-foreground hover:underline"
+                                onClick={restoreIssue}
+                              >
+                                Restore
+                              </button>
+                            </div>
+                          )}
+                          {data.ticket.snoozedUntil && (
+                            <div className="flex flex-row items-center space-x-1">
+                              <span
+                                className="inline-flex items-center gap-x-1 rounded-md bg-gray-50 px-2 py-1 text-xs font-medium text-gray-700 ring-1 ring-inset ring-gray-600/20"
+                                title={data.ticket.snoozeNote || undefined}
+                              >
+                                <AlarmClock className="h-3 w-3" />
+                                Snoozed until{" "}
+                                {moment(data.ticket.snoozedUntil).format("LLL")}
+                              </span>
+                              {!data.ticket.locked && (
+                                <button
+                                  className="text-xs text-muted-foreground hover:underline"
+                                  onClick={() => snoozeTicket(data.ticket.id)}
+                                >
+                                  Wake up
+                                </button>
+                              )}
+                            </div>
+                          )}
+                          {data.ticket.mergedInto && (
+                            <div>
+                              <span
+                                className="inline-flex items-center rounded-md bg-purple-50 px-2 py-1 text-xs font-medium text-purple-700 ring-1 ring-inset ring-purple-600/20 hover:cursor-pointer"
+                                onClick={() =>
+                                  router.push(
+                                    `/issue/${data.ticket.mergedInto.id}`
+                                  )
+                                }
+                              >
+                                Merged into #{data.ticket.mergedInto.Number}
+                              </span>
+                            </div>
+                          )}
                         </div>
                         {user.isAdmin && (
                           <DropdownMenu>
@@ -853,6 +1263,15 @@ export default function Ticket() {
                                   <span>Lock Issue</span>
                                 </DropdownMenuItem>
                               )}
+                              {!data.ticket.mergedInto && (
+                                <DropdownMenuItem
+                                  className="flex flex-row space-x-3 items-center"
+                                  onClick={() => setMergeOpen(true)}
+                                >
+                                  <Merge className="h-4 w-4" />
+                                  <span>Merge Issues</span>
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuSeparator />
                               <DropdownMenuItem
                                 className="flex flex-row space-x-3 items-center transition-colors duration-200 focus:bg-red-500 focus:text-white"
@@ -1082,50 +1501,166 @@ export default function Ticket() {
                             </>
                           )}
                         </div>
+                        {data.ticket.merged && data.ticket.merged.length > 0 && (
+                          <div className="flex flex-row flex-wrap items-center text-xs text-muted-foreground space-x-1 mt-1">
+                            <span>Merged from</span>
+                            {data.ticket.merged.map((merged: any) => (
+                              <span
+                                key={merged.id}
+                                className="font-semibold hover:underline hover:cursor-pointer"
+                                onClick={() =>
+                                  router.push(`/issue/${merged.id}`)
+                                }
+                              >
+                                #{merged.Number}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       <div className="">
                         <ul role="list" className="space-y-2">
-                          {data.ticket.comments.length > 0 &&
-                            data.ticket.comments.map((comment: any) => (
+                          {activity?.activity?.map((item: any) =>
+                            item.type === "comment" ? (
                               <li
-                                key={comment.id}
+                                key={item.id}
                                 className="group flex flex-col space-y-1 text-sm bg-secondary/50 dark:bg-secondary/50 px-4 py-2 rounded-lg relative"
                               >
                                 <div className="flex flex-row space-x-2 items-center">
                                   <Avatar className="w-6 h-6">
                                     <AvatarImage
                                       src={
-                                        comment.user ? comment.user.image : ""
+                                        item.comment.user
+                                          ? item.comment.user.image
+                                          : ""
                                       }
                                     />
                                     <AvatarFallback>
-                                      {comment.user
-                                        ? comment.user.name.slice(0, 1)
-                                        : comment.replyEmail.slice(0, 1)}
+                                      {item.comment.user
+                                        ? item.comment.user.name.slice(0, 1)
+                                        : item.comment.replyEmail.slice(
+                                            0,
+                                            1
+                                          )}
                                     </AvatarFallback>
                                   </Avatar>
                                   <span className="font-bold">
-                                    {comment.user
-                                      ? comment.user.name
-                                      : comment.replyEmail}
+                                    {item.comment.user
+                                      ? item.comment.user.name
+                                      : item.comment.replyEmail}
                                   </span>
                                   <span className="text-xs lowercase">
-                                    {moment(comment.createdAt).format("LLL")}
+                                    {moment(item.comment.createdAt).format(
+                                      "LLL"
+                                    )}
                                   </span>
+                                  {item.comment.edited && (
+                                    <button
+                                      className="text-xs text-muted-foreground hover:underline"
+                                      title={moment(
+                                        item.comment.editedAt
+                                      ).format("LLL")}
+                                      onClick={() =>
+                                        setHistoryId(item.comment.id)
+                                      }
+                                    >
+                                      (edited)
+                                    </button>
+                                  )}
                                   {(user.isAdmin ||
-                                    (comment.user &&
-                                      comment.userId === user.id)) && (
-                                    <Trash2
-                                      className="h-4 w-4 absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer text-muted-foreground hover:text-destructive"
-                                      onClick={() => {
-                                        deleteComment(comment.id);
-                                      }}
-                                    />
+                                    (item.comment.user &&
+                                      item.comment.userId === user.id)) && (
+                                    <div className="absolute top-2 right-2 flex flex-row space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                      {item.comment.user &&
+                                        !data.ticket.locked && (
+                                          <Pencil
+                                            className="h-4 w-4 cursor-pointer text-muted-foreground hover:text-foreground"
+                                            onClick={() =>
+                                              setEditing({
+                                                id: item.comment.id,
+                                                text: item.comment.text,
+                                              })
+                                            }
+                                          />
+                                        )}
+                                      <Trash2
+                                        className="h-4 w-4 cursor-pointer text-muted-foreground hover:text-destructive"
+                                        onClick={() => {
+                                          deleteComment(item.comment.id);
+                                        }}
+                                      />
+                                    </div>
                                   )}
                                 </div>
-                                <span className="ml-1">{comment.text}</span>
+                                {editing?.id === item.comment.id ? (
+                                  <div className="space-y-2">
+                                    <MentionTextarea
+                                      rows={3}
+                                      className="block w-full bg-background rounded-md border-0 py-1.5 shadow-sm ring-1 ring-inset ring-gray-300 sm:text-sm sm:leading-6"
+                                      value={editing.text}
+                                      onChange={(text) =>
+                                        setEditing({ ...editing, text })
+                                      }
+                                      users={users}
+                                    />
+                                    <div className="flex justify-end space-x-2">
+                                      <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => setEditing(null)}
+                                      >
+                                        Cancel
+                                      </Button>
+                                      <Button
+                                        size="sm"
+                                        disabled={!editing.text.trim()}
+                                        onClick={() => editComment()}
+                                      >
+                                        Save
+                                      </Button>
+                                    </div>
+                                  </div>
+                                ) : (
+                                  <span className="ml-1">
+                                    {item.comment.text}
+                                  </span>
+                                )}
                               </li>
-                            ))}
+                            ) : (
+                              <li
+                                key={item.id}
+                                className="flex flex-row items-center space-x-2 text-xs text-muted-foreground px-4"
+                              >
+                                {item.type === "event" && (
+                                  <History className="h-3.5 w-3.5 shrink-0" />
+                                )}
+                                {item.type === "time" && (
+                                  <Clock className="h-3.5 w-3.5 shrink-0" />
+                                )}
+                                {item.type === "file" && (
+                                  <Paperclip className="h-3.5 w-3.5 shrink-0" />
+                                )}
+                                <span>
+                                  <span className="font-medium text-foreground">
+                                    {item.actor ? item.actor.name : "System"}
+                                  </span>{" "}
+                                  {item.type === "event" &&
+                                    describeEvent(
+                                      item,
+                                      fieldData?.fields,
+                                      users
+                                    )}
+                                  {item.type === "time" &&
+                                    `logged ${item.time} minutes: ${item.title}`}
+                                  {item.type === "file" &&
+                                    `uploaded ${item.filename}`}
+                                </span>
+                                <span className="lowercase">
+                                  {moment(item.createdAt).fromNow()}
+                                </span>
+                              </li>
+                            )
+                          )}
                         </ul>
                       </div>
                       <div className="mt-6">
@@ -1136,7 +1671,7 @@ export default function Ticket() {
                                 <label htmlFor="comment" className="sr-only">
                                   {t("comment")}
                                 </label>
-                                <textarea
+                                <MentionTextarea
                                   id="comment"
                                   name="comment"
                                   rows={3}
@@ -1144,14 +1679,20 @@ export default function Ticket() {
                                   placeholder={
                                     data.ticket.locked
                                       ? "This ticket is locked"
-                                      : "Leave a comment"
+                                      : "Leave a comment, @ to mention someone"
                                   }
-                                  defaultValue={""}
-                                  onChange={(e) => setComment(e.target.value)}
+                                  value={comment ?? ""}
+                                  onChange={setComment}
+                                  users={users}
                                   disabled={data.ticket.locked}
                                 />
                               </div>
-                              <div className="mt-4 flex justify-end">
+                              <div className="mt-4 flex justify-between">
+                                <MacroPicker
+                                  ticket={data.ticket}
+                                  disabled={data.ticket.locked}
+                                  onApplied={() => refetch()}
+                                />
                                 <div>
                                   <div className="flex flex-row items-center space-x-2">
                                     <Switch
@@ -1163,6 +1704,25 @@ export default function Ticket() {
                                 </div>
                               </div>
                               <div className="mt-4 flex items-center justify-end space-x-4">
+                                {!data.ticket.isComplete &&
+                                  !data.ticket.snoozedUntil && (
+                                    <button
+                                      type="button"
+                                      onClick={() => setSnoozeOpen(true)}
+                                      disabled={data.ticket.locked}
+                                      className={`inline-flex justify-center items-center gap-x-1.5 rounded-md ${
+                                        data.ticket.locked
+                                          ? "bg-gray-300 cursor-not-allowed"
+                                          : "bg-white hover:bg-gray-50"
+                                      } px-3 py-1.5 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300`}
+                                    >
+                                      <AlarmClock
+                                        className="-ml-0.5 h-4 w-4 text-gray-500"
+                                        aria-hidden="true"
+                                      />
+                                      Snooze
+                                    </button>
+                                  )}
                                 {data.ticket.isComplete ? (
                                   <button
                                     type="button"
@@ -1276,6 +1836,152 @@ export default function Ticket() {
                         hideInitial={false}
                       />
                     )}
+                    {teams && (
+                      <TeamCombo
+                        value={teams}
+                        update={setAssignedTeam}
+                        defaultName={
+                          data.ticket.team ? data.ticket.team.name : "No Team"
+                        }
+                        disabled={data.ticket.locked}
+                      />
+                    )}
+
+                    {fieldData?.fields?.length > 0 && (
+                      <div className="border-t mt-4 pt-4 space-y-2">
+                        <div className="flex flex-row items-center justify-between">
+                          <span className="text-sm font-medium text-gray-500 dark:text-white">
+                            Fields
+                          </span>
+                          {JSON.stringify(customFields) !==
+                            JSON.stringify(data.ticket.customFields || {}) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={saveCustomFields}
+                            >
+                              Save
+                            </Button>
+                          )}
+                        </div>
+                        <CustomFields
+                          fields={fieldData.fields}
+                          values={customFields}
+                          onChange={setCustomFields}
+                          users={users}
+                          disabled={data.ticket.locked}
+                        />
+                      </div>
+                    )}
+
+                    {(data.ticket.requiredSkills?.length > 0 ||
+                      data.ticket.routingReason) && (
+                      <div className="border-t mt-4 pt-4 space-y-2">
+                        <span className="text-sm font-medium text-gray-500 dark:text-white">
+                          Routing
+                        </span>
+                        {data.ticket.requiredSkills?.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {data.ticket.requiredSkills.map((s) => (
+                              <span
+                                key={s.skill.id}
+                                className="inline-flex items-center rounded-md bg-muted px-2 py-0.5 text-xs text-foreground"
+                              >
+                                {s.skill.name} {s.level}+
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {data.ticket.routingReason && (
+                          <p className="text-xs text-muted-foreground">
+                            {data.ticket.routingReason}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {data.ticket.slaPolicy && (
+                      <div className="border-t mt-4 pt-4">
+                        <div className="flex flex-row items-center justify-between">
+                          <span className="text-sm font-medium text-gray-500 dark:text-white">
+                            SLA
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {data.ticket.slaPolicy.name}
+                          </span>
+                        </div>
+                        {[
+                          {
+                            name: "First response",
+                            target: slaTarget(
+                              data.ticket.firstResponseDueAt,
+                              data.ticket.firstRespondedAt
+                            ),
+                          },
+                          {
+                            name: "Resolution",
+                            target: slaTarget(
+                              data.ticket.resolutionDueAt,
+                              data.ticket.resolvedAt
+                            ),
+                          },
+                        ]
+                          .filter((row) => row.target)
+                          .map((row) => (
+                            <div
+                              key={row.name}
+                              className="flex flex-row items-center justify-between mt-2 text-xs"
+                            >
+                              <span className="text-muted-foreground">
+                                {row.name}
+                              </span>
+                              <span className={row.target.className}>
+                                {row.target.label}
+                              </span>
+                            </div>
+                          ))}
+                        {!data.ticket.isComplete && data.ticket.slaBreached && (
+                          <span className="mt-2 inline-flex items-center rounded-md px-2 py-1 text-xs font-medium ring-1 ring-inset ring-red-600/20 bg-red-50 text-red-700">
+                            SLA breached
+                          </span>
+                        )}
+                        {!data.ticket.isComplete &&
+                          !data.ticket.slaBreached &&
+                          data.ticket.slaAtRisk && (
+                            <span className="mt-2 inline-flex items-center rounded-md px-2 py-1 text-xs font-medium ring-1 ring-inset ring-yellow-600/20 bg-yellow-50 text-yellow-800">
+                              SLA at risk
+                            </span>
+                          )}
+                      </div>
+                    )}
+
+                    <TicketTags
+                      ticket={data.ticket}
+                      tags={data.ticket.tags}
+                      disabled={data.ticket.locked}
+                      onChange={() => refetch()}
+                    />
+
+                    <TicketCc
+                      ticket={data.ticket}
+                      disabled={data.ticket.locked}
+                      onChange={() => refetch()}
+                    />
+
+                    <TicketSubtasks
+                      ticket={data.ticket}
+                      subtasks={data.ticket.subtasks}
+                      users={users}
+                      disabled={data.ticket.locked}
+                      onChange={() => refetch()}
+                    />
+
+                    <RelatedTickets
+                      ticket={data.ticket}
+                      relations={data.ticket.relations}
+                      disabled={data.ticket.locked}
+                      onChange={() => refetch()}
+                    />
 
                     {/* <div className="border-t border-gray-200">
                   <div className="flex flex-row items-center justify-between mt-2">
@@ -1446,22 +2152,23 @@ export default function Ticket() {
                     <CommandGroup heading="Priority">
                       {priorities.map((priority) => (
                         <CommandItem
-                          key={priority}
+                          key={priority.key}
                           onSelect={() =>
-                            updateTicketPriority(data.ticket, priority)
+                            updateTicketPriority(data.ticket, priority.key)
                           }
                         >
                           <div
                             className={cn(
                               "mr-2 flex h-4 w-4 items-center justify-center rounded-sm border border-primary",
-                              data.ticket.priority.toLowerCase() === priority
+                              data.ticket.priority.toLowerCase() ===
+                                priority.key
                                 ? "bg-primary text-primary-foreground"
                                 : "opacity-50 [&_svg]:invisible"
                             )}
                           >
                             <CheckIcon className={cn("h-4 w-4")} />
                           </div>
-                          <span className="capitalize">{priority}</span>
+                          <span>{priority.name}</span>
                         </CommandItem>
                       ))}
                     </CommandGroup>
@@ -1501,6 +2208,33 @@ export default function Ticket() {
           </ContextMenuContent>
         </ContextMenu>
       )}
+
+      {status === "success" && (
+        <MergeTicketModal
+          ticket={data.ticket}
+          open={mergeOpen}
+          setOpen={setMergeOpen}
+          onMerged={() => refetch()}
+        />
+      )}
+
+      {status === "success" && (
+        <SnoozeDialog
+          ticket={snoozeOpen ? data.ticket : null}
+          onClose={() => setSnoozeOpen(false)}
+          onSnooze={(until, note) =>
+            snoozeTicket(data.ticket.id, until, note)
+          }
+        />
+      )}
+
+      {historyId && (
+        <CommentHistory
+          commentId={historyId}
+          open={!!historyId}
+          setOpen={(open) => !open && setHistoryId(null)}
+        />
+      )}
     </div>
   );
 }
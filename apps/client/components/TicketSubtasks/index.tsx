@@ -0,0 +1,230 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { useStatuses } from "@/shadcn/hooks/useStatuses";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/shadcn/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shadcn/ui/select";
+import { getCookie } from "cookies-next";
+import { CheckCircle2, Circle, CornerDownRight, Plus, X } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { useUser } from "../../store/session";
+
+export default function TicketSubtasks({
+  ticket,
+  subtasks,
+  users,
+  disabled,
+  onChange,
+}) {
+  const token = getCookie("session");
+  const { user } = useUser();
+  const { statusName } = useStatuses();
+
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [assignee, setAssignee] = useState("unassigned");
+  const [saving, setSaving] = useState(false);
+
+  const children = subtasks || [];
+  const done = children.filter((t: any) => t.isComplete).length;
+
+  async function request(url: string, method: string, body?: any) {
+    const res = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    }).then((res) => res.json());
+
+    if (!res.success) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: res.message || "Failed to update subtasks",
+      });
+    }
+
+    return res;
+  }
+
+  async function create() {
+    const engineer = (users || []).find((u: any) => u.id === assignee);
+
+    setSaving(true);
+    try {
+      const res = await request(`/api/v1/ticket/create`, "POST", {
+        title: title.trim(),
+        detail: [{ type: "paragraph" }],
+        priority: ticket.priority,
+        type: ticket.type,
+        parent: ticket.id,
+        engineer: engineer ? { id: engineer.id, name: engineer.name } : undefined,
+        createdBy: {
+          id: user.id,
+          name: user.name,
+          role: user.role,
+          email: user.email,
+        },
+      });
+
+      if (res.success) {
+        setOpen(false);
+        setTitle("");
+        setAssignee("unassigned");
+        onChange();
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function detach(id: string) {
+    const res = await request(`/api/v1/ticket/${id}/parent`, "PUT", {
+      parent: null,
+    });
+
+    if (res.success) {
+      onChange();
+    }
+  }
+
+  return (
+    <div className="border-t mt-4 pt-4">
+      <div className="flex flex-row items-center justify-between">
+        <span className="text-sm font-medium text-gray-500 dark:text-white">
+          Subtasks
+          {children.length > 0 && (
+            <span className="ml-2 text-xs text-muted-foreground">
+              {done}/{children.length}
+            </span>
+          )}
+        </span>
+        {!disabled && (
+          <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-6 px-2">
+                <Plus className="h-3.5 w-3.5" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-2" align="end">
+              <form
+                className="space-y-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  create();
+                }}
+              >
+                <Input
+                  autoFocus
+                  placeholder="Subtask title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  className="h-8"
+                />
+                <Select value={assignee} onValueChange={setAssignee}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unassigned" className="text-xs">
+                      Unassigned
+                    </SelectItem>
+                    {(users || []).map((u: any) => (
+                      <SelectItem key={u.id} value={u.id} className="text-xs">
+                        {u.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="submit"
+                  size="sm"
+                  className="w-full"
+                  disabled={!title.trim() || saving}
+                >
+                  Create subtask
+                </Button>
+              </form>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+      {children.length === 0 ? (
+        <p className="text-xs text-muted-foreground mt-2">No subtasks</p>
+      ) : (
+        <>
+          <div className="mt-2 h-1.5 w-full rounded-full bg-secondary">
+            <div
+              className="h-1.5 rounded-full bg-green-500"
+              style={{ width: `${(done / children.length) * 100}%` }}
+            />
+          </div>
+          <ul className="mt-2 space-y-1">
+            {children.map((child: any) => (
+              <li
+                key={child.id}
+                className="group flex flex-row items-center justify-between gap-2 text-xs"
+              >
+                <Link
+                  href={`/issue/${child.id}`}
+                  className="flex flex-row items-center gap-1 min-w-0 hover:underline"
+                >
+                  {child.isComplete ? (
+                    <CheckCircle2 className="h-3 w-3 shrink-0 text-green-500" />
+                  ) : (
+                    <Circle className="h-3 w-3 shrink-0" />
+                  )}
+                  <span className="text-muted-foreground">#{child.Number}</span>
+                  <span
+                    className={
+                      child.isComplete ? "truncate line-through" : "truncate"
+                    }
+                  >
+                    {child.title}
+                  </span>
+                </Link>
+                <div className="flex flex-row items-center gap-1 shrink-0">
+                  <span
+                    className="text-muted-foreground"
+                    title={child.assignedTo?.name || "Unassigned"}
+                  >
+                    {statusName(child.status)}
+                  </span>
+                  {!disabled && (
+                    <button
+                      onClick={() => detach(child.id)}
+                      title="Remove from subtasks"
+                      className="hidden group-hover:block text-muted-foreground hover:text-foreground"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      {ticket.parent && (
+        <Link
+          href={`/issue/${ticket.parent.id}`}
+          className="mt-3 flex flex-row items-center gap-1 text-xs text-muted-foreground hover:underline"
+        >
+          <CornerDownRight className="h-3 w-3 shrink-0" />
+          <span className="truncate">
+            Subtask of #{ticket.parent.Number} {ticket.parent.title}
+          </span>
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { Button } from "@/shadcn/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/shadcn/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/shadcn/ui/popover";
+import { getCookie } from "cookies-next";
+import { Plus, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useQueryClient } from "react-query";
+import { useDebounce } from "use-debounce";
+
+export default function TicketTags({ ticket, tags, disabled, onChange }) {
+  const token = getCookie("session");
+  const queryClient = useQueryClient();
+
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch] = useDebounce(search, 200);
+  const [suggestions, setSuggestions] = useState<any[]>([]);
+
+  const current = (tags || []).map((t: any) => t.tag);
+
+  async function request(url: string, method: string, body?: any) {
+    const res = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    }).then((res) => res.json());
+
+    if (!res.success) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: res.message || "Failed to update tags",
+      });
+    }
+
+    return res;
+  }
+
+  async function fetchSuggestions() {
+    const res = await fetch(
+      `/api/v1/tags/all?q=${encodeURIComponent(debouncedSearch)}`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      }
+    ).then((res) => res.json());
+
+    if (res.tags) {
+      setSuggestions(
+        res.tags.filter((t: any) => !current.some((c: any) => c.id === t.id))
+      );
+    }
+  }
+
+  async function add(tagId: string) {
+    const res = await request(`/api/v1/ticket/${ticket.id}/tags`, "POST", {
+      tags: [tagId],
+    });
+
+    if (res.success) {
+      setOpen(false);
+      setSearch("");
+      onChange();
+    }
+  }
+
+  async function create() {
+    const res = await request(`/api/v1/tag/create`, "POST", {
+      name: search.trim(),
+    });
+
+    if (res.success) {
+      queryClient.invalidateQueries("tags");
+      await add(res.tag.id);
+    }
+  }
+
+  async function remove(tagId: string) {
+    const res = await request(
+      `/api/v1/ticket/${ticket.id}/tags/${tagId}`,
+      "DELETE"
+    );
+
+    if (res.success) {
+      onChange();
+    }
+  }
+
+  useEffect(() => {
+    if (open) {
+      fetchSuggestions();
+    }
+  }, [open, debouncedSearch]);
+
+  const exists = [...current, ...suggestions].some(
+    (t: any) => t.name.toLowerCase() === search.trim().toLowerCase()
+  );
+
+  return (
+    <div className="border-t mt-4 pt-4">
+      <div className="flex flex-row items-center justify-between">
+        <span className="text-sm font-medium text-gray-500 dark:text-white">
+          Tags
+        </span>
+        {!disabled && (
+          <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-6 px-2">
+                <Plus className="h-3.5 w-3.5" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-2" align="end">
+              <Command className="border rounded-md" shouldFilter={false}>
+                <CommandInput
+                  placeholder="Search tags..."
+                  value={search}
+                  onValueChange={setSearch}
+                />
+                <CommandList>
+                  <CommandEmpty>No tags found.</CommandEmpty>
+                  <CommandGroup>
+                    {suggestions.map((t) => (
+                      <CommandItem
+                        key={t.id}
+                        value={t.id}
+                        onSelect={() => add(t.id)}
+                      >
+                        <span
+                          className="mr-2 h-2 w-2 shrink-0 rounded-full"
+                          style={{ backgroundColor: t.color }}
+                        />
+                        <span className="truncate">{t.name}</span>
+                      </CommandItem>
+                    ))}
+                    {search.trim() && !exists && (
+                      <CommandItem value="__create" onSelect={create}>
+                        <Plus className="mr-2 h-3 w-3" />
+                        Create tag "{search.trim()}"
+                      </CommandItem>
+                    )}
+                  </CommandGroup>
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+      {current.length === 0 ? (
+        <p className="text-xs text-muted-foreground mt-2">No tags</p>
+      ) : (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {current.map((tag: any) => (
+            <span
+              key={tag.id}
+              title={tag.description || undefined}
+              className="group inline-flex items-center gap-x-1 rounded-md px-2 py-0.5 text-xs font-medium"
+              style={{ backgroundColor: `${tag.color}1a`, color: tag.color }}
+            >
+              {tag.name}
+              {!disabled && (
+                <button
+                  onClick={() => remove(tag.id)}
+                  className="hidden group-hover:block hover:opacity-75"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import PriorityBadge from "@/shadcn/components/tickets/PriorityBadge";
+import { useStatuses } from "@/shadcn/hooks/useStatuses";
 import { getCookie } from "cookies-next";
 import moment from "moment";
 import { useRouter } from "next/router";
@@ -212,10 +214,7 @@ export default function AdminTicketLayout() {
   );
 
   const router = useRouter();
-
-  const high = "bg-red-100 text-red-800";
-  const low = "bg-blue-100 text-blue-800";
-  const normal = "bg-green-100 text-green-800";
+  const { statuses, statusName } = useStatuses();
 
   const columns = useMemo(
     () => [
@@ -266,26 +265,12 @@ export default function AdminTicketLayout() {
         accessor: "priority",
         id: "priority",
         Cell: ({ row, value }) => {
-          let p = value;
-          let badge;
-
-          if (p === "Low") {
-            badge = low;
-          }
-          if (p === "Normal") {
-            badge = normal;
-          }
-          if (p === "High") {
-            badge = high;
-          }
-
           return (
             <>
-              <span
-                className={`inline-flex items-center rounded-md justify-center w-1/2 px-2 py-1 text-xs font-medium ring-1 ring-inset ${badge}`}
-              >
-                {value}
-              </span>
+              <PriorityBadge
+                priority={value}
+                className="justify-center w-1/2"
+              />
             </>
           );
         },
@@ -301,10 +286,7 @@ export default function AdminTicketLayout() {
           return (
             <>
               <span className="inline-flex items-center rounded-md bg-yellow-50 px-2 py-1 text-xs font-medium text-yellow-700 ring-1 ring-inset ring-red-600/10">
-                {value === "needs_support" && <span>Needs Support</span>}
-                {value === "in_progress" && <span>In Progress</span>}
-                {value === "in_review" && <span>In Review</span>}
-                {value === "done" && <span>Done</span>}
+                <span>{statusName(value)}</span>
               </span>
             </>
           );
@@ -324,7 +306,7 @@ export default function AdminTicketLayout() {
         },
       },
     ],
-    []
+    [statuses]
   );
 
   return (
@@ -8,15 +8,26 @@ import {
 } from "@heroicons/react/24/outline";
 import { Button } from "@radix-ui/themes";
 import {
+  Award,
+  CalendarClock,
   ContactIcon,
   FileText,
+  GitBranch,
   KeyRound,
   Mail,
   Mailbox,
+  Repeat,
   MoveLeft,
   RollerCoaster,
+  Signal,
+  Tag,
+  TextCursorInput,
+  Timer,
+  Trash2,
   UserRound,
+  Users,
   Webhook,
+  Workflow,
 } from "lucide-react";
 import useTranslation from "next-translate/useTranslation";
 import Link from "next/link";
@@ -59,6 +70,42 @@ export default function AdminLayout({ children }: any) {
       current: location.pathname === "/admin/clients",
       icon: ContactIcon,
     },
+    {
+      name: "Teams",
+      href: "/admin/teams",
+      current: location.pathname === "/admin/teams",
+      icon: Users,
+    },
+    {
+      name: "Skills",
+      href: "/admin/skills",
+      current: location.pathname === "/admin/skills",
+      icon: Award,
+    },
+    {
+      name: "Custom Fields",
+      href: "/admin/custom-fields",
+      current: location.pathname === "/admin/custom-fields",
+      icon: TextCursorInput,
+    },
+    {
+      name: "Workflow",
+      href: "/admin/statuses",
+      current: location.pathname === "/admin/statuses",
+      icon: GitBranch,
+    },
+    {
+      name: "Priorities",
+      href: "/admin/priorities",
+      current: location.pathname === "/admin/priorities",
+      icon: Signal,
+    },
+    {
+      name: "Tags",
+      href: "/admin/tags",
+      current: location.pathname === "/admin/tags",
+      icon: Tag,
+    },
     {
       name: "Email Queues",
       href: "/admin/email-queues",
@@ -83,12 +130,42 @@ export default function AdminLayout({ children }: any) {
       current: location.pathname === "/admin/authentication",
       icon: KeyRound,
     },
+    {
+      name: "Automations",
+      href: "/admin/automations",
+      current: location.pathname === "/admin/automations",
+      icon: Workflow,
+    },
+    {
+      name: "Recurring Tickets",
+      href: "/admin/recurring",
+      current: location.pathname === "/admin/recurring",
+      icon: Repeat,
+    },
+    {
+      name: "SLA Policies",
+      href: "/admin/sla",
+      current: location.pathname === "/admin/sla",
+      icon: Timer,
+    },
+    {
+      name: "Business Hours",
+      href: "/admin/business-hours",
+      current: location.pathname === "/admin/business-hours",
+      icon: CalendarClock,
+    },
     {
       name: "Roles",
       href: "/admin/roles",
       current: location.pathname === "/admin/roles",
       icon: RollerCoaster,
     },
+    {
+      name: "Trash",
+      href: "/admin/trash",
+      current: location.pathname === "/admin/trash",
+      icon: Trash2,
+    },
     {
       name: "Logs",
       href: "/admin/logs",
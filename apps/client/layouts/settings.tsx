@@ -1,6 +1,6 @@
 import { classNames } from "@/shadcn/lib/utils";
 import { SidebarProvider } from "@/shadcn/ui/sidebar";
-import { Bell, Flag, KeyRound, SearchSlashIcon } from "lucide-react";
+import { Bell, Flag, KeyRound, SearchSlashIcon, Zap } from "lucide-react";
 import useTranslation from "next-translate/useTranslation";
 import Link from "next/link";
 import { useRouter } from "next/router";
@@ -70,6 +70,19 @@ export default function Settings({ children }) {
                     <SearchSlashIcon className="flex-shrink-0  h-5 w-5 text-foreground" />
                     <span>Sessions</span>
                   </Link>
+
+                  <Link
+                    href="/settings/macros"
+                    className={classNames(
+                      router.pathname === "/settings/macros"
+                        ? "bg-secondary dark:bg-primary"
+                        : "hover:bg-[#F0F3F9] dark:hover:bg-white dark:hover:text-gray-900 ",
+                      "group flex items-center gap-x-3 py-2 px-3 rounded-md text-sm font-semibold leading-6"
+                    )}
+                  >
+                    <Zap className="flex-shrink-0  h-5 w-5 text-foreground" />
+                    <span>Macros</span>
+                  </Link>
                 </nav>
               </aside>
 
@@ -0,0 +1,688 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { useTags } from "@/shadcn/hooks/useTags";
+import { hasAccess } from "@/shadcn/lib/hasAccess";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { Switch } from "@/shadcn/ui/switch";
+import { getCookie } from "cookies-next";
+import { Plus, Trash2 } from "lucide-react";
+import moment from "moment";
+import { useState } from "react";
+import { useQuery } from "react-query";
+
+const triggers = [
+  { value: "ticket_created", label: "Ticket created" },
+  { value: "ticket_updated", label: "Ticket updated" },
+  { value: "ticket_commented", label: "Comment added" },
+  { value: "scheduled", label: "On a schedule (checked every minute)" },
+];
+
+const fields = [
+  { value: "title", label: "Title" },
+  { value: "detail", label: "Description" },
+  { value: "priority", label: "Priority" },
+  { value: "status", label: "Status" },
+  { value: "type", label: "Type" },
+  { value: "email", label: "Requester email" },
+  { value: "isComplete", label: "Closed" },
+  { value: "assignee", label: "Assignee id" },
+  { value: "client", label: "Client id" },
+  { value: "tags", label: "Tags" },
+  { value: "fromImap", label: "Created from email" },
+  { value: "comment.text", label: "Comment text" },
+  { value: "comment.public", label: "Comment is public" },
+  { value: "hours_since_created", label: "Hours since created" },
+  { value: "hours_since_activity", label: "Hours since last activity" },
+  { value: "hours_in_status", label: "Hours in current status" },
+  { value: "hours_since_customer_reply", label: "Hours since customer reply" },
+  { value: "hours_since_agent_reply", label: "Hours since agent reply" },
+  { value: "awaiting", label: "Awaiting (customer or agent)" },
+];
+
+const operators = [
+  { value: "equals", label: "is" },
+  { value: "not_equals", label: "is not" },
+  { value: "contains", label: "contains" },
+  { value: "not_contains", label: "does not contain" },
+  { value: "in", label: "is one of" },
+  { value: "not_in", label: "is none of" },
+  { value: "is_empty", label: "is empty" },
+  { value: "is_not_empty", label: "is not empty" },
+  { value: "changed", label: "changed" },
+  { value: "greater_than", label: "is more than" },
+  { value: "less_than", label: "is less than" },
+];
+
+const actionTypes = [
+  { value: "set_field", label: "Set field" },
+  { value: "assign", label: "Assign to" },
+  { value: "send_email", label: "Send email" },
+  { value: "call_webhook", label: "Call webhook" },
+  { value: "add_tag", label: "Add tag" },
+  { value: "remove_tag", label: "Remove tag" },
+];
+
+const settableFields = ["priority", "status", "type", "isComplete"];
+
+const emptyRule = {
+  id: null,
+  name: "",
+  description: "",
+  active: true,
+  order: 0,
+  trigger: "ticket_created",
+  matchAll: true,
+  conditions: [],
+  actions: [{ type: "set_field", field: "priority", value: "high" }],
+  stopProcessing: false,
+};
+
+const select =
+  "block w-full rounded-md border bg-transparent py-1.5 px-2 text-sm text-foreground";
+
+async function get(url: string) {
+  const res = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  hasAccess(res);
+
+  return res.json();
+}
+
+async function send(url: string, method: string, body?: any) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((res) => res.json());
+
+  if (!res.success) {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: res.message,
+    });
+  }
+
+  return res;
+}
+
+function ruleBody(rule: any) {
+  return {
+    id: rule.id || undefined,
+    name: rule.name,
+    description: rule.description,
+    active: rule.active,
+    order: Number(rule.order) || 0,
+    trigger: rule.trigger,
+    matchAll: rule.matchAll,
+    conditions: rule.conditions,
+    actions: rule.actions,
+    stopProcessing: rule.stopProcessing,
+  };
+}
+
+function ActionFields({ action, users, tags, onChange }) {
+  switch (action.type) {
+    case "set_field":
+      return (
+        <>
+          <select
+            className={select}
+            value={action.field}
+            onChange={(e) => onChange({ ...action, field: e.target.value })}
+          >
+            {settableFields.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+          <Input
+            placeholder="Value"
+            value={action.value ?? ""}
+            onChange={(e) => onChange({ ...action, value: e.target.value })}
+          />
+        </>
+      );
+    case "assign":
+      return (
+        <select
+          className={select}
+          value={action.userId ?? ""}
+          onChange={(e) =>
+            onChange({ ...action, userId: e.target.value || null })
+          }
+        >
+          <option value="">Unassigned</option>
+          {users.map((u) => (
+            <option key={u.id} value={u.id}>
+              {u.name}
+            </option>
+          ))}
+        </select>
+      );
+    case "send_email":
+      return (
+        <div className="flex flex-col gap-2 w-full">
+          <Input
+            placeholder="requester, assignee or an email address"
+            value={action.to ?? ""}
+            onChange={(e) => onChange({ ...action, to: e.target.value })}
+          />
+          <Input
+            placeholder="Subject, e.g. Update on #{{number}}"
+            value={action.subject ?? ""}
+            onChange={(e) => onChange({ ...action, subject: e.target.value })}
+          />
+          <textarea
+            className="rounded-md border bg-transparent p-2 text-sm"
+            rows={3}
+            placeholder="Body, supports {{title}}, {{status}}, {{priority}}..."
+            value={action.body ?? ""}
+            onChange={(e) => onChange({ ...action, body: e.target.value })}
+          />
+        </div>
+      );
+    case "call_webhook":
+      return (
+        <Input
+          placeholder="https://"
+          value={action.url ?? ""}
+          onChange={(e) => onChange({ ...action, url: e.target.value })}
+        />
+      );
+    case "add_tag":
+    case "remove_tag":
+      return (
+        <select
+          className={select}
+          value={action.tag ?? ""}
+          onChange={(e) => onChange({ ...action, tag: e.target.value })}
+        >
+          <option value="">Choose a tag</option>
+          {tags.map((t) => (
+            <option key={t.id} value={t.name}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+      );
+    default:
+      return null;
+  }
+}
+
+export default function Automations() {
+  const [rule, setRule] = useState<any>(null);
+  const [ticket, setTicket] = useState("");
+  const [test, setTest] = useState<any>(null);
+
+  const { data, status, refetch } = useQuery("getautomations", () =>
+    get("/api/v1/automations/all")
+  );
+  const { data: users } = useQuery("getusers", () => get("/api/v1/users/all"));
+  const { tags } = useTags();
+  const { data: scheduler } = useQuery(
+    "getschedulerruns",
+    () => get("/api/v1/scheduler/runs"),
+    { enabled: !rule }
+  );
+  const { data: runs, refetch: refetchRuns } = useQuery(
+    ["automationruns", rule?.id],
+    () => get(`/api/v1/automation/${rule.id}/runs`),
+    { enabled: !!rule?.id }
+  );
+
+  function open(value: any) {
+    setRule(value);
+    setTest(null);
+  }
+
+  function update(key: string, index: number, value: any) {
+    const items = [...rule[key]];
+
+    if (value === null) {
+      items.splice(index, 1);
+    } else {
+      items[index] = value;
+    }
+
+    setRule({ ...rule, [key]: items });
+  }
+
+  async function save() {
+    const body = ruleBody(rule);
+
+    const res = rule.id
+      ? await send(`/api/v1/automation/${rule.id}/update`, "PUT", body)
+      : await send(`/api/v1/automation/create`, "POST", body);
+
+    if (res.success) {
+      setRule(null);
+      refetch();
+    }
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Are you sure you want to delete this rule?")) return;
+
+    await send(`/api/v1/automation/${id}/delete`, "DELETE");
+    refetch();
+  }
+
+  async function dryRun() {
+    const res = await send(`/api/v1/automation/test`, "POST", {
+      rule: ruleBody(rule),
+      ticket: ticket.replace(/^#/, ""),
+    });
+
+    if (res.success) {
+      setTest(res);
+      refetchRuns();
+    }
+  }
+
+  return (
+    <main className="flex-1">
+      <div className="relative max-w-4xl mx-auto md:px-8 xl:px-0">
+        <div className="pt-10 pb-16">
+          <div className="px-4 sm:px-6 md:px-0 flex items-center justify-between">
+            <h1 className="text-3xl font-extrabold text-foreground">
+              Automations
+            </h1>
+            {rule ? (
+              <Button variant="outline" onClick={() => setRule(null)}>
+                Cancel
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => open(emptyRule)}>
+                Add Rule
+              </Button>
+            )}
+          </div>
+          <p className="px-4 sm:px-6 md:px-0 mt-2 text-sm text-foreground">
+            Rules run in order when a ticket is created, updated or commented
+            on. Changes made by a rule can trigger update rules again, up to
+            three levels deep, and each rule runs at most once per event.
+            Scheduled rules act on each open ticket once until it sees new
+            activity. Hours are counted in business hours when the ticket has
+            a calendar.
+          </p>
+
+          {rule ? (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-6">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    value={rule.name}
+                    onChange={(e) => setRule({ ...rule, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="trigger">When</Label>
+                  <select
+                    id="trigger"
+                    className={select}
+                    value={rule.trigger}
+                    onChange={(e) =>
+                      setRule({ ...rule, trigger: e.target.value })
+                    }
+                  >
+                    {triggers.map((t) => (
+                      <option key={t.value} value={t.value}>
+                        {t.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="description">Description</Label>
+                  <Input
+                    id="description"
+                    value={rule.description || ""}
+                    onChange={(e) =>
+                      setRule({ ...rule, description: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="order">Order</Label>
+                  <Input
+                    id="order"
+                    type="number"
+                    value={rule.order}
+                    onChange={(e) => setRule({ ...rule, order: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>
+                    If{" "}
+                    <select
+                      className="rounded-md border bg-transparent px-1 text-sm"
+                      value={rule.matchAll ? "all" : "any"}
+                      onChange={(e) =>
+                        setRule({ ...rule, matchAll: e.target.value === "all" })
+                      }
+                    >
+                      <option value="all">all</option>
+                      <option value="any">any</option>
+                    </select>{" "}
+                    of these conditions match
+                  </Label>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() =>
+                      setRule({
+                        ...rule,
+                        conditions: [
+                          ...rule.conditions,
+                          { field: "priority", operator: "equals", value: "" },
+                        ],
+                      })
+                    }
+                  >
+                    <Plus className="h-4 w-4 mr-1" /> Condition
+                  </Button>
+                </div>
+                {rule.conditions.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    No conditions, the rule matches every ticket.
+                  </p>
+                )}
+                {rule.conditions.map((condition, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <select
+                      className={select}
+                      value={condition.field}
+                      onChange={(e) =>
+                        update("conditions", index, {
+                          ...condition,
+                          field: e.target.value,
+                        })
+                      }
+                    >
+                      {fields.map((f) => (
+                        <option key={f.value} value={f.value}>
+                          {f.label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      className={select}
+                      value={condition.operator}
+                      onChange={(e) =>
+                        update("conditions", index, {
+                          ...condition,
+                          operator: e.target.value,
+                        })
+                      }
+                    >
+                      {operators.map((o) => (
+                        <option key={o.value} value={o.value}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      placeholder="Value"
+                      value={condition.value ?? ""}
+                      disabled={[
+                        "is_empty",
+                        "is_not_empty",
+                        "changed",
+                      ].includes(condition.operator)}
+                      onChange={(e) =>
+                        update("conditions", index, {
+                          ...condition,
+                          value: e.target.value,
+                        })
+                      }
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => update("conditions", index, null)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Then</Label>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() =>
+                      setRule({
+                        ...rule,
+                        actions: [
+                          ...rule.actions,
+                          { type: "set_field", field: "priority", value: "" },
+                        ],
+                      })
+                    }
+                  >
+                    <Plus className="h-4 w-4 mr-1" /> Action
+                  </Button>
+                </div>
+                {rule.actions.map((action, index) => (
+                  <div key={index} className="flex items-start gap-2">
+                    <select
+                      className={`${select} max-w-[10rem]`}
+                      value={action.type}
+                      onChange={(e) =>
+                        update("actions", index, { type: e.target.value })
+                      }
+                    >
+                      {actionTypes.map((a) => (
+                        <option key={a.value} value={a.value}>
+                          {a.label}
+                        </option>
+                      ))}
+                    </select>
+                    <ActionFields
+                      action={action}
+                      users={users?.users || []}
+                      tags={tags}
+                      onChange={(value) => update("actions", index, value)}
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => update("actions", index, null)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-6">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="active"
+                    checked={rule.active}
+                    onCheckedChange={(active) => setRule({ ...rule, active })}
+                  />
+                  <Label htmlFor="active">Active</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="stop"
+                    checked={rule.stopProcessing}
+                    onCheckedChange={(stopProcessing) =>
+                      setRule({ ...rule, stopProcessing })
+                    }
+                  />
+                  <Label htmlFor="stop">Stop later rules when matched</Label>
+                </div>
+              </div>
+
+              <Button onClick={save}>{rule.id ? "Save Rule" : "Add Rule"}</Button>
+
+              <div className="border-t pt-4 space-y-2">
+                <Label>Test against a ticket</Label>
+                <div className="flex items-center gap-2 max-w-sm">
+                  <Input
+                    placeholder="Ticket number, e.g. 42"
+                    value={ticket}
+                    onChange={(e) => setTicket(e.target.value)}
+                  />
+                  <Button variant="outline" onClick={dryRun}>
+                    Dry run
+                  </Button>
+                </div>
+                {test && (
+                  <div className="rounded-md border p-3 text-sm space-y-1">
+                    <p className="font-medium">
+                      {test.matched ? "Rule matches" : "Rule does not match"}
+                    </p>
+                    {test.conditions.map((c, index) => (
+                      <p
+                        key={index}
+                        className={
+                          c.matched ? "text-green-600" : "text-red-600"
+                        }
+                      >
+                        {c.matched ? "✓" : "✗"} {c.field} {c.operator}{" "}
+                        {c.value} (is {String(c.actual ?? "empty")})
+                      </p>
+                    ))}
+                    {test.results.map((r, index) => (
+                      <p key={index} className="text-muted-foreground">
+                        Would run: {r.detail}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {rule.id && runs?.runs?.length > 0 && (
+                <div className="border-t pt-4 space-y-2">
+                  <Label>Recent runs</Label>
+                  {runs.runs.map((run) => (
+                    <div
+                      key={run.id}
+                      className="flex items-start justify-between text-xs border-b pb-1"
+                    >
+                      <div>
+                        <span className="font-medium">
+                          {run.ticket ? `#${run.ticket.Number}` : "Deleted"}
+                        </span>{" "}
+                        {run.dryRun && "(dry run) "}
+                        {run.matched
+                          ? run.results.map((r) => r.detail).join(", ")
+                          : "Conditions did not match"}
+                        {run.error && (
+                          <span className="text-red-600"> · {run.error}</span>
+                        )}
+                      </div>
+                      <span className="text-muted-foreground whitespace-nowrap ml-2">
+                        {moment(run.createdAt).fromNow()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="px-4 sm:px-6 md:px-0 mt-6">
+              {status === "success" && data.rules?.length > 0 ? (
+                <div className="flex flex-col gap-4">
+                  {data.rules.map((r) => (
+                    <div
+                      key={r.id}
+                      className="rounded-lg border px-6 py-5 shadow-sm flex items-center space-x-3"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          {r.order}. {r.name}
+                          {!r.active && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              (inactive)
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {triggers.find((t) => t.value === r.trigger)?.label}{" "}
+                          · {r.conditions.length} conditions ·{" "}
+                          {r.actions.length} actions
+                        </p>
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => open(r)}>
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => remove(r.id)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                status === "success" && (
+                  <p className="text-foreground">
+                    You currently have no automation rules
+                  </p>
+                )
+              )}
+
+              {scheduler?.runs?.length > 0 && (
+                <div className="mt-8 space-y-2">
+                  <h2 className="text-lg font-semibold text-foreground">
+                    Scheduler history
+                  </h2>
+                  {scheduler.runs.map((run) => (
+                    <div
+                      key={run.id}
+                      className="flex items-center justify-between text-xs border-b pb-1"
+                    >
+                      <span>
+                        <span className="font-medium">{run.job}</span> ·{" "}
+                        <span
+                          className={
+                            run.status === "failed"
+                              ? "text-red-600"
+                              : "text-muted-foreground"
+                          }
+                        >
+                          {run.status}
+                        </span>
+                        {run.status === "succeeded" &&
+                          ` · ${run.processed} processed`}
+                        {run.error && ` · ${run.error}`}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {moment(run.startedAt).fromNow()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
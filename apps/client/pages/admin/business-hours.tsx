@@ -0,0 +1,461 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { hasAccess } from "@/shadcn/lib/hasAccess";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { Switch } from "@/shadcn/ui/switch";
+import { getCookie } from "cookies-next";
+import moment from "moment";
+import { useState } from "react";
+import { useQuery } from "react-query";
+
+const days = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const emptyCalendar = {
+  id: null,
+  name: "",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  isDefault: false,
+  schedule: [1, 2, 3, 4, 5].map((day) => ({
+    day,
+    start: "09:00",
+    end: "17:00",
+  })),
+  teams: [],
+  clients: [],
+  holidays: [],
+};
+
+async function getCalendars() {
+  const res = await fetch(`/api/v1/calendars/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  hasAccess(res);
+
+  return res.json();
+}
+
+async function getClients() {
+  const res = await fetch(`/api/v1/clients/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  return res.json();
+}
+
+async function getTeams() {
+  const res = await fetch(`/api/v1/teams/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  return res.json();
+}
+
+async function request(url: string, method: string, body?: any) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((res) => res.json());
+
+  if (!res.success) {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: res.message,
+    });
+  }
+
+  return res;
+}
+
+export default function BusinessHours() {
+  const [calendar, setCalendar] = useState<any>(null);
+  const [holiday, setHoliday] = useState({
+    name: "",
+    date: "",
+    recurring: false,
+  });
+
+  const { data, status, refetch } = useQuery("getcalendars", getCalendars);
+  const { data: clients } = useQuery("getclients", getClients);
+  const { data: teams } = useQuery("getteams", getTeams);
+
+  function setDay(day: number, hours: { start: string; end: string } | null) {
+    const schedule = calendar.schedule.filter((h) => h.day !== day);
+
+    setCalendar({
+      ...calendar,
+      schedule: hours
+        ? [...schedule, { day, ...hours }].sort((a, b) => a.day - b.day)
+        : schedule,
+    });
+  }
+
+  async function save() {
+    const body = {
+      name: calendar.name,
+      timezone: calendar.timezone,
+      isDefault: calendar.isDefault,
+      schedule: calendar.schedule,
+      teamIds: calendar.teams.map((t) => t.id),
+      clientIds: calendar.clients.map((c) => c.id),
+    };
+
+    const res = calendar.id
+      ? await request(`/api/v1/calendar/${calendar.id}/update`, "PUT", body)
+      : await request(`/api/v1/calendar/create`, "POST", body);
+
+    if (res.success) {
+      setCalendar(null);
+      refetch();
+    }
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Are you sure you want to delete this calendar?")) return;
+
+    await request(`/api/v1/calendar/${id}/delete`, "DELETE");
+    refetch();
+  }
+
+  async function addHoliday() {
+    const res = await request(
+      `/api/v1/calendar/${calendar.id}/holiday`,
+      "POST",
+      holiday
+    );
+
+    if (res.success) {
+      setCalendar({
+        ...calendar,
+        holidays: [...calendar.holidays, res.holiday],
+      });
+      setHoliday({ name: "", date: "", recurring: false });
+      refetch();
+    }
+  }
+
+  async function removeHoliday(id: string) {
+    const res = await request(
+      `/api/v1/calendar/${calendar.id}/holiday/${id}`,
+      "DELETE"
+    );
+
+    if (res.success) {
+      setCalendar({
+        ...calendar,
+        holidays: calendar.holidays.filter((h) => h.id !== id),
+      });
+      refetch();
+    }
+  }
+
+  return (
+    <main className="flex-1">
+      <div className="relative max-w-4xl mx-auto md:px-8 xl:px-0">
+        <div className="pt-10 pb-16">
+          <div className="px-4 sm:px-6 md:px-0 flex items-center justify-between">
+            <h1 className="text-3xl font-extrabold text-foreground">
+              Business Hours
+            </h1>
+            {calendar ? (
+              <Button variant="outline" onClick={() => setCalendar(null)}>
+                Cancel
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => setCalendar(emptyCalendar)}
+              >
+                Add Calendar
+              </Button>
+            )}
+          </div>
+          <p className="px-4 sm:px-6 md:px-0 mt-2 text-sm text-foreground">
+            SLA targets only count working time. Tickets use their team's
+            calendar, then their client's, then the default calendar. Without
+            any calendar the clock runs around the clock.
+          </p>
+
+          {calendar ? (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-6 max-w-xl">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    value={calendar.name}
+                    onChange={(e) =>
+                      setCalendar({ ...calendar, name: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="timezone">Timezone</Label>
+                  <Input
+                    id="timezone"
+                    placeholder="Europe/London"
+                    value={calendar.timezone}
+                    onChange={(e) =>
+                      setCalendar({ ...calendar, timezone: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Working hours</Label>
+                {days.map((name, day) => {
+                  const hours = calendar.schedule.find((h) => h.day === day);
+
+                  return (
+                    <div key={day} className="flex items-center space-x-3">
+                      <Switch
+                        checked={!!hours}
+                        onCheckedChange={(on) =>
+                          setDay(day, on ? { start: "09:00", end: "17:00" } : null)
+                        }
+                      />
+                      <span className="text-sm w-24">{name}</span>
+                      {hours ? (
+                        <>
+                          <Input
+                            type="time"
+                            className="w-32"
+                            value={hours.start}
+                            onChange={(e) =>
+                              setDay(day, { ...hours, start: e.target.value })
+                            }
+                          />
+                          <span className="text-sm">to</span>
+                          <Input
+                            type="time"
+                            className="w-32"
+                            value={hours.end}
+                            onChange={(e) =>
+                              setDay(day, { ...hours, end: e.target.value })
+                            }
+                          />
+                        </>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">
+                          Closed
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {teams?.teams?.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Teams</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {teams.teams.map((team) => {
+                      const selected = calendar.teams.some(
+                        (t) => t.id === team.id
+                      );
+
+                      return (
+                        <Button
+                          key={team.id}
+                          size="sm"
+                          variant={selected ? "default" : "outline"}
+                          onClick={() =>
+                            setCalendar({
+                              ...calendar,
+                              teams: selected
+                                ? calendar.teams.filter((t) => t.id !== team.id)
+                                : [...calendar.teams, team],
+                            })
+                          }
+                        >
+                          {team.name}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {clients?.clients?.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Clients</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {clients.clients.map((client) => {
+                      const selected = calendar.clients.some(
+                        (c) => c.id === client.id
+                      );
+
+                      return (
+                        <Button
+                          key={client.id}
+                          size="sm"
+                          variant={selected ? "default" : "outline"}
+                          onClick={() =>
+                            setCalendar({
+                              ...calendar,
+                              clients: selected
+                                ? calendar.clients.filter(
+                                    (c) => c.id !== client.id
+                                  )
+                                : [...calendar.clients, client],
+                            })
+                          }
+                        >
+                          {client.name}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="default"
+                  checked={calendar.isDefault}
+                  onCheckedChange={(isDefault) =>
+                    setCalendar({ ...calendar, isDefault })
+                  }
+                />
+                <Label htmlFor="default">Default calendar</Label>
+              </div>
+
+              <Button onClick={save}>
+                {calendar.id ? "Save Calendar" : "Add Calendar"}
+              </Button>
+
+              {calendar.id && (
+                <div className="space-y-2 border-t pt-4">
+                  <Label>Holidays</Label>
+                  {calendar.holidays.map((h) => (
+                    <div
+                      key={h.id}
+                      className="flex items-center justify-between text-sm"
+                    >
+                      <span>
+                        {h.name} ·{" "}
+                        {moment.utc(h.date).format(h.recurring ? "D MMMM" : "D MMMM YYYY")}
+                        {h.recurring && " (every year)"}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => removeHoliday(h.id)}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      placeholder="Name"
+                      value={holiday.name}
+                      onChange={(e) =>
+                        setHoliday({ ...holiday, name: e.target.value })
+                      }
+                    />
+                    <Input
+                      type="date"
+                      value={holiday.date}
+                      onChange={(e) =>
+                        setHoliday({ ...holiday, date: e.target.value })
+                      }
+                    />
+                    <Switch
+                      checked={holiday.recurring}
+                      onCheckedChange={(recurring) =>
+                        setHoliday({ ...holiday, recurring })
+                      }
+                    />
+                    <span className="text-xs whitespace-nowrap">Yearly</span>
+                    <Button size="sm" onClick={addHoliday}>
+                      Add
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="px-4 sm:px-6 md:px-0 mt-6">
+              {status === "success" && data.calendars?.length > 0 ? (
+                <div className="flex flex-col gap-4">
+                  {data.calendars.map((c) => (
+                    <div
+                      key={c.id}
+                      className="rounded-lg border px-6 py-5 shadow-sm flex items-center space-x-3"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          {c.name}
+                          {c.isDefault && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              (default)
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {c.timezone} ·{" "}
+                          {c.schedule
+                            .map((h) => `${days[h.day].slice(0, 3)} ${h.start}-${h.end}`)
+                            .join(", ")}
+                        </p>
+                        <p className="text-xs text-foreground mt-1">
+                          {c.holidays.length} holidays
+                          {[...c.teams, ...c.clients].length > 0 &&
+                            ` · ${[...c.teams, ...c.clients]
+                              .map((a) => a.name)
+                              .join(", ")}`}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setCalendar(c)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => remove(c.id)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                status === "success" && (
+                  <p className="text-foreground">
+                    You currently have no business-hours calendars
+                  </p>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,350 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { hasAccess } from "@/shadcn/lib/hasAccess";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { Switch } from "@/shadcn/ui/switch";
+import { getCookie } from "cookies-next";
+import { useState } from "react";
+import { useQuery } from "react-query";
+
+const ticketTypes = [
+  "bug",
+  "feature",
+  "support",
+  "incident",
+  "service",
+  "maintenance",
+  "access",
+  "feedback",
+];
+
+const fieldTypes = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "select", label: "Select" },
+  { value: "multi_select", label: "Multi-select" },
+  { value: "date", label: "Date" },
+  { value: "checkbox", label: "Checkbox" },
+  { value: "user", label: "User" },
+];
+
+const emptyField = {
+  name: "",
+  key: "",
+  description: "",
+  type: "text",
+  options: "",
+  required: false,
+  portal: false,
+  active: true,
+  ticketTypes: [],
+  order: 0,
+};
+
+async function getFields() {
+  const res = await fetch(`/api/v1/custom-fields/all?all=true`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  hasAccess(res);
+
+  return res.json();
+}
+
+async function request(url: string, method: string, body?: any) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((res) => res.json());
+
+  if (!res.success) {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: res.message,
+    });
+  }
+
+  return res;
+}
+
+function hasOptions(type: string) {
+  return type === "select" || type === "multi_select";
+}
+
+export default function CustomFieldsAdmin() {
+  const [field, setField] = useState<any>(null);
+
+  const { data, status, refetch } = useQuery("getcustomfields", getFields);
+
+  async function save() {
+    const body = {
+      name: field.name,
+      description: field.description,
+      type: field.type,
+      options: hasOptions(field.type)
+        ? field.options
+            .split(",")
+            .map((o: string) => o.trim())
+            .filter(Boolean)
+        : [],
+      required: field.required,
+      portal: field.portal,
+      active: field.active,
+      ticketTypes: field.ticketTypes,
+      order: Number(field.order) || 0,
+    };
+
+    const res = field.id
+      ? await request(`/api/v1/custom-field/${field.id}/update`, "PUT", body)
+      : await request(`/api/v1/custom-field/create`, "POST", {
+          ...body,
+          key: field.key || undefined,
+        });
+
+    if (res.success) {
+      setField(null);
+      refetch();
+    }
+  }
+
+  async function remove(id: string) {
+    if (
+      !confirm(
+        "Are you sure you want to delete this field? Its values will no longer be shown on tickets."
+      )
+    ) {
+      return;
+    }
+
+    await request(`/api/v1/custom-field/${id}/delete`, "DELETE");
+    refetch();
+  }
+
+  function toggleType(type: string) {
+    setField({
+      ...field,
+      ticketTypes: field.ticketTypes.includes(type)
+        ? field.ticketTypes.filter((t) => t !== type)
+        : [...field.ticketTypes, type],
+    });
+  }
+
+  return (
+    <main className="flex-1">
+      <div className="relative max-w-4xl mx-auto md:px-8 xl:px-0">
+        <div className="pt-10 pb-16">
+          <div className="px-4 sm:px-6 md:px-0 flex items-center justify-between">
+            <h1 className="text-3xl font-extrabold text-foreground">
+              Custom Fields
+            </h1>
+            {field ? (
+              <Button variant="outline" onClick={() => setField(null)}>
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={() => setField(emptyField)}>New Field</Button>
+            )}
+          </div>
+          <p className="px-4 sm:px-6 md:px-0 mt-2 text-sm text-foreground">
+            Extra fields shown on tickets of the selected types. Tickets can
+            be filtered by them with <code>cf.&lt;key&gt;=value</code> in the
+            tickets API.
+          </p>
+
+          {field ? (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-6 max-w-xl">
+              <div className="space-y-1">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={field.name}
+                  onChange={(e) => setField({ ...field, name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="key">Key</Label>
+                <Input
+                  id="key"
+                  placeholder="Derived from the name"
+                  value={field.key}
+                  disabled={!!field.id}
+                  onChange={(e) => setField({ ...field, key: e.target.value })}
+                />
+                {field.id && (
+                  <p className="text-xs text-muted-foreground">
+                    Keys cannot be changed once values are stored under them
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="description">Description</Label>
+                <Input
+                  id="description"
+                  value={field.description}
+                  onChange={(e) =>
+                    setField({ ...field, description: e.target.value })
+                  }
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <div className="flex flex-wrap gap-2">
+                  {fieldTypes.map((t) => (
+                    <Button
+                      key={t.value}
+                      size="sm"
+                      variant={field.type === t.value ? "default" : "outline"}
+                      onClick={() => setField({ ...field, type: t.value })}
+                    >
+                      {t.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {hasOptions(field.type) && (
+                <div className="space-y-1">
+                  <Label htmlFor="options">Options</Label>
+                  <Input
+                    id="options"
+                    placeholder="Comma separated, e.g. Production, Staging"
+                    value={field.options}
+                    onChange={(e) =>
+                      setField({ ...field, options: e.target.value })
+                    }
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Ticket types</Label>
+                <div className="flex flex-wrap gap-2">
+                  {ticketTypes.map((t) => (
+                    <Button
+                      key={t}
+                      size="sm"
+                      className="capitalize"
+                      variant={
+                        field.ticketTypes.includes(t) ? "default" : "outline"
+                      }
+                      onClick={() => toggleType(t)}
+                    >
+                      {t}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Leave empty to show the field on every ticket type
+                </p>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="order">Order</Label>
+                <Input
+                  id="order"
+                  type="number"
+                  value={field.order}
+                  onChange={(e) => setField({ ...field, order: e.target.value })}
+                />
+              </div>
+
+              {[
+                { key: "required", label: "Required" },
+                { key: "portal", label: "Shown on the customer portal" },
+                { key: "active", label: "Active" },
+              ].map((toggle) => (
+                <div
+                  key={toggle.key}
+                  className="flex items-center justify-between"
+                >
+                  <Label htmlFor={toggle.key}>{toggle.label}</Label>
+                  <Switch
+                    id={toggle.key}
+                    checked={field[toggle.key]}
+                    onCheckedChange={(checked) =>
+                      setField({ ...field, [toggle.key]: checked })
+                    }
+                  />
+                </div>
+              ))}
+
+              <Button onClick={save} disabled={!field.name}>
+                Save Field
+              </Button>
+            </div>
+          ) : (
+            <div className="px-4 sm:px-6 md:px-0 mt-6">
+              {status === "success" && data.fields?.length > 0 ? (
+                <div className="flex flex-col gap-4">
+                  {data.fields.map((f) => (
+                    <div
+                      key={f.id}
+                      className="rounded-lg border px-6 py-5 shadow-sm flex items-center space-x-3"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          {f.name}
+                          {!f.active && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              Inactive
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {f.key} ·{" "}
+                          {fieldTypes.find((t) => t.value === f.type)?.label}
+                          {f.required && " · required"}
+                          {f.portal && " · portal"}
+                        </p>
+                        <p className="text-xs text-foreground mt-1 capitalize">
+                          {f.ticketTypes.join(", ") || "All ticket types"}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          setField({
+                            ...f,
+                            description: f.description || "",
+                            options: f.options.join(", "),
+                          })
+                        }
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => remove(f.id)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                status === "success" && (
+                  <p className="text-foreground">
+                    You currently have no custom fields
+                  </p>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
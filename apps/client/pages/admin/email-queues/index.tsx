@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 
 export default function EmailQueues() {
   const [queues, setQueues]: any = useState();
+  const [teams, setTeams]: any = useState([]);
 
   async function fetchQueues() {
     const res = await fetch(`/api/v1/email-queues/all`, {
@@ -15,6 +16,32 @@ export default function EmailQueues() {
     setQueues(res.queues);
   }
 
+  async function fetchTeams() {
+    const res = await fetch(`/api/v1/teams/all`, {
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: "Bearer " + getCookie("session"),
+      },
+    }).then((res) => res.json());
+    setTeams(res.teams || []);
+  }
+
+  async function setTeam(id, teamId) {
+    await fetch(`/api/v1/email-queue/team`, {
+      method: "put",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: "Bearer " + getCookie("session"),
+      },
+      body: JSON.stringify({
+        id,
+        teamId,
+      }),
+    })
+      .then((res) => res.json())
+      .then(() => fetchQueues());
+  }
+
   async function deleteItem(id) {
     await fetch(`/api/v1/email-queue/delete`, {
       method: "delete",
@@ -32,6 +59,7 @@ export default function EmailQueues() {
 
   useEffect(() => {
     fetchQueues();
+    fetchTeams();
   }, []);
 
   return (
@@ -50,7 +78,8 @@ export default function EmailQueues() {
                   <p className="mt-2 text-sm text-gray-700  dark:text-white">
                     A list of the mailboxes you are listening to, these will
                     automatically create tickets and can be accessed down the
-                    side navigation.
+                    side navigation. Tickets from a mailbox with a team go
+                    straight to that team's queue.
                   </p>
                 </div>
                 <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
@@ -91,6 +120,12 @@ export default function EmailQueues() {
                         >
                           Port
                         </th>
+                        <th
+                          scope="col"
+                          className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900"
+                        >
+                          Team
+                        </th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
@@ -118,6 +153,20 @@ export default function EmailQueues() {
                           <td className="px-3 py-4 text-sm ">
                             {item.tls ? "993" : "110"}
                           </td>
+                          <td className="px-3 py-4 text-sm ">
+                            <select
+                              value={item.team?.id || ""}
+                              onChange={(e) => setTeam(item.id, e.target.value)}
+                              className="rounded border-gray-300 py-1 text-sm bg-transparent"
+                            >
+                              <option value="">No team</option>
+                              {teams.map((team) => (
+                                <option key={team.id} value={team.id}>
+                                  {team.name}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
                           <td className="py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-0">
                             <button
                               type="button"
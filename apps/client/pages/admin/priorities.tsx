@@ -0,0 +1,233 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { hasAccess } from "@/shadcn/lib/hasAccess";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { Switch } from "@/shadcn/ui/switch";
+import { getCookie } from "cookies-next";
+import { useState } from "react";
+import { useQuery, useQueryClient } from "react-query";
+
+const emptyPriority = {
+  name: "",
+  key: "",
+  rank: 0,
+  color: "#6b7280",
+  isDefault: false,
+};
+
+async function getPriorities() {
+  const res = await fetch(`/api/v1/priorities/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  hasAccess(res);
+
+  return res.json();
+}
+
+async function request(url: string, method: string, body?: any) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((res) => res.json());
+
+  if (!res.success) {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: res.message,
+    });
+  }
+
+  return res;
+}
+
+export default function Priorities() {
+  const [priority, setPriority] = useState<any>(null);
+
+  const queryClient = useQueryClient();
+  const { data, status, refetch } = useQuery("getpriorities", getPriorities);
+
+  // Other pages cache priorities for their badges and pickers
+  function reload() {
+    refetch();
+    queryClient.invalidateQueries("priorities");
+  }
+
+  async function save() {
+    const body = {
+      name: priority.name,
+      rank: Number(priority.rank) || 0,
+      color: priority.color,
+      isDefault: priority.isDefault,
+    };
+
+    const res = priority.id
+      ? await request(`/api/v1/priority/${priority.id}/update`, "PUT", body)
+      : await request(`/api/v1/priority/create`, "POST", {
+          ...body,
+          key: priority.key || undefined,
+        });
+
+    if (res.success) {
+      setPriority(null);
+      reload();
+    }
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Are you sure you want to delete this priority?")) return;
+
+    await request(`/api/v1/priority/${id}/delete`, "DELETE");
+    reload();
+  }
+
+  return (
+    <main className="flex-1">
+      <div className="relative max-w-4xl mx-auto md:px-8 xl:px-0">
+        <div className="pt-10 pb-16">
+          <div className="px-4 sm:px-6 md:px-0 flex items-center justify-between">
+            <h1 className="text-3xl font-extrabold text-foreground">
+              Priorities
+            </h1>
+            {priority ? (
+              <Button variant="outline" onClick={() => setPriority(null)}>
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={() => setPriority(emptyPriority)}>
+                New Priority
+              </Button>
+            )}
+          </div>
+          <p className="px-4 sm:px-6 md:px-0 mt-2 text-sm text-foreground">
+            A higher rank is more urgent. Sorting by priority, the priority
+            board columns and SLA policies follow the rank, and tickets created
+            without a priority get the default one.
+          </p>
+
+          {priority ? (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-6 max-w-xl">
+              <div className="space-y-1">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={priority.name}
+                  onChange={(e) =>
+                    setPriority({ ...priority, name: e.target.value })
+                  }
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="key">Key</Label>
+                <Input
+                  id="key"
+                  placeholder="Derived from the name"
+                  value={priority.key}
+                  disabled={!!priority.id}
+                  onChange={(e) =>
+                    setPriority({ ...priority, key: e.target.value })
+                  }
+                />
+              </div>
+
+              <div className="flex gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="color">Color</Label>
+                  <Input
+                    id="color"
+                    type="color"
+                    className="w-16 p-1"
+                    value={priority.color}
+                    onChange={(e) =>
+                      setPriority({ ...priority, color: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rank">Rank</Label>
+                  <Input
+                    id="rank"
+                    type="number"
+                    value={priority.rank}
+                    onChange={(e) =>
+                      setPriority({ ...priority, rank: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="default">Default priority</Label>
+                <Switch
+                  id="default"
+                  checked={priority.isDefault}
+                  onCheckedChange={(checked) =>
+                    setPriority({ ...priority, isDefault: checked })
+                  }
+                />
+              </div>
+
+              <Button onClick={save} disabled={!priority.name}>
+                Save Priority
+              </Button>
+            </div>
+          ) : (
+            <div className="px-4 sm:px-6 md:px-0 mt-6">
+              {status === "success" && (
+                <div className="flex flex-col gap-4">
+                  {data.priorities.map((p) => (
+                    <div
+                      key={p.id}
+                      className="rounded-lg border px-6 py-5 shadow-sm flex items-center space-x-3"
+                    >
+                      <span
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: p.color }}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          {p.name}
+                          {p.isDefault && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              Default
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {p.key} · rank {p.rank}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPriority(p)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => remove(p.id)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,614 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { usePriorities } from "@/shadcn/hooks/usePriorities";
+import { hasAccess } from "@/shadcn/lib/hasAccess";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { getCookie } from "cookies-next";
+import moment from "moment";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useQuery } from "react-query";
+
+const ticketTypes = [
+  "bug",
+  "feature",
+  "support",
+  "incident",
+  "service",
+  "maintenance",
+  "access",
+  "feedback",
+];
+
+const presets = [
+  { label: "Every weekday", rrule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" },
+  { label: "Weekly", rrule: "FREQ=WEEKLY" },
+  { label: "First Monday of the month", rrule: "FREQ=MONTHLY;BYDAY=1MO" },
+  { label: "Last day of the month", rrule: "FREQ=MONTHLY;BYMONTHDAY=-1" },
+  { label: "Every quarter", rrule: "FREQ=MONTHLY;INTERVAL=3" },
+];
+
+const emptySchedule = {
+  name: "",
+  title: "",
+  detail: "",
+  type: "maintenance",
+  priority: "",
+  userId: "",
+  teamId: "",
+  rrule: "FREQ=WEEKLY",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  startsAt: moment()
+    .add(1, "day")
+    .startOf("day")
+    .hour(9)
+    .format("YYYY-MM-DDTHH:mm"),
+};
+
+const select =
+  "block w-full rounded-md border bg-transparent py-1.5 px-2 text-sm text-foreground";
+
+async function get(url: string) {
+  const res = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  hasAccess(res);
+
+  return res.json();
+}
+
+async function post(url: string, body: any) {
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: JSON.stringify(body),
+  }).then((res) => res.json());
+}
+
+async function request(url: string, method: string, body?: any) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((res) => res.json());
+
+  if (!res.success) {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: res.message,
+    });
+  }
+
+  return res;
+}
+
+function formatDate(date: string, timezone: string) {
+  return new Date(date).toLocaleString(undefined, {
+    timeZone: timezone,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// Upcoming dates with skip toggles, and every date already reached
+function ScheduleDetails({ schedule, onChange }: any) {
+  const upcoming = useQuery(["recurringupcoming", schedule.id], () =>
+    get(`/api/v1/recurring/${schedule.id}/upcoming`)
+  );
+  const history = useQuery(["recurringhistory", schedule.id], () =>
+    get(`/api/v1/recurring/${schedule.id}/history`)
+  );
+
+  async function skip(occurrence: string) {
+    const res = await request(`/api/v1/recurring/${schedule.id}/skip`, "POST", {
+      occurrence,
+    });
+
+    if (res.success) {
+      upcoming.refetch();
+      onChange();
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-6 pt-4 mt-4 border-t">
+      <div className="space-y-2">
+        <p className="text-xs font-semibold text-muted-foreground uppercase">
+          Upcoming
+        </p>
+        {schedule.paused && (
+          <p className="text-xs text-muted-foreground">
+            Paused, dates that pass before it is resumed are not raised.
+          </p>
+        )}
+        {upcoming.data?.occurrences?.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            The schedule has ended.
+          </p>
+        )}
+        {upcoming.data?.occurrences?.map((o) => (
+          <div key={o.date} className="flex items-center justify-between">
+            <span
+              className={`text-sm ${
+                o.skipped ? "line-through text-muted-foreground" : ""
+              }`}
+            >
+              {formatDate(o.date, schedule.timezone)}
+            </span>
+            <Button size="sm" variant="ghost" onClick={() => skip(o.date)}>
+              {o.skipped ? "Unskip" : "Skip"}
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold text-muted-foreground uppercase">
+          History
+        </p>
+        {history.data?.runs?.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            No tickets raised yet.
+          </p>
+        )}
+        {history.data?.runs?.map((run) => (
+          <div key={run.id} className="text-sm">
+            <span className="text-muted-foreground mr-2">
+              {formatDate(run.occurrence, schedule.timezone)}
+            </span>
+            {run.ticket ? (
+              <Link
+                href={`/issue/${run.ticket.id}`}
+                className="hover:underline"
+              >
+                #{run.ticket.Number}
+                {run.ticket.isComplete && " (closed)"}
+              </Link>
+            ) : run.skipped ? (
+              <span className="text-muted-foreground">Skipped</span>
+            ) : run.error ? (
+              <span className="text-red-500">Failed: {run.error}</span>
+            ) : (
+              <span className="text-muted-foreground">Ticket deleted</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function RecurringTickets() {
+  const { priorities } = usePriorities();
+  const { data, status, refetch } = useQuery("getrecurring", () =>
+    get(`/api/v1/recurring/all`)
+  );
+  const { data: users } = useQuery("getusers", () =>
+    get(`/api/v1/users/all`)
+  );
+  const { data: teams } = useQuery("getteams", () =>
+    get(`/api/v1/teams/all`)
+  );
+
+  const [schedule, setSchedule] = useState<any>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ dates?: string[]; error?: string }>(
+    {}
+  );
+
+  const recurring = data?.recurring || [];
+
+  // Preview the rule as it is typed
+  useEffect(() => {
+    if (!schedule) return;
+
+    const timeout = setTimeout(async () => {
+      const res = await post(`/api/v1/recurring/preview`, {
+        rrule: schedule.rrule,
+        timezone: schedule.timezone,
+        startsAt: new Date(schedule.startsAt).toISOString(),
+        count: 5,
+      });
+
+      setPreview(
+        res.success
+          ? { dates: res.occurrences.map((o) => o.date) }
+          : { error: res.message }
+      );
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [schedule?.rrule, schedule?.timezone, schedule?.startsAt]);
+
+  function edit(s: any) {
+    setSchedule({
+      ...emptySchedule,
+      ...s,
+      detail: s.detail ?? "",
+      userId: s.userId ?? "",
+      teamId: s.teamId ?? "",
+      startsAt: moment(s.startsAt).format("YYYY-MM-DDTHH:mm"),
+    });
+  }
+
+  async function save() {
+    const body = {
+      name: schedule.name,
+      title: schedule.title,
+      detail: schedule.detail,
+      type: schedule.type,
+      priority: schedule.priority || undefined,
+      userId: schedule.userId || null,
+      teamId: schedule.teamId || null,
+      rrule: schedule.rrule,
+      timezone: schedule.timezone,
+      startsAt: new Date(schedule.startsAt).toISOString(),
+    };
+
+    const res = schedule.id
+      ? await request(`/api/v1/recurring/${schedule.id}/update`, "PUT", body)
+      : await request(`/api/v1/recurring/create`, "POST", body);
+
+    if (res.success) {
+      setSchedule(null);
+      refetch();
+    }
+  }
+
+  async function remove(id: string) {
+    if (
+      !confirm(
+        "Delete this recurring ticket? Tickets it already raised are kept."
+      )
+    ) {
+      return;
+    }
+
+    await request(`/api/v1/recurring/${id}/delete`, "DELETE");
+    refetch();
+  }
+
+  async function pause(s: any) {
+    const res = await request(`/api/v1/recurring/${s.id}/pause`, "POST", {
+      paused: !s.paused,
+    });
+
+    if (res.success) {
+      toast({ title: res.recurring.paused ? "Paused" : "Resumed" });
+      refetch();
+    }
+  }
+
+  return (
+    <main className="flex-1">
+      <div className="relative max-w-4xl mx-auto md:px-8 xl:px-0">
+        <div className="pt-10 pb-16">
+          <div className="px-4 sm:px-6 md:px-0 flex items-center justify-between">
+            <h1 className="text-3xl font-extrabold text-foreground">
+              Recurring Tickets
+            </h1>
+            {schedule ? (
+              <Button variant="outline" onClick={() => setSchedule(null)}>
+                Cancel
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => setSchedule(emptySchedule)}
+              >
+                Add Recurring Ticket
+              </Button>
+            )}
+          </div>
+          <p className="px-4 sm:px-6 md:px-0 mt-2 text-sm text-foreground">
+            Raise maintenance and service tickets on a schedule. Each date
+            creates a ticket from the template, as if it had been logged by
+            hand.
+          </p>
+
+          {schedule ? (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-6 max-w-xl">
+              <div className="space-y-1">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  placeholder="Monthly backup check"
+                  value={schedule.name}
+                  onChange={(e) =>
+                    setSchedule({ ...schedule, name: e.target.value })
+                  }
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="title">Ticket title</Label>
+                <Input
+                  id="title"
+                  placeholder="Check backups for {{date}}"
+                  value={schedule.title}
+                  onChange={(e) =>
+                    setSchedule({ ...schedule, title: e.target.value })
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  {"{{date}}"} is replaced with the date of the ticket and{" "}
+                  {"{{name}}"} with the name above.
+                </p>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="detail">Details</Label>
+                <textarea
+                  id="detail"
+                  className="w-full rounded-md border bg-transparent p-2 text-sm"
+                  rows={4}
+                  value={schedule.detail}
+                  onChange={(e) =>
+                    setSchedule({ ...schedule, detail: e.target.value })
+                  }
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="type">Type</Label>
+                  <select
+                    id="type"
+                    className={`${select} capitalize`}
+                    value={schedule.type}
+                    onChange={(e) =>
+                      setSchedule({ ...schedule, type: e.target.value })
+                    }
+                  >
+                    {ticketTypes.map((t) => (
+                      <option key={t} value={t}>
+                        {t}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="priority">Priority</Label>
+                  <select
+                    id="priority"
+                    className={select}
+                    value={schedule.priority}
+                    onChange={(e) =>
+                      setSchedule({ ...schedule, priority: e.target.value })
+                    }
+                  >
+                    <option value="">Default</option>
+                    {priorities.map((p) => (
+                      <option key={p.key} value={p.key}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="assignee">Assignee</Label>
+                  <select
+                    id="assignee"
+                    className={select}
+                    value={schedule.userId}
+                    onChange={(e) =>
+                      setSchedule({ ...schedule, userId: e.target.value })
+                    }
+                  >
+                    <option value="">Nobody</option>
+                    {users?.users?.map((u) => (
+                      <option key={u.id} value={u.id}>
+                        {u.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="team">Team</Label>
+                  <select
+                    id="team"
+                    className={select}
+                    value={schedule.teamId}
+                    onChange={(e) =>
+                      setSchedule({ ...schedule, teamId: e.target.value })
+                    }
+                  >
+                    <option value="">No team</option>
+                    {teams?.teams?.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rrule">Repeats</Label>
+                <div className="flex flex-wrap gap-2">
+                  {presets.map((p) => (
+                    <Button
+                      key={p.rrule}
+                      size="sm"
+                      variant={
+                        schedule.rrule === p.rrule ? "default" : "outline"
+                      }
+                      onClick={() =>
+                        setSchedule({ ...schedule, rrule: p.rrule })
+                      }
+                    >
+                      {p.label}
+                    </Button>
+                  ))}
+                </div>
+                <Input
+                  id="rrule"
+                  className="font-mono"
+                  value={schedule.rrule}
+                  onChange={(e) =>
+                    setSchedule({ ...schedule, rrule: e.target.value })
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  An RRULE with FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYMONTH,
+                  BYHOUR, BYMINUTE and UNTIL, e.g. FREQ=MONTHLY;BYDAY=-1FR for
+                  the last Friday of every month.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="startsAt">Starts</Label>
+                  <Input
+                    id="startsAt"
+                    type="datetime-local"
+                    value={schedule.startsAt}
+                    onChange={(e) =>
+                      setSchedule({ ...schedule, startsAt: e.target.value })
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    In your local time, also sets the time of day.
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="timezone">Timezone</Label>
+                  <Input
+                    id="timezone"
+                    placeholder="Europe/London"
+                    value={schedule.timezone}
+                    onChange={(e) =>
+                      setSchedule({ ...schedule, timezone: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="rounded-lg border px-4 py-3 space-y-1">
+                <p className="text-xs font-semibold text-muted-foreground uppercase">
+                  Next dates
+                </p>
+                {preview.error ? (
+                  <p className="text-sm text-red-500">{preview.error}</p>
+                ) : preview.dates?.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    This rule has no upcoming dates.
+                  </p>
+                ) : (
+                  preview.dates?.map((date) => (
+                    <p key={date} className="text-sm">
+                      {formatDate(date, schedule.timezone)}
+                    </p>
+                  ))
+                )}
+              </div>
+
+              <Button
+                disabled={!schedule.name || !schedule.title || !!preview.error}
+                onClick={save}
+              >
+                Save
+              </Button>
+            </div>
+          ) : (
+            <div className="px-4 sm:px-6 md:px-0 mt-6">
+              {status === "success" && recurring.length > 0 ? (
+                <div className="flex flex-col gap-4">
+                  {recurring.map((s) => (
+                    <div
+                      key={s.id}
+                      className="rounded-lg border px-6 py-5 shadow-sm"
+                    >
+                      <div className="flex items-center space-x-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-foreground">
+                            {s.name}
+                            {s.paused && (
+                              <span className="ml-2 text-xs text-muted-foreground">
+                                (paused)
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground font-mono">
+                            {s.rrule}
+                          </p>
+                          <p className="text-xs text-foreground mt-1 capitalize">
+                            {s.type}
+                            {s.assignee && ` · ${s.assignee.name}`}
+                            {s.team && ` · ${s.team.name}`}
+                            {" · "}
+                            <span className="normal-case">
+                              {s.nextRunAt
+                                ? `next ${moment(s.nextRunAt).fromNow()}`
+                                : s.paused
+                                ? "not running"
+                                : "ended"}
+                            </span>
+                          </p>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            setExpanded(expanded === s.id ? null : s.id)
+                          }
+                        >
+                          {expanded === s.id ? "Hide" : "Dates"}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => pause(s)}
+                        >
+                          {s.paused ? "Resume" : "Pause"}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => edit(s)}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => remove(s.id)}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                      {expanded === s.id && (
+                        <ScheduleDetails schedule={s} onChange={refetch} />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                status === "success" && (
+                  <p className="text-sm text-muted-foreground">
+                    No recurring tickets yet.
+                  </p>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,391 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { useTags } from "@/shadcn/hooks/useTags";
+import { hasAccess } from "@/shadcn/lib/hasAccess";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { getCookie } from "cookies-next";
+import { useState } from "react";
+import { useQuery } from "react-query";
+
+const types = [
+  "bug",
+  "feature",
+  "support",
+  "incident",
+  "service",
+  "maintenance",
+  "access",
+  "feedback",
+];
+
+const levels = [1, 2, 3, 4, 5];
+
+const emptyRule = {
+  level: 1,
+  type: "",
+  clientId: "",
+  emailQueueId: "",
+  tagId: "",
+};
+
+async function getSkills() {
+  const res = await fetch(`/api/v1/skills/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  hasAccess(res);
+
+  return res.json();
+}
+
+async function get(url: string) {
+  const res = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  return res.json();
+}
+
+async function request(url: string, method: string, body?: any) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((res) => res.json());
+
+  if (!res.success) {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: res.message,
+    });
+  }
+
+  return res;
+}
+
+function describeRule(rule: any) {
+  return (
+    [
+      rule.type && `type is ${rule.type}`,
+      rule.client && `client is ${rule.client.name}`,
+      rule.emailQueue && `mailbox is ${rule.emailQueue.name}`,
+      rule.tag && `tagged ${rule.tag.name}`,
+    ]
+      .filter(Boolean)
+      .join(" and ") + ` · level ${rule.level}+`
+  );
+}
+
+export default function Skills() {
+  const [name, setName] = useState("");
+  const [skill, setSkill] = useState<any>(null);
+  const [rule, setRule] = useState<any>(emptyRule);
+
+  const { data, status, refetch } = useQuery("getskills", getSkills);
+  const { data: users } = useQuery("getusers", () =>
+    get(`/api/v1/users/all`)
+  );
+  const { data: clients } = useQuery("getclients", () =>
+    get(`/api/v1/clients/all`)
+  );
+  const { tags } = useTags();
+  const { data: queues } = useQuery("getemailqueues", () =>
+    get(`/api/v1/email-queues/all`)
+  );
+
+  // Keep the open skill in sync after rules change
+  const current = skill && data?.skills?.find((s) => s.id === skill.id);
+
+  async function create() {
+    const res = await request(`/api/v1/skill/create`, "POST", { name });
+
+    if (res.success) {
+      setName("");
+      refetch();
+    }
+  }
+
+  async function save() {
+    const res = await request(`/api/v1/skill/${skill.id}/update`, "PUT", {
+      name: skill.name,
+    });
+
+    if (!res.success) return;
+
+    const agents = await request(`/api/v1/skill/${skill.id}/agents`, "PUT", {
+      agents: skill.agents.map((a) => ({ userId: a.userId, level: a.level })),
+    });
+
+    if (agents.success) {
+      setSkill(null);
+      refetch();
+    }
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Are you sure you want to delete this skill?")) return;
+
+    await request(`/api/v1/skill/${id}/delete`, "DELETE");
+    refetch();
+  }
+
+  async function addRule() {
+    const res = await request(`/api/v1/skill/${skill.id}/rule`, "POST", {
+      ...rule,
+      level: Number(rule.level),
+    });
+
+    if (res.success) {
+      setRule(emptyRule);
+      refetch();
+    }
+  }
+
+  async function removeRule(id: string) {
+    await request(`/api/v1/skill/${skill.id}/rule/${id}`, "DELETE");
+    refetch();
+  }
+
+  function setLevel(userId: string, level: number | null) {
+    const agents = skill.agents.filter((a) => a.userId !== userId);
+
+    setSkill({
+      ...skill,
+      agents: level ? [...agents, { userId, level }] : agents,
+    });
+  }
+
+  return (
+    <main className="flex-1">
+      <div className="relative max-w-4xl mx-auto md:px-8 xl:px-0">
+        <div className="pt-10 pb-16">
+          <div className="px-4 sm:px-6 md:px-0 flex items-center justify-between">
+            <h1 className="text-3xl font-extrabold text-foreground">Skills</h1>
+            {skill && (
+              <Button variant="outline" onClick={() => setSkill(null)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+          <p className="px-4 sm:px-6 md:px-0 mt-2 text-sm text-foreground">
+            New tickets require the skills whose rules they match, and go to
+            the available agent with the highest proficiency in all of them.
+            When nobody has the skills the ticket falls back to its team queue.
+          </p>
+
+          {skill ? (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-6 max-w-xl">
+              <div className="space-y-1">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={skill.name}
+                  onChange={(e) => setSkill({ ...skill, name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Agents</Label>
+                {users?.users?.map((user) => {
+                  const level = skill.agents.find(
+                    (a) => a.userId === user.id
+                  )?.level;
+
+                  return (
+                    <div
+                      key={user.id}
+                      className="flex items-center justify-between"
+                    >
+                      <span className="text-sm text-foreground">
+                        {user.name}
+                      </span>
+                      <div className="flex gap-1">
+                        {levels.map((l) => (
+                          <Button
+                            key={l}
+                            size="sm"
+                            variant={level === l ? "default" : "outline"}
+                            onClick={() =>
+                              setLevel(user.id, level === l ? null : l)
+                            }
+                          >
+                            {l}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <Button onClick={save}>Save Skill</Button>
+
+              <div className="space-y-2 border-t pt-6">
+                <Label>Required when</Label>
+                {current?.rules?.length > 0 ? (
+                  current.rules.map((r) => (
+                    <div
+                      key={r.id}
+                      className="flex items-center justify-between text-sm text-foreground"
+                    >
+                      <span>{describeRule(r)}</span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => removeRule(r.id)}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    No rules, tickets never require this skill
+                  </p>
+                )}
+
+                <div className="grid grid-cols-2 gap-2 pt-2">
+                  <select
+                    value={rule.type}
+                    onChange={(e) => setRule({ ...rule, type: e.target.value })}
+                    className="rounded-md border bg-transparent px-2 py-1 text-sm capitalize"
+                  >
+                    <option value="">Any type</option>
+                    {types.map((t) => (
+                      <option key={t} value={t}>
+                        {t}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={rule.clientId}
+                    onChange={(e) =>
+                      setRule({ ...rule, clientId: e.target.value })
+                    }
+                    className="rounded-md border bg-transparent px-2 py-1 text-sm"
+                  >
+                    <option value="">Any client</option>
+                    {clients?.clients?.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={rule.emailQueueId}
+                    onChange={(e) =>
+                      setRule({ ...rule, emailQueueId: e.target.value })
+                    }
+                    className="rounded-md border bg-transparent px-2 py-1 text-sm"
+                  >
+                    <option value="">Any mailbox</option>
+                    {queues?.queues?.map((q) => (
+                      <option key={q.id} value={q.id}>
+                        {q.name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={rule.tagId}
+                    onChange={(e) => setRule({ ...rule, tagId: e.target.value })}
+                    className="rounded-md border bg-transparent px-2 py-1 text-sm"
+                  >
+                    <option value="">Any tag</option>
+                    {tags.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={rule.level}
+                    onChange={(e) => setRule({ ...rule, level: e.target.value })}
+                    className="rounded-md border bg-transparent px-2 py-1 text-sm"
+                  >
+                    {levels.map((l) => (
+                      <option key={l} value={l}>
+                        Level {l} or above
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Button size="sm" variant="outline" onClick={addRule}>
+                  Add Rule
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-6">
+              <div className="flex gap-2 max-w-md">
+                <Input
+                  placeholder="New skill, e.g. Networking"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <Button variant="outline" onClick={create} disabled={!name}>
+                  Add Skill
+                </Button>
+              </div>
+
+              {status === "success" && data.skills?.length > 0 ? (
+                <div className="flex flex-col gap-4">
+                  {data.skills.map((s) => (
+                    <div
+                      key={s.id}
+                      className="rounded-lg border px-6 py-5 shadow-sm flex items-center space-x-3"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          {s.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {s.agents
+                            .map((a) => `${a.user.name} (${a.level})`)
+                            .join(", ") || "No agents"}
+                        </p>
+                        <p className="text-xs text-foreground mt-1">
+                          {s.rules.map(describeRule).join("; ") ||
+                            "Never required"}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setRule(emptyRule);
+                          setSkill(s);
+                        }}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => remove(s.id)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                status === "success" && (
+                  <p className="text-foreground">You currently have no skills</p>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,339 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { usePriorities } from "@/shadcn/hooks/usePriorities";
+import { hasAccess } from "@/shadcn/lib/hasAccess";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { Switch } from "@/shadcn/ui/switch";
+import { getCookie } from "cookies-next";
+import { useState } from "react";
+import { useQuery } from "react-query";
+
+const types = [
+  "bug",
+  "feature",
+  "support",
+  "incident",
+  "service",
+  "maintenance",
+  "access",
+  "feedback",
+];
+
+const emptyPolicy = {
+  id: null,
+  name: "",
+  description: "",
+  active: true,
+  order: 0,
+  priorities: [],
+  types: [],
+  firstResponseMinutes: "",
+  resolutionMinutes: "",
+  atRiskPercent: 75,
+};
+
+async function getPolicies() {
+  const res = await fetch(`/api/v1/slas/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  hasAccess(res);
+
+  return res.json();
+}
+
+function minutesLabel(minutes: number | null) {
+  if (!minutes) return "None";
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+function toggle(list: string[], value: string) {
+  return list.includes(value)
+    ? list.filter((item) => item !== value)
+    : [...list, value];
+}
+
+export default function SlaPolicies() {
+  const [policy, setPolicy] = useState<any>(null);
+
+  const { data, status, refetch } = useQuery("getslapolicies", getPolicies);
+  const { priorities } = usePriorities();
+
+  async function save() {
+    const body = {
+      name: policy.name,
+      description: policy.description,
+      active: policy.active,
+      order: Number(policy.order) || 0,
+      priorities: policy.priorities,
+      types: policy.types,
+      firstResponseMinutes: policy.firstResponseMinutes
+        ? Number(policy.firstResponseMinutes)
+        : null,
+      resolutionMinutes: policy.resolutionMinutes
+        ? Number(policy.resolutionMinutes)
+        : null,
+      atRiskPercent: Number(policy.atRiskPercent),
+    };
+
+    const res = await fetch(
+      policy.id ? `/api/v1/sla/${policy.id}/update` : `/api/v1/sla/create`,
+      {
+        method: policy.id ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${getCookie("session")}`,
+        },
+        body: JSON.stringify(body),
+      }
+    ).then((res) => res.json());
+
+    if (res.success) {
+      setPolicy(null);
+      refetch();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Unable to save SLA policy",
+        description: res.message,
+      });
+    }
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Are you sure you want to delete this SLA policy?")) return;
+
+    await fetch(`/api/v1/sla/${id}/delete`, {
+      method: "DELETE",
+      headers: {
+        Authorization: `Bearer ${getCookie("session")}`,
+      },
+    });
+
+    refetch();
+  }
+
+  return (
+    <main className="flex-1">
+      <div className="relative max-w-4xl mx-auto md:px-8 xl:px-0">
+        <div className="pt-10 pb-16">
+          <div className="px-4 sm:px-6 md:px-0 flex items-center justify-between">
+            <h1 className="text-3xl font-extrabold text-foreground">
+              SLA Policies
+            </h1>
+            {policy ? (
+              <Button variant="outline" onClick={() => setPolicy(null)}>
+                Cancel
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => setPolicy(emptyPolicy)}>
+                Add Policy
+              </Button>
+            )}
+          </div>
+          <p className="px-4 sm:px-6 md:px-0 mt-2 text-sm text-foreground">
+            New tickets get the first active policy, in order, whose
+            conditions match. Empty conditions match every ticket. Targets are
+            in business minutes from ticket creation, see Business Hours.
+          </p>
+
+          {policy ? (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-4 max-w-xl">
+              <div className="space-y-1">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={policy.name}
+                  onChange={(e) =>
+                    setPolicy({ ...policy, name: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="description">Description</Label>
+                <Input
+                  id="description"
+                  value={policy.description || ""}
+                  onChange={(e) =>
+                    setPolicy({ ...policy, description: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Priorities</Label>
+                <div className="flex flex-wrap gap-2">
+                  {priorities.map((p) => (
+                    <Button
+                      key={p.key}
+                      size="sm"
+                      variant={
+                        policy.priorities.includes(p.key)
+                          ? "default"
+                          : "outline"
+                      }
+                      onClick={() =>
+                        setPolicy({
+                          ...policy,
+                          priorities: toggle(policy.priorities, p.key),
+                        })
+                      }
+                    >
+                      {p.name}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Types</Label>
+                <div className="flex flex-wrap gap-2">
+                  {types.map((t) => (
+                    <Button
+                      key={t}
+                      size="sm"
+                      className="capitalize"
+                      variant={policy.types.includes(t) ? "default" : "outline"}
+                      onClick={() =>
+                        setPolicy({ ...policy, types: toggle(policy.types, t) })
+                      }
+                    >
+                      {t}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="firstResponse">First response (minutes)</Label>
+                  <Input
+                    id="firstResponse"
+                    type="number"
+                    min={1}
+                    value={policy.firstResponseMinutes ?? ""}
+                    onChange={(e) =>
+                      setPolicy({
+                        ...policy,
+                        firstResponseMinutes: e.target.value,
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="resolution">Resolution (minutes)</Label>
+                  <Input
+                    id="resolution"
+                    type="number"
+                    min={1}
+                    value={policy.resolutionMinutes ?? ""}
+                    onChange={(e) =>
+                      setPolicy({ ...policy, resolutionMinutes: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="atRisk">At risk after (%)</Label>
+                  <Input
+                    id="atRisk"
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={policy.atRiskPercent}
+                    onChange={(e) =>
+                      setPolicy({ ...policy, atRiskPercent: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="order">Order</Label>
+                  <Input
+                    id="order"
+                    type="number"
+                    value={policy.order}
+                    onChange={(e) =>
+                      setPolicy({ ...policy, order: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="active"
+                  checked={policy.active}
+                  onCheckedChange={(active) => setPolicy({ ...policy, active })}
+                />
+                <Label htmlFor="active">Active</Label>
+              </div>
+              <Button onClick={save}>
+                {policy.id ? "Save Policy" : "Add Policy"}
+              </Button>
+            </div>
+          ) : (
+            <div className="px-4 sm:px-6 md:px-0 mt-6">
+              {status === "success" && data.policies?.length > 0 ? (
+                <div className="flex flex-col gap-4">
+                  {data.policies.map((p) => (
+                    <div
+                      key={p.id}
+                      className="rounded-lg border px-6 py-5 shadow-sm flex items-center space-x-3"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          {p.name}
+                          {!p.active && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              (inactive)
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground capitalize">
+                          {[...p.priorities, ...p.types].join(", ") ||
+                            "All tickets"}
+                        </p>
+                        <p className="text-xs text-foreground mt-1">
+                          First response:{" "}
+                          {minutesLabel(p.firstResponseMinutes)} · Resolution:{" "}
+                          {minutesLabel(p.resolutionMinutes)} · At risk at{" "}
+                          {p.atRiskPercent}% · {p._count.tickets} tickets
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          setPolicy({
+                            ...p,
+                            firstResponseMinutes: p.firstResponseMinutes ?? "",
+                            resolutionMinutes: p.resolutionMinutes ?? "",
+                          })
+                        }
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => remove(p.id)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                status === "success" && (
+                  <p className="text-foreground">
+                    You currently have no SLA policies
+                  </p>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
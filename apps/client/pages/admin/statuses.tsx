@@ -0,0 +1,406 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { hasAccess } from "@/shadcn/lib/hasAccess";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { Switch } from "@/shadcn/ui/switch";
+import { getCookie } from "cookies-next";
+import { useEffect, useState } from "react";
+import { useQuery } from "react-query";
+
+const ticketTypes = [
+  "bug",
+  "feature",
+  "support",
+  "incident",
+  "service",
+  "maintenance",
+  "access",
+  "feedback",
+];
+
+const categories = [
+  { value: "open", label: "Open" },
+  { value: "pending", label: "Pending" },
+  { value: "solved", label: "Solved" },
+  { value: "closed", label: "Closed" },
+];
+
+const emptyStatus = {
+  name: "",
+  key: "",
+  category: "open",
+  color: "#6b7280",
+  order: 0,
+  isDefault: false,
+};
+
+async function getStatuses() {
+  const res = await fetch(`/api/v1/statuses/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  hasAccess(res);
+
+  return res.json();
+}
+
+async function request(url: string, method: string, body?: any) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((res) => res.json());
+
+  if (!res.success) {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: res.message,
+    });
+  }
+
+  return res;
+}
+
+export default function Statuses() {
+  const [status, setStatus] = useState<any>(null);
+  // Workflow being edited, "" is the default workflow
+  const [type, setType] = useState("");
+  const [allowed, setAllowed] = useState<string[]>([]);
+
+  const { data, status: loading, refetch } = useQuery(
+    "getstatuses",
+    getStatuses
+  );
+
+  const statuses = data?.statuses || [];
+
+  useEffect(() => {
+    if (!data) return;
+
+    setAllowed(
+      data.transitions
+        .filter((t) => (t.type || "") === type)
+        .map((t) => `${t.fromId}:${t.toId}`)
+    );
+  }, [data, type]);
+
+  async function save() {
+    const body = {
+      name: status.name,
+      category: status.category,
+      color: status.color,
+      order: Number(status.order) || 0,
+      isDefault: status.isDefault,
+    };
+
+    const res = status.id
+      ? await request(`/api/v1/status/${status.id}/update`, "PUT", body)
+      : await request(`/api/v1/status/create`, "POST", {
+          ...body,
+          key: status.key || undefined,
+        });
+
+    if (res.success) {
+      setStatus(null);
+      refetch();
+    }
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Are you sure you want to delete this status?")) return;
+
+    await request(`/api/v1/status/${id}/delete`, "DELETE");
+    refetch();
+  }
+
+  function toggle(fromId: string, toId: string) {
+    const transition = `${fromId}:${toId}`;
+
+    setAllowed(
+      allowed.includes(transition)
+        ? allowed.filter((t) => t !== transition)
+        : [...allowed, transition]
+    );
+  }
+
+  async function toggleSubtasks(blockClose: boolean) {
+    const res = await request(`/api/v1/statuses/subtasks`, "PUT", {
+      blockClose,
+    });
+
+    if (res.success) {
+      refetch();
+    }
+  }
+
+  async function saveWorkflow() {
+    const res = await request(`/api/v1/statuses/transitions`, "PUT", {
+      type: type || null,
+      transitions: allowed.map((t) => {
+        const [fromId, toId] = t.split(":");
+        return { fromId, toId };
+      }),
+    });
+
+    if (res.success) {
+      toast({
+        title: "Workflow saved",
+        description: `${type || "Default"} workflow updated`,
+      });
+      refetch();
+    }
+  }
+
+  return (
+    <main className="flex-1">
+      <div className="relative max-w-4xl mx-auto md:px-8 xl:px-0">
+        <div className="pt-10 pb-16">
+          <div className="px-4 sm:px-6 md:px-0 flex items-center justify-between">
+            <h1 className="text-3xl font-extrabold text-foreground">
+              Workflow
+            </h1>
+            {status ? (
+              <Button variant="outline" onClick={() => setStatus(null)}>
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={() => setStatus(emptyStatus)}>New Status</Button>
+            )}
+          </div>
+          <p className="px-4 sm:px-6 md:px-0 mt-2 text-sm text-foreground">
+            Tickets in a solved or closed status count as complete, open and
+            pending ones as outstanding. New and re-opened tickets start in the
+            default status.
+          </p>
+
+          {status ? (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-6 max-w-xl">
+              <div className="space-y-1">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={status.name}
+                  onChange={(e) =>
+                    setStatus({ ...status, name: e.target.value })
+                  }
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="key">Key</Label>
+                <Input
+                  id="key"
+                  placeholder="Derived from the name"
+                  value={status.key}
+                  disabled={!!status.id}
+                  onChange={(e) => setStatus({ ...status, key: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <div className="flex flex-wrap gap-2">
+                  {categories.map((c) => (
+                    <Button
+                      key={c.value}
+                      size="sm"
+                      variant={
+                        status.category === c.value ? "default" : "outline"
+                      }
+                      onClick={() => setStatus({ ...status, category: c.value })}
+                    >
+                      {c.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="color">Color</Label>
+                  <Input
+                    id="color"
+                    type="color"
+                    className="w-16 p-1"
+                    value={status.color}
+                    onChange={(e) =>
+                      setStatus({ ...status, color: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="order">Order</Label>
+                  <Input
+                    id="order"
+                    type="number"
+                    value={status.order}
+                    onChange={(e) =>
+                      setStatus({ ...status, order: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="default">Default status</Label>
+                <Switch
+                  id="default"
+                  checked={status.isDefault}
+                  onCheckedChange={(checked) =>
+                    setStatus({ ...status, isDefault: checked })
+                  }
+                />
+              </div>
+
+              <Button onClick={save} disabled={!status.name}>
+                Save Status
+              </Button>
+            </div>
+          ) : (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-10">
+              {loading === "success" && (
+                <div className="flex flex-col gap-4">
+                  {statuses.map((s) => (
+                    <div
+                      key={s.id}
+                      className="rounded-lg border px-6 py-5 shadow-sm flex items-center space-x-3"
+                    >
+                      <span
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: s.color }}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          {s.name}
+                          {s.isDefault && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              Default
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground capitalize">
+                          {s.key} · {s.category}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setStatus(s)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => remove(s.id)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {statuses.length > 1 && (
+                <div className="space-y-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-foreground">
+                      Transitions
+                    </h2>
+                    <p className="text-sm text-muted-foreground">
+                      Tick the moves allowed from each status. Ticket types
+                      without transitions of their own use the default
+                      workflow, and with no transitions at all every move is
+                      allowed.
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {["", ...ticketTypes].map((t) => (
+                      <Button
+                        key={t || "default"}
+                        size="sm"
+                        className="capitalize"
+                        variant={type === t ? "default" : "outline"}
+                        onClick={() => setType(t)}
+                      >
+                        {t || "Default"}
+                      </Button>
+                    ))}
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="text-sm text-foreground">
+                      <thead>
+                        <tr>
+                          <th className="px-2 py-1 text-left text-xs text-muted-foreground">
+                            From \ To
+                          </th>
+                          {statuses.map((to) => (
+                            <th key={to.id} className="px-2 py-1 text-xs">
+                              {to.name}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {statuses.map((from) => (
+                          <tr key={from.id}>
+                            <td className="px-2 py-1 font-medium">
+                              {from.name}
+                            </td>
+                            {statuses.map((to) => (
+                              <td key={to.id} className="px-2 py-1 text-center">
+                                {from.id !== to.id && (
+                                  <input
+                                    type="checkbox"
+                                    checked={allowed.includes(
+                                      `${from.id}:${to.id}`
+                                    )}
+                                    onChange={() => toggle(from.id, to.id)}
+                                  />
+                                )}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <Button variant="outline" onClick={saveWorkflow}>
+                    Save Workflow
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between rounded-lg border px-6 py-5 shadow-sm">
+                <div>
+                  <Label htmlFor="subtasks-block-close">
+                    Open subtasks block closing
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    An issue can only be solved or closed once all of its
+                    subtasks are.
+                  </p>
+                </div>
+                <Switch
+                  id="subtasks-block-close"
+                  checked={!!data?.subtasksBlockClose}
+                  onCheckedChange={toggleSubtasks}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
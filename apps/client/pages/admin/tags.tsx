@@ -0,0 +1,195 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { hasAccess } from "@/shadcn/lib/hasAccess";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { getCookie } from "cookies-next";
+import { useState } from "react";
+import { useQuery, useQueryClient } from "react-query";
+
+const emptyTag = {
+  name: "",
+  color: "#6b7280",
+  description: "",
+};
+
+async function getTags() {
+  const res = await fetch(`/api/v1/tags/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  hasAccess(res);
+
+  return res.json();
+}
+
+async function request(url: string, method: string, body?: any) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((res) => res.json());
+
+  if (!res.success) {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: res.message,
+    });
+  }
+
+  return res;
+}
+
+export default function Tags() {
+  const [tag, setTag] = useState<any>(null);
+
+  const queryClient = useQueryClient();
+  const { data, status, refetch } = useQuery("gettags", getTags);
+
+  // Filters, rules and pickers on other pages cache the tag list
+  function reload() {
+    refetch();
+    queryClient.invalidateQueries("tags");
+  }
+
+  async function save() {
+    const body = {
+      name: tag.name,
+      color: tag.color,
+      description: tag.description,
+    };
+
+    const res = tag.id
+      ? await request(`/api/v1/tag/${tag.id}/update`, "PUT", body)
+      : await request(`/api/v1/tag/create`, "POST", body);
+
+    if (res.success) {
+      setTag(null);
+      reload();
+    }
+  }
+
+  async function remove(t: any) {
+    if (
+      !confirm(
+        `Delete ${t.name}? It is removed from ${t._count.tickets} tickets and any knowledge base articles.`
+      )
+    ) {
+      return;
+    }
+
+    await request(`/api/v1/tag/${t.id}/delete`, "DELETE");
+    reload();
+  }
+
+  return (
+    <main className="flex-1">
+      <div className="relative max-w-4xl mx-auto md:px-8 xl:px-0">
+        <div className="pt-10 pb-16">
+          <div className="px-4 sm:px-6 md:px-0 flex items-center justify-between">
+            <h1 className="text-3xl font-extrabold text-foreground">Tags</h1>
+            {tag ? (
+              <Button variant="outline" onClick={() => setTag(null)}>
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={() => setTag(emptyTag)}>New Tag</Button>
+            )}
+          </div>
+          <p className="px-4 sm:px-6 md:px-0 mt-2 text-sm text-foreground">
+            Tags label tickets and knowledge base articles alike. Filters,
+            automation rules and skill rules can use them, and renaming a tag
+            renames it everywhere.
+          </p>
+
+          {tag ? (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-6 max-w-xl">
+              <div className="space-y-1">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={tag.name}
+                  onChange={(e) => setTag({ ...tag, name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="description">Description</Label>
+                <Input
+                  id="description"
+                  placeholder="Optional"
+                  value={tag.description ?? ""}
+                  onChange={(e) =>
+                    setTag({ ...tag, description: e.target.value })
+                  }
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="color">Color</Label>
+                <Input
+                  id="color"
+                  type="color"
+                  className="w-16 p-1"
+                  value={tag.color}
+                  onChange={(e) => setTag({ ...tag, color: e.target.value })}
+                />
+              </div>
+
+              <Button onClick={save} disabled={!tag.name}>
+                Save Tag
+              </Button>
+            </div>
+          ) : (
+            <div className="px-4 sm:px-6 md:px-0 mt-6">
+              {status === "success" && (
+                <div className="flex flex-col gap-4">
+                  {data.tags.map((t) => (
+                    <div
+                      key={t.id}
+                      className="rounded-lg border px-6 py-5 shadow-sm flex items-center space-x-3"
+                    >
+                      <span
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: t.color }}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          {t.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {t._count.tickets} tickets
+                          {t.description && ` · ${t.description}`}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setTag(t)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => remove(t)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,349 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { hasAccess } from "@/shadcn/lib/hasAccess";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { getCookie } from "cookies-next";
+import { useState } from "react";
+import { useQuery } from "react-query";
+
+const strategies = [
+  { value: "manual", label: "Manual" },
+  { value: "round_robin", label: "Round robin" },
+  { value: "least_open", label: "Least open tickets" },
+];
+
+const emptyTeam = {
+  id: null,
+  name: "",
+  calendar: null,
+  members: [],
+  assignmentStrategy: "manual",
+  maxOpenTickets: "",
+};
+
+async function getTeams() {
+  const res = await fetch(`/api/v1/teams/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  hasAccess(res);
+
+  return res.json();
+}
+
+async function getUsers() {
+  const res = await fetch(`/api/v1/users/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  return res.json();
+}
+
+async function getCalendars() {
+  const res = await fetch(`/api/v1/calendars/all`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  return res.json();
+}
+
+async function request(url: string, method: string, body?: any) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((res) => res.json());
+
+  if (!res.success) {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: res.message,
+    });
+  }
+
+  return res;
+}
+
+export default function Teams() {
+  const [team, setTeam] = useState<any>(null);
+
+  const { data, status, refetch } = useQuery("getteams", getTeams);
+  const { data: users } = useQuery("getusers", getUsers);
+  const { data: calendars } = useQuery("getcalendars", getCalendars);
+
+  async function save() {
+    const calendarId = team.calendar ? team.calendar.id : null;
+    const assignment = {
+      assignmentStrategy: team.assignmentStrategy,
+      maxOpenTickets: team.maxOpenTickets ? Number(team.maxOpenTickets) : null,
+    };
+
+    if (!team.id) {
+      const res = await request(`/api/v1/team/create`, "POST", {
+        name: team.name,
+        calendarId,
+        ...assignment,
+        userIds: team.members.map((m) => m.id),
+      });
+
+      if (res.success) {
+        setTeam(null);
+        refetch();
+      }
+      return;
+    }
+
+    const res = await request(`/api/v1/team/${team.id}/update`, "PUT", {
+      name: team.name,
+      calendarId,
+      ...assignment,
+    });
+
+    if (!res.success) return;
+
+    // Membership changes go through the members endpoints
+    const saved = data.teams.find((t) => t.id === team.id);
+    const ids = team.members.map((m) => m.id);
+    const savedIds = saved.members.map((m) => m.id);
+
+    const added = ids.filter((id) => !savedIds.includes(id));
+    const removed = savedIds.filter((id) => !ids.includes(id));
+
+    if (added.length > 0) {
+      await request(`/api/v1/team/${team.id}/members/add`, "POST", {
+        userIds: added,
+      });
+    }
+
+    for (const userId of removed) {
+      await request(`/api/v1/team/${team.id}/members/remove`, "POST", {
+        userId,
+      });
+    }
+
+    setTeam(null);
+    refetch();
+  }
+
+  async function remove(id: string) {
+    if (
+      !confirm(
+        "Are you sure you want to delete this team? Its tickets will be unassigned from the team."
+      )
+    )
+      return;
+
+    await request(`/api/v1/team/${id}/delete`, "DELETE");
+    refetch();
+  }
+
+  return (
+    <main className="flex-1">
+      <div className="relative max-w-4xl mx-auto md:px-8 xl:px-0">
+        <div className="pt-10 pb-16">
+          <div className="px-4 sm:px-6 md:px-0 flex items-center justify-between">
+            <h1 className="text-3xl font-extrabold text-foreground">Teams</h1>
+            {team ? (
+              <Button variant="outline" onClick={() => setTeam(null)}>
+                Cancel
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => setTeam(emptyTeam)}>
+                Add Team
+              </Button>
+            )}
+          </div>
+          <p className="px-4 sm:px-6 md:px-0 mt-2 text-sm text-foreground">
+            Teams own a ticket queue. Members see their team in the sidebar,
+            and email queues can route new tickets straight to a team. A user
+            belongs to one team at a time.
+          </p>
+
+          {team ? (
+            <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-4 max-w-xl">
+              <div className="space-y-1">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={team.name}
+                  onChange={(e) => setTeam({ ...team, name: e.target.value })}
+                />
+              </div>
+
+              {calendars?.calendars?.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Business hours</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {calendars.calendars.map((calendar) => {
+                      const selected = team.calendar?.id === calendar.id;
+
+                      return (
+                        <Button
+                          key={calendar.id}
+                          size="sm"
+                          variant={selected ? "default" : "outline"}
+                          onClick={() =>
+                            setTeam({
+                              ...team,
+                              calendar: selected ? null : calendar,
+                            })
+                          }
+                        >
+                          {calendar.name}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label>Members</Label>
+                <div className="flex flex-wrap gap-2">
+                  {users?.users?.map((user) => {
+                    const selected = team.members.some(
+                      (m) => m.id === user.id
+                    );
+
+                    return (
+                      <Button
+                        key={user.id}
+                        size="sm"
+                        variant={selected ? "default" : "outline"}
+                        onClick={() =>
+                          setTeam({
+                            ...team,
+                            members: selected
+                              ? team.members.filter((m) => m.id !== user.id)
+                              : [...team.members, user],
+                          })
+                        }
+                      >
+                        {user.name}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Auto-assignment</Label>
+                <div className="flex flex-wrap gap-2">
+                  {strategies.map((strategy) => (
+                    <Button
+                      key={strategy.value}
+                      size="sm"
+                      variant={
+                        team.assignmentStrategy === strategy.value
+                          ? "default"
+                          : "outline"
+                      }
+                      onClick={() =>
+                        setTeam({
+                          ...team,
+                          assignmentStrategy: strategy.value,
+                        })
+                      }
+                    >
+                      {strategy.label}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  New unassigned tickets in this team go to the next available
+                  member. Members who are out of office are skipped.
+                </p>
+              </div>
+
+              {team.assignmentStrategy !== "manual" && (
+                <div className="space-y-1">
+                  <Label htmlFor="capacity">Max open tickets per member</Label>
+                  <Input
+                    id="capacity"
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    value={team.maxOpenTickets ?? ""}
+                    onChange={(e) =>
+                      setTeam({ ...team, maxOpenTickets: e.target.value })
+                    }
+                  />
+                </div>
+              )}
+
+              <Button onClick={save}>
+                {team.id ? "Save Team" : "Add Team"}
+              </Button>
+            </div>
+          ) : (
+            <div className="px-4 sm:px-6 md:px-0 mt-6">
+              {status === "success" && data.teams?.length > 0 ? (
+                <div className="flex flex-col gap-4">
+                  {data.teams.map((t) => (
+                    <div
+                      key={t.id}
+                      className="rounded-lg border px-6 py-5 shadow-sm flex items-center space-x-3"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground">
+                          {t.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {t.members.map((m) => m.name).join(", ") ||
+                            "No members"}
+                        </p>
+                        <p className="text-xs text-foreground mt-1">
+                          {t._count.Ticket} open tickets
+                          {t.assignmentStrategy !== "manual" &&
+                            ` · ${
+                              strategies.find(
+                                (s) => s.value === t.assignmentStrategy
+                              )?.label
+                            }`}
+                          {t.maxOpenTickets &&
+                            ` (max ${t.maxOpenTickets} open each)`}
+                          {t.calendar && ` · ${t.calendar.name}`}
+                          {t.emailQueues.length > 0 &&
+                            ` · ${t.emailQueues.map((q) => q.name).join(", ")}`}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setTeam(t)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => remove(t.id)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                status === "success" && (
+                  <p className="text-foreground">You currently have no teams</p>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
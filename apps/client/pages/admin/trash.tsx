@@ -0,0 +1,196 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { useStatuses } from "@/shadcn/hooks/useStatuses";
+import { hasAccess } from "@/shadcn/lib/hasAccess";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { getCookie } from "cookies-next";
+import moment from "moment";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useQuery } from "react-query";
+
+async function getTrash() {
+  const res = await fetch(`/api/v1/tickets/trash`, {
+    headers: {
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+  });
+
+  hasAccess(res);
+
+  return res.json();
+}
+
+async function request(url: string, method: string, body?: any) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((res) => res.json());
+
+  if (!res.success) {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: res.message,
+    });
+  }
+
+  return res;
+}
+
+export default function Trash() {
+  const { statusName } = useStatuses();
+  const { data, status, refetch } = useQuery("gettrash", getTrash);
+
+  const [days, setDays] = useState("");
+
+  useEffect(() => {
+    if (data?.retentionDays !== undefined) {
+      setDays(String(data.retentionDays));
+    }
+  }, [data]);
+
+  const tickets = data?.tickets || [];
+  const retention = data?.retentionDays || 0;
+
+  async function restore(id: string) {
+    const res = await request(`/api/v1/ticket/${id}/restore`, "POST");
+
+    if (res.success) {
+      toast({ title: "Issue restored" });
+      refetch();
+    }
+  }
+
+  async function purge(ticket: any) {
+    if (
+      !confirm(
+        `Delete #${ticket.Number} for good? Its comments and files can not be recovered.`
+      )
+    ) {
+      return;
+    }
+
+    const res = await request(`/api/v1/ticket/${ticket.id}/purge`, "DELETE");
+
+    if (res.success) {
+      refetch();
+    }
+  }
+
+  async function saveRetention() {
+    const res = await request(`/api/v1/tickets/trash/retention`, "PUT", {
+      days: Number(days),
+    });
+
+    if (res.success) {
+      toast({
+        title: "Retention saved",
+        description:
+          res.retentionDays === 0
+            ? "Deleted issues are kept until purged"
+            : `Deleted issues are purged after ${res.retentionDays} days`,
+      });
+      refetch();
+    }
+  }
+
+  return (
+    <main className="flex-1">
+      <div className="relative max-w-4xl mx-auto md:px-8 xl:px-0">
+        <div className="pt-10 pb-16">
+          <div className="px-4 sm:px-6 md:px-0">
+            <h1 className="text-3xl font-extrabold text-foreground">Trash</h1>
+            <p className="mt-2 text-sm text-foreground">
+              Deleted issues wait here with their comments and history, and
+              can be restored until they are purged.
+            </p>
+          </div>
+
+          <div className="px-4 sm:px-6 md:px-0 mt-6 space-y-10">
+            <div className="flex items-end gap-3 max-w-sm">
+              <div className="space-y-1 flex-1">
+                <Label htmlFor="retention">Keep deleted issues for (days)</Label>
+                <Input
+                  id="retention"
+                  type="number"
+                  min={0}
+                  value={days}
+                  onChange={(e) => setDays(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  0 keeps them until purged by hand.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                className="mb-5"
+                disabled={days === "" || days === String(data?.retentionDays)}
+                onClick={saveRetention}
+              >
+                Save
+              </Button>
+            </div>
+
+            {status === "success" && (
+              <div className="flex flex-col gap-4">
+                {tickets.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    The trash is empty.
+                  </p>
+                )}
+                {tickets.map((ticket: any) => (
+                  <div
+                    key={ticket.id}
+                    className="rounded-lg border px-6 py-5 shadow-sm flex items-center space-x-3"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <Link
+                        href={`/issue/${ticket.id}`}
+                        className="text-sm font-medium text-foreground hover:underline"
+                      >
+                        <span className="text-muted-foreground mr-2">
+                          #{ticket.Number}
+                        </span>
+                        {ticket.title}
+                      </Link>
+                      <p className="text-xs text-muted-foreground">
+                        {statusName(ticket.status)} · deleted{" "}
+                        {moment(ticket.deletedAt).fromNow()}
+                        {ticket.deletedBy?.name &&
+                          ` by ${ticket.deletedBy.name}`}
+                        {retention > 0 &&
+                          ` · purged ${moment(ticket.deletedAt)
+                            .add(retention, "days")
+                            .fromNow()}`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => restore(ticket.id)}
+                    >
+                      Restore
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => purge(ticket)}
+                    >
+                      Delete forever
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
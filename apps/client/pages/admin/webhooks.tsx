@@ -49,6 +49,12 @@ const webhookTypes = [
     description: "Fires when ticket status is updated",
     conditions: ["Status changes", "Open/Closed"],
   },
+  {
+    value: "sla_status_changed",
+    label: "SLA At Risk / Breached",
+    description: "Fires when a ticket's SLA becomes at risk or is breached",
+    conditions: ["SLA policy applied", "At risk or breached"],
+  },
 ];
 
 export default function Notifications() {
@@ -1,3 +1,4 @@
+import PriorityBadge from "@/shadcn/components/tickets/PriorityBadge";
 import Link from "next/link";
 import { useEffect, useState } from "react";
 
@@ -20,6 +21,7 @@ export default function Home() {
   const [openTickets, setOpenTickets] = useState(0);
   const [completedTickets, setCompletedTickets] = useState(0);
   const [unassigned, setUnassigned] = useState(0);
+  const [tags, setTags] = useState<any[]>([]);
   const [uploaded, setUploaded] = useState(false);
   const [loading, setLoading] = useState(true);
   const [tickets, setTickets] = useState<any>();
@@ -71,6 +73,19 @@ export default function Home() {
       });
   }
 
+  async function getTagCounts() {
+    await fetch(`/api/v1/data/tickets/tags`, {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    })
+      .then((res) => res.json())
+      .then((res) => {
+        setTags((res.tags || []).filter((tag) => tag.open > 0));
+      });
+  }
+
   async function fetchTickets() {
     await fetch(`/api/v1/tickets/open`, {
       method: "GET",
@@ -105,6 +120,7 @@ export default function Home() {
       getOpenTickets(),
       getCompletedTickets(),
       getUnassginedTickets(),
+      getTagCounts(),
     ]);
     await setLoading(false);
   }
@@ -148,6 +164,27 @@ export default function Home() {
               </dl>
             </div>
 
+            {tags.length > 0 && (
+              <div className="mt-4 px-1">
+                <span className="font-bold text-lg">Open Issues by Tag</span>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {tags.map((tag) => (
+                    <span
+                      key={tag.id}
+                      className="inline-flex items-center gap-x-1.5 rounded-md px-2 py-1 text-xs font-medium"
+                      style={{
+                        backgroundColor: `${tag.color}1a`,
+                        color: tag.color,
+                      }}
+                    >
+                      {tag.name}
+                      <span className="font-semibold">{tag.open}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="flex w-full flex-col mt-4 px-1 mb-4">
               {tickets !== undefined && tickets.length === 0 ? (
                 <>
@@ -232,21 +269,10 @@ export default function Home() {
                                 </dl>
                               </td>
                               <td className="hidden px-3 py-1 text-sm text-gray-500 lg:table-cell w-[64px]">
-                                {item.priority === "Low" && (
-                                  <span className="inline-flex w-full justify-center rounded-md bg-blue-50 px-2 py-1 text-xs font-medium text-blue-700  ring-1 ring-inset ring-blue-600/20">
-                                    {item.priority}
-                                  </span>
-                                )}
-                                {item.priority === "Normal" && (
-                                  <span className="inline-flex items-center w-full justify-center rounded-md bg-green-50 px-2 py-1 text-xs font-medium text-green-700 ring-1 ring-inset ring-green-600/20">
-                                    {item.priority}
-                                  </span>
-                                )}
-                                {item.priority === "High" && (
-                                  <span className="inline-flex items-center w-full justify-center rounded-md bg-red-50 px-2 py-1 text-xs font-medium text-red-700 ring-1 ring-inset ring-red-600/20">
-                                    {item.priority}
-                                  </span>
-                                )}
+                                <PriorityBadge
+                                  priority={item.priority}
+                                  className="w-full justify-center"
+                                />
                               </td>
                               <td className="hidden px-3 py-1 text-sm text-gray-500 sm:table-cell w-[64px]">
                                 {item.isComplete === true ? (
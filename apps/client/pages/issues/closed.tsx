@@ -3,7 +3,10 @@ import { useRouter } from "next/router";
 import { useEffect, useMemo, useState } from "react";
 import Loader from "react-spinners/ClipLoader";
 
+import PriorityBadge from "@/shadcn/components/tickets/PriorityBadge";
 import { toast } from "@/shadcn/hooks/use-toast";
+import { usePriorities } from "@/shadcn/hooks/usePriorities";
+import { useTicketQuery } from "@/shadcn/hooks/useTicketQuery";
 import { cn } from "@/shadcn/lib/utils";
 import { Button } from "@/shadcn/ui/button";
 import {
@@ -30,18 +33,8 @@ import { getCookie } from "cookies-next";
 import { CheckIcon, Filter, X } from "lucide-react";
 import moment from "moment";
 import Link from "next/link";
-import { useQuery } from "react-query";
 import { useUser } from "../../store/session";
 
-async function getUserTickets(token: any) {
-  const res = await fetch(`/api/v1/tickets/completed`, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-    },
-  });
-  return res.json();
-}
-
 const FilterBadge = ({
   text,
   onRemove,
@@ -68,20 +61,8 @@ export default function Tickets() {
   const { t } = useTranslation("peppermint");
 
   const token = getCookie("session");
-  const { data, status, error, refetch } = useQuery(
-    "allusertickets",
-    () => getUserTickets(token),
-    {
-      refetchInterval: 5000,
-    }
-  );
-
   const user = useUser();
 
-  const high = "bg-red-100 text-red-800";
-  const low = "bg-blue-100 text-blue-800";
-  const normal = "bg-green-100 text-green-800";
-
   const [filterSelected, setFilterSelected] = useState();
   const [selectedPriorities, setSelectedPriorities] = useState<string[]>(() => {
     const saved = localStorage.getItem("closed_selectedPriorities");
@@ -142,32 +123,48 @@ export default function Tickets() {
     );
   };
 
-  const filteredTickets = data
-    ? data.tickets.filter((ticket) => {
-        const priorityMatch =
-          selectedPriorities.length === 0 ||
-          selectedPriorities.includes(ticket.priority);
-        const statusMatch =
-          selectedStatuses.length === 0 ||
-          selectedStatuses.includes(ticket.isComplete ? "closed" : "open");
-        const assigneeMatch =
-          selectedAssignees.length === 0 ||
-          selectedAssignees.includes(ticket.assignedTo?.name || "Unassigned");
-
-        return priorityMatch && statusMatch && assigneeMatch;
-      })
-    : [];
+  // The view is fixed to closed issues, so the status filter only
+  // narrows the loaded page
+  const {
+    tickets,
+    status,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useTicketQuery("closedtickets", token as string, {
+    state: "closed",
+    priority: selectedPriorities,
+    assignee: selectedAssignees
+      .map((name) =>
+        name === "Unassigned"
+          ? "unassigned"
+          : users.find((u) => u.name === name)?.id
+      )
+      .filter(Boolean),
+  });
+
+  const filteredTickets = tickets.filter(
+    (ticket) =>
+      selectedStatuses.length === 0 ||
+      selectedStatuses.includes(ticket.isComplete ? "closed" : "open")
+  );
 
   type FilterType = "priority" | "status" | "assignee" | null;
   const [activeFilter, setActiveFilter] = useState<FilterType>(null);
   const [filterSearch, setFilterSearch] = useState("");
 
+  const { priorities, priorityName } = usePriorities();
+
   const filteredPriorities = useMemo(() => {
-    const priorities = ["low", "medium", "high"];
-    return priorities.filter((priority) =>
-      priority.toLowerCase().includes(filterSearch.toLowerCase())
-    );
-  }, [filterSearch]);
+    return priorities
+      .map((priority) => priority.key)
+      .filter((priority) =>
+        priorityName(priority)
+          .toLowerCase()
+          .includes(filterSearch.toLowerCase())
+      );
+  }, [filterSearch, priorities]);
 
   const filteredStatuses = useMemo(() => {
     const statuses = ["open", "closed"];
@@ -177,13 +174,11 @@ export default function Tickets() {
   }, [filterSearch]);
 
   const filteredAssignees = useMemo(() => {
-    const assignees = data?.tickets
-      .map((t) => t.assignedTo?.name || "Unassigned")
-      .filter((name, index, self) => self.indexOf(name) === index);
-    return assignees?.filter((assignee) =>
+    const assignees = ["Unassigned", ...users.map((u) => u.name)];
+    return assignees.filter((assignee) =>
       assignee.toLowerCase().includes(filterSearch.toLowerCase())
     );
-  }, [data?.tickets, filterSearch]);
+  }, [users, filterSearch]);
 
   async function fetchUsers() {
     await fetch(`/api/v1/users/all`, {
@@ -525,19 +520,6 @@ export default function Tickets() {
             </div>
             {filteredTickets.length > 0 ? (
               filteredTickets.map((ticket) => {
-                let p = ticket.priority;
-                let badge;
-
-                if (p === "Low") {
-                  badge = low;
-                }
-                if (p === "Normal") {
-                  badge = normal;
-                }
-                if (p === "high") {
-                  badge = high;
-                }
-
                 return (
                   <ContextMenu>
                     <ContextMenuTrigger>
@@ -594,11 +576,10 @@ export default function Tickets() {
                               )}
                             </div>
                             <div>
-                              <span
-                                className={`inline-flex items-center rounded-md px-2 py-1 capitalize justify-center w-20 text-xs font-medium ring-1 ring-inset ring-gray-500/10 ${badge}`}
-                              >
-                                {ticket.priority}
-                              </span>
+                              <PriorityBadge
+                                priority={ticket.priority}
+                                className="justify-center w-20"
+                              />
                             </div>
                             <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-gray-500">
                               <span className="text-[11px] font-medium leading-none text-white uppercase">
@@ -694,9 +675,7 @@ export default function Tickets() {
                                     >
                                       <CheckIcon className={cn("h-4 w-4")} />
                                     </div>
-                                    <span className="capitalize">
-                                      {priority}
-                                    </span>
+                                    <span>{priorityName(priority)}</span>
                                   </CommandItem>
                                 ))}
                               </CommandGroup>
@@ -788,6 +767,18 @@ export default function Tickets() {
                 </button>
               </div>
             )}
+            {hasNextPage && (
+              <div className="flex justify-center py-3">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isFetchingNextPage}
+                  onClick={() => fetchNextPage()}
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       )}
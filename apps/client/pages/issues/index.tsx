@@ -1,54 +1,50 @@
+import BulkActionBar from "@/shadcn/components/tickets/BulkActionBar";
+import SnoozeDialog from "@/shadcn/components/tickets/SnoozeDialog";
 import TicketFilters from "@/shadcn/components/tickets/TicketFilters";
 import TicketKanban from "@/shadcn/components/tickets/TicketKanban";
 import TicketList from "@/shadcn/components/tickets/TicketList";
 import ViewSettings from "@/shadcn/components/tickets/ViewSettings";
 import { useTicketActions } from "@/shadcn/hooks/useTicketActions";
 import { useTicketFilters } from "@/shadcn/hooks/useTicketFilters";
-import { useTicketView } from "@/shadcn/hooks/useTicketView";
+import { useTicketQuery } from "@/shadcn/hooks/useTicketQuery";
+import { usePriorities } from "@/shadcn/hooks/usePriorities";
+import { useStatuses } from "@/shadcn/hooks/useStatuses";
+import { getKanbanColumns, useTicketView } from "@/shadcn/hooks/useTicketView";
+import { Ticket } from "@/shadcn/types/tickets";
 import { getCookie } from "cookies-next";
 import { Loader } from "lucide-react";
 import useTranslation from "next-translate/useTranslation";
 import { useRouter } from "next/router";
 import { useEffect, useState } from "react";
-import { useQuery } from "react-query";
 import { useUser } from "../../store/session";
 
-async function getUserTickets(token: any) {
-  const res = await fetch(`/api/v1/tickets/all`, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-    },
-  });
-  return res.json();
-}
-
 export default function Tickets() {
   const router = useRouter();
   const { t } = useTranslation("peppermint");
 
   const token = getCookie("session");
   const user = useUser();
-  
-  // Fetch tickets data
-  const { data, status, refetch } = useQuery(
-    "allusertickets",
-    () => getUserTickets(token),
-    {
-      refetchInterval: 5000,
-    }
-  );
+
+  const [users, setUsers] = useState<any[]>([]);
+  // Ticket ids checked in the list for bulk actions
+  const [selected, setSelected] = useState<string[]>([]);
+  const [snoozing, setSnoozing] = useState<Ticket | null>(null);
 
   // Custom hooks for managing state
   const {
     selectedPriorities,
     selectedStatuses,
     selectedAssignees,
+    selectedTags,
     handlePriorityToggle,
     handleStatusToggle,
     handleAssigneeToggle,
+    handleTagToggle,
     clearFilters,
-    filteredTickets
-  } = useTicketFilters(data?.tickets);
+    search,
+    setSearch,
+    params,
+  } = useTicketFilters(users);
 
   const {
     viewMode,
@@ -57,19 +53,59 @@ export default function Tickets() {
     setViewMode,
     setKanbanGrouping,
     setSortBy,
-    sortedTickets,
-    kanbanColumns,
     uiSettings,
     handleUISettingChange,
-  } = useTicketView(filteredTickets);
+  } = useTicketView();
+
+  // Fetch tickets data
+  const {
+    tickets,
+    truncated,
+    status,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useTicketQuery("allusertickets", token as string, {
+    ...params,
+    // Team queues from the sidebar link here with ?team=<id>
+    team: router.query.team ? [String(router.query.team)] : undefined,
+    // Snoozed issues are left out unless the sidebar asks for them
+    snoozed: router.query.snoozed === "only" ? "only" : undefined,
+    // Search results are ranked by relevance rather than the chosen sort
+    sort: params.q ? "relevance" : sortBy,
+  });
+
+  const { statuses } = useStatuses();
+  const { priorities } = usePriorities();
+
+  const kanbanColumns = getKanbanColumns(
+    tickets,
+    kanbanGrouping,
+    statuses,
+    priorities
+  );
 
   const {
     updateTicketStatus,
     updateTicketAssignee,
     updateTicketPriority,
-    deleteTicket
+    deleteTicket,
+    snoozeTicket,
+    bulkUpdate
   } = useTicketActions(token, refetch);
 
+  function toggleSelected(id: string) {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]
+    );
+  }
+
+  // Tickets that failed stay selected so they can be retried or inspected
+  async function bulkAction(operation: string, value?: any) {
+    setSelected(await bulkUpdate(selected, operation, value));
+  }
+
   // Update local storage when filters change
   useEffect(() => {
     localStorage.setItem(
@@ -86,8 +122,6 @@ export default function Tickets() {
     );
   }, [selectedPriorities, selectedStatuses, selectedAssignees]);
 
-  const [users, setUsers] = useState<any[]>([]);
-
   async function fetchUsers() {
     await fetch(`/api/v1/users/all`, {
       method: "GET",
@@ -126,11 +160,15 @@ export default function Tickets() {
           selectedPriorities={selectedPriorities}
           selectedStatuses={selectedStatuses}
           selectedAssignees={selectedAssignees}
+          selectedTags={selectedTags}
           users={users}
           onPriorityToggle={handlePriorityToggle}
           onStatusToggle={handleStatusToggle}
           onAssigneeToggle={handleAssigneeToggle}
+          onTagToggle={handleTagToggle}
           onClearFilters={clearFilters}
+          search={search}
+          onSearchChange={setSearch}
         />
         
         <ViewSettings
@@ -145,9 +183,28 @@ export default function Tickets() {
         />
       </div>
 
+      {truncated && (
+        <p className="px-6 py-1.5 text-xs text-muted-foreground border-b-[1px]">
+          Only the best matches of this search are shown, refine it to find
+          the rest.
+        </p>
+      )}
+
+      {viewMode === "list" && selected.length > 0 && (
+        <BulkActionBar
+          tickets={tickets.filter((ticket) => selected.includes(ticket.id))}
+          loaded={tickets.length}
+          users={users}
+          allowDelete={user.isAdmin}
+          onAction={bulkAction}
+          onSelectAll={() => setSelected(tickets.map((ticket) => ticket.id))}
+          onClear={() => setSelected([])}
+        />
+      )}
+
       {viewMode === "list" ? (
         <TicketList
-          tickets={sortedTickets}
+          tickets={tickets}
           onStatusChange={updateTicketStatus}
           onAssigneeChange={updateTicketAssignee}
           onPriorityChange={updateTicketPriority}
@@ -155,13 +212,31 @@ export default function Tickets() {
           users={users}
           currentUser={user}
           uiSettings={uiSettings}
+          hasMore={hasNextPage}
+          loadingMore={isFetchingNextPage}
+          onLoadMore={() => fetchNextPage()}
+          selected={selected}
+          onSelect={toggleSelected}
+          onSnooze={setSnoozing}
+          onWake={(ticket) => snoozeTicket(ticket.id)}
         />
       ) : (
         <TicketKanban 
           columns={kanbanColumns} 
           uiSettings={uiSettings}
+          hasMore={hasNextPage}
+          loadingMore={isFetchingNextPage}
+          onLoadMore={() => fetchNextPage()}
+          onSnooze={setSnoozing}
+          onWake={(ticket) => snoozeTicket(ticket.id)}
         />
       )}
+
+      <SnoozeDialog
+        ticket={snoozing}
+        onClose={() => setSnoozing(null)}
+        onSnooze={(until, note) => snoozeTicket(snoozing!.id, until, note)}
+      />
     </div>
   );
 }
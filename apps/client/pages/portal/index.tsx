@@ -1,3 +1,4 @@
+import PriorityBadge from "@/shadcn/components/tickets/PriorityBadge";
 import { useEffect, useState } from "react";
 
 import useTranslation from "next-translate/useTranslation";
@@ -135,21 +136,10 @@ export default function Home() {
                                 </dl>
                               </td>
                               <td className="hidden px-3 py-1 text-sm text-gray-500 lg:table-cell w-[64px]">
-                                {item.priority === "Low" && (
-                                  <span className="inline-flex w-full justify-center rounded-md bg-blue-50 px-2 py-1 text-xs font-medium text-blue-700  ring-1 ring-inset ring-blue-600/20">
-                                    {item.priority}
-                                  </span>
-                                )}
-                                {item.priority === "Normal" && (
-                                  <span className="inline-flex items-center w-full justify-center rounded-md bg-green-50 px-2 py-1 text-xs font-medium text-green-700 ring-1 ring-inset ring-green-600/20">
-                                    {item.priority}
-                                  </span>
-                                )}
-                                {item.priority === "High" && (
-                                  <span className="inline-flex items-center w-full justify-center rounded-md bg-red-50 px-2 py-1 text-xs font-medium text-red-700 ring-1 ring-inset ring-red-600/20">
-                                    {item.priority}
-                                  </span>
-                                )}
+                                <PriorityBadge
+                                  priority={item.priority}
+                                  className="w-full justify-center"
+                                />
                               </td>
                               <td className="hidden px-3 py-1 text-sm text-gray-500 sm:table-cell w-[64px]">
                                 {item.isComplete === true ? (
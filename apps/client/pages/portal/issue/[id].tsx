@@ -17,6 +17,8 @@ import useTranslation from "next-translate/useTranslation";
 import Frame from "react-frame-component";
 
 import { useUser } from "../../../store/session";
+import { usePriorities } from "@/shadcn/hooks/usePriorities";
+import { useStatuses } from "@/shadcn/hooks/useStatuses";
 import { classNames } from "@/shadcn/lib/utils";
 
 export default function Ticket() {
@@ -26,6 +28,8 @@ export default function Ticket() {
   const token = getCookie("session");
 
   const { user } = useUser();
+  const { statusName } = useStatuses();
+  const { priority, priorityName } = usePriorities();
 
   const fetchTicketById = async () => {
     const id = router.query.id;
@@ -264,51 +268,25 @@ export default function Ticket() {
                         </span>
                       </div>
                       <ul role="list" className="mt-2 leading-8 space-x-2">
-                        {data.ticket.priority === "Low" && (
-                          <li className="inline">
-                            <div className="relative inline-flex items-center rounded-full px-2.5 py-1 ring-1 ring-inset ring-gray-300 hover:bg-gray-50">
-                              <div className="absolute flex flex-shrink-0 items-center justify-center">
-                                <span
-                                  className="h-1.5 w-1.5 rounded-full bg-blue-500"
-                                  aria-hidden="true"
-                                />
-                              </div>
-                              <div className="ml-3 text-xs font-semibold text-gray-900">
-                                {data.ticket.priority} {t("priority")}
-                              </div>
-                            </div>
-                          </li>
-                        )}
-                        {data.ticket.priority === "Normal" && (
-                          <li className="inline">
-                            <div className="relative inline-flex items-center rounded-full px-2.5 py-1 ring-1 ring-inset ring-gray-300 hover:bg-gray-50">
-                              <div className="absolute flex flex-shrink-0 items-center justify-center">
-                                <span
-                                  className="h-1.5 w-1.5 rounded-full bg-green-500"
-                                  aria-hidden="true"
-                                />
-                              </div>
-                              <div className="ml-3 text-xs font-semibold text-gray-900">
-                                {data.ticket.priority} {t("priority")}
-                              </div>
+                        <li className="inline">
+                          <div className="relative inline-flex items-center rounded-full px-2.5 py-1 ring-1 ring-inset ring-gray-300 hover:bg-gray-50">
+                            <div className="absolute flex flex-shrink-0 items-center justify-center">
+                              <span
+                                className="h-1.5 w-1.5 rounded-full"
+                                style={{
+                                  backgroundColor:
+                                    priority(data.ticket.priority)?.color ||
+                                    "#6b7280",
+                                }}
+                                aria-hidden="true"
+                              />
                             </div>
-                          </li>
-                        )}
-                        {data.ticket.priority === "High" && (
-                          <li className="inline">
-                            <div className="relative inline-flex items-center rounded-full px-2.5 py-1 ring-1 ring-inset ring-gray-300 hover:bg-gray-50">
-                              <div className="absolute flex flex-shrink-0 items-center justify-center">
-                                <span
-                                  className="h-1.5 w-1.5 rounded-full bg-rose-500"
-                                  aria-hidden="true"
-                                />
-                              </div>
-                              <div className="ml-3 text-xs font-semibold text-gray-900">
-                                {data.ticket.priority} {t("priority")}
-                              </div>
+                            <div className="ml-3 text-xs font-semibold text-gray-900">
+                              {priorityName(data.ticket.priority)}{" "}
+                              {t("priority")}
                             </div>
-                          </li>
-                        )}
+                          </div>
+                        </li>
                         {data.ticket.status && (
                           <li className="inline">
                             <div className="relative inline-flex items-center rounded-full px-2.5 py-1 ring-1 ring-inset ring-gray-300 hover:bg-gray-50">
@@ -319,18 +297,7 @@ export default function Ticket() {
                                 />
                               </div>
                               <div className="ml-3 text-xs font-semibold text-gray-900">
-                                {data.ticket.status === "needs_support" && (
-                                  <span>Needs Support</span>
-                                )}
-                                {data.ticket.status === "in_progress" && (
-                                  <span>In Progress</span>
-                                )}
-                                {data.ticket.status === "in_review" && (
-                                  <span>In Review</span>
-                                )}
-                                {data.ticket.status === "done" && (
-                                  <span>Done</span>
-                                )}
+                                <span>{statusName(data.ticket.status)}</span>
                               </div>
                             </div>
                           </li>
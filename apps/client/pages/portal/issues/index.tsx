@@ -1,3 +1,4 @@
+import PriorityBadge from "@/shadcn/components/tickets/PriorityBadge";
 import useTranslation from "next-translate/useTranslation";
 import Loader from "react-spinners/ClipLoader";
 
@@ -26,10 +27,6 @@ export default function Tickets() {
     getUserTickets(token)
   );
 
-  const high = "bg-red-100 text-red-800";
-  const low = "bg-blue-100 text-blue-800";
-  const normal = "bg-green-100 text-green-800";
-
   return (
     <div>
       {status === "loading" && (
@@ -46,19 +43,6 @@ export default function Tickets() {
             </div>
             {data.tickets.length > 0 ? (
               data.tickets.map((ticket) => {
-                let p = ticket.priority;
-                let badge;
-
-                if (p === "Low") {
-                  badge = low;
-                }
-                if (p === "Normal") {
-                  badge = normal;
-                }
-                if (p === "High") {
-                  badge = high;
-                }
-
                 return (
                   <Link href={`/portal/issue/${ticket.id}`}>
                     <div className="flex flex-row w-full bg-white dark:bg-[#0A090C] dark:hover:bg-green-600 border-b-[1px] p-1.5 justify-between px-6 hover:bg-gray-100">
@@ -106,11 +90,10 @@ export default function Tickets() {
                           )}
                         </div>
                         <div>
-                          <span
-                            className={`inline-flex items-center rounded-md px-2 py-1 justify-center w-20 text-xs font-medium ring-1 ring-inset ring-gray-500/10 ${badge}`}
-                          >
-                            {ticket.priority}
-                          </span>
+                          <PriorityBadge
+                            priority={ticket.priority}
+                            className="justify-center w-20"
+                          />
                         </div>
                         <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-gray-500">
                           <span className="text-[11px] font-medium leading-none text-white uppercase">
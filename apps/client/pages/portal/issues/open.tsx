@@ -1,3 +1,4 @@
+import PriorityBadge from "@/shadcn/components/tickets/PriorityBadge";
 import useTranslation from "next-translate/useTranslation";
 import { useRouter } from "next/router";
 import Loader from "react-spinners/ClipLoader";
@@ -32,10 +33,6 @@ export default function Tickets() {
 
   const user = useUser();
 
-  const high = "bg-red-100 text-red-800";
-  const low = "bg-blue-100 text-blue-800";
-  const normal = "bg-green-100 text-green-800";
-
   return (
     <div>
       {status === "loading" && (
@@ -55,19 +52,6 @@ export default function Tickets() {
             </div>
             {data.tickets.length > 0 ? (
               data.tickets.map((ticket) => {
-                let p = ticket.priority;
-                let badge;
-
-                if (p === "Low") {
-                  badge = low;
-                }
-                if (p === "Normal") {
-                  badge = normal;
-                }
-                if (p === "High") {
-                  badge = high;
-                }
-
                 return (
                   <Link href={`/portal/issue/${ticket.id}`}>
                     <div className="flex flex-row w-full bg-white dark:bg-[#0A090C] dark:hover:bg-green-600 border-b-[1px] p-2 justify-between px-6 hover:bg-gray-100">
@@ -84,11 +68,10 @@ export default function Tickets() {
                           created at{" "}
                           {moment(ticket.createdAt).format("DD/MM/yyyy")}
                         </span>
-                        <span
-                          className={`inline-flex items-center rounded-md px-2 justify-center w-16 py-1 text-xs font-medium ring-1 ring-inset ring-gray-500/10 ${badge}`}
-                        >
-                          {ticket.priority}
-                        </span>
+                        <PriorityBadge
+                          priority={ticket.priority}
+                          className="justify-center w-16"
+                        />
                         <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-gray-500">
                           <span className="text-[11px] font-medium leading-none text-white uppercase">
                             {ticket.assignedTo ? ticket.assignedTo.name[0] : ""}
@@ -11,10 +11,13 @@ import {
   CheckIcon,
   ChevronUpDownIcon,
 } from "@heroicons/react/20/solid";
+import { getCookie } from "cookies-next";
 import { useRouter } from "next/router";
-import { Fragment, useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 import { useUser } from "../../store/session";
 import { toast } from "@/shadcn/hooks/use-toast";
+import { usePriorities } from "@/shadcn/hooks/usePriorities";
+import CustomFields from "../../components/CustomFields";
 
 const type = [
   { id: 5, name: "Incident" },
@@ -26,12 +29,6 @@ const type = [
   { id: 8, name: "Feedback" },
 ];
 
-const pri = [
-  { id: 7, name: "Low" },
-  { id: 8, name: "Medium" },
-  { id: 9, name: "High" },
-];
-
 export default function ClientTicketNew() {
   function classNames(...classes) {
     return classes.filter(Boolean).join(" ");
@@ -47,7 +44,33 @@ export default function ClientTicketNew() {
   const [selected, setSelected] = useState(type[2]);
   const [subject, setSubject] = useState("");
   const [description, setDescription] = useState("");
-  const [priority, setPriority] = useState(pri[0]);
+  const { priorities } = usePriorities();
+  const [priority, setPriority] = useState<any>(null);
+  const [fields, setFields] = useState<any[]>([]);
+  const [customFields, setCustomFields] = useState<Record<string, any>>({});
+
+  // Until the customer picks one the default priority applies
+  const chosen =
+    priority ||
+    priorities.find((p) => p.isDefault) ||
+    priorities[priorities.length - 1];
+
+  useEffect(() => {
+    fetch(
+      `/api/v1/custom-fields/all?portal=true&type=${selected.name.toLowerCase()}`,
+      {
+        headers: {
+          Authorization: `Bearer ${getCookie("session")}`,
+        },
+      }
+    )
+      .then((res) => res.json())
+      .then((res) => {
+        if (res.fields) {
+          setFields(res.fields);
+        }
+      });
+  }, [selected]);
 
   async function submitTicket() {
     setIsLoading(true);
@@ -55,14 +78,20 @@ export default function ClientTicketNew() {
       method: "POST",
       headers: {
         "content-type": "application/json",
+        Authorization: `Bearer ${getCookie("session")}`,
       },
       body: JSON.stringify({
         name: user.name,
         title: subject,
         email: user.email,
         detail: description,
-        priority: priority.name,
+        priority: chosen?.key,
         type: selected.name,
+        customFields: Object.fromEntries(
+          fields
+            .filter((field) => customFields[field.key] !== undefined)
+            .map((field) => [field.key, customFields[field.key]])
+        ),
         createdBy: {
           id: user.id,
           name: user.name,
@@ -85,7 +114,8 @@ export default function ClientTicketNew() {
           toast({
             variant: "destructive",
             title: "Error",
-            description: "Please fill out all information and try again",
+            description:
+              res.message || "Please fill out all information and try again",
           });
         }
       });
@@ -192,7 +222,7 @@ export default function ClientTicketNew() {
               )}
             </Listbox>
 
-            <Listbox value={priority} onChange={setPriority}>
+            <Listbox value={chosen} onChange={setPriority}>
               {({ open }) => (
                 <>
                   <Listbox.Label className="block text-sm font-medium leading-6 text-gray-900">
@@ -200,7 +230,7 @@ export default function ClientTicketNew() {
                   </Listbox.Label>
                   <div className="relative mt-2">
                     <Listbox.Button className="relative w-full cursor-default rounded-md bg-white py-1.5 pl-3 pr-10 text-left text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:outline-none sm:text-sm sm:leading-6">
-                      <span className="block truncate">{priority.name}</span>
+                      <span className="block truncate">{chosen?.name}</span>
                       <span className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-2">
                         <ChevronUpDownIcon
                           className="h-5 w-5 text-gray-400"
@@ -217,7 +247,7 @@ export default function ClientTicketNew() {
                       leaveTo="opacity-0"
                     >
                       <Listbox.Options className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white py-1 text-base shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none sm:text-sm">
-                        {pri.map((person) => (
+                        {priorities.map((person) => (
                           <Listbox.Option
                             key={person.id}
                             className={({ active }) =>
@@ -286,6 +316,12 @@ export default function ClientTicketNew() {
               </div>
             </div>
 
+            <CustomFields
+              fields={fields}
+              values={customFields}
+              onChange={setCustomFields}
+            />
+
             <button
               type="button"
               onClick={submitTicket}
@@ -0,0 +1,295 @@
+import { toast } from "@/shadcn/hooks/use-toast";
+import { useMacros } from "@/shadcn/hooks/useMacros";
+import { usePriorities } from "@/shadcn/hooks/usePriorities";
+import { useStatuses } from "@/shadcn/hooks/useStatuses";
+import { Button } from "@/shadcn/ui/button";
+import { Input } from "@/shadcn/ui/input";
+import { Label } from "@/shadcn/ui/label";
+import { Switch } from "@/shadcn/ui/switch";
+import { getCookie } from "cookies-next";
+import { useEffect, useState } from "react";
+import { useUser } from "../../store/session";
+
+const emptyMacro = {
+  name: "",
+  body: "",
+  public: true,
+  shared: false,
+  status: "",
+  priority: "",
+  assignee: "",
+};
+
+const placeholders = [
+  "name",
+  "email",
+  "number",
+  "title",
+  "status",
+  "priority",
+  "agentName",
+  "agentEmail",
+];
+
+async function request(url: string, method: string, body?: any) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${getCookie("session")}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((res) => res.json());
+
+  if (!res.success) {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: res.message,
+    });
+  }
+
+  return res;
+}
+
+export default function Macros() {
+  const { user } = useUser();
+  const [macro, setMacro] = useState<any>(null);
+  const [users, setUsers] = useState<any[]>([]);
+
+  const { macros, refetch } = useMacros();
+  const { statuses, statusName } = useStatuses();
+  const { priorities, priorityName } = usePriorities();
+
+  useEffect(() => {
+    fetch(`/api/v1/users/all`, {
+      headers: {
+        Authorization: `Bearer ${getCookie("session")}`,
+      },
+    })
+      .then((res) => res.json())
+      .then((res) => setUsers(res.users || []));
+  }, []);
+
+  function describe(m: any) {
+    const changes: string[] = [];
+
+    if (m.status) changes.push(`status ${statusName(m.status)}`);
+    if (m.priority) changes.push(`priority ${priorityName(m.priority)}`);
+    if (m.assignee === "me") changes.push("assign to me");
+    else if (m.assignee === "unassigned") changes.push("unassign");
+    else if (m.assignee) {
+      const assignee = users.find((u) => u.id === m.assignee);
+      changes.push(`assign to ${assignee?.name ?? "a removed user"}`);
+    }
+
+    return changes.join(", ");
+  }
+
+  async function save() {
+    const body = {
+      name: macro.name,
+      body: macro.body,
+      public: macro.public,
+      shared: macro.shared,
+      status: macro.status || null,
+      priority: macro.priority || null,
+      assignee: macro.assignee || null,
+    };
+
+    const res = macro.id
+      ? await request(`/api/v1/macro/${macro.id}/update`, "PUT", body)
+      : await request(`/api/v1/macro/create`, "POST", body);
+
+    if (res.success) {
+      setMacro(null);
+      refetch();
+    }
+  }
+
+  async function remove(m: any) {
+    if (!confirm(`Delete ${m.name}?`)) {
+      return;
+    }
+
+    await request(`/api/v1/macro/${m.id}/delete`, "DELETE");
+    refetch();
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex flex-col space-y-1">
+          <h1 className="text-2xl font-bold">Macros</h1>
+          <span className="text-sm text-foreground">
+            Canned replies you can apply from the comment box of an issue,
+            optionally changing its status, priority or assignee at the same
+            time
+          </span>
+        </div>
+        {macro ? (
+          <Button variant="outline" onClick={() => setMacro(null)}>
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={() => setMacro(emptyMacro)}>New Macro</Button>
+        )}
+      </div>
+
+      {macro ? (
+        <div className="space-y-6 max-w-xl">
+          <div className="space-y-1">
+            <Label htmlFor="name">Name</Label>
+            <Input
+              id="name"
+              value={macro.name}
+              onChange={(e) => setMacro({ ...macro, name: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="body">Reply</Label>
+            <textarea
+              id="body"
+              className="w-full rounded-md border bg-transparent p-2 text-sm"
+              rows={6}
+              placeholder="Hi {{name}}, thanks for getting in touch about #{{number}}..."
+              value={macro.body}
+              onChange={(e) => setMacro({ ...macro, body: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Placeholders:{" "}
+              {placeholders.map((p) => `{{${p}}}`).join(", ")}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={macro.status ?? ""}
+              onChange={(e) => setMacro({ ...macro, status: e.target.value })}
+              className="rounded-md border bg-transparent px-2 py-1 text-sm"
+            >
+              <option value="">Keep status</option>
+              {statuses.map((s) => (
+                <option key={s.key} value={s.key}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={macro.priority ?? ""}
+              onChange={(e) =>
+                setMacro({ ...macro, priority: e.target.value })
+              }
+              className="rounded-md border bg-transparent px-2 py-1 text-sm"
+            >
+              <option value="">Keep priority</option>
+              {priorities.map((p) => (
+                <option key={p.key} value={p.key}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={macro.assignee ?? ""}
+              onChange={(e) =>
+                setMacro({ ...macro, assignee: e.target.value })
+              }
+              className="rounded-md border bg-transparent px-2 py-1 text-sm"
+            >
+              <option value="">Keep assignee</option>
+              <option value="me">Assign to me</option>
+              <option value="unassigned">Unassign</option>
+              {users.map((u) => (
+                <option key={u.id} value={u.id}>
+                  {u.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="public">Public reply, emailed to the requester</Label>
+            <Switch
+              id="public"
+              checked={macro.public}
+              onCheckedChange={(checked) =>
+                setMacro({ ...macro, public: checked })
+              }
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="shared">Shared with all agents</Label>
+            <Switch
+              id="shared"
+              checked={macro.shared}
+              onCheckedChange={(checked) =>
+                setMacro({ ...macro, shared: checked })
+              }
+            />
+          </div>
+
+          <Button onClick={save} disabled={!macro.name}>
+            Save Macro
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {macros.length === 0 && (
+            <p className="text-sm text-muted-foreground">No macros yet.</p>
+          )}
+          {macros.map((m) => (
+            <div
+              key={m.id}
+              className="flex flex-row items-center justify-between p-4 border rounded-lg space-x-3"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-bold">
+                  {m.name}
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    {m.shared ? "Shared" : "Personal"}
+                    {m.body && (m.public ? " · Public" : " · Internal")}
+                  </span>
+                </div>
+                <div className="text-xs text-foreground truncate">
+                  {m.body || describe(m)}
+                </div>
+                {m.body && describe(m) && (
+                  <div className="text-xs text-muted-foreground truncate">
+                    Also: {describe(m)}
+                  </div>
+                )}
+              </div>
+              {(m.shared || m.userId === user.id) && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      setMacro({
+                        ...m,
+                        status: m.status ?? "",
+                        priority: m.priority ?? "",
+                        assignee: m.assignee ?? "",
+                      })
+                    }
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => remove(m)}
+                  >
+                    Delete
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}